@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AppConfig } from '../config';
+import type { User } from '../models/User';
+import { SessionRepository } from '../repositories/SessionRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { InMemoryDocumentStore } from '../storage/InMemoryDocumentStore';
+import { AuthService } from './AuthService';
+import { TokenService } from './tokens';
+
+const authConfig: AppConfig['auth'] = {
+  jwtSecret: 'test-secret',
+  accessTokenTtl: '15m',
+  refreshTokenTtlDays: 30,
+  issuer: 'shopflow-test',
+  bootstrapAdmin: undefined,
+  refreshCookie: { name: 'sf_refresh', path: '/api/auth', secure: false }
+};
+
+const user: User = {
+  id: 'user-1',
+  email: 'shopper@example.com',
+  firstName: 'Sam',
+  lastName: 'Shopper',
+  subscribeToNewsletter: false,
+  role: 'customer',
+  passwordHash: 'unused',
+  createdAt: '2026-01-01T00:00:00.000Z'
+};
+
+describe('AuthService.refresh', () => {
+  let auth: AuthService;
+
+  beforeEach(async () => {
+    const store = new InMemoryDocumentStore();
+    const users = new UserRepository(store);
+    await users.save(user);
+    auth = new AuthService(users, new SessionRepository(store), new TokenService(authConfig), authConfig);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rotates the refresh token and keeps the session', async () => {
+    const session = await auth.startSession(user);
+    const rotated = await auth.refresh(session.refreshToken);
+
+    expect(rotated.refreshToken).not.toBe(session.refreshToken);
+    expect(await auth.authenticate(rotated.accessToken)).toMatchObject({ id: user.id, role: 'customer' });
+    await expect(auth.refresh(rotated.refreshToken)).resolves.toMatchObject({ user: { id: user.id } });
+  });
+
+  it('revokes the whole session when a used token comes back', async () => {
+    const session = await auth.startSession(user);
+    const rotated = await auth.refresh(session.refreshToken);
+
+    await expect(auth.refresh(session.refreshToken)).rejects.toMatchObject({ status: 401, code: 'REFRESH_TOKEN_REUSED' });
+    // The legitimate holder of the newer token is signed out too.
+    await expect(auth.refresh(rotated.refreshToken)).rejects.toMatchObject({ code: 'SESSION_REVOKED' });
+    expect(await auth.authenticate(rotated.accessToken)).toBeUndefined();
+  });
+
+  it('lets only one of several concurrent refreshes with the same token succeed', async () => {
+    const session = await auth.startSession(user);
+    const results = await Promise.allSettled([1, 2, 3].map(() => auth.refresh(session.refreshToken)));
+
+    expect(results.filter(({ status }) => status === 'fulfilled')).toHaveLength(1);
+    expect(results
+      .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+      .map(({ reason }) => reason.code))
+      .toEqual(['REFRESH_TOKEN_REUSED', 'SESSION_REVOKED']);
+  });
+
+  it('rejects unknown, expired and signed-out tokens', async () => {
+    await expect(auth.refresh('not-a-token')).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+
+    const signedOut = await auth.startSession(user);
+    await auth.revokeByRefreshToken(signedOut.refreshToken, 'logout');
+    await expect(auth.refresh(signedOut.refreshToken)).rejects.toMatchObject({ code: 'SESSION_REVOKED' });
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T00:00:00Z'));
+    const expiring = await auth.startSession(user);
+    vi.setSystemTime(new Date('2026-04-01T00:00:00Z'));
+    await expect(auth.refresh(expiring.refreshToken)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_EXPIRED' });
+  });
+});
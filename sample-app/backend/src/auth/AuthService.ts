@@ -0,0 +1,154 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { KeyedQueue } from '../concurrency/KeyedQueue';
+import type { AppConfig } from '../config';
+import { ApiError } from '../errors';
+import type { SessionRevocationReason } from '../models/Session';
+import type { User } from '../models/User';
+import type { SessionRepository, UserRepository } from '../repositories';
+import type { AuthUser, TokenService } from './tokens';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface IssuedSession {
+  user: User;
+  accessToken: string;
+  expiresIn: string;
+  refreshToken: string;
+  refreshExpiresAt: Date;
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const refreshFailed = (code: string, message: string) => new ApiError(401, code, message);
+
+/**
+ * Owns sessions and refresh-token rotation. Each refresh token can be used
+ * once; presenting a used token means it leaked, so the whole session (the
+ * token family) is revoked and every device on it must sign in again.
+ */
+export class AuthService {
+  /** Refreshes per session, so two requests racing with one token can't both rotate it. */
+  private readonly refreshes = new KeyedQueue();
+
+  constructor(
+    private readonly users: UserRepository,
+    private readonly sessions: SessionRepository,
+    private readonly tokens: TokenService,
+    private readonly authConfig: AppConfig['auth']
+  ) {}
+
+  async startSession(user: User, userAgent?: string): Promise<IssuedSession> {
+    const now = new Date();
+    const session = await this.sessions.saveSession({
+      id: randomUUID(),
+      userId: user.id,
+      createdAt: now.toISOString(),
+      lastUsedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.authConfig.refreshTokenTtlDays * DAY_MS).toISOString(),
+      ...(userAgent ? { userAgent } : {})
+    });
+
+    return this.issue(user, session.id, now);
+  }
+
+  /** Exchanges a refresh token for a new access token and a new refresh token. */
+  async refresh(refreshToken: string): Promise<IssuedSession> {
+    const found = await this.sessions.findRefreshToken(hashToken(refreshToken));
+    if (!found) {
+      throw refreshFailed('INVALID_REFRESH_TOKEN', 'The refresh token is not recognised.');
+    }
+
+    // Read again inside the queue: the request ahead may just have used this token.
+    return this.refreshes.run(found.sessionId, () => this.rotate(hashToken(refreshToken)));
+  }
+
+  /** Revokes the session a refresh token belongs to; unknown tokens are ignored. */
+  async revokeByRefreshToken(refreshToken: string, reason: SessionRevocationReason): Promise<void> {
+    const record = await this.sessions.findRefreshToken(hashToken(refreshToken));
+    if (record) {
+      await this.revokeSession(record.sessionId, reason);
+    }
+  }
+
+  async revokeSession(sessionId: string, reason: SessionRevocationReason): Promise<void> {
+    const session = await this.sessions.findSession(sessionId);
+    if (session && !session.revokedAt) {
+      await this.sessions.saveSession({ ...session, revokedAt: new Date().toISOString(), revokedReason: reason });
+    }
+  }
+
+  async revokeAllSessions(userId: string, reason: SessionRevocationReason): Promise<number> {
+    const active = (await this.sessions.listSessionsForUser(userId)).filter((session) => !session.revokedAt);
+    await Promise.all(active.map((session) => this.revokeSession(session.id, reason)));
+    return active.length;
+  }
+
+  /**
+   * Verifies an access token and that its session is still live. The role
+   * comes from the stored user rather than the token, so a role change takes
+   * effect on the next request instead of when the token expires.
+   */
+  async authenticate(accessToken: string): Promise<AuthUser | undefined> {
+    const claims = this.tokens.verifyAccessToken(accessToken);
+    if (!claims) {
+      return undefined;
+    }
+
+    const session = await this.sessions.findSession(claims.sessionId);
+    if (!session || session.revokedAt) {
+      return undefined;
+    }
+
+    const user = await this.users.findById(claims.id);
+    return user ? { ...claims, email: user.email, role: user.role } : undefined;
+  }
+
+  /** Must run inside {@link refreshes} for the token's session. */
+  private async rotate(tokenHash: string): Promise<IssuedSession> {
+    const record = await this.sessions.findRefreshToken(tokenHash);
+    if (!record) {
+      throw refreshFailed('INVALID_REFRESH_TOKEN', 'The refresh token is not recognised.');
+    }
+
+    const session = await this.sessions.findSession(record.sessionId);
+    if (!session || session.revokedAt) {
+      throw refreshFailed('SESSION_REVOKED', 'This session has been signed out.');
+    }
+
+    if (record.usedAt) {
+      await this.revokeSession(session.id, 'refresh_token_reuse');
+      throw refreshFailed('REFRESH_TOKEN_REUSED', 'This refresh token was already used; the session has been revoked.');
+    }
+
+    const now = new Date();
+    if (new Date(record.expiresAt) <= now) {
+      throw refreshFailed('REFRESH_TOKEN_EXPIRED', 'The refresh token has expired. Please sign in again.');
+    }
+
+    const user = await this.users.findById(record.userId);
+    if (!user) {
+      throw refreshFailed('INVALID_REFRESH_TOKEN', 'The account for this session no longer exists.');
+    }
+
+    await this.sessions.saveRefreshToken({ ...record, usedAt: now.toISOString() });
+    await this.sessions.saveSession({ ...session, lastUsedAt: now.toISOString() });
+
+    return this.issue(user, session.id, now);
+  }
+
+  private async issue(user: User, sessionId: string, now: Date): Promise<IssuedSession> {
+    const refreshToken = randomBytes(32).toString('base64url');
+    const refreshExpiresAt = new Date(now.getTime() + this.authConfig.refreshTokenTtlDays * DAY_MS);
+
+    await this.sessions.saveRefreshToken({
+      id: hashToken(refreshToken),
+      sessionId,
+      userId: user.id,
+      createdAt: now.toISOString(),
+      expiresAt: refreshExpiresAt.toISOString()
+    });
+
+    const { token, expiresIn } = this.tokens.issueAccessToken(user, sessionId);
+    return { user, accessToken: token, expiresIn, refreshToken, refreshExpiresAt };
+  }
+}
@@ -0,0 +1,76 @@
+import { createHash, randomBytes } from 'crypto';
+import type { AppConfig } from '../config';
+import { ApiError } from '../errors';
+import type { MailService } from '../mail/MailService';
+import type { PasswordResetRepository, UserRepository } from '../repositories';
+import type { AuthService } from './AuthService';
+import { checkPasswordPolicy, hashPassword } from './passwords';
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const invalidLink = () =>
+  new ApiError(400, 'INVALID_RESET_TOKEN', 'This password reset link is invalid or has expired. Please request a new one.');
+
+/**
+ * Password resets by email. A request mails a one-time link (the token is
+ * stored only as a hash) and never reveals whether the address has an
+ * account. Using the link sets the new password, voids every other
+ * outstanding link and signs the account out everywhere.
+ */
+export class PasswordResetService {
+  constructor(
+    private readonly users: UserRepository,
+    private readonly resets: PasswordResetRepository,
+    private readonly auth: AuthService,
+    private readonly mail: MailService,
+    private readonly mailConfig: AppConfig['mail']
+  ) {}
+
+  async request(email: string): Promise<void> {
+    const user = await this.users.findByEmail(email);
+    if (!user) {
+      return;
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const now = new Date();
+    await this.resets.save({
+      id: hashToken(token),
+      userId: user.id,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.mailConfig.passwordResetTtlMinutes * 60_000).toISOString()
+    });
+
+    await this.mail.queue('passwordReset', user.email, {
+      firstName: user.firstName,
+      resetUrl: `${this.mailConfig.appUrl}/reset-password?token=${encodeURIComponent(token)}`,
+      expiresInMinutes: this.mailConfig.passwordResetTtlMinutes
+    });
+  }
+
+  async reset(token: string, password: string): Promise<void> {
+    const problem = checkPasswordPolicy(password);
+    if (problem) {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'The request body failed validation.', [problem]);
+    }
+
+    const now = new Date();
+    const reset = await this.resets.findById(hashToken(token));
+    if (!reset || reset.usedAt || new Date(reset.expiresAt) <= now) {
+      throw invalidLink();
+    }
+
+    const user = await this.users.findById(reset.userId);
+    if (!user) {
+      throw invalidLink();
+    }
+
+    await this.users.save({ ...user, passwordHash: await hashPassword(password) });
+    for (const outstanding of await this.resets.findByUser(user.id)) {
+      if (!outstanding.usedAt) {
+        await this.resets.save({ ...outstanding, usedAt: now.toISOString() });
+      }
+    }
+    await this.auth.revokeAllSessions(user.id, 'password_reset');
+  }
+}
@@ -0,0 +1,39 @@
+import { randomUUID } from 'crypto';
+import type { AppConfig } from '../config';
+import type { UserRepository } from '../repositories';
+import { checkPasswordPolicy, hashPassword } from './passwords';
+
+/**
+ * Makes sure the account named by `ADMIN_EMAIL` exists and is an admin, so a
+ * fresh store always has someone who can grant roles. An existing account
+ * keeps its password; only its role is raised.
+ */
+export const ensureBootstrapAdmin = async (
+  userRepository: UserRepository,
+  bootstrap: NonNullable<AppConfig['auth']['bootstrapAdmin']>
+): Promise<void> => {
+  const existing = await userRepository.findByEmail(bootstrap.email);
+
+  if (existing) {
+    if (existing.role !== 'admin') {
+      await userRepository.save({ ...existing, role: 'admin' });
+    }
+    return;
+  }
+
+  const passwordProblem = checkPasswordPolicy(bootstrap.password);
+  if (passwordProblem) {
+    throw new Error(`Invalid ADMIN_PASSWORD: ${passwordProblem.message}.`);
+  }
+
+  await userRepository.save({
+    id: randomUUID(),
+    email: bootstrap.email,
+    firstName: 'Store',
+    lastName: 'Admin',
+    subscribeToNewsletter: false,
+    role: 'admin',
+    passwordHash: await hashPassword(bootstrap.password),
+    createdAt: new Date().toISOString()
+  });
+};
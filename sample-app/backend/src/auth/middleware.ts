@@ -0,0 +1,66 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { ApiError } from '../errors';
+import type { AuthService } from './AuthService';
+import { hasPermission, type Permission } from './permissions';
+import type { AuthUser } from './tokens';
+
+const bearerToken = (req: Request): string | undefined => {
+  const header = req.get('authorization');
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1];
+};
+
+/**
+ * Attaches `req.user` when the request carries a valid bearer token for a
+ * live session. With `required`, requests without one are rejected with 401.
+ */
+export const authenticate = (auth: AuthService, { required = true } = {}): RequestHandler =>
+  (req: Request, _res: Response, next: NextFunction) => {
+    const token = bearerToken(req);
+
+    (token ? auth.authenticate(token) : Promise.resolve(undefined))
+      .then((user) => {
+        if (user) {
+          req.user = user;
+          return next();
+        }
+
+        if (!required) {
+          return next();
+        }
+
+        next(new ApiError(
+          401,
+          token ? 'INVALID_TOKEN' : 'UNAUTHENTICATED',
+          token ? 'The access token is invalid, expired or revoked.' : 'Authentication is required.'
+        ));
+      })
+      .catch(next);
+  };
+
+/** The authenticated caller; only for handlers mounted behind {@link authenticate}. */
+export const currentUser = (req: Request): AuthUser => {
+  if (!req.user) {
+    throw new ApiError(401, 'UNAUTHENTICATED', 'Authentication is required.');
+  }
+  return req.user;
+};
+
+/**
+ * Rejects callers whose role lacks any of `permissions`. Mount after
+ * {@link authenticate}; anonymous requests get 401, signed-in ones 403.
+ */
+export const requirePermission = (...permissions: Permission[]): RequestHandler =>
+  (req: Request, _res: Response, next: NextFunction) => {
+    const user = req.user;
+    if (!user) {
+      return next(new ApiError(401, 'UNAUTHENTICATED', 'Authentication is required.'));
+    }
+
+    const missing = permissions.filter((permission) => !hasPermission(user.role, permission));
+    if (missing.length > 0) {
+      return next(new ApiError(403, 'FORBIDDEN', `This action requires the ${missing.join(', ')} permission.`));
+    }
+
+    next();
+  };
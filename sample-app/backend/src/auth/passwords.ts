@@ -0,0 +1,43 @@
+import { randomBytes, scrypt as scryptCallback, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { ErrorDetail } from '../errors';
+
+const scrypt = promisify(scryptCallback) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+/**
+ * The same rules `RegisterPage.validateForm` enforces on the client: at least
+ * 8 characters with one lowercase letter, one uppercase letter and one digit.
+ */
+export const checkPasswordPolicy = (password: string): ErrorDetail | undefined => {
+  if (password.length < 8) {
+    return { field: 'password', message: 'Password must be at least 8 characters' };
+  }
+  if (!/(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/.test(password)) {
+    return {
+      field: 'password',
+      message: 'Password must contain at least one uppercase letter, one lowercase letter, and one number'
+    };
+  }
+  return undefined;
+};
+
+/** Hashes with scrypt and a per-password random salt, stored as `scrypt$<salt>$<hash>`. */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+};
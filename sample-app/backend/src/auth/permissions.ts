@@ -0,0 +1,25 @@
+import type { UserRole } from '../models/User';
+
+export type Permission =
+  | 'catalog:write'
+  | 'orders:manage'
+  | 'reviews:moderate'
+  | 'users:manage'
+  | 'webhooks:manage';
+
+export const ROLES: UserRole[] = ['customer', 'staff', 'admin'];
+
+/**
+ * The single source of truth for what each role may do. Routes check
+ * permissions, never role names, so adding a role only touches this table.
+ */
+const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  customer: [],
+  staff: ['catalog:write', 'orders:manage', 'reviews:moderate'],
+  admin: ['catalog:write', 'orders:manage', 'reviews:moderate', 'users:manage', 'webhooks:manage']
+};
+
+export const permissionsFor = (role: UserRole): Permission[] => [...ROLE_PERMISSIONS[role]];
+
+export const hasPermission = (role: UserRole, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].includes(permission);
@@ -0,0 +1,54 @@
+import jwt from 'jsonwebtoken';
+import type { AppConfig } from '../config';
+import type { User, UserRole } from '../models/User';
+
+/** What a verified access token tells us about the caller. */
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: UserRole;
+  sessionId: string;
+}
+
+interface AccessTokenClaims {
+  sub: string;
+  email: string;
+  role: UserRole;
+  sid: string;
+}
+
+export class TokenService {
+  constructor(private readonly authConfig: AppConfig['auth']) {}
+
+  issueAccessToken(user: User, sessionId: string): { token: string; expiresIn: string } {
+    const claims: AccessTokenClaims = { sub: user.id, email: user.email, role: user.role, sid: sessionId };
+    const token = jwt.sign(claims, this.authConfig.jwtSecret, {
+      algorithm: 'HS256',
+      expiresIn: this.authConfig.accessTokenTtl as jwt.SignOptions['expiresIn'],
+      issuer: this.authConfig.issuer
+    });
+
+    return { token, expiresIn: this.authConfig.accessTokenTtl };
+  }
+
+  /**
+   * Checks the signature and expiry only. Use `AuthService.authenticate` to
+   * also reject tokens whose session has been revoked.
+   */
+  verifyAccessToken(token: string): AuthUser | undefined {
+    try {
+      const claims = jwt.verify(token, this.authConfig.jwtSecret, {
+        algorithms: ['HS256'],
+        issuer: this.authConfig.issuer
+      }) as jwt.JwtPayload & Partial<AccessTokenClaims>;
+
+      if (!claims.sub || !claims.email || !claims.role || !claims.sid) {
+        return undefined;
+      }
+
+      return { id: claims.sub, email: claims.email, role: claims.role, sessionId: claims.sid };
+    } catch {
+      return undefined;
+    }
+  }
+}
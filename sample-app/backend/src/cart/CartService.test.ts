@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { guestCartId, userCartId } from '../models/Cart';
+import type { Promotion } from '../models/Promotion';
+import { createTestServices, product } from '../testing/fixtures';
+
+const cartId = userCartId('user-1');
+const guestId = guestCartId('guest-token');
+
+const tenOff: Promotion = {
+  id: 'ten-off',
+  name: '10% off',
+  code: 'TENOFF',
+  benefit: { type: 'percent-off', percent: 10 },
+  stacking: 'stackable',
+  active: true
+};
+
+const fiveOff: Promotion = {
+  id: 'five-off',
+  name: '$5 off',
+  code: 'FIVEOFF',
+  benefit: { type: 'fixed-off', amount: 5 },
+  stacking: 'stackable',
+  active: true
+};
+
+const quantities = async (services: ReturnType<typeof createTestServices>, id: string) =>
+  Object.fromEntries((await services.cartService.view(id)).items.map(({ productId, quantity }) => [productId, quantity]));
+
+describe('CartService', () => {
+  describe('stock limits', () => {
+    it('refuses more units than are on sale', async () => {
+      const services = createTestServices({ products: [product({ id: 'book', stockQuantity: 3 })] });
+      await services.cartService.addItem(cartId, 'book', 2);
+
+      await expect(services.cartService.addItem(cartId, 'book', 2)).rejects.toMatchObject({
+        status: 409,
+        code: 'INSUFFICIENT_STOCK',
+        details: [{ field: 'quantity', message: 'must be at most 3' }]
+      });
+      await expect(services.cartService.setQuantity(cartId, 'book', 4)).rejects.toMatchObject({ code: 'INSUFFICIENT_STOCK' });
+      expect(await quantities(services, cartId)).toEqual({ book: 2 });
+    });
+
+    it('says when a product is sold out', async () => {
+      const services = createTestServices({ products: [product({ id: 'book', stockQuantity: 0 })] });
+
+      await expect(services.cartService.addItem(cartId, 'book', 1)).rejects.toMatchObject({ status: 409, code: 'OUT_OF_STOCK' });
+    });
+
+    it('caps a line at ten units however much is in stock', async () => {
+      const services = createTestServices({ products: [product({ id: 'book', stockQuantity: 50 })] });
+
+      await expect(services.cartService.addItem(cartId, 'book', 11)).rejects.toMatchObject({ code: 'INSUFFICIENT_STOCK' });
+      expect((await services.cartService.addItem(cartId, 'book', 10)).items[0].maxQuantity).toBe(10);
+    });
+
+    it('counts the units its own checkout reservation holds', async () => {
+      const services = createTestServices({ products: [product({ id: 'book', stockQuantity: 3 })] });
+      await services.cartService.addItem(cartId, 'book', 2);
+      await services.cartService.reserve(cartId, 'user-1');
+
+      // One unit is left on sale, plus the two this cart holds.
+      const view = await services.cartService.setQuantity(cartId, 'book', 3);
+      expect(view.items[0]).toMatchObject({ quantity: 3, maxQuantity: 3 });
+    });
+  });
+
+  describe('merge', () => {
+    it('adds guest lines to the user cart, capped at what is available', async () => {
+      const services = createTestServices({
+        products: [product({ id: 'book', stockQuantity: 4 }), product({ id: 'pen', stockQuantity: 5 })],
+        promotions: [tenOff, fiveOff]
+      });
+      await services.cartService.addItem(cartId, 'book', 3);
+      await services.cartService.applyCoupon(cartId, 'TENOFF');
+      await services.cartService.addItem(guestId, 'book', 2);
+      await services.cartService.addItem(guestId, 'pen', 1);
+      await services.cartService.applyCoupon(guestId, 'FIVEOFF');
+
+      await services.cartService.merge(guestId, cartId);
+
+      expect(await quantities(services, cartId)).toEqual({ book: 4, pen: 1 });
+      expect((await services.cartService.view(cartId)).couponCodes).toEqual(['TENOFF', 'FIVEOFF']);
+      expect(await services.carts.findById(guestId)).toBeUndefined();
+    });
+
+    it('drops guest lines for products that sold out meanwhile', async () => {
+      const services = createTestServices({ products: [product({ id: 'book' }), product({ id: 'pen' })] });
+      await services.cartService.addItem(guestId, 'book', 1);
+      await services.cartService.addItem(guestId, 'pen', 2);
+      await services.productRepository.update(product({ id: 'pen', stockQuantity: 0 }));
+
+      await services.cartService.merge(guestId, cartId);
+
+      expect(await quantities(services, cartId)).toEqual({ book: 1 });
+    });
+
+    it('keeps a user line the guest cart would shrink', async () => {
+      const services = createTestServices({ products: [product({ id: 'book', stockQuantity: 5 })] });
+      await services.cartService.addItem(guestId, 'book', 1);
+      await services.cartService.addItem(cartId, 'book', 5);
+      await services.cartService.reserve(cartId, 'user-1');
+
+      await services.cartService.merge(guestId, cartId);
+
+      expect(await quantities(services, cartId)).toEqual({ book: 5 });
+    });
+  });
+
+  describe('concurrent changes', () => {
+    it('keeps both lines when two adds to the same cart overlap', async () => {
+      const services = createTestServices({ products: [product({ id: 'book' }), product({ id: 'pen' })] });
+
+      await Promise.all([
+        services.cartService.addItem(cartId, 'book', 1),
+        services.cartService.addItem(cartId, 'pen', 2)
+      ]);
+
+      expect(await quantities(services, cartId)).toEqual({ book: 1, pen: 2 });
+    });
+
+    it('keeps a coupon applied while a quantity changes', async () => {
+      const services = createTestServices({ products: [product({ id: 'book' })], promotions: [tenOff] });
+      await services.cartService.addItem(cartId, 'book', 1);
+
+      await Promise.all([
+        services.cartService.setQuantity(cartId, 'book', 2),
+        services.cartService.applyCoupon(cartId, 'TENOFF')
+      ]);
+
+      const view = await services.cartService.view(cartId);
+      expect(view.couponCodes).toEqual(['TENOFF']);
+      expect(view.items[0].quantity).toBe(2);
+    });
+
+    it('keeps an item added while the guest cart is merged in', async () => {
+      const services = createTestServices({ products: [product({ id: 'book' }), product({ id: 'pen' })] });
+      await services.cartService.addItem(guestId, 'book', 1);
+
+      await Promise.all([
+        services.cartService.merge(guestId, cartId),
+        services.cartService.addItem(cartId, 'pen', 1)
+      ]);
+
+      expect(await quantities(services, cartId)).toEqual({ book: 1, pen: 1 });
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import { availableQuantity } from '../catalog/stock';
+import { KeyedQueue } from '../concurrency/KeyedQueue';
+import { ApiError } from '../errors';
+import type { InventoryService } from '../inventory/InventoryService';
+import { Cart, CartItemView, CartLine, cartOwnerId, CartView } from '../models/Cart';
+import type { ProductSummary } from '../models/Product';
+import type { StockReservation } from '../models/StockReservation';
+import { normalizeCouponCode } from '../models/Promotion';
+import type { PricingEngine } from '../pricing/PricingEngine';
+import type { PromotionService } from '../promotions/PromotionService';
+import type { CartRepository, ProductRepository } from '../repositories';
+
+const emptyCart = (id: string): Cart => {
+  const now = new Date().toISOString();
+  return { id, lines: [], createdAt: now, updatedAt: now };
+};
+
+const insufficientStock = (product: ProductSummary, available: number) =>
+  available === 0
+    ? new ApiError(409, 'OUT_OF_STOCK', `${product.name} is out of stock.`)
+    : new ApiError(409, 'INSUFFICIENT_STOCK', `Only ${available} of ${product.name} can be in the cart.`, [
+      { field: 'quantity', message: `must be at most ${available}` }
+    ]);
+
+const cartItemNotFound = (productId: string) =>
+  new ApiError(404, 'CART_ITEM_NOT_FOUND', `Product ${productId} is not in the cart.`);
+
+/**
+ * Cart operations shared by guest and signed-in carts. Quantities are checked
+ * against `availableQuantity` on every write, counting what the cart's own
+ * checkout reservation holds, and reads are priced from the live catalog so a
+ * cart never shows a stale price. A `cartId` of undefined
+ * stands for a guest who has not started a cart yet.
+ */
+export class CartService {
+  /**
+   * Changes per cart, so two requests from the same shopper (two tabs, a
+   * double-clicked button) can't both read the cart and the later save drop
+   * the earlier one's line or coupon.
+   */
+  private readonly changes = new KeyedQueue();
+
+  constructor(
+    private readonly carts: CartRepository,
+    private readonly productRepository: ProductRepository,
+    private readonly pricing: PricingEngine,
+    private readonly promotionService: PromotionService,
+    private readonly inventory: InventoryService,
+    /** Told when a shopper's first add or coupon starts a cart; a sign-in merge only moves one. */
+    private readonly onCartCreated: (cart: Cart) => void = () => undefined
+  ) {}
+
+  async view(cartId: string | undefined): Promise<CartView> {
+    return this.toView(cartId ? await this.carts.findById(cartId) : undefined);
+  }
+
+  addItem(cartId: string, productId: string, quantity: number): Promise<CartView> {
+    return this.change(cartId, async () => {
+      const product = await this.findProduct(productId);
+      const stored = await this.carts.findById(cartId);
+      const cart = stored ?? emptyCart(cartId);
+      const existing = cart.lines.find((line) => line.productId === productId);
+      const available = availableQuantity(product, (await this.inventory.heldBy(cartId)).get(productId));
+      const wanted = (existing?.quantity ?? 0) + quantity;
+
+      if (wanted > available) {
+        throw insufficientStock(product, available);
+      }
+
+      const lines = existing
+        ? cart.lines.map((line) => (line === existing ? { ...line, quantity: wanted } : line))
+        : [...cart.lines, { productId, quantity, addedAt: new Date().toISOString() }];
+
+      const view = await this.saveAndView(cart, lines);
+      if (!stored) {
+        this.onCartCreated(cart);
+      }
+      return view;
+    });
+  }
+
+  setQuantity(cartId: string | undefined, productId: string, quantity: number): Promise<CartView> {
+    return this.change(cartId, async () => {
+      const cart = cartId ? await this.carts.findById(cartId) : undefined;
+      const existing = cart?.lines.find((line) => line.productId === productId);
+      if (!cart || !existing) {
+        throw cartItemNotFound(productId);
+      }
+
+      const product = await this.findProduct(productId);
+      const available = availableQuantity(product, (await this.inventory.heldBy(cart.id)).get(productId));
+      if (quantity > available) {
+        throw insufficientStock(product, available);
+      }
+
+      return this.saveAndView(cart, cart.lines.map((line) => (line === existing ? { ...line, quantity } : line)));
+    });
+  }
+
+  removeItem(cartId: string | undefined, productId: string): Promise<CartView> {
+    return this.change(cartId, async () => {
+      const cart = cartId ? await this.carts.findById(cartId) : undefined;
+      if (!cart || !cart.lines.some((line) => line.productId === productId)) {
+        throw cartItemNotFound(productId);
+      }
+
+      return this.saveAndView(cart, cart.lines.filter((line) => line.productId !== productId));
+    });
+  }
+
+  /**
+   * Adds a coupon code to the cart. A code that would not apply right now
+   * (minimum spend not met, expired, beaten by a better deal...) is refused
+   * with the engine's explanation instead of being kept.
+   */
+  applyCoupon(cartId: string, code: string): Promise<CartView> {
+    return this.change(cartId, async () => {
+      const promotion = this.promotionService.findByCode(code);
+      if (!promotion?.code) {
+        throw new ApiError(404, 'COUPON_NOT_FOUND', `No promotion matches the code ${normalizeCouponCode(code)}.`);
+      }
+
+      const stored = await this.carts.findById(cartId);
+      const cart = stored ?? emptyCart(cartId);
+      const codes = cart.couponCodes ?? [];
+      if (codes.includes(promotion.code)) {
+        return this.toView(cart);
+      }
+
+      const candidate: Cart = { ...cart, couponCodes: [...codes, promotion.code], updatedAt: new Date().toISOString() };
+      const view = await this.toView(candidate);
+      const rejection = view.promotions.rejected.find((entry) => entry.promotionId === promotion.id);
+      if (rejection) {
+        throw new ApiError(409, 'COUPON_NOT_APPLICABLE', rejection.explanation, [
+          { field: 'code', message: rejection.reason }
+        ]);
+      }
+
+      await this.carts.save(candidate);
+      if (!stored) {
+        this.onCartCreated(candidate);
+      }
+      return view;
+    });
+  }
+
+  removeCoupon(cartId: string | undefined, code: string): Promise<CartView> {
+    return this.change(cartId, async () => {
+      const normalized = normalizeCouponCode(code);
+      const cart = cartId ? await this.carts.findById(cartId) : undefined;
+      if (!cart || !(cart.couponCodes ?? []).includes(normalized)) {
+        throw new ApiError(404, 'COUPON_NOT_IN_CART', `The code ${normalized} is not applied to this cart.`);
+      }
+
+      return this.toView(await this.carts.save({
+        ...cart,
+        couponCodes: (cart.couponCodes ?? []).filter((entry) => entry !== normalized),
+        updatedAt: new Date().toISOString()
+      }));
+    });
+  }
+
+  clear(cartId: string | undefined): Promise<CartView> {
+    return this.change(cartId, async () => {
+      if (cartId) {
+        await this.inventory.release(cartId);
+        await this.carts.delete(cartId);
+      }
+      return this.toView(undefined);
+    });
+  }
+
+  /**
+   * Starts checkout: holds every line's units for the reservation TTL so
+   * nobody else can buy them meanwhile. Calling it again re-reserves the
+   * cart's current contents and restarts the clock.
+   */
+  reserve(cartId: string, userId: string): Promise<StockReservation> {
+    return this.change(cartId, async () => {
+      const cart = await this.view(cartId);
+      if (cart.items.length === 0) {
+        throw new ApiError(409, 'CART_EMPTY', 'Add something to your cart before checking out.');
+      }
+
+      return this.inventory.reserve(cartId, userId, cart.items.map(({ productId, quantity }) => ({ productId, quantity })));
+    });
+  }
+
+  /**
+   * Folds a guest cart into a user's cart after sign-in. Quantities for the
+   * same product are added and then capped at what is available, so a merge
+   * never fails; products that sold out meanwhile are dropped. Coupon codes
+   * from both carts are kept.
+   */
+  merge(fromCartId: string, intoCartId: string): Promise<void> {
+    if (fromCartId === intoCartId) {
+      return Promise.resolve();
+    }
+
+    // Always the user's cart first, then the guest's: merges only ever run that way round.
+    return this.change(intoCartId, () => this.change(fromCartId, async () => {
+      const guest = await this.carts.findById(fromCartId);
+      if (!guest) {
+        return;
+      }
+
+      const target = (await this.carts.findById(intoCartId)) ?? emptyCart(intoCartId);
+      const held = await this.inventory.heldBy(intoCartId);
+      const lines = [...target.lines];
+
+      for (const guestLine of guest.lines) {
+        const product = await this.productRepository.findById(guestLine.productId);
+        const available = product ? availableQuantity(product, held.get(product.id)) : 0;
+        const index = lines.findIndex((line) => line.productId === guestLine.productId);
+        const combined = Math.min((index >= 0 ? lines[index].quantity : 0) + guestLine.quantity, available);
+
+        if (index >= 0) {
+          lines[index] = { ...lines[index], quantity: Math.max(combined, lines[index].quantity) };
+        } else if (combined > 0) {
+          lines.push({ ...guestLine, quantity: combined });
+        }
+      }
+
+      const couponCodes = [...new Set([...(target.couponCodes ?? []), ...(guest.couponCodes ?? [])])];
+      await this.carts.save({ ...target, lines, couponCodes, updatedAt: new Date().toISOString() });
+      await this.carts.delete(fromCartId);
+    }));
+  }
+
+  /** Runs `task` once no other change to `cartId` is in flight; a guest without a cart has nothing to wait for. */
+  private change<T>(cartId: string | undefined, task: () => Promise<T>): Promise<T> {
+    return cartId ? this.changes.run(cartId, task) : task();
+  }
+
+  private async findProduct(productId: string): Promise<ProductSummary> {
+    const product = await this.productRepository.findById(productId);
+    if (!product) {
+      throw new ApiError(404, 'PRODUCT_NOT_FOUND', `Product with id ${productId} was not found.`);
+    }
+    return product;
+  }
+
+  private async saveAndView(cart: Cart, lines: CartLine[]): Promise<CartView> {
+    return this.toView(await this.carts.save({ ...cart, lines, updatedAt: new Date().toISOString() }));
+  }
+
+  private async toView(cart: Cart | undefined): Promise<CartView> {
+    const entries: { product: ProductSummary; quantity: number }[] = [];
+    const held = cart ? await this.inventory.heldBy(cart.id) : new Map<string, number>();
+
+    for (const line of cart?.lines ?? []) {
+      const product = await this.productRepository.findById(line.productId);
+      // Lines for products removed from the catalog simply stop showing up.
+      if (product) {
+        entries.push({ product, quantity: line.quantity });
+      }
+    }
+
+    const couponCodes = cart?.couponCodes ?? [];
+    const quote = this.pricing.quote(
+      entries,
+      await this.promotionService.contextFor(cart ? cartOwnerId(cart.id) : undefined, couponCodes)
+    );
+    const items = entries.map(({ product }, index): CartItemView => ({
+      productId: product.id,
+      name: product.name,
+      image: product.image,
+      category: product.category,
+      unitPrice: quote.lines[index].unitPrice,
+      listPrice: quote.lines[index].listPrice,
+      quantity: quote.lines[index].quantity,
+      maxQuantity: availableQuantity(product, held.get(product.id)),
+      lineTotal: quote.lines[index].lineTotal
+    }));
+
+    return { items, couponCodes, promotions: quote.promotions, totals: quote.totals, updatedAt: cart?.updatedAt ?? null };
+  }
+}
@@ -0,0 +1,32 @@
+import { randomBytes } from 'crypto';
+import type { CookieOptions, Request, Response } from 'express';
+import type { AppConfig } from '../config';
+
+type GuestCookieConfig = AppConfig['cart']['guestCookie'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+const cookieOptions = (cookie: GuestCookieConfig): CookieOptions => ({
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: cookie.secure,
+  path: cookie.path
+});
+
+/** The guest cart token from the request cookie, ignoring anything malformed. */
+export const readGuestCartToken = (req: Request, cookie: GuestCookieConfig): string | undefined => {
+  const value: unknown = req.cookies?.[cookie.name];
+  return typeof value === 'string' && TOKEN_PATTERN.test(value) ? value : undefined;
+};
+
+/** Starts a guest cart by handing the browser a fresh random token. */
+export const issueGuestCartToken = (res: Response, cookie: GuestCookieConfig): string => {
+  const token = randomBytes(24).toString('base64url');
+  res.cookie(cookie.name, token, { ...cookieOptions(cookie), maxAge: cookie.maxAgeDays * DAY_MS });
+  return token;
+};
+
+export const clearGuestCartCookie = (res: Response, cookie: GuestCookieConfig) => {
+  res.clearCookie(cookie.name, cookieOptions(cookie));
+};
@@ -0,0 +1,64 @@
+import { effectivePrice, ProductSummary } from '../models/Product';
+import { FacetField, matchesFilters, ProductFilters } from './filters';
+
+export interface PriceBucket {
+  key: string;
+  min: number;
+  /** Exclusive upper bound; omitted on the open-ended top bucket. */
+  max?: number;
+}
+
+export const priceBuckets: PriceBucket[] = [
+  { key: '0-25', min: 0, max: 25 },
+  { key: '25-50', min: 25, max: 50 },
+  { key: '50-100', min: 50, max: 100 },
+  { key: '100-200', min: 100, max: 200 },
+  { key: '200+', min: 200 }
+];
+
+/** Rating bands are cumulative ("4 & up"), matching the `minRating` filter. */
+export const ratingBands = [4, 3, 2, 1];
+
+export interface CatalogFacets {
+  categories: { value: string; count: number }[];
+  price: (PriceBucket & { count: number })[];
+  rating: { min: number; count: number }[];
+  inStock: { value: boolean; count: number }[];
+}
+
+const inBucket = (price: number, bucket: PriceBucket) =>
+  price >= bucket.min && (bucket.max === undefined || price < bucket.max);
+
+/**
+ * Counts products per facet value. Each facet is computed against every filter
+ * except its own, so the sidebar shows how many results picking a value gives.
+ */
+export const computeFacets = (products: ProductSummary[], filters: ProductFilters): CatalogFacets => {
+  const candidates = (ignore: FacetField) => products.filter((product) => matchesFilters(product, filters, ignore));
+
+  const categoryCounts = new Map<string, number>();
+  candidates('category').forEach((product) => {
+    categoryCounts.set(product.category, (categoryCounts.get(product.category) ?? 0) + 1);
+  });
+
+  const priced = candidates('price').map(effectivePrice);
+  const rated = candidates('rating');
+  const stocked = candidates('inStock');
+
+  return {
+    categories: Array.from(categoryCounts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => a.value.localeCompare(b.value)),
+    price: priceBuckets.map((bucket) => ({
+      ...bucket,
+      count: priced.filter((price) => inBucket(price, bucket)).length
+    })),
+    rating: ratingBands.map((min) => ({
+      min,
+      count: rated.filter((product) => product.rating >= min).length
+    })),
+    inStock: [true, false].map((value) => ({
+      value,
+      count: stocked.filter((product) => product.inStock === value).length
+    }))
+  };
+};
@@ -0,0 +1,43 @@
+import { effectivePrice, ProductSummary } from '../models/Product';
+
+export interface ProductFilters {
+  categories: string[];
+  /** Free-text query; resolved through the search index before filtering. */
+  search?: string;
+  /** Inclusive bounds on the price after discount. */
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  inStock?: boolean;
+}
+
+/** Filters that facet counts can leave out to count their own alternatives. */
+export type FacetField = 'category' | 'price' | 'rating' | 'inStock';
+
+/**
+ * Applies every active filter except the one named by `ignore`. Facets use the
+ * exclusion so selecting a category still shows counts for its siblings.
+ */
+export const matchesFilters = (product: ProductSummary, filters: ProductFilters, ignore?: FacetField): boolean => {
+  const price = effectivePrice(product);
+
+  if (ignore !== 'category' && filters.categories.length > 0 && !filters.categories.includes(product.category)) {
+    return false;
+  }
+  if (ignore !== 'price' && filters.minPrice !== undefined && price < filters.minPrice) {
+    return false;
+  }
+  if (ignore !== 'price' && filters.maxPrice !== undefined && price > filters.maxPrice) {
+    return false;
+  }
+  if (ignore !== 'rating' && filters.minRating !== undefined && product.rating < filters.minRating) {
+    return false;
+  }
+  if (ignore !== 'inStock' && filters.inStock !== undefined && product.inStock !== filters.inStock) {
+    return false;
+  }
+  return true;
+};
+
+export const filterProducts = (products: ProductSummary[], filters: ProductFilters): ProductSummary[] =>
+  products.filter((product) => matchesFilters(product, filters));
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { ProductSummary } from '../models/Product';
+import { paginate, type PageRequest } from './pagination';
+import { sortProducts } from './sorting';
+
+const product = (id: string, name: string, rating = 4): ProductSummary => ({
+  id,
+  name,
+  price: 10,
+  image: '',
+  rating,
+  reviewCount: 0,
+  description: '',
+  category: 'books',
+  inStock: true,
+  stockQuantity: 1
+});
+
+// Seven products in name order: Alpha (p1) ... Golf (p7).
+const catalog = ['Alpha', 'Bravo', 'Charlie', 'Delta', 'Echo', 'Foxtrot', 'Golf'].map((name, index) => product(`p${index + 1}`, name));
+
+const byName = (products: ProductSummary[], request: Partial<PageRequest> = {}) =>
+  paginate(sortProducts(products, 'name'), { page: 1, pageSize: 3, sortBy: 'name', ...request });
+
+const ids = (products: ProductSummary[]) => products.map(({ id }) => id);
+
+describe('paginate', () => {
+  it('slices by page number and clamps pages past the end', () => {
+    const second = byName(catalog, { page: 2 });
+    expect(ids(second.items)).toEqual(['p4', 'p5', 'p6']);
+    expect(second.meta).toMatchObject({ total: 7, page: 2, pageSize: 3, pageCount: 3, sortBy: 'name' });
+
+    const beyond = byName(catalog, { page: 9 });
+    expect(ids(beyond.items)).toEqual(['p7']);
+    expect(beyond.meta.page).toBe(3);
+    expect(beyond.meta.nextCursor).toBeNull();
+  });
+
+  it('walks forward and back with cursors', () => {
+    const first = byName(catalog);
+    expect(first.meta.prevCursor).toBeNull();
+
+    const second = byName(catalog, { cursor: first.meta.nextCursor as string });
+    expect(ids(second.items)).toEqual(['p4', 'p5', 'p6']);
+
+    const third = byName(catalog, { cursor: second.meta.nextCursor as string });
+    expect(ids(third.items)).toEqual(['p7']);
+    expect(third.meta.nextCursor).toBeNull();
+
+    const back = byName(catalog, { cursor: third.meta.prevCursor as string });
+    expect(ids(back.items)).toEqual(['p4', 'p5', 'p6']);
+    expect(back.meta.page).toBe(2);
+  });
+
+  it('keeps a cursor pointing at the same item when products are added or removed before it', () => {
+    const { meta } = byName(catalog);
+    const changed = [product('p0', 'Aardvark'), ...catalog.filter(({ id }) => id !== 'p2')];
+
+    expect(ids(byName(changed, { cursor: meta.nextCursor as string }).items)).toEqual(['p4', 'p5', 'p6']);
+  });
+
+  it('breaks ties on the sort key by id', () => {
+    const tied = [product('b', 'Same', 5), product('c', 'Same', 5), product('a', 'Same', 5)];
+    const request = { page: 1, pageSize: 2, sortBy: 'rating' as const };
+    const first = paginate(sortProducts(tied, 'rating'), request);
+    expect(ids(first.items)).toEqual(['a', 'b']);
+
+    const next = paginate(sortProducts(tied, 'rating'), { ...request, cursor: first.meta.nextCursor as string });
+    expect(ids(next.items)).toEqual(['c']);
+  });
+
+  it('rejects malformed cursors and cursors from another sort order', () => {
+    const { meta } = byName(catalog);
+    const wrongSort = () => paginate(sortProducts(catalog, 'rating'), {
+      page: 1,
+      pageSize: 3,
+      sortBy: 'rating',
+      cursor: meta.nextCursor as string
+    });
+
+    expect(wrongSort).toThrow(expect.objectContaining({ status: 400, code: 'INVALID_CURSOR' }));
+    expect(() => byName(catalog, { cursor: 'not-a-cursor' })).toThrow(expect.objectContaining({ code: 'INVALID_CURSOR' }));
+  });
+});
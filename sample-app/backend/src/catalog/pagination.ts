@@ -0,0 +1,101 @@
+import { ApiError } from '../errors';
+import type { ProductSummary } from '../models/Product';
+import { comparePositions, SortBy, SortContext, SortPosition, sortPosition } from './sorting';
+
+export const DEFAULT_PAGE_SIZE = 12;
+export const MAX_PAGE_SIZE = 100;
+
+interface CursorPayload extends SortPosition {
+  sortBy: SortBy;
+  direction: 'next' | 'prev';
+}
+
+export interface PageRequest {
+  page: number;
+  pageSize: number;
+  sortBy: SortBy;
+  cursor?: string;
+}
+
+export interface PageMeta {
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+  sortBy: SortBy;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+const encodeCursor = (payload: CursorPayload): string =>
+  Buffer.from(JSON.stringify([payload.sortBy, payload.direction, payload.key, payload.id])).toString('base64url');
+
+const decodeCursor = (cursor: string, sortBy: SortBy): CursorPayload => {
+  try {
+    const [cursorSort, direction, key, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    if (
+      cursorSort === sortBy &&
+      (direction === 'next' || direction === 'prev') &&
+      (typeof key === 'string' || typeof key === 'number') &&
+      typeof id === 'string'
+    ) {
+      return { sortBy, direction, key, id };
+    }
+  } catch {
+    // fall through to the error below
+  }
+
+  throw new ApiError(400, 'INVALID_CURSOR', 'The pagination cursor is malformed or was issued for a different sort order.');
+};
+
+/**
+ * Slices a sorted listing either by page number or by cursor. Cursors record
+ * the sort key and id of the boundary item rather than an offset, so paging
+ * stays stable when products are added or removed between requests.
+ */
+export const paginate = (
+  sorted: ProductSummary[],
+  request: PageRequest,
+  context: SortContext = {}
+): { items: ProductSummary[]; meta: PageMeta } => {
+  const { pageSize, sortBy } = request;
+  const total = sorted.length;
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const positionOf = (product: ProductSummary) => sortPosition(product, sortBy, context);
+
+  let start: number;
+
+  if (request.cursor) {
+    const anchor = decodeCursor(request.cursor, sortBy);
+    const firstAfter = sorted.findIndex((product) => comparePositions(positionOf(product), anchor, sortBy) > 0);
+    const boundary = firstAfter === -1 ? total : firstAfter;
+
+    if (anchor.direction === 'next') {
+      start = boundary;
+    } else {
+      const firstAtOrAfter = sorted.findIndex((product) => comparePositions(positionOf(product), anchor, sortBy) >= 0);
+      start = Math.max(0, (firstAtOrAfter === -1 ? total : firstAtOrAfter) - pageSize);
+    }
+  } else {
+    start = (Math.min(request.page, pageCount) - 1) * pageSize;
+  }
+
+  const items = sorted.slice(start, start + pageSize);
+  const end = start + items.length;
+  const first = items[0];
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    meta: {
+      total,
+      page: Math.floor(start / pageSize) + 1,
+      pageSize,
+      pageCount,
+      sortBy,
+      nextCursor: last && end < total ? encodeCursor({ sortBy, direction: 'next', ...positionOf(last) }) : null,
+      prevCursor: first && start > 0 ? encodeCursor({ sortBy, direction: 'prev', ...positionOf(first) }) : null
+    }
+  };
+};
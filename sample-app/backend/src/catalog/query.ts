@@ -0,0 +1,119 @@
+import type { Request } from 'express';
+import { ApiError, ErrorDetail } from '../errors';
+import type { ProductFilters } from './filters';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, PageRequest } from './pagination';
+import { isSortBy, SortBy, sortOptions } from './sorting';
+
+type Query = Request['query'];
+
+/** The trimmed value of a single-valued query parameter; blank counts as absent. */
+export const single = (value: Query[string]): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+
+/** Reads a whole-number parameter, recording a problem in `errors` and falling back when it is invalid. */
+export const positiveInteger = (
+  query: Query,
+  field: string,
+  fallback: number,
+  errors: ErrorDetail[],
+  max?: number
+): number => {
+  const raw = single(query[field]);
+  if (raw === undefined) {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1 || (max !== undefined && value > max)) {
+    errors.push({
+      field,
+      message: max !== undefined ? `must be a whole number between 1 and ${max}` : 'must be a positive whole number'
+    });
+    return fallback;
+  }
+
+  return value;
+};
+
+const optionalNumber = (
+  query: Query,
+  field: string,
+  errors: ErrorDetail[],
+  min: number,
+  max?: number
+): number | undefined => {
+  const raw = single(query[field]);
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || (max !== undefined && value > max)) {
+    errors.push({
+      field,
+      message: max !== undefined ? `must be a number between ${min} and ${max}` : `must be a number of at least ${min}`
+    });
+    return undefined;
+  }
+
+  return value;
+};
+
+/** Accepts both repeated (`?category=a&category=b`) and comma-separated values. */
+const list = (value: Query[string]): string[] => {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((item): item is string => typeof item === 'string')
+    .flatMap((item) => item.split(','))
+    .map((item) => item.trim())
+    .filter((item) => item !== '');
+};
+
+/** Reads the catalog filters: `category`, `search`, `minPrice`, `maxPrice`, `minRating`, `inStock`. */
+export const parseProductFilters = (query: Query): ProductFilters => {
+  const errors: ErrorDetail[] = [];
+  const minPrice = optionalNumber(query, 'minPrice', errors, 0);
+  const maxPrice = optionalNumber(query, 'maxPrice', errors, 0);
+  const minRating = optionalNumber(query, 'minRating', errors, 0, 5);
+  const inStock = single(query.inStock);
+
+  if (minPrice !== undefined && maxPrice !== undefined && maxPrice < minPrice) {
+    errors.push({ field: 'maxPrice', message: 'must not be lower than minPrice' });
+  }
+
+  if (inStock !== undefined && inStock !== 'true' && inStock !== 'false') {
+    errors.push({ field: 'inStock', message: 'must be true or false' });
+  }
+
+  if (errors.length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'The query string failed validation.', errors);
+  }
+
+  return {
+    categories: list(query.category),
+    search: single(query.search),
+    minPrice,
+    maxPrice,
+    minRating,
+    inStock: inStock === undefined ? undefined : inStock === 'true'
+  };
+};
+
+/** Reads `page`, `pageSize`, `sortBy` and `cursor` from the query string. */
+export const parsePageRequest = (query: Query, defaultSort: SortBy = 'name'): PageRequest => {
+  const errors: ErrorDetail[] = [];
+  const page = positiveInteger(query, 'page', 1, errors);
+  const pageSize = positiveInteger(query, 'pageSize', DEFAULT_PAGE_SIZE, errors, MAX_PAGE_SIZE);
+  const sortBy = single(query.sortBy) ?? defaultSort;
+  const cursor = single(query.cursor);
+
+  if (!isSortBy(sortBy)) {
+    errors.push({ field: 'sortBy', message: `must be one of ${sortOptions.join(', ')}` });
+  }
+
+  if (errors.length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'The query string failed validation.', errors);
+  }
+
+  return { page, pageSize, sortBy: sortBy as PageRequest['sortBy'], cursor };
+};
@@ -0,0 +1,54 @@
+import { effectivePrice, ProductSummary } from '../models/Product';
+
+export const sortOptions = ['relevance', 'name', 'price-low', 'price-high', 'rating', 'newest'] as const;
+
+export type SortBy = typeof sortOptions[number];
+
+export type SortKey = string | number;
+
+/** Per-request inputs to sorting; `scores` holds search relevance by product id. */
+export interface SortContext {
+  scores?: Map<string, number>;
+}
+
+interface SortDefinition {
+  key: (product: ProductSummary, context: SortContext) => SortKey;
+  direction: 1 | -1;
+}
+
+const sortDefinitions: Record<SortBy, SortDefinition> = {
+  relevance: { key: (product, { scores }) => scores?.get(product.id) ?? 0, direction: -1 },
+  name: { key: (product) => product.name.toLowerCase(), direction: 1 },
+  'price-low': { key: (product) => effectivePrice(product), direction: 1 },
+  'price-high': { key: (product) => effectivePrice(product), direction: -1 },
+  rating: { key: (product) => product.rating, direction: -1 },
+  newest: { key: (product) => product.createdAt ?? '', direction: -1 }
+};
+
+/** Position of a product in a sorted listing; `id` breaks ties so the order is total. */
+export interface SortPosition {
+  key: SortKey;
+  id: string;
+}
+
+const compareKeys = (a: SortKey, b: SortKey): number => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
+};
+
+export const sortPosition = (product: ProductSummary, sortBy: SortBy, context: SortContext = {}): SortPosition => ({
+  key: sortDefinitions[sortBy].key(product, context),
+  id: product.id
+});
+
+export const comparePositions = (a: SortPosition, b: SortPosition, sortBy: SortBy): number =>
+  compareKeys(a.key, b.key) * sortDefinitions[sortBy].direction || compareKeys(a.id, b.id);
+
+export const isSortBy = (value: string): value is SortBy => (sortOptions as readonly string[]).includes(value);
+
+export const sortProducts = (products: ProductSummary[], sortBy: SortBy, context: SortContext = {}): ProductSummary[] =>
+  [...products].sort((a, b) =>
+    comparePositions(sortPosition(a, sortBy, context), sortPosition(b, sortBy, context), sortBy)
+  );
@@ -0,0 +1,26 @@
+import type { ProductSummary } from '../models/Product';
+
+/** Most units of one product a single cart line may hold, whatever the stock. */
+export const MAX_QUANTITY_PER_LINE = 10;
+
+type StockFields = Pick<ProductSummary, 'inStock' | 'stockQuantity'>;
+
+/**
+ * Fills in `inStock` from `stockQuantity`. Repositories run every product
+ * through this on the way in and out, so the flag can never disagree with
+ * the count. Records saved before stock was counted keep their old flag as
+ * a count of `MAX_QUANTITY_PER_LINE` or 0.
+ */
+export const withDerivedStock = <T extends Omit<ProductSummary, keyof StockFields> & Partial<StockFields>>(
+  product: T
+): T & StockFields => {
+  const stockQuantity = product.stockQuantity ?? (product.inStock === false ? 0 : MAX_QUANTITY_PER_LINE);
+  return { ...product, stockQuantity, inStock: stockQuantity > 0 };
+};
+
+/**
+ * How many units a shopper may have in their cart right now: what is on sale
+ * plus what their own checkout reservation already holds, capped per line.
+ */
+export const availableQuantity = (product: Pick<ProductSummary, 'stockQuantity'>, held = 0): number =>
+  Math.min(product.stockQuantity + held, MAX_QUANTITY_PER_LINE);
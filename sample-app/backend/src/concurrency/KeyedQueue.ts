@@ -0,0 +1,22 @@
+/**
+ * Runs tasks one at a time per key, the way the services' `exclusive` queues
+ * do for everything, while tasks for different keys still run side by side.
+ * Use it for check-then-write steps on one record (an order, a payment, a
+ * session) so two concurrent requests can't both pass the check.
+ */
+export class KeyedQueue {
+  private readonly pending = new Map<string, Promise<unknown>>();
+
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const run = (this.pending.get(key) ?? Promise.resolve()).then(task);
+    const settled = run.catch(() => undefined);
+    this.pending.set(key, settled);
+    // Forget idle keys so the map only ever holds records being worked on.
+    settled.then(() => {
+      if (this.pending.get(key) === settled) {
+        this.pending.delete(key);
+      }
+    });
+    return run;
+  }
+}
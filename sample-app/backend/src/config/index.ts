@@ -0,0 +1,177 @@
+import { ConfigError, loadSettings, resolveEnvironment } from './load';
+import { readConfigFiles } from './sources';
+
+export type { Environment, LogLevel, StoreDriver } from './settings';
+export { ConfigError } from './load';
+
+/**
+ * Builds the backend's settings from, in rising precedence: built-in
+ * defaults, `config/default.json`, `config/<NODE_ENV>.json`, `.env`,
+ * `.env.<NODE_ENV>` and the process environment. Files are looked up in
+ * `directory` and are all optional. Throws a {@link ConfigError} listing every
+ * problem found.
+ */
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env, directory = process.cwd()) => {
+  const problems: string[] = [];
+  const environment = resolveEnvironment(env.NODE_ENV, problems);
+  const sources = [
+    ...readConfigFiles(directory, environment, problems),
+    { name: 'the environment', values: env, strict: false }
+  ];
+  const settings = loadSettings(sources, environment, problems);
+  const production = environment === 'production';
+
+  return {
+    environment,
+    port: settings.PORT,
+    productStore: {
+      driver: settings.PRODUCT_STORE,
+      jsonPath: settings.PRODUCT_STORE_JSON_PATH,
+      sqlitePath: settings.PRODUCT_STORE_SQLITE_PATH
+    },
+    /** Storage for users, carts, orders and the other document collections. */
+    dataStore: {
+      driver: settings.DATA_STORE ?? settings.PRODUCT_STORE,
+      jsonDir: settings.DATA_STORE_JSON_DIR,
+      sqlitePath: settings.DATA_STORE_SQLITE_PATH ?? settings.PRODUCT_STORE_SQLITE_PATH
+    },
+    /** Browser origins allowed to call the API with credentials (the refresh cookie). */
+    cors: {
+      origins: settings.CORS_ORIGINS ?? [new URL(settings.FRONTEND_URL).origin]
+    },
+    auth: {
+      // Development fallback only; production refuses to start without JWT_SECRET.
+      jwtSecret: settings.JWT_SECRET ?? 'shopflow-dev-only-jwt-secret',
+      accessTokenTtl: settings.JWT_EXPIRES_IN,
+      refreshTokenTtlDays: settings.REFRESH_TOKEN_TTL_DAYS,
+      issuer: 'shopflow-backend',
+      /** Account promoted to (or created as) an admin on startup, when both are set. */
+      bootstrapAdmin: settings.ADMIN_EMAIL && settings.ADMIN_PASSWORD
+        ? { email: settings.ADMIN_EMAIL, password: settings.ADMIN_PASSWORD }
+        : undefined,
+      refreshCookie: {
+        name: 'sf_refresh',
+        // Only the auth endpoints ever need to see the refresh token.
+        path: '/api/auth',
+        secure: production
+      }
+    },
+    cart: {
+      guestCookie: {
+        name: 'sf_cart',
+        // Wider than the refresh cookie: sign-in must see it to merge the guest cart.
+        path: '/api',
+        maxAgeDays: 30,
+        secure: production
+      }
+    },
+    health: {
+      /** How long one readiness check may take before it counts as down. */
+      checkTimeoutMs: settings.HEALTH_CHECK_TIMEOUT_MS
+    },
+    idempotency: {
+      /** How long a stored response is replayed for its `Idempotency-Key`. */
+      ttlHours: settings.IDEMPOTENCY_KEY_TTL_HOURS,
+      /** How often lapsed keys are purged. */
+      sweepIntervalMinutes: 60
+    },
+    inventory: {
+      /** How long checkout holds stock before it goes back on sale. */
+      reservationTtlMinutes: settings.RESERVATION_TTL_MINUTES,
+      /** How often lapsed reservations are swept back into stock. */
+      sweepIntervalSeconds: 30,
+      /** Stock falling to this many units or fewer raises `inventory.low`. */
+      lowStockThreshold: settings.LOW_STOCK_THRESHOLD
+    },
+    logging: {
+      /** Lines below this level are dropped; `silent` turns logging off. */
+      level: settings.LOG_LEVEL,
+      service: 'shopflow-backend'
+    },
+    mail: {
+      from: settings.MAIL_FROM,
+      /** MailHog from docker-compose by default; its inbox is at http://localhost:8025. */
+      smtp: {
+        host: settings.SMTP_HOST,
+        port: settings.SMTP_PORT
+      },
+      /** Where links in emails point: the storefront. */
+      appUrl: settings.FRONTEND_URL,
+      /** Serves `/api/mail/preview` for developers. */
+      previewEnabled: !production,
+      /** Send attempts before an outbox message is marked failed. */
+      maxAttempts: 6,
+      /** Wait before the first retry; every further retry doubles it. */
+      retryBaseSeconds: 60,
+      /** How often the outbox is checked for due retries. */
+      dispatchIntervalSeconds: 30,
+      passwordResetTtlMinutes: 30
+    },
+    /**
+     * MongoDB and Redis, as docker-compose starts them. Validated so a broken
+     * value is caught at startup, but the mock API stores everything through
+     * `dataStore` and `productStore` and does not connect to either yet.
+     */
+    externalServices: {
+      mongodbUri: settings.MONGODB_URI,
+      redisUrl: settings.REDIS_URL
+    },
+    metrics: {
+      /** When set, `/metrics` only answers requests carrying it as a bearer token. */
+      token: settings.METRICS_TOKEN
+    },
+    payments: {
+      /** Card processor; only the local mock gateway ships with the app. */
+      provider: 'mock' as const
+    },
+    pricing: {
+      currency: 'USD',
+      taxRatePercent: settings.TAX_RATE_PERCENT,
+      shippingFlatRate: 9.99,
+      /** Orders whose discounted subtotal is strictly above this ship free. */
+      freeShippingOver: 50
+    },
+    shutdown: {
+      /**
+       * How long readiness reports not-ready before the server stops accepting
+       * connections, so load balancers see it and route elsewhere first.
+       */
+      readinessDelaySeconds: settings.SHUTDOWN_READINESS_DELAY_SECONDS,
+      /** How long requests still running may take to finish before their connections are cut. */
+      drainTimeoutSeconds: settings.SHUTDOWN_DRAIN_TIMEOUT_SECONDS,
+      /**
+       * The whole shutdown, readiness delay included, must finish within this or
+       * the process exits anyway; keep it under the orchestrator's grace period
+       * (30 s on Kubernetes).
+       */
+      timeoutSeconds: settings.SHUTDOWN_TIMEOUT_SECONDS
+    },
+    webhooks: {
+      /** Attempts per delivery before it is marked failed; a resend starts a fresh round. */
+      maxAttempts: settings.WEBHOOK_MAX_ATTEMPTS,
+      /** Wait before the first retry; every further retry doubles it. */
+      retryBaseSeconds: 30,
+      /** How long a receiver gets to answer one attempt. */
+      timeoutMs: 10_000,
+      /** How often due retries are sent. */
+      dispatchIntervalSeconds: 15
+    }
+  };
+};
+
+/** A bad configuration stops the process before anything starts, with the problems on stderr. */
+const loadOrExit = () => {
+  try {
+    return loadConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      process.stderr.write(`${error.message}\n`);
+      process.exit(1);
+    }
+    throw error;
+  }
+};
+
+export const config = loadOrExit();
+
+export type AppConfig = ReturnType<typeof loadConfig>;
@@ -0,0 +1,76 @@
+import type { ConfigSource } from './sources';
+import {
+  checkSettings,
+  Environment,
+  ENVIRONMENTS,
+  RawValue,
+  Setting,
+  SettingName,
+  settings,
+  Settings
+} from './settings';
+
+/** Everything wrong with the configuration, one line per problem. */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/** `NODE_ENV` picks the config files, so it only ever comes from the process environment. */
+export const resolveEnvironment = (value: string | undefined, problems: string[]): Environment => {
+  if (!value) {
+    return 'development';
+  }
+
+  if (!ENVIRONMENTS.includes(value as Environment)) {
+    problems.push(`NODE_ENV must be one of ${ENVIRONMENTS.join(', ')} (received "${value}").`);
+    return 'development';
+  }
+
+  return value as Environment;
+};
+
+const isSet = (value: RawValue | undefined): value is RawValue => value !== undefined && value !== '';
+
+/**
+ * Resolves every setting from `sources` (lowest precedence first) and the
+ * setting's fallback, then applies {@link checkSettings}. Problems are
+ * collected rather than thrown one at a time, and any found, including those
+ * already in `problems`, are thrown together as a {@link ConfigError}.
+ */
+export const loadSettings = (sources: ConfigSource[], environment: Environment, problems: string[] = []): Settings => {
+  sources
+    .filter((source) => source.strict)
+    .forEach((source) => Object.keys(source.values)
+      .filter((name) => !(name in settings))
+      .forEach((name) => problems.push(`${name} in ${source.name} is not a recognised setting.`)));
+
+  const values: Record<string, unknown> = {};
+  (Object.entries(settings) as Array<[SettingName, Setting<unknown>]>).forEach(([name, setting]) => {
+    const source = [...sources].reverse().find((candidate) => isSet(candidate.values[name]));
+    if (!source) {
+      values[name] = typeof setting.fallback === 'function' ? setting.fallback(environment) : setting.fallback;
+      return;
+    }
+
+    const raw = source.values[name] as RawValue;
+    const parsed = setting.parse(raw);
+    if ('problem' in parsed) {
+      const received = setting.secret ? `set in ${source.name}` : `received "${raw}" from ${source.name}`;
+      problems.push(`${name} ${parsed.problem} (${received}).`);
+    } else {
+      values[name] = parsed.value;
+    }
+  });
+
+  if (problems.length === 0) {
+    problems.push(...checkSettings(values as Settings, environment));
+  }
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  return values as Settings;
+};
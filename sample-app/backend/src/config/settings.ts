@@ -0,0 +1,185 @@
+export const ENVIRONMENTS = ['development', 'test', 'production'] as const;
+
+export type Environment = (typeof ENVIRONMENTS)[number];
+
+export type StoreDriver = 'memory' | 'json' | 'sqlite';
+
+const storeDrivers: readonly StoreDriver[] = ['memory', 'json', 'sqlite'];
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+const logLevels: readonly LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+/** A value as written in the environment, a `.env` file or a JSON config file. */
+export type RawValue = string | number | boolean;
+
+export type Parsed<T> = { value: T } | { problem: string };
+
+/** One setting: how to read it and what it is when nobody set it. */
+export interface Setting<T> {
+  parse(raw: RawValue): Parsed<T>;
+  fallback: T | ((environment: Environment) => T);
+  /** Never echoed back in problem reports. */
+  secret?: boolean;
+}
+
+interface TextOptions {
+  pattern?: RegExp;
+  patternMessage?: string;
+  secret?: boolean;
+}
+
+const text = <D extends string | undefined>(fallback: D, options: TextOptions = {}): Setting<string | D> => ({
+  parse: (raw) => {
+    const value = String(raw).trim();
+    if (options.pattern && !options.pattern.test(value)) {
+      return { problem: options.patternMessage ?? 'has an invalid format' };
+    }
+    return { value };
+  },
+  fallback,
+  secret: options.secret
+});
+
+const numeric = (integer: boolean) => (
+  { min, max }: { min: number; max?: number },
+  fallback: number | ((environment: Environment) => number)
+): Setting<number> => ({
+  parse: (raw) => {
+    const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+    const range = max === undefined ? `${min} or more` : `from ${min} to ${max}`;
+    if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value))
+      || value < min || (max !== undefined && value > max)) {
+      return { problem: `must be ${integer ? 'a whole number' : 'a number'} ${range}` };
+    }
+    return { value };
+  },
+  fallback
+});
+
+const integer = numeric(true);
+const number = numeric(false);
+
+const oneOf = <T extends string, D extends T | undefined>(
+  values: readonly T[],
+  fallback: D | ((environment: Environment) => D)
+): Setting<T | D> => ({
+  parse: (raw) => {
+    const value = String(raw).trim().toLowerCase() as T;
+    return values.includes(value) ? { value } : { problem: `must be one of ${values.join(', ')}` };
+  },
+  fallback
+});
+
+/** An http(s) URL, kept without a trailing slash so paths can be appended. */
+const url = (fallback: string): Setting<string> => ({
+  parse: (raw) => {
+    const value = String(raw).trim();
+    try {
+      if (['http:', 'https:'].includes(new URL(value).protocol)) {
+        return { value: value.replace(/\/+$/, '') };
+      }
+    } catch {
+      // Reported below.
+    }
+    return { problem: 'must be an http or https URL' };
+  },
+  fallback
+});
+
+/** Comma-separated http(s) URLs, kept as their origins (`scheme://host:port`). */
+const origins = (): Setting<string[] | undefined> => ({
+  parse: (raw) => {
+    const values = String(raw).split(',').map((value) => value.trim()).filter(Boolean);
+    try {
+      const parsed = values.map((value) => new URL(value));
+      if (parsed.length > 0 && parsed.every(({ protocol }) => ['http:', 'https:'].includes(protocol))) {
+        return { value: parsed.map(({ origin }) => origin) };
+      }
+    } catch {
+      // Reported below.
+    }
+    return { problem: 'must be a comma-separated list of http or https URLs' };
+  },
+  fallback: undefined
+});
+
+/**
+ * Every setting the backend reads, by the name it has in the environment and
+ * in config files. Anything not listed here is rejected in config files, so a
+ * misspelt name fails startup instead of being ignored.
+ */
+export const settings = {
+  PORT: integer({ min: 1, max: 65535 }, 4000),
+  PRODUCT_STORE: oneOf(storeDrivers, 'memory'),
+  PRODUCT_STORE_JSON_PATH: text('.data/products.json'),
+  PRODUCT_STORE_SQLITE_PATH: text('.data/shopflow.db'),
+  /** Unset means the same as the product store. */
+  DATA_STORE: oneOf(storeDrivers, undefined),
+  DATA_STORE_JSON_DIR: text('.data'),
+  DATA_STORE_SQLITE_PATH: text(undefined),
+  JWT_SECRET: text(undefined, { secret: true }),
+  JWT_EXPIRES_IN: text('15m', { pattern: /^\d+\s*(ms|s|m|h|d|w|y)?$/i, patternMessage: 'must be a duration such as 900, 15m or 12h' }),
+  REFRESH_TOKEN_TTL_DAYS: integer({ min: 1 }, 30),
+  ADMIN_EMAIL: text(undefined, { pattern: /^\S+@\S+\.\S+$/, patternMessage: 'must be an email address' }),
+  ADMIN_PASSWORD: text(undefined, { secret: true }),
+  HEALTH_CHECK_TIMEOUT_MS: integer({ min: 1 }, 2000),
+  IDEMPOTENCY_KEY_TTL_HOURS: integer({ min: 1 }, 24),
+  RESERVATION_TTL_MINUTES: integer({ min: 1 }, 15),
+  LOW_STOCK_THRESHOLD: integer({ min: 0 }, 5),
+  LOG_LEVEL: oneOf(logLevels, (environment) => (environment === 'production' ? 'info' : 'debug')),
+  MAIL_FROM: text('ShopFlow <no-reply@shopflow.local>'),
+  SMTP_HOST: text('localhost'),
+  SMTP_PORT: integer({ min: 1, max: 65535 }, 1025),
+  FRONTEND_URL: url('http://localhost:5173'),
+  /** Unset means only the origin of `FRONTEND_URL`. */
+  CORS_ORIGINS: origins(),
+  METRICS_TOKEN: text(undefined, { secret: true }),
+  // Connection strings may carry credentials, so they are secret too.
+  MONGODB_URI: text(undefined, {
+    pattern: /^mongodb(\+srv)?:\/\/[^\s/]+/,
+    patternMessage: 'must be a mongodb:// or mongodb+srv:// connection string',
+    secret: true
+  }),
+  REDIS_URL: text(undefined, {
+    pattern: /^rediss?:\/\/[^\s/]+/,
+    patternMessage: 'must be a redis:// or rediss:// URL',
+    secret: true
+  }),
+  TAX_RATE_PERCENT: number({ min: 0, max: 100 }, 8),
+  SHUTDOWN_READINESS_DELAY_SECONDS: integer({ min: 0 }, (environment) => (environment === 'production' ? 5 : 0)),
+  SHUTDOWN_DRAIN_TIMEOUT_SECONDS: integer({ min: 1 }, 15),
+  SHUTDOWN_TIMEOUT_SECONDS: integer({ min: 1 }, 25),
+  WEBHOOK_MAX_ATTEMPTS: integer({ min: 1 }, 8)
+};
+
+export type SettingName = keyof typeof settings;
+
+export type Settings = { [K in SettingName]: (typeof settings)[K] extends Setting<infer T> ? T : never };
+
+/** JWT secrets that ship with the repo; production refuses them. */
+const SAMPLE_JWT_SECRETS = ['your-jwt-secret-key-change-in-production', 'shopflow-dev-only-jwt-secret'];
+
+/** Rules that span several settings or depend on the environment; one message per broken rule. */
+export const checkSettings = (values: Settings, environment: Environment): string[] => {
+  const problems: string[] = [];
+
+  if (environment === 'production') {
+    if (values.JWT_SECRET === undefined) {
+      problems.push('JWT_SECRET is required in production.');
+    } else if (SAMPLE_JWT_SECRETS.includes(values.JWT_SECRET)) {
+      problems.push('JWT_SECRET is a sample value from this repository; set a secret of your own in production.');
+    }
+  }
+
+  if ((values.ADMIN_EMAIL === undefined) !== (values.ADMIN_PASSWORD === undefined)) {
+    problems.push('ADMIN_EMAIL and ADMIN_PASSWORD must be set together.');
+  }
+
+  const { SHUTDOWN_READINESS_DELAY_SECONDS: delay, SHUTDOWN_DRAIN_TIMEOUT_SECONDS: drain } = values;
+  if (values.SHUTDOWN_TIMEOUT_SECONDS <= delay + drain) {
+    problems.push(`SHUTDOWN_TIMEOUT_SECONDS must be more than SHUTDOWN_READINESS_DELAY_SECONDS plus SHUTDOWN_DRAIN_TIMEOUT_SECONDS (${delay + drain}).`);
+  }
+
+  return problems;
+};
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import path from 'path';
+import type { Environment, RawValue } from './settings';
+
+export interface ConfigSource {
+  /** Where the values came from, as shown in problem reports. */
+  name: string;
+  values: Record<string, RawValue | undefined>;
+  /** Config files may only hold known settings; the process environment holds plenty else. */
+  strict: boolean;
+}
+
+const DOTENV_LINE = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/;
+const QUOTED = /^(["'])(.*)\1(?:\s+#.*)?$/;
+
+/** Reads a file, or resolves `undefined` when there is none; every config file is optional. */
+const readOptional = (filePath: string): string | undefined => {
+  try {
+    return fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+};
+
+/**
+ * `NAME=value` lines; blank lines and `#` comments are skipped, an `export `
+ * prefix is allowed, and values may be quoted. Double-quoted values
+ * understand `\n`; unquoted ones end at ` #`.
+ */
+export const parseDotenv = (content: string, name: string, problems: string[]): Record<string, string> => {
+  const values: Record<string, string> = {};
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '' || line.trim().startsWith('#')) {
+      return;
+    }
+
+    const match = DOTENV_LINE.exec(line);
+    if (!match) {
+      problems.push(`${name} line ${index + 1} is not a NAME=value line.`);
+      return;
+    }
+
+    const [, key, rest] = match;
+    const quoted = QUOTED.exec(rest);
+    if (quoted) {
+      values[key] = quoted[1] === '"' ? quoted[2].replace(/\\n/g, '\n').replace(/\\"/g, '"') : quoted[2];
+    } else {
+      values[key] = rest.replace(/\s+#.*$/, '');
+    }
+  });
+
+  return values;
+};
+
+/** A flat object of setting names to strings, numbers or booleans. */
+const parseJson = (content: string, name: string, problems: string[]): Record<string, RawValue> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    problems.push(`${name} is not valid JSON: ${(error as Error).message}.`);
+    return {};
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    problems.push(`${name} must hold a JSON object of setting names to values.`);
+    return {};
+  }
+
+  const values: Record<string, RawValue> = {};
+  Object.entries(parsed).forEach(([key, value]) => {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      values[key] = value;
+    } else {
+      problems.push(`${key} in ${name} must be a string, number or boolean.`);
+    }
+  });
+  return values;
+};
+
+/**
+ * The config files that exist under `directory`, lowest precedence first:
+ * `config/default.json`, `config/<environment>.json`, `.env` and
+ * `.env.<environment>`. The process environment goes above all of them.
+ */
+export const readConfigFiles = (directory: string, environment: Environment, problems: string[]): ConfigSource[] => {
+  const files: Array<[string, typeof parseJson]> = [
+    ['config/default.json', parseJson],
+    [`config/${environment}.json`, parseJson],
+    ['.env', parseDotenv],
+    [`.env.${environment}`, parseDotenv]
+  ];
+
+  return files.flatMap(([name, parse]) => {
+    const content = readOptional(path.join(directory, name));
+    return content === undefined ? [] : [{ name, values: parse(content, name, problems), strict: true }];
+  });
+};
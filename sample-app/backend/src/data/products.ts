@@ -3,12 +3,18 @@ export interface ProductSummary {
   name: string;
   price: number;
   image: string;
+  /** Average review rating to one decimal; recomputed from the product's reviews. */
   rating: number;
   reviewCount: number;
   description: string;
   category: string;
+  /** Derived from `stockQuantity` by the repositories; never set on its own. */
   inStock: boolean;
+  /** Units available to sell. Checkout reservations are taken out of it until they lapse. */
+  stockQuantity: number;
   discount?: number;
+  /** ISO timestamp used by the `newest` sort. */
+  createdAt?: string;
 }
 
 export const products: ProductSummary[] = [
@@ -17,68 +23,80 @@ export const products: ProductSummary[] = [
     name: 'Wireless Bluetooth Headphones',
     price: 99.99,
     image: 'https://via.placeholder.com/300x300?text=Headphones',
-    rating: 4.5,
-    reviewCount: 128,
+    rating: 0,
+    reviewCount: 0,
     description: 'Premium quality wireless headphones with noise cancellation.',
     category: 'electronics',
     inStock: true,
-    discount: 20
+    stockQuantity: 25,
+    discount: 20,
+    createdAt: '2025-06-02T09:00:00.000Z'
   },
   {
     id: '2',
     name: 'Smart Fitness Watch',
     price: 199.99,
     image: 'https://via.placeholder.com/300x300?text=Smart+Watch',
-    rating: 4.3,
-    reviewCount: 89,
+    rating: 0,
+    reviewCount: 0,
     description: 'Track your goals with heart rate, sleep tracking, and GPS.',
     category: 'electronics',
-    inStock: true
+    inStock: true,
+    stockQuantity: 12,
+    createdAt: '2025-07-14T09:00:00.000Z'
   },
   {
     id: '3',
     name: 'Organic Cotton T-Shirt',
     price: 29.99,
     image: 'https://via.placeholder.com/300x300?text=T-Shirt',
-    rating: 4.7,
-    reviewCount: 256,
+    rating: 0,
+    reviewCount: 0,
     description: 'Soft, sustainable fabric available in multiple colours.',
     category: 'clothing',
     inStock: true,
-    discount: 15
+    stockQuantity: 40,
+    discount: 15,
+    createdAt: '2025-05-20T09:00:00.000Z'
   },
   {
     id: '4',
     name: 'Professional Camera Lens',
     price: 449.99,
     image: 'https://via.placeholder.com/300x300?text=Camera+Lens',
-    rating: 4.8,
-    reviewCount: 45,
+    rating: 0,
+    reviewCount: 0,
     description: 'Crisp optics with weather sealing and 3-year warranty.',
     category: 'electronics',
-    inStock: false
+    inStock: false,
+    stockQuantity: 0,
+    createdAt: '2025-08-01T09:00:00.000Z'
   },
   {
     id: '5',
     name: 'Yoga Mat Premium',
     price: 59.99,
     image: 'https://via.placeholder.com/300x300?text=Yoga+Mat',
-    rating: 4.6,
-    reviewCount: 312,
+    rating: 0,
+    reviewCount: 0,
     description: 'Non-slip premium yoga mat for all skill levels.',
     category: 'sports',
     inStock: true,
-    discount: 10
+    stockQuantity: 8,
+    discount: 10,
+    createdAt: '2025-04-11T09:00:00.000Z'
   },
   {
     id: '6',
     name: 'JavaScript: The Good Parts',
     price: 34.99,
     image: 'https://via.placeholder.com/300x300?text=JS+Book',
-    rating: 4.4,
-    reviewCount: 189,
+    rating: 0,
+    reviewCount: 0,
     description: 'Classic read for honing your JavaScript intuition.',
     category: 'books',
-    inStock: true
+    inStock: true,
+    stockQuantity: 60,
+    createdAt: '2025-03-03T09:00:00.000Z'
   }
 ];
@@ -0,0 +1,50 @@
+import type { Promotion } from '../models/Promotion';
+
+// Promotions the mock API starts with; edit here to try other rules.
+export const promotions: Promotion[] = [
+  {
+    id: 'promo-welcome10',
+    name: 'Welcome 10% off',
+    code: 'WELCOME10',
+    benefit: { type: 'percent-off', percent: 10 },
+    perCustomerLimit: 1,
+    stacking: 'exclusive',
+    active: true
+  },
+  {
+    id: 'promo-save15',
+    name: '$15 off orders over $100',
+    code: 'SAVE15',
+    benefit: { type: 'fixed-off', amount: 15 },
+    minimumSpend: 100,
+    stacking: 'stackable',
+    active: true
+  },
+  {
+    id: 'promo-books-b2g1',
+    name: 'Books: buy 2, get 1 free',
+    benefit: { type: 'buy-x-get-y', buy: 2, get: 1 },
+    categories: ['books'],
+    stacking: 'stackable',
+    active: true
+  },
+  {
+    id: 'promo-sports-sale',
+    name: 'Sports sale: 5% off',
+    benefit: { type: 'percent-off', percent: 5 },
+    categories: ['sports'],
+    stacking: 'stackable',
+    active: true
+  },
+  {
+    id: 'promo-summer-electronics',
+    name: 'Summer electronics 15% off',
+    code: 'SUMMER15',
+    benefit: { type: 'percent-off', percent: 15 },
+    categories: ['electronics'],
+    stacking: 'stackable',
+    startsAt: '2025-06-01T00:00:00.000Z',
+    endsAt: '2025-08-31T23:59:59.999Z',
+    active: true
+  }
+];
@@ -0,0 +1,42 @@
+import type { Review } from '../models/Review';
+
+const review = (
+  id: string,
+  productId: string,
+  authorName: string,
+  rating: number,
+  comment: string,
+  createdAt: string,
+  helpfulCount = 0
+): Review => ({
+  id: `seed-review-${id}`,
+  productId,
+  // Seed authors are not real accounts, so nobody can edit these; staff can still remove them.
+  userId: `seed-user-${authorName.toLowerCase().replace(/[^a-z]/g, '')}`,
+  authorName,
+  rating,
+  comment,
+  status: 'approved',
+  flags: [],
+  moderationHistory: [],
+  helpfulCount,
+  notHelpfulCount: 0,
+  createdAt,
+  updatedAt: createdAt
+});
+
+// Reviews the document store starts with when it has none; product ratings are computed from them.
+export const reviews: Review[] = [
+  review('1', '1', 'Sarah J.', 5, 'Amazing sound quality and the noise cancellation works perfectly.', '2024-12-15T10:00:00.000Z', 12),
+  review('2', '1', 'Mike C.', 4, 'Great headphones overall. Battery life is excellent.', '2024-12-10T09:30:00.000Z', 5),
+  review('3', '1', 'Emily D.', 5, 'The ANC blocks out all the subway noise. Highly recommended!', '2024-12-08T18:15:00.000Z', 3),
+  review('4', '2', 'Tom R.', 4, 'Accurate step counts and the sleep tracking is surprisingly good.', '2024-11-20T07:45:00.000Z', 4),
+  review('5', '2', 'Priya S.', 4, 'Comfortable strap; the app could be better.', '2024-11-02T12:00:00.000Z'),
+  review('6', '3', 'Lena M.', 5, 'Soft, breathable and it kept its shape after many washes.', '2024-10-28T16:20:00.000Z', 7),
+  review('7', '3', 'Omar K.', 4, 'Runs slightly large. Order a size down.', '2024-10-12T11:10:00.000Z', 9),
+  review('8', '4', 'Chris P.', 5, 'Perfect espresso every morning once you dial in the grind.', '2024-09-30T08:00:00.000Z', 2),
+  review('9', '5', 'Ana L.', 5, 'Great grip, even in hot yoga.', '2024-12-01T19:00:00.000Z', 6),
+  review('10', '5', 'Ben W.', 4, 'Thick and comfortable, but heavier than expected.', '2024-11-18T17:30:00.000Z', 1),
+  review('11', '6', 'Jamie F.', 5, 'Short, dense and still relevant. Every JS developer should read it.', '2024-08-14T13:00:00.000Z', 8),
+  review('12', '6', 'Kai N.', 4, 'Opinionated in a good way; some parts have aged.', '2024-07-22T10:40:00.000Z', 2)
+];
@@ -0,0 +1,20 @@
+export interface ErrorDetail {
+  field: string;
+  message: string;
+}
+
+/**
+ * An error that maps onto the API's `{ error: { code, message } }` envelope.
+ * Thrown from handlers and services, rendered by the error middleware.
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details?: ErrorDetail[]
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
@@ -0,0 +1,61 @@
+import { randomUUID } from 'crypto';
+import type { Logger } from '../logging/logger';
+import type { Order, OrderStatus } from '../models/Order';
+import type { ProductSummary } from '../models/Product';
+
+/** What each event carries; webhooks send it as the payload's `data`. */
+export interface DomainEventMap {
+  'order.created': { order: Order };
+  'order.status_changed': { order: Order; from: OrderStatus; to: OrderStatus };
+  'product.updated': { product: ProductSummary };
+  /** The product as it was just before it was deleted. */
+  'product.deleted': { product: ProductSummary };
+  'inventory.low': { productId: string; name: string; stockQuantity: number; threshold: number };
+}
+
+export type DomainEventType = keyof DomainEventMap;
+
+export const DOMAIN_EVENT_TYPES: readonly DomainEventType[] = [
+  'order.created',
+  'order.status_changed',
+  'product.updated',
+  'product.deleted',
+  'inventory.low'
+];
+
+export type DomainEvent<K extends DomainEventType = DomainEventType> = {
+  [T in K]: { id: string; type: T; occurredAt: string; data: DomainEventMap[T] };
+}[K];
+
+export type DomainEventListener = (event: DomainEvent) => void;
+
+/**
+ * In-process publish/subscribe for things that happened in the shop. Services
+ * publish after their change is saved; listeners are called synchronously and
+ * must hand any slow work off themselves. A throwing listener is logged and
+ * never fails the publisher.
+ */
+export class EventBus {
+  private readonly listeners = new Set<DomainEventListener>();
+
+  constructor(private readonly logger: Logger) {}
+
+  /** Registers `listener` for every event; call the returned function to stop. */
+  subscribe(listener: DomainEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  publish<K extends DomainEventType>(type: K, data: DomainEventMap[K]): void {
+    const event = { id: randomUUID(), type, occurredAt: new Date().toISOString(), data } as DomainEvent;
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.error('An event listener failed', { eventType: type, eventId: event.id, error });
+      }
+    });
+  }
+}
@@ -0,0 +1,133 @@
+import type { AppConfig } from '../config';
+
+export type HealthStatus = 'up' | 'degraded' | 'down';
+
+/** What a check may report besides "fine": a softer `degraded` verdict and anything worth showing. */
+export interface HealthCheckOutcome {
+  status?: Exclude<HealthStatus, 'down'>;
+  details?: Record<string, unknown>;
+}
+
+export interface HealthCheck {
+  name: string;
+  /**
+   * A failing critical check makes the instance not ready (`down`); any
+   * other failing check only makes it `degraded`.
+   */
+  critical: boolean;
+  /** Resolves when the dependency works; rejecting, or taking too long, marks it down. */
+  run(): Promise<HealthCheckOutcome | void>;
+}
+
+export interface HealthCheckResult {
+  name: string;
+  status: HealthStatus;
+  critical: boolean;
+  latencyMs: number;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface ReadinessReport {
+  status: HealthStatus;
+  /** `false` when any critical check is down or the server is shutting down. */
+  ready: boolean;
+  shuttingDown: boolean;
+  checks: HealthCheckResult[];
+  timestamp: string;
+}
+
+export interface LivenessReport {
+  status: 'up';
+  uptimeSeconds: number;
+  timestamp: string;
+}
+
+/**
+ * Liveness and readiness for the API. Liveness only says the process can
+ * answer; readiness runs every registered dependency check in parallel, each
+ * under `checkTimeoutMs`, and rolls them up: all up is `up`, a failing
+ * non-critical check is `degraded` (still ready, as the outbox and other
+ * fallbacks cover it) and a failing critical check is `down`. Once
+ * {@link markShuttingDown} is called readiness reports `down` without
+ * running the checks, so load balancers stop sending traffic.
+ */
+export class HealthService {
+  private readonly checks: HealthCheck[] = [];
+  private shuttingDown = false;
+  private readonly startedAt = Date.now();
+
+  constructor(private readonly healthConfig: AppConfig['health']) {}
+
+  register(check: HealthCheck): void {
+    if (this.checks.some((existing) => existing.name === check.name)) {
+      throw new Error(`A health check called ${check.name} is already registered.`);
+    }
+    this.checks.push(check);
+  }
+
+  markShuttingDown(): void {
+    this.shuttingDown = true;
+  }
+
+  get isShuttingDown(): boolean {
+    return this.shuttingDown;
+  }
+
+  liveness(): LivenessReport {
+    return {
+      status: 'up',
+      uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  async readiness(): Promise<ReadinessReport> {
+    if (this.shuttingDown) {
+      return { status: 'down', ready: false, shuttingDown: true, checks: [], timestamp: new Date().toISOString() };
+    }
+
+    const checks = await Promise.all(this.checks.map((check) => this.run(check)));
+    const failing = checks.filter((result) => result.status !== 'up');
+    let status: HealthStatus = 'up';
+    if (failing.some((result) => result.critical && result.status === 'down')) {
+      status = 'down';
+    } else if (failing.length > 0) {
+      status = 'degraded';
+    }
+
+    return { status, ready: status !== 'down', shuttingDown: false, checks, timestamp: new Date().toISOString() };
+  }
+
+  private async run(check: HealthCheck): Promise<HealthCheckResult> {
+    const { checkTimeoutMs } = this.healthConfig;
+    const startedAt = process.hrtime.bigint();
+    const latencyMs = () => Math.round(Number(process.hrtime.bigint() - startedAt) / 1e4) / 100;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${checkTimeoutMs} ms`)), checkTimeoutMs);
+    });
+
+    try {
+      const outcome = (await Promise.race([check.run(), timeout])) ?? {};
+      return {
+        name: check.name,
+        status: outcome.status ?? 'up',
+        critical: check.critical,
+        latencyMs: latencyMs(),
+        ...(outcome.details ? { details: outcome.details } : {})
+      };
+    } catch (error) {
+      return {
+        name: check.name,
+        status: 'down',
+        critical: check.critical,
+        latencyMs: latencyMs(),
+        error: error instanceof Error ? error.message : String(error)
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
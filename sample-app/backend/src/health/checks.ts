@@ -0,0 +1,59 @@
+import type { AppConfig } from '../config';
+import type { MailTransport } from '../mail/transport';
+import type { PaymentProvider } from '../payments';
+import type { ProductRepository } from '../repositories';
+import type { ProductSearchIndex } from '../search/ProductSearchIndex';
+import type { DocumentStore } from '../storage';
+import type { HealthCheck } from './HealthService';
+
+/** An id no document has, so a probe reads without touching data. */
+const PROBE_ID = 'health-probe';
+
+/** Critical: nothing works without the product catalog and the document store. */
+export const storageCheck = (
+  documentStore: DocumentStore,
+  productRepository: ProductRepository,
+  { dataStore, productStore }: Pick<AppConfig, 'dataStore' | 'productStore'>
+): HealthCheck => ({
+  name: 'storage',
+  critical: true,
+  run: async () => {
+    await Promise.all([documentStore.get('healthProbes', PROBE_ID), productRepository.findById(PROBE_ID)]);
+    return { details: { dataStore: dataStore.driver, productStore: productStore.driver } };
+  }
+});
+
+/**
+ * The in-process search index, the backend's only cache. It is rebuilt from
+ * the catalog on startup, so one that holds fewer products than the catalog
+ * serves incomplete search results.
+ */
+export const searchCacheCheck = (searchIndex: ProductSearchIndex, productRepository: ProductRepository): HealthCheck => ({
+  name: 'cache',
+  critical: false,
+  run: async () => {
+    const products = (await productRepository.findAll()).length;
+    const indexed = searchIndex.size;
+    return { status: indexed < products ? 'degraded' : 'up', details: { kind: 'search-index', indexed, products } };
+  }
+});
+
+/** Not critical: while SMTP is down, email waits in the outbox. */
+export const smtpCheck = (transport: MailTransport, mailConfig: AppConfig['mail']): HealthCheck => ({
+  name: 'smtp',
+  critical: false,
+  run: async () => {
+    await transport.verify();
+    return { details: { host: mailConfig.smtp.host, port: mailConfig.smtp.port } };
+  }
+});
+
+/** Not critical: browsing and carts keep working while checkout can't take payments. */
+export const paymentProviderCheck = (provider: PaymentProvider): HealthCheck => ({
+  name: 'paymentProvider',
+  critical: false,
+  run: async () => {
+    await provider.checkHealth();
+    return { details: { provider: provider.name } };
+  }
+});
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createLogger } from '../logging/logger';
+import type { IdempotencyRecord } from '../models/IdempotencyRecord';
+import { IdempotencyRepository } from '../repositories/IdempotencyRepository';
+import { InMemoryDocumentStore } from '../storage/InMemoryDocumentStore';
+import { IdempotencyService, type IdempotencyOutcome, type IdempotentRequest } from './IdempotencyService';
+
+const HOUR_MS = 3_600_000;
+
+const request = (overrides: Partial<IdempotentRequest> = {}): IdempotentRequest => ({
+  scope: 'user-1',
+  key: 'attempt-1',
+  method: 'POST',
+  path: '/api/orders',
+  body: { paymentId: 'pay-1' },
+  ...overrides
+});
+
+const created = { status: 201, location: '/api/orders/order-1', body: { data: { id: 'order-1' } } };
+
+const claimedRecord = (outcome: IdempotencyOutcome): IdempotencyRecord => {
+  if (!('claimed' in outcome)) {
+    throw new Error('Expected the key to be claimed.');
+  }
+  return outcome.claimed;
+};
+
+describe('IdempotencyService', () => {
+  let records: IdempotencyRepository;
+  let idempotency: IdempotencyService;
+
+  beforeEach(() => {
+    records = new IdempotencyRepository(new InMemoryDocumentStore());
+    idempotency = new IdempotencyService(
+      records,
+      { ttlHours: 24, sweepIntervalMinutes: 60 },
+      'test-secret',
+      createLogger({ level: 'silent', service: 'test' })
+    );
+  });
+
+  it('replays the stored response for a retry', async () => {
+    const record = claimedRecord(await idempotency.begin(request()));
+    await idempotency.complete(record, created);
+
+    expect(await idempotency.begin(request())).toEqual({ replay: created });
+  });
+
+  it('refuses a key reused for a different request', async () => {
+    await idempotency.complete(claimedRecord(await idempotency.begin(request())), created);
+
+    await expect(idempotency.begin(request({ body: { paymentId: 'pay-2' } })))
+      .rejects.toMatchObject({ status: 409, code: 'IDEMPOTENCY_KEY_REUSED' });
+    await expect(idempotency.begin(request({ path: '/api/payments' })))
+      .rejects.toMatchObject({ code: 'IDEMPOTENCY_KEY_REUSED' });
+  });
+
+  it('refuses a retry while the first request is still running', async () => {
+    const [first, second] = await Promise.allSettled([idempotency.begin(request()), idempotency.begin(request())]);
+
+    expect(first.status).toBe('fulfilled');
+    expect(second).toMatchObject({ status: 'rejected', reason: { code: 'IDEMPOTENCY_KEY_IN_USE' } });
+  });
+
+  it('lets the client retry after a server error or an abandoned request', async () => {
+    await idempotency.complete(claimedRecord(await idempotency.begin(request())), { status: 503, body: {} });
+    const retried = claimedRecord(await idempotency.begin(request()));
+
+    await idempotency.abandon(retried);
+    expect(await idempotency.begin(request())).toHaveProperty('claimed');
+  });
+
+  it('scopes keys to the caller', async () => {
+    await idempotency.complete(claimedRecord(await idempotency.begin(request())), created);
+
+    expect(await idempotency.begin(request({ scope: 'user-2', body: { paymentId: 'pay-9' } }))).toHaveProperty('claimed');
+  });
+
+  it('forgets keys once they lapse', async () => {
+    const record = claimedRecord(await idempotency.begin(request()));
+    await idempotency.complete(record, created);
+
+    expect(await idempotency.purgeExpired(new Date(Date.now() + 23 * HOUR_MS))).toBe(0);
+    expect(await idempotency.purgeExpired(new Date(Date.now() + 25 * HOUR_MS))).toBe(1);
+    expect(await records.findById(record.id)).toBeUndefined();
+  });
+});
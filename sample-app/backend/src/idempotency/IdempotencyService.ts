@@ -0,0 +1,126 @@
+import { createHmac } from 'crypto';
+import type { AppConfig } from '../config';
+import { ApiError } from '../errors';
+import type { Logger } from '../logging/logger';
+import type { IdempotencyRecord } from '../models/IdempotencyRecord';
+import type { IdempotencyRepository } from '../repositories';
+
+export interface IdempotentRequest {
+  /** The signed-in user, or a fixed scope for anonymous callers. */
+  scope: string;
+  key: string;
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+/** What {@link IdempotencyService.begin} decided: replay a stored response, or run the request. */
+export type IdempotencyOutcome =
+  | { replay: NonNullable<IdempotencyRecord['response']> }
+  | { claimed: IdempotencyRecord };
+
+/**
+ * Stores the first response for each `Idempotency-Key` and replays it for
+ * retries. A key reused for a different request is a `409
+ * IDEMPOTENCY_KEY_REUSED`; one whose first request is still running is a `409
+ * IDEMPOTENCY_KEY_IN_USE`. Keys lapse after `idempotency.ttlHours`.
+ */
+export class IdempotencyService {
+  /** Keys being claimed or processed right now; this process is the only writer. */
+  private readonly inFlight = new Set<string>();
+
+  constructor(
+    private readonly records: IdempotencyRepository,
+    private readonly idempotencyConfig: AppConfig['idempotency'],
+    /** Keys the fingerprint hash, since payment bodies carry card numbers. */
+    private readonly fingerprintSecret: string,
+    private readonly logger: Logger
+  ) {}
+
+  async begin(request: IdempotentRequest): Promise<IdempotencyOutcome> {
+    const id = `${request.scope}:${request.key}`;
+    const fingerprint = this.fingerprint(request);
+
+    // Checked and taken before the first await, so two concurrent requests can't both claim the key.
+    if (this.inFlight.has(id)) {
+      throw new ApiError(409, 'IDEMPOTENCY_KEY_IN_USE',
+        'A request with this Idempotency-Key is still being processed; retry once it has finished.');
+    }
+    this.inFlight.add(id);
+
+    try {
+      const now = new Date();
+      const existing = await this.records.findById(id);
+
+      if (existing && new Date(existing.expiresAt) > now) {
+        if (existing.fingerprint !== fingerprint) {
+          throw new ApiError(409, 'IDEMPOTENCY_KEY_REUSED',
+            'This Idempotency-Key was already used for a different request.');
+        }
+        if (existing.state === 'completed' && existing.response) {
+          this.inFlight.delete(id);
+          return { replay: existing.response };
+        }
+      }
+
+      const claimed = await this.records.save({
+        id,
+        fingerprint,
+        state: 'in_progress',
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + this.idempotencyConfig.ttlHours * 3_600_000).toISOString()
+      });
+      return { claimed };
+    } catch (error) {
+      this.inFlight.delete(id);
+      throw error;
+    }
+  }
+
+  /** Stores the response for replay. Server errors aren't stored, so the client may retry them. */
+  async complete(record: IdempotencyRecord, response: NonNullable<IdempotencyRecord['response']>): Promise<void> {
+    try {
+      if (response.status >= 500) {
+        await this.records.delete(record.id);
+      } else {
+        await this.records.save({ ...record, state: 'completed', response });
+      }
+    } finally {
+      this.inFlight.delete(record.id);
+    }
+  }
+
+  /** Forgets a claim whose request ended without a response, such as a dropped connection. */
+  async abandon(record: IdempotencyRecord): Promise<void> {
+    try {
+      await this.records.delete(record.id);
+    } finally {
+      this.inFlight.delete(record.id);
+    }
+  }
+
+  async purgeExpired(now = new Date()): Promise<number> {
+    const expired = (await this.records.findAll()).filter((record) => new Date(record.expiresAt) <= now);
+    for (const record of expired) {
+      await this.records.delete(record.id);
+    }
+    return expired.length;
+  }
+
+  /** Purges lapsed keys periodically; returns a function that stops it. */
+  startSweeper(): () => void {
+    const timer = setInterval(() => {
+      this.purgeExpired().catch((error) => {
+        this.logger.error('Failed to purge expired idempotency keys', { error });
+      });
+    }, this.idempotencyConfig.sweepIntervalMinutes * 60_000);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  private fingerprint({ method, path, body }: IdempotentRequest): string {
+    return createHmac('sha256', this.fingerprintSecret)
+      .update(JSON.stringify([method, path, body ?? null]))
+      .digest('hex');
+  }
+}
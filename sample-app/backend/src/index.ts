@@ -1,28 +1,259 @@
-import express, { Request, Response } from 'express';
+import express, { Request, RequestHandler, Response } from 'express';
+import cookieParser from 'cookie-parser';
 import cors from 'cors';
 import helmet from 'helmet';
-import morgan from 'morgan';
-import productsRouter from './routes/products';
+import { AuthService } from './auth/AuthService';
+import { ensureBootstrapAdmin } from './auth/bootstrapAdmin';
+import { PasswordResetService } from './auth/PasswordResetService';
+import { TokenService } from './auth/tokens';
+import { CartService } from './cart/CartService';
+import { config } from './config';
+import { promotions } from './data/promotions';
+import { reviews } from './data/reviews';
+import { EventBus } from './events/EventBus';
+import { paymentProviderCheck, searchCacheCheck, smtpCheck, storageCheck } from './health/checks';
+import { HealthService } from './health/HealthService';
+import { IdempotencyService } from './idempotency/IdempotencyService';
+import { InventoryService } from './inventory/InventoryService';
+import { GracefulShutdown } from './lifecycle/GracefulShutdown';
+import { createLogger } from './logging/logger';
+import { MailService } from './mail/MailService';
+import { Metrics } from './metrics/Metrics';
+import { createSmtpTransport } from './mail/transport';
+import { errorHandler } from './middleware/errorHandler';
+import { httpMetrics, routeBase } from './middleware/httpMetrics';
+import { REQUEST_ID_HEADER, requestLogger } from './middleware/requestLogger';
+import { NewsletterService } from './newsletter/NewsletterService';
+import { OrderService } from './orders/OrderService';
+import { createPaymentProvider } from './payments';
+import { PaymentService } from './payments/PaymentService';
+import { PricingEngine } from './pricing/PricingEngine';
+import { PromotionService } from './promotions/PromotionService';
+import {
+  CartRepository,
+  createProductRepository,
+  IdempotencyRepository,
+  MailOutboxRepository,
+  OrderRepository,
+  PasswordResetRepository,
+  PaymentRepository,
+  PromotionRedemptionRepository,
+  ReviewRepository,
+  ReviewVoteRepository,
+  SessionRepository,
+  StockReservationRepository,
+  UserRepository,
+  WebhookDeliveryRepository,
+  WebhookSubscriptionRepository
+} from './repositories';
+import createAuthRouter from './routes/auth';
+import createCartRouter from './routes/cart';
+import createHealthRouter from './routes/health';
+import createMailRouter from './routes/mail';
+import createMetricsRouter from './routes/metrics';
+import createNewsletterRouter from './routes/newsletter';
+import createOrdersRouter from './routes/orders';
+import createPaymentsRouter from './routes/payments';
+import createPricingRouter from './routes/pricing';
+import createProductsRouter from './routes/products';
+import createReviewModerationRouter from './routes/reviewModeration';
+import createReviewsRouter from './routes/reviews';
+import createSearchRouter from './routes/search';
+import createUsersRouter from './routes/users';
+import createWebhooksRouter from './routes/webhooks';
+import { ReviewService } from './reviews/ReviewService';
+import { PopularQueries } from './search/PopularQueries';
+import { ProductSearchIndex } from './search/ProductSearchIndex';
+import { createDocumentStore } from './storage';
+import { WebhookService } from './webhooks/WebhookService';
 
 const app = express();
-const PORT = process.env.PORT || 4000;
+const PORT = config.port;
+const logger = createLogger(config.logging);
+const metrics = new Metrics();
 
+const productRepository = createProductRepository(config.productStore);
+const documentStore = createDocumentStore(config.dataStore);
+const userRepository = new UserRepository(documentStore);
+const auth = new AuthService(
+  userRepository,
+  new SessionRepository(documentStore),
+  new TokenService(config.auth),
+  config.auth
+);
+const pricing = new PricingEngine(config.pricing);
+const searchIndex = new ProductSearchIndex();
+const popularQueries = new PopularQueries();
+const events = new EventBus(logger);
+metrics.listen(events);
+searchIndex.listen(events);
+const webhooks = new WebhookService(
+  new WebhookSubscriptionRepository(documentStore),
+  new WebhookDeliveryRepository(documentStore),
+  config.webhooks,
+  logger
+);
+webhooks.listen(events);
+const mailContext = { appUrl: config.mail.appUrl, currency: config.pricing.currency };
+const mailTransport = createSmtpTransport(config.mail);
+const mail = new MailService(
+  new MailOutboxRepository(documentStore),
+  mailTransport,
+  config.mail,
+  mailContext,
+  logger
+);
+mail.listen(events);
+const passwordResets = new PasswordResetService(
+  userRepository,
+  new PasswordResetRepository(documentStore),
+  auth,
+  mail,
+  config.mail
+);
+const newsletter = new NewsletterService(userRepository, mail, config.mail, config.auth.jwtSecret);
+const inventory = new InventoryService(
+  productRepository,
+  new StockReservationRepository(documentStore),
+  config.inventory,
+  events,
+  logger,
+  (product) => searchIndex.upsert(product)
+);
+const promotionService = new PromotionService(promotions, new PromotionRedemptionRepository(documentStore));
+const cartService = new CartService(
+  new CartRepository(documentStore),
+  productRepository,
+  pricing,
+  promotionService,
+  inventory,
+  () => metrics.cartsCreated.inc()
+);
+const orderRepository = new OrderRepository(documentStore);
+const paymentProvider = createPaymentProvider(config.payments, documentStore);
+const paymentService = new PaymentService(
+  new PaymentRepository(documentStore),
+  paymentProvider,
+  cartService
+);
+const idempotency = new IdempotencyService(
+  new IdempotencyRepository(documentStore),
+  config.idempotency,
+  config.auth.jwtSecret,
+  logger
+);
+const orderService = new OrderService(
+  orderRepository,
+  cartService,
+  promotionService,
+  inventory,
+  paymentService,
+  events
+);
+const reviewService = new ReviewService(
+  new ReviewRepository(documentStore),
+  new ReviewVoteRepository(documentStore),
+  userRepository,
+  orderRepository,
+  productRepository,
+  inventory
+);
+
+const health = new HealthService(config.health);
+health.register(storageCheck(documentStore, productRepository, config));
+health.register(searchCacheCheck(searchIndex, productRepository));
+health.register(smtpCheck(mailTransport, config.mail));
+health.register(paymentProviderCheck(paymentProvider));
+
+app.use(requestLogger(logger));
+app.use(httpMetrics(metrics));
 app.use(helmet());
-app.use(cors({ origin: true }));
+// Credentials are allowed so the browser sends the refresh-token cookie, so only the storefront's origins may call.
+app.use(cors({ origin: config.cors.origins, credentials: true, exposedHeaders: [REQUEST_ID_HEADER] }));
 app.use(express.json());
-app.use(morgan('dev'));
+app.use(cookieParser());
 
-app.get('/health', (_req: Request, res: Response) => {
-  res.json({ status: 'ok', service: 'shopflow-backend', timestamp: new Date().toISOString() });
-});
+/** Mounts a router, recording its path template so metrics label routes as `/api/orders/:id`. */
+const mount = (path: string, router: RequestHandler) => app.use(path, routeBase(path), router);
 
-app.use('/api/products', productsRouter);
+mount('/health', createHealthRouter({ health }));
+mount('/metrics', createMetricsRouter({ metrics, metricsConfig: config.metrics }));
+mount('/api/auth', createAuthRouter({
+  userRepository,
+  auth,
+  authConfig: config.auth,
+  cartService,
+  cartConfig: config.cart,
+  mail,
+  passwordResets,
+  newsletter
+}));
+mount('/api/cart', createCartRouter({ auth, cartService, cartConfig: config.cart }));
+if (config.mail.previewEnabled) {
+  mount('/api/mail', createMailRouter({ mail, context: mailContext }));
+}
+mount('/api/moderation/reviews', createReviewModerationRouter({ auth, reviewService }));
+mount('/api/newsletter', createNewsletterRouter({ newsletter }));
+mount('/api/orders', createOrdersRouter({ auth, orderService, idempotency }));
+mount('/api/payments', createPaymentsRouter({ auth, paymentService, idempotency }));
+mount('/api/pricing', createPricingRouter({ pricing, productRepository, promotionService }));
+mount('/api/products/:productId/reviews', createReviewsRouter({ auth, reviewService }));
+mount('/api/products', createProductsRouter({
+  auth,
+  productRepository,
+  inventory,
+  events,
+  searchIndex,
+  popularQueries
+}));
+mount('/api/search', createSearchRouter({ searchIndex, popularQueries }));
+mount('/api/users', createUsersRouter({ auth, userRepository }));
+mount('/api/webhooks', createWebhooksRouter({ auth, webhooks }));
 
 app.use('*', (_req: Request, res: Response) => {
   res.status(404).json({ error: { code: 'NOT_FOUND', message: 'Route not found' } });
 });
 
-app.listen(PORT, () => {
-  // eslint-disable-next-line no-console
-  console.log(`Mock API listening on http://localhost:${PORT}`);
+app.use(errorHandler);
+
+const start = async () => {
+  if (config.auth.bootstrapAdmin) {
+    await ensureBootstrapAdmin(userRepository, config.auth.bootstrapAdmin);
+  }
+  await reviewService.seedIfEmpty(reviews);
+  // Product ratings are derived from the reviews, never taken from the fixtures.
+  await reviewService.recomputeAll();
+  (await productRepository.findAll()).forEach((product) => searchIndex.upsert(product));
+  await inventory.releaseExpired();
+  await idempotency.purgeExpired();
+  const stopTimers = [
+    inventory.startSweeper(),
+    idempotency.startSweeper(),
+    webhooks.startDispatcher(),
+    mail.startDispatcher()
+  ];
+
+  const server = app.listen(PORT, () => {
+    logger.info(`Mock API listening on http://localhost:${PORT}`, {
+      port: PORT,
+      environment: config.environment,
+      productStore: config.productStore.driver,
+      dataStore: config.dataStore.driver
+    });
+  });
+
+  // Steps run once requests have drained, in this order: background work, then what it writes to.
+  new GracefulShutdown(server, health, config.shutdown, logger)
+    .addStep('timers', () => stopTimers.forEach((stop) => stop()))
+    .addStep('mailOutbox', () => mail.flush())
+    .addStep('webhookDeliveries', () => webhooks.flush())
+    .addStep('smtp', () => mailTransport.close())
+    .addStep('documentStore', () => documentStore.close())
+    .addStep('productStore', () => productRepository.close())
+    .listen();
+};
+
+start().catch((error) => {
+  logger.error('Failed to start the API server', { error });
+  process.exit(1);
 });
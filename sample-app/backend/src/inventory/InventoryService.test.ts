@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { DomainEvent } from '../events/EventBus';
+import { createTestServices, product } from '../testing/fixtures';
+
+const stockOf = async (services: ReturnType<typeof createTestServices>, id: string) =>
+  (await services.productRepository.findById(id))?.stockQuantity;
+
+describe('InventoryService', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('reserve', () => {
+    it('takes the units out of stock until the TTL runs out', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+      const services = createTestServices({ products: [product({ id: 'book', stockQuantity: 5 })] });
+
+      const reservation = await services.inventory.reserve('cart-1', 'user-1', [{ productId: 'book', quantity: 2 }]);
+
+      expect(reservation).toMatchObject({ id: 'cart-1', userId: 'user-1', expiresAt: '2026-10-19T12:15:00.000Z' });
+      expect(await stockOf(services, 'book')).toBe(3);
+      expect(await services.inventory.heldBy('cart-1')).toEqual(new Map([['book', 2]]));
+    });
+
+    it('credits back what the cart held before reserving again', async () => {
+      const services = createTestServices({
+        products: [product({ id: 'book', stockQuantity: 5 }), product({ id: 'pen', stockQuantity: 5 })]
+      });
+      await services.inventory.reserve('cart-1', 'user-1', [
+        { productId: 'book', quantity: 3 },
+        { productId: 'pen', quantity: 1 }
+      ]);
+
+      // All five books count, three of them from the cart's own hold; the pen goes back.
+      await services.inventory.reserve('cart-1', 'user-1', [{ productId: 'book', quantity: 5 }]);
+
+      expect(await stockOf(services, 'book')).toBe(0);
+      expect(await stockOf(services, 'pen')).toBe(5);
+      expect((await services.reservations.findById('cart-1'))?.lines).toEqual([{ productId: 'book', quantity: 5 }]);
+    });
+
+    it('reserves nothing when any line falls short', async () => {
+      const services = createTestServices({
+        products: [product({ id: 'book', stockQuantity: 5 }), product({ id: 'pen', stockQuantity: 1 })]
+      });
+      await services.inventory.reserve('cart-1', 'user-1', [{ productId: 'book', quantity: 1 }]);
+
+      await expect(services.inventory.reserve('cart-1', 'user-1', [
+        { productId: 'book', quantity: 2 },
+        { productId: 'pen', quantity: 2 },
+        { productId: 'gone', quantity: 1 }
+      ])).rejects.toMatchObject({
+        status: 409,
+        code: 'INSUFFICIENT_STOCK',
+        details: [
+          { field: 'pen', message: 'only 1 of Product pen available' },
+          { field: 'gone', message: 'is no longer sold' }
+        ]
+      });
+
+      expect(await stockOf(services, 'book')).toBe(4);
+      expect(await stockOf(services, 'pen')).toBe(1);
+      expect((await services.reservations.findById('cart-1'))?.lines).toEqual([{ productId: 'book', quantity: 1 }]);
+    });
+
+    it('lets only one of two carts racing for the last unit have it', async () => {
+      const services = createTestServices({ products: [product({ id: 'book', stockQuantity: 1 })] });
+
+      const results = await Promise.allSettled([
+        services.inventory.reserve('cart-1', 'user-1', [{ productId: 'book', quantity: 1 }]),
+        services.inventory.reserve('cart-2', 'user-2', [{ productId: 'book', quantity: 1 }])
+      ]);
+
+      expect(results.map(({ status }) => status)).toEqual(['fulfilled', 'rejected']);
+      expect(await stockOf(services, 'book')).toBe(0);
+    });
+
+    it('publishes inventory.low once when stock drops to the threshold', async () => {
+      const services = createTestServices({ products: [product({ id: 'book', stockQuantity: 7 })] });
+      const events: DomainEvent[] = [];
+      services.events.subscribe((event) => events.push(event));
+
+      await services.inventory.reserve('cart-1', 'user-1', [{ productId: 'book', quantity: 2 }]);
+      await services.inventory.reserve('cart-2', 'user-2', [{ productId: 'book', quantity: 1 }]);
+
+      expect(events.filter(({ type }) => type === 'inventory.low').map(({ data }) => data)).toEqual([
+        { productId: 'book', name: 'Product book', stockQuantity: 5, threshold: 5 }
+      ]);
+    });
+  });
+
+  describe('commit and release', () => {
+    it('keeps committed units sold', async () => {
+      const services = createTestServices({ products: [product({ id: 'book', stockQuantity: 5 })] });
+      await services.inventory.reserve('cart-1', 'user-1', [{ productId: 'book', quantity: 2 }]);
+
+      await services.inventory.commit('cart-1');
+      await services.inventory.release('cart-1');
+
+      expect(await stockOf(services, 'book')).toBe(3);
+      expect(await services.reservations.findById('cart-1')).toBeUndefined();
+    });
+
+    it('puts released units back on sale', async () => {
+      const services = createTestServices({ products: [product({ id: 'book', stockQuantity: 5 })] });
+      await services.inventory.reserve('cart-1', 'user-1', [{ productId: 'book', quantity: 2 }]);
+
+      await services.inventory.release('cart-1');
+
+      expect(await stockOf(services, 'book')).toBe(5);
+      expect(await services.reservations.findById('cart-1')).toBeUndefined();
+    });
+  });
+
+  describe('expiry', () => {
+    it('releases reservations once their TTL has passed', async () => {
+      const services = createTestServices({ products: [product({ id: 'book', stockQuantity: 5 })] });
+      await services.inventory.reserve('cart-1', 'user-1', [{ productId: 'book', quantity: 2 }]);
+      const now = Date.now();
+
+      expect(await services.inventory.releaseExpired(new Date(now + 14 * 60_000))).toBe(0);
+      expect(await stockOf(services, 'book')).toBe(3);
+
+      expect(await services.inventory.releaseExpired(new Date(now + 16 * 60_000))).toBe(1);
+      expect(await stockOf(services, 'book')).toBe(5);
+      expect(await services.reservations.findById('cart-1')).toBeUndefined();
+    });
+
+    it('stops counting a lapsed hold and sweeps it before the next reservation', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+      const services = createTestServices({ products: [product({ id: 'book', stockQuantity: 1 })] });
+      await services.inventory.reserve('cart-1', 'user-1', [{ productId: 'book', quantity: 1 }]);
+
+      vi.setSystemTime(new Date('2026-10-19T12:16:00Z'));
+
+      expect(await services.inventory.heldBy('cart-1')).toEqual(new Map());
+      await services.inventory.reserve('cart-2', 'user-2', [{ productId: 'book', quantity: 1 }]);
+      expect(await services.reservations.findById('cart-1')).toBeUndefined();
+      expect(await stockOf(services, 'book')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import type { AppConfig } from '../config';
+import { ApiError } from '../errors';
+import type { EventBus } from '../events/EventBus';
+import type { Logger } from '../logging/logger';
+import type { ProductSummary } from '../models/Product';
+import type { ReservedLine, StockReservation } from '../models/StockReservation';
+import type { ProductRepository, StockReservationRepository } from '../repositories';
+
+const byProduct = (lines: ReservedLine[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  lines.forEach(({ productId, quantity }) => totals.set(productId, (totals.get(productId) ?? 0) + quantity));
+  return totals;
+};
+
+/**
+ * Owns every change to `stockQuantity` outside plain catalog edits: checkout
+ * reservations, committing them into sales, and putting units back.
+ *
+ * All of it runs through one queue, so reading a count and writing it back is
+ * never interleaved with another checkout; two shoppers racing for the last
+ * unit see one success and one `409 INSUFFICIENT_STOCK`. That guarantee holds
+ * within this process, which is the only one writing the stores.
+ *
+ * Any save that takes a product down to `lowStockThreshold` units or fewer
+ * from above it publishes `inventory.low`, once per crossing.
+ */
+export class InventoryService {
+  /** Serialises stock changes, like the JSON product store does for its writes. */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly products: ProductRepository,
+    private readonly reservations: StockReservationRepository,
+    private readonly inventoryConfig: AppConfig['inventory'],
+    private readonly events: EventBus,
+    private readonly logger: Logger,
+    /** Told about every product it saves, e.g. to refresh the search index. */
+    private readonly onProductChange: (product: ProductSummary) => void = () => undefined
+  ) {}
+
+  /** Runs `task` with no other stock change in flight; catalog writes use it too. */
+  exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.pending.then(task);
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Read-modify-write of one product inside the queue, for catalog edits and
+   * derived fields (such as review ratings) that must not overwrite a
+   * concurrent stock change. Resolves `undefined` when the product doesn't exist.
+   */
+  updateProduct(id: string, change: (product: ProductSummary) => ProductSummary): Promise<ProductSummary | undefined> {
+    return this.exclusive(async () => {
+      const product = await this.products.findById(id);
+      return product && this.saveProduct(change(product), product.stockQuantity);
+    });
+  }
+
+  /**
+   * Deletes a product inside the queue, so no reservation can be taken on it
+   * halfway through, and drops it from every reservation that holds it. The
+   * held units leave with the product. Publishes `product.deleted`; resolves
+   * the deleted product, or `undefined` when it didn't exist.
+   */
+  deleteProduct(id: string): Promise<ProductSummary | undefined> {
+    return this.exclusive(async () => {
+      const product = await this.products.findById(id);
+      if (!product || !(await this.products.delete(id))) {
+        return undefined;
+      }
+
+      for (const reservation of await this.reservations.findAll()) {
+        const lines = reservation.lines.filter((line) => line.productId !== id);
+        if (lines.length === reservation.lines.length) {
+          continue;
+        }
+        if (lines.length === 0) {
+          await this.reservations.delete(reservation.id);
+        } else {
+          await this.reservations.save({ ...reservation, lines });
+        }
+      }
+
+      this.events.publish('product.deleted', { product });
+      return product;
+    });
+  }
+
+  /** Units per product the cart's live reservation holds. */
+  async heldBy(cartId: string): Promise<Map<string, number>> {
+    const reservation = await this.reservations.findById(cartId);
+    return reservation && !this.isLapsed(reservation) ? byProduct(reservation.lines) : new Map();
+  }
+
+  /**
+   * Holds `lines` for the cart, replacing whatever it held before, for the
+   * configured TTL. Either every line is reserved or nothing changes.
+   */
+  reserve(cartId: string, userId: string, lines: ReservedLine[]): Promise<StockReservation> {
+    return this.exclusive(async () => {
+      const now = new Date();
+      await this.sweep(now);
+
+      const previous = await this.reservations.findById(cartId);
+      const credit = byProduct(previous?.lines ?? []);
+      const wanted = byProduct(lines);
+      const touched = new Map<string, { product: ProductSummary; before: number }>();
+      const shortfalls: { field: string; message: string }[] = [];
+
+      for (const productId of new Set([...credit.keys(), ...wanted.keys()])) {
+        const product = await this.products.findById(productId);
+        if (!product) {
+          if (wanted.has(productId)) {
+            shortfalls.push({ field: productId, message: 'is no longer sold' });
+          }
+          continue;
+        }
+
+        const available = product.stockQuantity + (credit.get(productId) ?? 0);
+        const quantity = wanted.get(productId) ?? 0;
+        if (quantity > available) {
+          shortfalls.push({ field: productId, message: `only ${available} of ${product.name} available` });
+        }
+        touched.set(productId, {
+          product: { ...product, stockQuantity: available - quantity },
+          before: product.stockQuantity
+        });
+      }
+
+      if (shortfalls.length > 0) {
+        throw new ApiError(409, 'INSUFFICIENT_STOCK',
+          'Some items in your cart are no longer available in that quantity.', shortfalls);
+      }
+
+      for (const { product, before } of touched.values()) {
+        await this.saveProduct(product, before);
+      }
+
+      return this.reservations.save({
+        id: cartId,
+        userId,
+        lines: [...wanted].map(([productId, quantity]) => ({ productId, quantity })),
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + this.inventoryConfig.reservationTtlMinutes * 60_000).toISOString()
+      });
+    });
+  }
+
+  /** The order was placed: the held units stay sold and the reservation goes away. */
+  commit(cartId: string): Promise<void> {
+    return this.exclusive(async () => {
+      await this.reservations.delete(cartId);
+    });
+  }
+
+  /** Checkout was abandoned: the held units go back on sale. */
+  release(cartId: string): Promise<void> {
+    return this.exclusive(async () => {
+      const reservation = await this.reservations.findById(cartId);
+      if (reservation) {
+        await this.returnToStock(reservation.lines);
+        await this.reservations.delete(cartId);
+      }
+    });
+  }
+
+  /** Puts sold units back, e.g. for a cancelled order. */
+  restock(lines: ReservedLine[]): Promise<void> {
+    return this.exclusive(() => this.returnToStock(lines));
+  }
+
+  /** Releases every reservation past its expiry; resolves how many there were. */
+  releaseExpired(now = new Date()): Promise<number> {
+    return this.exclusive(() => this.sweep(now));
+  }
+
+  /** Sweeps lapsed reservations on a timer; call the returned function to stop. */
+  startSweeper(): () => void {
+    const timer = setInterval(() => {
+      this.releaseExpired().catch((error) => {
+        this.logger.error('Failed to release expired stock reservations', { error });
+      });
+    }, this.inventoryConfig.sweepIntervalSeconds * 1000);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  private isLapsed(reservation: StockReservation, now = new Date()): boolean {
+    return new Date(reservation.expiresAt) <= now;
+  }
+
+  /** Must run inside {@link exclusive}. */
+  private async sweep(now: Date): Promise<number> {
+    const lapsed = (await this.reservations.findAll()).filter((reservation) => this.isLapsed(reservation, now));
+    for (const reservation of lapsed) {
+      await this.returnToStock(reservation.lines);
+      await this.reservations.delete(reservation.id);
+    }
+    return lapsed.length;
+  }
+
+  /** Must run inside {@link exclusive}. Products deleted meanwhile are skipped. */
+  private async returnToStock(lines: ReservedLine[]): Promise<void> {
+    for (const [productId, quantity] of byProduct(lines)) {
+      const product = await this.products.findById(productId);
+      if (product) {
+        await this.saveProduct({ ...product, stockQuantity: product.stockQuantity + quantity }, product.stockQuantity);
+      }
+    }
+  }
+
+  /** `before` is the stock count the change started from, to spot a drop into low stock. */
+  private async saveProduct(product: ProductSummary, before: number): Promise<ProductSummary | undefined> {
+    const saved = await this.products.update(product);
+    if (saved) {
+      this.onProductChange(saved);
+      const threshold = this.inventoryConfig.lowStockThreshold;
+      if (before > threshold && saved.stockQuantity <= threshold) {
+        this.events.publish('inventory.low', {
+          productId: saved.id,
+          name: saved.name,
+          stockQuantity: saved.stockQuantity,
+          threshold
+        });
+      }
+    }
+    return saved;
+  }
+}
@@ -0,0 +1,135 @@
+import type { Server, ServerResponse } from 'http';
+import { constants } from 'os';
+import type { AppConfig } from '../config';
+import type { HealthService } from '../health/HealthService';
+import type { Logger } from '../logging/logger';
+
+interface ShutdownStep {
+  name: string;
+  run(): unknown;
+}
+
+/** Exit codes: clean, and anything that was cut short (drain deadline, failed step, overall timeout). */
+const EXIT_OK = 0;
+const EXIT_INCOMPLETE = 1;
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Stops the API in a fixed order when the process is told to. Readiness turns
+ * not-ready first and the listener stays open for `readinessDelaySeconds`, so
+ * load balancers route elsewhere; then the listener closes and requests still
+ * running get `drainTimeoutSeconds` to finish before their connections are
+ * cut. Only then do the steps run, one at a time in the order they were
+ * added: background work first, storage last, so nothing writes to a closed
+ * store. The process exits 0 when everything finished, 1 when anything was
+ * cut short or failed, and 128 + the signal number if a second signal asks
+ * for an immediate exit.
+ */
+export class GracefulShutdown {
+  private readonly steps: ShutdownStep[] = [];
+  private readonly active = new Set<ServerResponse>();
+  private draining = false;
+  private running?: Promise<number>;
+
+  constructor(
+    private readonly server: Server,
+    private readonly health: HealthService,
+    private readonly shutdownConfig: AppConfig['shutdown'],
+    private readonly logger: Logger
+  ) {
+    server.on('request', (_req, res: ServerResponse) => {
+      this.active.add(res);
+      res.on('close', () => this.active.delete(res));
+      if (this.draining) {
+        res.setHeader('Connection', 'close');
+      }
+    });
+  }
+
+  /** Runs `run` after requests have drained, after every step added before it. */
+  addStep(name: string, run: () => unknown): this {
+    this.steps.push({ name, run });
+    return this;
+  }
+
+  /** Shuts down on each of `signals`; a second one exits straight away. */
+  listen(signals: NodeJS.Signals[] = ['SIGTERM', 'SIGINT']): void {
+    signals.forEach((signal) => process.on(signal, () => {
+      if (this.running) {
+        this.logger.warn('Signal received during shutdown; exiting now', { signal });
+        process.exit(128 + constants.signals[signal]);
+      }
+      this.shutdown(signal).then((code) => process.exit(code));
+    }));
+  }
+
+  /** Starts the shutdown, or joins the one under way; resolves the exit code. */
+  shutdown(reason: string): Promise<number> {
+    this.running ??= this.run(reason);
+    return this.running;
+  }
+
+  private async run(reason: string): Promise<number> {
+    const { readinessDelaySeconds, drainTimeoutSeconds, timeoutSeconds } = this.shutdownConfig;
+    const deadline = setTimeout(() => {
+      this.logger.error('Shutdown did not finish in time; exiting', { timeoutSeconds });
+      process.exit(EXIT_INCOMPLETE);
+    }, timeoutSeconds * 1000);
+    deadline.unref();
+
+    this.logger.info('Shutting down', { reason, activeRequests: this.active.size });
+    this.health.markShuttingDown();
+    await delay(readinessDelaySeconds * 1000);
+
+    let exitCode = EXIT_OK;
+    if (!(await this.drain(drainTimeoutSeconds))) {
+      exitCode = EXIT_INCOMPLETE;
+    }
+
+    for (const step of this.steps) {
+      const startedAt = Date.now();
+      try {
+        await step.run();
+        this.logger.info('Shutdown step finished', { step: step.name, durationMs: Date.now() - startedAt });
+      } catch (error) {
+        this.logger.error('Shutdown step failed', { step: step.name, error });
+        exitCode = EXIT_INCOMPLETE;
+      }
+    }
+
+    clearTimeout(deadline);
+    this.logger.info('Shutdown complete', { exitCode });
+    return exitCode;
+  }
+
+  /** Stops accepting connections and waits for open ones; resolves `false` if some had to be cut. */
+  private async drain(timeoutSeconds: number): Promise<boolean> {
+    this.draining = true;
+    // Keep-alive clients learn with their last answer that the connection is going away.
+    this.active.forEach((res) => {
+      if (!res.headersSent) {
+        res.setHeader('Connection', 'close');
+      }
+    });
+
+    const closed = new Promise<boolean>((resolve) => this.server.close(() => resolve(true)));
+    this.server.closeIdleConnections();
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutSeconds * 1000);
+    });
+
+    const drained = await Promise.race([closed, timedOut]);
+    clearTimeout(timer);
+    if (!drained) {
+      this.logger.warn('Requests still running at the drain deadline; closing their connections', {
+        activeRequests: this.active.size,
+        drainTimeoutSeconds: timeoutSeconds
+      });
+      this.server.closeAllConnections();
+      await closed;
+    }
+    return drained;
+  }
+}
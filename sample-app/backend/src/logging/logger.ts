@@ -0,0 +1,64 @@
+import type { AppConfig, LogLevel } from '../config';
+import { redact } from './redact';
+
+export type LogFields = Record<string, unknown>;
+
+const SEVERITY: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: Infinity };
+
+const writeLine = (line: string) => {
+  process.stdout.write(`${line}\n`);
+};
+
+/**
+ * Writes one JSON object per line: `time`, `level`, `msg`, the logger's
+ * bindings and the call's fields, all passed through {@link redact}. Lines
+ * below the configured level are dropped before anything is serialised.
+ * {@link child} adds bindings, such as the request id, to every line.
+ */
+export class Logger {
+  constructor(
+    private readonly level: LogLevel,
+    private readonly bindings: LogFields = {},
+    private readonly write: (line: string) => void = writeLine
+  ) {}
+
+  child(bindings: LogFields): Logger {
+    return new Logger(this.level, { ...this.bindings, ...bindings }, this.write);
+  }
+
+  isEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+    return SEVERITY[level] >= SEVERITY[this.level];
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.log('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.log('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.log('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.log('error', msg, fields);
+  }
+
+  private log(level: Exclude<LogLevel, 'silent'>, msg: string, fields?: LogFields): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const entry = { time: new Date().toISOString(), level, msg, ...this.bindings, ...fields };
+    try {
+      this.write(JSON.stringify(redact(entry)));
+    } catch {
+      // A log line must never take the request down with it.
+    }
+  }
+}
+
+export const createLogger = ({ level, service }: AppConfig['logging']): Logger =>
+  new Logger(level, { service });
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { redact, REDACTED, redactUrl } from './redact';
+
+describe('redact', () => {
+  it('masks values under sensitive keys at any depth, whatever their case', () => {
+    const entry = {
+      user: { email: 'shopper@example.com', password: 'hunter2', newPassword: 'hunter3' },
+      headers: { Authorization: 'Bearer abc', cookie: 'sf_refresh=xyz', 'x-api-key': 'key' },
+      card: { cardNumber: '4242424242424242', cvc: '123', expiry: '12/30' },
+      refreshToken: 'token',
+      webhook: { secret: 'whsec_123' }
+    };
+
+    expect(redact(entry)).toEqual({
+      user: { email: 'shopper@example.com', password: REDACTED, newPassword: REDACTED },
+      headers: { Authorization: REDACTED, cookie: REDACTED, 'x-api-key': REDACTED },
+      card: { cardNumber: REDACTED, cvc: REDACTED, expiry: REDACTED },
+      refreshToken: REDACTED,
+      webhook: { secret: REDACTED }
+    });
+    expect(entry.user.password).toBe('hunter2');
+  });
+
+  it('leaves missing sensitive values visible as missing', () => {
+    expect(redact({ token: undefined, password: null })).toEqual({ token: undefined, password: null });
+  });
+
+  it('masks anything shaped like a card number inside strings', () => {
+    expect(redact({ note: 'paid with 4242 4242 4242 4242 today', items: ['4000-0000-0000-0002'] })).toEqual({
+      note: `paid with ${REDACTED} today`,
+      items: [REDACTED]
+    });
+    // Shorter digit runs such as order numbers stay readable.
+    expect(redact('order 202610190001')).toBe('order 202610190001');
+  });
+
+  it('turns errors, dates and bigints into plain JSON values', () => {
+    const error = Object.assign(new Error('Payment was declined'), { code: 'PAYMENT_DECLINED', status: 402 });
+
+    expect(redact({ error, at: new Date('2026-10-19T12:00:00Z'), total: 10n })).toEqual({
+      error: { type: 'Error', message: 'Payment was declined', code: 'PAYMENT_DECLINED', status: 402, stack: error.stack },
+      at: '2026-10-19T12:00:00.000Z',
+      total: '10'
+    });
+  });
+
+  it('cuts cycles and very deep nesting but not repeated references', () => {
+    const shared = { id: 'shared' };
+    const cyclic: Record<string, unknown> = { shared, again: shared };
+    cyclic.self = cyclic;
+
+    expect(redact(cyclic)).toEqual({ shared: { id: 'shared' }, again: { id: 'shared' }, self: '[Circular]' });
+
+    let deep: unknown = 'bottom';
+    for (let level = 0; level < 10; level += 1) {
+      deep = { deeper: deep };
+    }
+    expect(JSON.stringify(redact(deep))).toContain('[Truncated]');
+    expect(JSON.stringify(redact(deep))).not.toContain('bottom');
+  });
+});
+
+describe('redactUrl', () => {
+  it('masks sensitive query parameters and card numbers', () => {
+    expect(redactUrl('/api/auth/reset-password?token=abc123&next=%2Faccount'))
+      .toBe(`/api/auth/reset-password?token=${REDACTED}&next=%2Faccount`);
+    expect(redactUrl('/api/search?q=4242424242424242')).toBe(`/api/search?q=${REDACTED}`);
+    expect(redactUrl('/api/products?page=2&sortBy=name')).toBe('/api/products?page=2&sortBy=name');
+  });
+});
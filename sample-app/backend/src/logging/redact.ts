@@ -0,0 +1,72 @@
+export const REDACTED = '[REDACTED]';
+
+/** Keys whose values never reach a log line, matched anywhere in the key and case-insensitively. */
+const SENSITIVE_KEY = /pass(word|code)?|secret|token|authorization|cookie|card.?number|cvc|cvv|expiry|api.?key/i;
+
+/** 13 to 19 digits, optionally split by spaces or dashes: a card number wherever it appears. */
+const CARD_NUMBER = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+const MAX_DEPTH = 8;
+
+const redactString = (value: string): string => value.replace(CARD_NUMBER, REDACTED);
+
+/** Errors are plain objects in JSON logs; `stack` keeps the trace, `code` the ApiError code. */
+const serializeError = (error: Error): Record<string, unknown> => {
+  const { code, status } = error as Error & { code?: unknown; status?: unknown };
+  return {
+    type: error.name,
+    message: error.message,
+    ...(code !== undefined ? { code } : {}),
+    ...(status !== undefined ? { status } : {}),
+    stack: error.stack
+  };
+};
+
+const walk = (value: unknown, depth: number, seen: WeakSet<object>): unknown => {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  // `seen` holds the objects on the current path, so only true cycles are cut.
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  seen.add(value);
+
+  const source = value instanceof Error ? serializeError(value) : value;
+  let copy: unknown;
+  if (Array.isArray(source)) {
+    copy = source.map((item) => walk(item, depth + 1, seen));
+  } else {
+    copy = Object.fromEntries(Object.entries(source).map(([key, field]) => [
+      key,
+      SENSITIVE_KEY.test(key) && field !== undefined && field !== null ? REDACTED : walk(field, depth + 1, seen)
+    ]));
+  }
+
+  seen.delete(value);
+  return copy;
+};
+
+/**
+ * Copies `value` for logging with secrets masked: values under sensitive keys
+ * (passwords, tokens, secrets, card details, auth headers and cookies) and
+ * anything shaped like a card number. Errors become plain objects.
+ */
+export const redact = (value: unknown): unknown => walk(value, 0, new WeakSet());
+
+/** A request URL with sensitive query parameters masked, e.g. `?token=` on reset links. */
+export const redactUrl = (url: string): string =>
+  redactString(url.replace(/([?&])([^&=#]+)=([^&#]*)/g, (param, separator: string, key: string) =>
+    SENSITIVE_KEY.test(key) ? `${separator}${key}=${REDACTED}` : param));
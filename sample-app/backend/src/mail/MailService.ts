@@ -0,0 +1,146 @@
+import { randomUUID } from 'crypto';
+import type { AppConfig } from '../config';
+import type { EventBus } from '../events/EventBus';
+import type { Logger } from '../logging/logger';
+import type { OrderStatus } from '../models/Order';
+import type { OutboxMessage } from '../models/OutboxMessage';
+import type { MailOutboxRepository } from '../repositories';
+import { MailContext, MailTemplateData, MailTemplateName, renderMail, RenderedMail } from './templates';
+import type { MailTransport } from './transport';
+
+/** Order statuses the customer hears about by email. */
+const SHIPPING_STATUSES: OrderStatus[] = ['shipped', 'delivered'];
+
+/**
+ * Sends transactional email through an outbox. {@link queue} renders the
+ * message and stores it before anything is sent, so a mail server that is
+ * down never fails the request that caused the email. Pending messages are
+ * sent straight away and, when that fails, retried with exponential backoff
+ * (`retryBaseSeconds`, doubling) until `maxAttempts` marks them `failed`.
+ */
+export class MailService {
+  /** Serialises sending, so the dispatcher and a fresh message never send the same one twice. */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly outbox: MailOutboxRepository,
+    private readonly transport: MailTransport,
+    private readonly mailConfig: AppConfig['mail'],
+    private readonly context: MailContext,
+    private readonly logger: Logger
+  ) {}
+
+  /** Emails order confirmations and shipping updates as orders are placed and move on. */
+  listen(events: EventBus): () => void {
+    return events.subscribe((event) => {
+      let queued: Promise<OutboxMessage> | undefined;
+      if (event.type === 'order.created') {
+        const { order } = event.data;
+        queued = this.queue('orderConfirmation', order.shippingAddress.email, { order });
+      } else if (event.type === 'order.status_changed' && SHIPPING_STATUSES.includes(event.data.to)) {
+        const { order } = event.data;
+        queued = this.queue('shippingUpdate', order.shippingAddress.email, { order });
+      }
+
+      queued?.catch((error) => {
+        this.logger.error('Failed to queue an email', { eventType: event.type, eventId: event.id, error });
+      });
+    });
+  }
+
+  render<K extends MailTemplateName>(template: K, data: MailTemplateData[K]): RenderedMail {
+    return renderMail(template, data, this.context);
+  }
+
+  /** Stores the rendered message in the outbox and starts sending it without waiting. */
+  async queue<K extends MailTemplateName>(template: K, to: string, data: MailTemplateData[K]): Promise<OutboxMessage> {
+    const now = new Date().toISOString();
+    const message = await this.outbox.save({
+      id: randomUUID(),
+      template,
+      to,
+      ...this.render(template, data),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    this.flush().catch((error) => {
+      this.logger.error('Failed to send queued email', { error });
+    });
+    return message;
+  }
+
+  /** Sends every pending message that is due; resolves how many went out. */
+  flush(now = new Date()): Promise<number> {
+    return this.exclusive(async () => {
+      const due = (await this.outbox.findAll()).filter((message) =>
+        message.status === 'pending' && message.nextAttemptAt !== undefined && new Date(message.nextAttemptAt) <= now);
+
+      let sent = 0;
+      for (const message of due) {
+        if ((await this.attempt(message)).status === 'sent') {
+          sent += 1;
+        }
+      }
+      return sent;
+    });
+  }
+
+  /** Sends due retries on a timer; call the returned function to stop. */
+  startDispatcher(): () => void {
+    const timer = setInterval(() => {
+      this.flush().catch((error) => {
+        this.logger.error('Failed to flush the mail outbox', { error });
+      });
+    }, this.mailConfig.dispatchIntervalSeconds * 1000);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.pending.then(task);
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Must run inside {@link exclusive}. */
+  private async attempt(message: OutboxMessage): Promise<OutboxMessage> {
+    const attempts = message.attempts + 1;
+    const { nextAttemptAt: _due, lastError: _previousError, ...rest } = message;
+
+    let messageId: string;
+    try {
+      messageId = await this.transport.send({
+        from: this.mailConfig.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text
+      });
+    } catch (error) {
+      const gaveUp = attempts >= this.mailConfig.maxAttempts;
+      const delaySeconds = this.mailConfig.retryBaseSeconds * 2 ** (attempts - 1);
+      this.logger.warn(gaveUp ? 'Email send failed for good' : 'Email send failed', {
+        outboxId: message.id,
+        template: message.template,
+        attempts,
+        error
+      });
+      return this.outbox.save({
+        ...rest,
+        status: gaveUp ? 'failed' : 'pending',
+        attempts,
+        lastError: error instanceof Error ? error.message : String(error),
+        ...(gaveUp ? {} : { nextAttemptAt: new Date(Date.now() + delaySeconds * 1000).toISOString() }),
+        updatedAt: new Date().toISOString()
+      });
+    }
+
+    this.logger.debug('Email sent', { outboxId: message.id, template: message.template, messageId });
+    const now = new Date().toISOString();
+    return this.outbox.save({ ...rest, status: 'sent', attempts, messageId, sentAt: now, updatedAt: now });
+  }
+}
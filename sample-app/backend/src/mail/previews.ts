@@ -0,0 +1,56 @@
+import type { Order } from '../models/Order';
+import type { MailContext, MailTemplateData, MailTemplateName } from './templates';
+
+const sampleOrder: Order = {
+  id: 'preview-order',
+  number: 'SF-20250601-7KQ2',
+  userId: 'preview-user',
+  status: 'pending',
+  items: [
+    {
+      productId: '1',
+      name: 'Wireless Bluetooth Headphones',
+      image: 'https://via.placeholder.com/300x300?text=Headphones',
+      unitPrice: 79.99,
+      quantity: 1,
+      lineTotal: 79.99
+    },
+    {
+      productId: '3',
+      name: 'Organic Cotton T-Shirt',
+      image: 'https://via.placeholder.com/300x300?text=T-Shirt',
+      unitPrice: 24.99,
+      quantity: 2,
+      lineTotal: 49.98
+    }
+  ],
+  subtotal: 129.97,
+  savings: 20,
+  promotionDiscount: 13,
+  promotions: [],
+  tax: 9.36,
+  shipping: 0,
+  total: 126.33,
+  shippingAddress: {
+    email: 'jane.doe@example.com',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    address: '1 Market Street',
+    city: 'San Francisco',
+    state: 'CA',
+    zipCode: '94105',
+    country: 'US'
+  },
+  history: [],
+  createdAt: '2025-06-01T10:00:00.000Z',
+  updatedAt: '2025-06-01T10:00:00.000Z'
+};
+
+/** Made-up data for `/api/mail/preview`, so every template can be looked at without sending anything. */
+export const previewData = (context: MailContext): { [K in MailTemplateName]: MailTemplateData[K] } => ({
+  welcome: { firstName: 'Jane' },
+  orderConfirmation: { order: sampleOrder },
+  shippingUpdate: { order: { ...sampleOrder, status: 'shipped' } },
+  passwordReset: { firstName: 'Jane', resetUrl: `${context.appUrl}/reset-password?token=preview`, expiresInMinutes: 30 },
+  newsletterConfirmation: { firstName: 'Jane', confirmUrl: `${context.appUrl}/newsletter/confirm?token=preview` }
+});
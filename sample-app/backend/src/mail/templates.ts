@@ -0,0 +1,191 @@
+import type { Order } from '../models/Order';
+
+/** What each template needs to render. */
+export interface MailTemplateData {
+  welcome: { firstName: string };
+  orderConfirmation: { order: Order };
+  shippingUpdate: { order: Order };
+  passwordReset: { firstName: string; resetUrl: string; expiresInMinutes: number };
+  newsletterConfirmation: { firstName: string; confirmUrl: string };
+}
+
+export type MailTemplateName = keyof MailTemplateData;
+
+export const MAIL_TEMPLATES: MailTemplateName[] = [
+  'welcome',
+  'orderConfirmation',
+  'shippingUpdate',
+  'passwordReset',
+  'newsletterConfirmation'
+];
+
+export interface RenderedMail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/** Shared by every template: where links point and how money is shown. */
+export interface MailContext {
+  appUrl: string;
+  currency: string;
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const money = (amount: number, context: MailContext): string =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: context.currency }).format(amount);
+
+/** One call to action, as a button in HTML and a bare link in text. */
+interface Action {
+  label: string;
+  url: string;
+}
+
+/** A template's content before it is wrapped in the shared layout. */
+interface MailContent {
+  subject: string;
+  greeting: string;
+  paragraphs: string[];
+  action?: Action;
+  /** Rows for an items-and-totals table; the last row is bold. */
+  table?: [string, string][];
+  footnote?: string;
+}
+
+const tableHtml = (rows: [string, string][]): string => {
+  const cells = rows.map(([label, value], index) => {
+    const style = `padding:4px 0;${index === rows.length - 1 ? 'font-weight:bold;' : ''}`;
+    return `<tr><td style="${style}">${escapeHtml(label)}</td>` +
+      `<td style="${style}text-align:right">${escapeHtml(value)}</td></tr>`;
+  });
+  return `<table style="width:100%;border-collapse:collapse;margin:16px 0">${cells.join('')}</table>`;
+};
+
+const actionHtml = ({ label, url }: Action): string =>
+  `<p><a href="${escapeHtml(url)}" style="display:inline-block;background:#2563eb;color:#fff;` +
+  `padding:10px 18px;border-radius:6px;text-decoration:none">${escapeHtml(label)}</a></p>`;
+
+const layoutHtml = (content: MailContent): string => {
+  const paragraphs = content.paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join('\n');
+  const table = content.table ? tableHtml(content.table) : '';
+  const action = content.action ? actionHtml(content.action) : '';
+  const footnote = content.footnote ? `<p style="color:#6b7280;font-size:12px">${escapeHtml(content.footnote)}</p>` : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(content.subject)}</title></head>
+<body style="font-family:Arial,Helvetica,sans-serif;color:#111827;background:#f9fafb;padding:24px">
+<div style="max-width:560px;margin:0 auto;background:#fff;border-radius:8px;padding:24px">
+<h1 style="font-size:20px;color:#2563eb;margin-top:0">ShopFlow</h1>
+<p>${escapeHtml(content.greeting)}</p>
+${paragraphs}
+${table}
+${action}
+${footnote}
+</div>
+</body>
+</html>
+`;
+};
+
+const layoutText = (content: MailContent): string => {
+  const width = content.table ? Math.max(...content.table.map(([label]) => label.length)) + 2 : 0;
+  const sections = [
+    content.greeting,
+    ...content.paragraphs,
+    ...(content.table ? [content.table.map(([label, value]) => `${label.padEnd(width)}${value}`).join('\n')] : []),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    ...(content.footnote ? [content.footnote] : []),
+    '-- \nShopFlow'
+  ];
+  return `${sections.join('\n\n')}\n`;
+};
+
+const orderTable = (order: Order, context: MailContext): [string, string][] => [
+  ...order.items.map(({ name, quantity, lineTotal }): [string, string] =>
+    [`${quantity} × ${name}`, money(lineTotal, context)]),
+  ['Subtotal', money(order.subtotal, context)],
+  ...(order.promotionDiscount > 0
+    ? [['Promotions', `-${money(order.promotionDiscount, context)}`] as [string, string]]
+    : []),
+  ['Tax', money(order.tax, context)],
+  ['Shipping', order.shipping > 0 ? money(order.shipping, context) : 'Free'],
+  ['Total', money(order.total, context)]
+];
+
+const shippingAddressLine = ({ shippingAddress: { firstName, lastName, address, city, state, zipCode, country } }: Order) =>
+  `${firstName} ${lastName}, ${address}, ${city}, ${state} ${zipCode}, ${country}`;
+
+type Templates = { [K in MailTemplateName]: (data: MailTemplateData[K], context: MailContext) => MailContent };
+
+const templates: Templates = {
+  welcome: ({ firstName }, context) => ({
+    subject: 'Welcome to ShopFlow',
+    greeting: `Hi ${firstName},`,
+    paragraphs: [
+      'Thanks for creating a ShopFlow account. You can now check out faster, follow your orders and review what you bought.'
+    ],
+    action: { label: 'Start shopping', url: `${context.appUrl}/products` }
+  }),
+
+  orderConfirmation: ({ order }, context) => ({
+    subject: `Order ${order.number} confirmed`,
+    greeting: `Hi ${order.shippingAddress.firstName},`,
+    paragraphs: [
+      `Thanks for your order. We've received order ${order.number} and will let you know when it ships.`,
+      `Shipping to: ${shippingAddressLine(order)}`
+    ],
+    table: orderTable(order, context),
+    action: { label: 'View your orders', url: `${context.appUrl}/profile` }
+  }),
+
+  shippingUpdate: ({ order }, context) => ({
+    subject: order.status === 'delivered'
+      ? `Order ${order.number} was delivered`
+      : `Order ${order.number} is on its way`,
+    greeting: `Hi ${order.shippingAddress.firstName},`,
+    paragraphs: [
+      order.status === 'delivered'
+        ? `Your order ${order.number} has been delivered. We hope you enjoy it.`
+        : `Good news: your order ${order.number} has shipped.`,
+      `Shipping to: ${shippingAddressLine(order)}`
+    ],
+    action: { label: 'Track your order', url: `${context.appUrl}/profile` }
+  }),
+
+  passwordReset: ({ firstName, resetUrl, expiresInMinutes }) => ({
+    subject: 'Reset your ShopFlow password',
+    greeting: `Hi ${firstName},`,
+    paragraphs: [
+      'Someone asked to reset the password for your ShopFlow account. If it was you, choose a new password below.'
+    ],
+    action: { label: 'Choose a new password', url: resetUrl },
+    footnote: `The link works once and expires in ${expiresInMinutes} minutes. ` +
+      "If you didn't ask for this, ignore this email; your password stays the same."
+  }),
+
+  newsletterConfirmation: ({ firstName, confirmUrl }) => ({
+    subject: 'Confirm your ShopFlow newsletter subscription',
+    greeting: `Hi ${firstName},`,
+    paragraphs: [
+      'Please confirm that you want to receive the ShopFlow newsletter with new products and offers.'
+    ],
+    action: { label: 'Yes, subscribe me', url: confirmUrl },
+    footnote: "If you didn't sign up, ignore this email and you won't hear from us."
+  })
+};
+
+export const isMailTemplate = (name: string): name is MailTemplateName =>
+  (MAIL_TEMPLATES as string[]).includes(name);
+
+/** Renders a template into its subject and HTML and plain-text bodies. */
+export const renderMail = <K extends MailTemplateName>(
+  template: K,
+  data: MailTemplateData[K],
+  context: MailContext
+): RenderedMail => {
+  const content = (templates[template] as Templates[K])(data, context);
+  return { subject: content.subject, html: layoutHtml(content), text: layoutText(content) };
+};
@@ -0,0 +1,37 @@
+import nodemailer from 'nodemailer';
+import type { AppConfig } from '../config';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/** Hands a message to a mail server; resolves the server's message id. */
+export interface MailTransport {
+  send(message: MailMessage): Promise<string>;
+  /** Resolves when the server accepts a connection; rejects with why not. */
+  verify(): Promise<void>;
+  close(): void;
+}
+
+/** Plain SMTP, which is what MailHog speaks; STARTTLS is used when the server offers it. */
+export const createSmtpTransport = (mailConfig: AppConfig['mail']): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: mailConfig.smtp.host,
+    port: mailConfig.smtp.port,
+    secure: false,
+    connectionTimeout: 10_000,
+    greetingTimeout: 10_000
+  });
+
+  return {
+    send: async (message) => (await transporter.sendMail(message)).messageId,
+    verify: async () => {
+      await transporter.verify();
+    },
+    close: () => transporter.close()
+  };
+};
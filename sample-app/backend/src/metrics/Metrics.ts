@@ -0,0 +1,94 @@
+import { collectDefaultMetrics, Counter, Histogram, Registry } from 'prom-client';
+import type { EventBus } from '../events/EventBus';
+
+/** Seconds; tuned for an API whose answers mostly take milliseconds. */
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Every Prometheus series the backend exports, on a registry of its own.
+ * Besides the HTTP and business metrics below it collects prom-client's
+ * defaults: CPU, memory, GC, handles and event-loop lag
+ * (`nodejs_eventloop_lag_seconds` plus p50/p90/p99 from `monitorEventLoopDelay`).
+ * Route labels are templates such as `/api/orders/:id`, never raw URLs, so
+ * the number of series stays bounded.
+ */
+export class Metrics {
+  readonly registry = new Registry();
+
+  readonly httpRequests = new Counter({
+    name: 'http_requests_total',
+    help: 'HTTP requests answered, by method, route template and status code.',
+    labelNames: ['method', 'route', 'status'] as const,
+    registers: [this.registry]
+  });
+
+  readonly httpRequestDuration = new Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'Time from receiving a request to finishing its response, by method, route template and status code.',
+    labelNames: ['method', 'route', 'status'] as const,
+    buckets: LATENCY_BUCKETS,
+    registers: [this.registry]
+  });
+
+  readonly httpErrors = new Counter({
+    name: 'http_errors_total',
+    help: 'Error responses (4xx and 5xx) by error code, route template and status code.',
+    labelNames: ['code', 'route', 'status'] as const,
+    registers: [this.registry]
+  });
+
+  readonly ordersPlaced = new Counter({
+    name: 'shopflow_orders_placed_total',
+    help: 'Orders placed.',
+    registers: [this.registry]
+  });
+
+  readonly orderRevenue = new Counter({
+    name: 'shopflow_order_revenue_total',
+    help: 'Sum of order totals at the time they were placed, in the store currency.',
+    registers: [this.registry]
+  });
+
+  readonly orderStatusChanges = new Counter({
+    name: 'shopflow_order_status_changes_total',
+    help: 'Order status changes, by the status moved to.',
+    labelNames: ['to'] as const,
+    registers: [this.registry]
+  });
+
+  readonly cartsCreated = new Counter({
+    name: 'shopflow_carts_created_total',
+    help: 'Carts created, by guests or signed-in customers.',
+    registers: [this.registry]
+  });
+
+  readonly lowStockAlerts = new Counter({
+    name: 'shopflow_inventory_low_total',
+    help: 'Times a product dropped to the low-stock threshold.',
+    registers: [this.registry]
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  /** Counts orders and stock alerts as `events` publishes them; call the returned function to stop. */
+  listen(events: EventBus): () => void {
+    return events.subscribe((event) => {
+      switch (event.type) {
+        case 'order.created':
+          this.ordersPlaced.inc();
+          this.orderRevenue.inc(event.data.order.total);
+          break;
+        case 'order.status_changed':
+          this.orderStatusChanges.inc({ to: event.data.to });
+          break;
+        case 'inventory.low':
+          this.lowStockAlerts.inc();
+          break;
+        default:
+          break;
+      }
+    });
+  }
+}
@@ -0,0 +1,11 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+/**
+ * Express 4 does not catch rejected promises, so async handlers are wrapped to
+ * forward failures to the error middleware.
+ */
+export const asyncHandler = (
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler => (req, res, next) => {
+  handler(req, res, next).catch(next);
+};
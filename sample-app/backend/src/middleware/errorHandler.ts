@@ -0,0 +1,32 @@
+import { NextFunction, Request, Response } from 'express';
+import { ApiError } from '../errors';
+
+export const errorHandler = (error: unknown, req: Request, res: Response, _next: NextFunction) => {
+  if (error instanceof ApiError) {
+    return res.status(error.status).json({
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details ? { details: error.details } : {})
+      }
+    });
+  }
+
+  if (error instanceof SyntaxError && 'body' in error) {
+    return res.status(400).json({
+      error: {
+        code: 'INVALID_JSON',
+        message: 'Request body is not valid JSON.'
+      }
+    });
+  }
+
+  req.log.error('Unhandled error', { error });
+
+  res.status(500).json({
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: 'An unexpected error occurred.'
+    }
+  });
+};
@@ -0,0 +1,54 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import type { Metrics } from '../metrics/Metrics';
+
+/**
+ * Remembers the template a router is mounted at. Express only keeps the
+ * matched URL in `req.baseUrl`, and resets even that once an error leaves
+ * the router, so mount routers as `app.use(path, routeBase(path), router)`.
+ */
+export const routeBase = (template: string): RequestHandler =>
+  (req: Request, _res: Response, next: NextFunction) => {
+    req.routeBase = template;
+    next();
+  };
+
+/**
+ * The route a request matched as a template: `/api/orders/:id/status`
+ * rather than the order's id. Requests turned away before reaching a route
+ * are labelled with their router's mount path, or `unmatched` outside one.
+ */
+export const routeTemplate = (req: Request): string => {
+  const base = req.routeBase ?? '';
+  const path: unknown = req.route?.path;
+  if (typeof path !== 'string') {
+    return base || 'unmatched';
+  }
+  return base && path === '/' ? base : `${base}${path}`;
+};
+
+/** Counts and times every request, and records the `error.code` of error responses. */
+export const httpMetrics = (metrics: Metrics): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const stopTimer = metrics.httpRequestDuration.startTimer();
+
+    // Every error response goes out as `{ error: { code } }` through res.json.
+    let errorCode: string | undefined;
+    const json = res.json.bind(res);
+    res.json = (body?: unknown) => {
+      const code = (body as { error?: { code?: unknown } } | undefined)?.error?.code;
+      errorCode = typeof code === 'string' ? code : undefined;
+      return json(body);
+    };
+
+    res.on('finish', () => {
+      const route = routeTemplate(req);
+      const status = String(res.statusCode);
+      stopTimer({ method: req.method, route, status });
+      metrics.httpRequests.inc({ method: req.method, route, status });
+      if (res.statusCode >= 400) {
+        metrics.httpErrors.inc({ code: errorCode ?? 'UNKNOWN', route, status });
+      }
+    });
+
+    next();
+  };
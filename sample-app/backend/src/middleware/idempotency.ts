@@ -0,0 +1,68 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { ApiError } from '../errors';
+import type { IdempotencyService } from '../idempotency/IdempotencyService';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Makes a POST safe to retry when the client sends an `Idempotency-Key`
+ * header: the first response is stored and replayed, marked with
+ * `Idempotent-Replayed: true`. Requests without the header run as usual.
+ * Mount after `authenticate`, since keys are scoped to the caller.
+ */
+export const idempotent = (idempotency: IdempotencyService): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const key = req.get(IDEMPOTENCY_HEADER);
+    if (key === undefined) {
+      return next();
+    }
+    if (key.trim() === '' || key.length > MAX_KEY_LENGTH) {
+      return next(new ApiError(400, 'INVALID_IDEMPOTENCY_KEY',
+        `The ${IDEMPOTENCY_HEADER} header must be 1 to ${MAX_KEY_LENGTH} characters.`));
+    }
+
+    idempotency.begin({
+      scope: req.user?.id ?? 'anonymous',
+      key,
+      method: req.method,
+      path: req.baseUrl + req.path,
+      body: req.body
+    })
+      .then((outcome) => {
+        if ('replay' in outcome) {
+          const { status, location, body } = outcome.replay;
+          if (location) {
+            res.location(location);
+          }
+          res.set('Idempotent-Replayed', 'true').status(status).json(body);
+          return;
+        }
+
+        const record = outcome.claimed;
+        let settled = false;
+        const json = res.json.bind(res);
+
+        // Everything these endpoints answer, errors included, goes through res.json.
+        res.json = (body: unknown) => {
+          settled = true;
+          const location = res.get('Location');
+          idempotency.complete(record, { status: res.statusCode, ...(location ? { location } : {}), body })
+            .catch((error) => {
+              req.log.error('Failed to store an idempotent response', { error });
+            })
+            .finally(() => json(body));
+          return res;
+        };
+
+        res.on('close', () => {
+          if (!settled) {
+            idempotency.abandon(record).catch(() => undefined);
+          }
+        });
+
+        next();
+      })
+      .catch(next);
+  };
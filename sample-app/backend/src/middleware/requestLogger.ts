@@ -0,0 +1,57 @@
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import type { Logger } from '../logging/logger';
+import { redactUrl } from '../logging/redact';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/** Caller ids are kept only if they are short and free of spaces and control characters. */
+const VALID_REQUEST_ID = /^[\w.:/+=-]{1,128}$/;
+
+const levelFor = (status: number) => {
+  if (status >= 500) return 'error';
+  if (status >= 400) return 'warn';
+  return 'info';
+};
+
+/**
+ * Gives every request an id, echoed in the `X-Request-Id` response header,
+ * and a `req.log` bound to it, then logs one line when the response is sent
+ * (or the client goes away first). Mount it before everything else so even
+ * requests rejected by other middleware are logged.
+ */
+export const requestLogger = (logger: Logger): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const presented = req.get(REQUEST_ID_HEADER);
+    const requestId = presented && VALID_REQUEST_ID.test(presented) ? presented : randomUUID();
+    const startedAt = process.hrtime.bigint();
+
+    req.id = requestId;
+    req.log = logger.child({ requestId });
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+
+    const fields = () => ({
+      method: req.method,
+      path: redactUrl(req.originalUrl),
+      status: res.statusCode,
+      durationMs: Math.round(Number(process.hrtime.bigint() - startedAt) / 1e4) / 100,
+      ...(res.get('Content-Length') ? { contentLength: Number(res.get('Content-Length')) } : {}),
+      ...(req.user ? { userId: req.user.id } : {}),
+      ip: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    res.on('finish', () => {
+      // Load balancers probe every few seconds, and a failing readiness probe is an expected answer.
+      const probe = req.originalUrl.startsWith('/health');
+      const level = probe ? (res.statusCode < 400 ? 'debug' : 'warn') : levelFor(res.statusCode);
+      req.log[level]('request completed', fields());
+    });
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        req.log.warn('request aborted', fields());
+      }
+    });
+
+    next();
+  };
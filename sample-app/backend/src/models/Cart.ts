@@ -0,0 +1,53 @@
+import type { QuoteTotals } from '../pricing/PricingEngine';
+import type { PromotionOutcome } from './Promotion';
+
+export interface CartLine {
+  productId: string;
+  quantity: number;
+  addedAt: string;
+}
+
+/**
+ * A shopping cart. Signed-in carts are keyed `user:<userId>`, guest carts
+ * `guest:<token>` where the token comes from the guest cart cookie.
+ */
+export interface Cart {
+  id: string;
+  lines: CartLine[];
+  /** Coupon codes the customer entered, normalised; absent on carts that never had one. */
+  couponCodes?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A cart line joined with the current catalog entry, as returned by the API. */
+export interface CartItemView {
+  productId: string;
+  name: string;
+  image: string;
+  category: string;
+  unitPrice: number;
+  listPrice: number;
+  quantity: number;
+  /** Most this line can hold right now; 0 once the product sells out. */
+  maxQuantity: number;
+  lineTotal: number;
+}
+
+export interface CartView {
+  items: CartItemView[];
+  couponCodes: string[];
+  /** Which promotions applied and which were turned down, with the reasons. */
+  promotions: PromotionOutcome;
+  /** Subtotal, tax, shipping and total, exactly as an order placed now would charge them. */
+  totals: QuoteTotals;
+  updatedAt: string | null;
+}
+
+export const userCartId = (userId: string) => `user:${userId}`;
+
+export const guestCartId = (token: string) => `guest:${token}`;
+
+/** The user a cart belongs to, or undefined for guest carts. */
+export const cartOwnerId = (cartId: string): string | undefined =>
+  cartId.startsWith('user:') ? cartId.slice('user:'.length) : undefined;
@@ -0,0 +1,17 @@
+/** A response stored under an `Idempotency-Key`, so a retry gets the same answer instead of a second effect. */
+export interface IdempotencyRecord {
+  /** `<caller>:<key>`; keys are scoped to the signed-in user. */
+  id: string;
+  /** Keyed hash of the method, path and body of the first request. */
+  fingerprint: string;
+  /** `in_progress` until the first request has been answered. */
+  state: 'in_progress' | 'completed';
+  response?: {
+    status: number;
+    /** Only `Location`, the one header the stored endpoints set. */
+    location?: string;
+    body: unknown;
+  };
+  createdAt: string;
+  expiresAt: string;
+}
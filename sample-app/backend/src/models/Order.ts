@@ -0,0 +1,67 @@
+import type { OrderPayment } from './Payment';
+import type { AppliedPromotion } from './Promotion';
+import type { UserRole } from './User';
+
+export type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+
+export interface ShippingAddress {
+  email: string;
+  firstName: string;
+  lastName: string;
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+}
+
+/** A product as it was when the order was placed; later catalog edits don't change it. */
+export interface OrderLine {
+  productId: string;
+  name: string;
+  image: string;
+  unitPrice: number;
+  quantity: number;
+  lineTotal: number;
+}
+
+/** Who made a status change: a signed-in user, or the system itself. */
+export interface OrderActor {
+  id: string | null;
+  email?: string;
+  role: UserRole | 'system';
+}
+
+export interface OrderStatusChange {
+  /** `null` for the entry recording the order being placed. */
+  from: OrderStatus | null;
+  to: OrderStatus;
+  at: string;
+  actor: OrderActor;
+  note?: string;
+}
+
+export interface Order {
+  id: string;
+  /** Short reference shown to customers, e.g. `SF-20250601-7KQ2`. */
+  number: string;
+  userId: string;
+  status: OrderStatus;
+  items: OrderLine[];
+  /** Totals as quoted by the pricing engine when the order was placed. */
+  subtotal: number;
+  savings: number;
+  promotionDiscount: number;
+  /** Promotions and coupons that applied, as explained at checkout. */
+  promotions: AppliedPromotion[];
+  tax: number;
+  shipping: number;
+  total: number;
+  shippingAddress: ShippingAddress;
+  /** The card payment, kept in step as it is captured, voided or refunded. Absent on older orders. */
+  payment?: OrderPayment;
+  /** Every status the order has been through, oldest first. */
+  history: OrderStatusChange[];
+  createdAt: string;
+  updatedAt: string;
+}
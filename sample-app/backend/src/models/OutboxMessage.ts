@@ -0,0 +1,27 @@
+import type { MailTemplateName } from '../mail/templates';
+
+export type OutboxStatus = 'pending' | 'sent' | 'failed';
+
+/**
+ * An email waiting in (or done with) the outbox. Messages are rendered when
+ * queued, so a retry sends exactly what was first attempted.
+ */
+export interface OutboxMessage {
+  id: string;
+  template: MailTemplateName;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  status: OutboxStatus;
+  attempts: number;
+  /** Why the most recent attempt failed. */
+  lastError?: string;
+  /** When the next attempt is due, while `pending`. */
+  nextAttemptAt?: string;
+  /** The SMTP server's id for the message, once sent. */
+  messageId?: string;
+  sentAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
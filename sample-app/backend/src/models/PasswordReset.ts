@@ -0,0 +1,9 @@
+/** A one-time password reset link, stored by the SHA-256 of its token. */
+export interface PasswordReset {
+  id: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+  /** Set when the link is used; it never works twice. */
+  usedAt?: string;
+}
@@ -0,0 +1,44 @@
+import type { CardSummary, DeclineCode, GatewayPaymentStatus } from '../payments/PaymentProvider';
+
+export type PaymentStatus = GatewayPaymentStatus;
+
+export interface PaymentEvent {
+  type: 'authorization' | 'challenge' | 'capture' | 'void' | 'refund';
+  /** Status the payment was left in. */
+  status: PaymentStatus;
+  /** Money moved by a capture or refund, in `currency`. */
+  amount?: number;
+  at: string;
+}
+
+/**
+ * The shop's record of one card payment. It mirrors the processor's view and
+ * only ever holds the card's brand, last four digits and expiry.
+ */
+export interface Payment {
+  id: string;
+  /** `PaymentProvider.name` of the processor that holds the payment. */
+  provider: string;
+  providerPaymentId: string;
+  userId: string;
+  /** Set once the authorisation has paid for an order. */
+  orderId?: string;
+  /** Authorised amount in `currency`, equal to the cart total at the time. */
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  card: CardSummary;
+  capturedAmount: number;
+  refundedAmount: number;
+  /** What to show the cardholder while `requires_action`. */
+  challenge?: { message: string };
+  declineCode?: DeclineCode;
+  declineMessage?: string;
+  events: PaymentEvent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** The payment as an order keeps it, for receipts and the admin list. */
+export type OrderPayment = Pick<Payment, 'id' | 'status' | 'amount' | 'capturedAmount' | 'refundedAmount'> &
+  Pick<CardSummary, 'brand' | 'last4'>;
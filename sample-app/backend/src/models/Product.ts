@@ -1 +1,10 @@
-export type { ProductSummary } from '../data/products';
\ No newline at end of file
+import type { ProductSummary } from '../data/products';
+import { fromCents, percentOf, toBasisPoints, toCents } from '../pricing/money';
+
+export type { ProductSummary } from '../data/products';
+
+/** Price after the product's percentage `discount`, rounded half-up to cents. */
+export const effectivePrice = (product: Pick<ProductSummary, 'price' | 'discount'>): number =>
+  product.discount
+    ? fromCents(percentOf(toCents(product.price), 10_000 - toBasisPoints(product.discount)))
+    : product.price;
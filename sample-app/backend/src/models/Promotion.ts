@@ -0,0 +1,78 @@
+/** What a promotion takes off once its conditions are met. */
+export type PromotionBenefit =
+  | { type: 'percent-off'; percent: number }
+  | { type: 'fixed-off'; amount: number }
+  /** Every `buy` + `get` eligible units, the `get` cheapest are `percentOff` (default 100) off. */
+  | { type: 'buy-x-get-y'; buy: number; get: number; percentOff?: number };
+
+/**
+ * `exclusive` promotions never combine with others; `stackable` ones combine
+ * with each other. The engine picks whichever gives the customer more.
+ */
+export type StackingPolicy = 'exclusive' | 'stackable';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  /** Set for coupons; promotions without a code apply automatically. Stored upper-case. */
+  code?: string;
+  benefit: PromotionBenefit;
+  /** Only lines in these categories count; absent means every line. */
+  categories?: string[];
+  /** Only these products count; combined with `categories` a line must match both. */
+  productIds?: string[];
+  /** Cart subtotal (after product discounts) that must be reached first. */
+  minimumSpend?: number;
+  /** How many orders one customer may place with it. Limited promotions need sign-in. */
+  perCustomerLimit?: number;
+  stacking: StackingPolicy;
+  startsAt?: string;
+  endsAt?: string;
+  active: boolean;
+}
+
+/** One use of a promotion, recorded when an order is placed with it. */
+export interface PromotionRedemption {
+  id: string;
+  promotionId: string;
+  userId: string;
+  orderId: string;
+  at: string;
+}
+
+export type PromotionRejectionReason =
+  | 'UNKNOWN_CODE'
+  | 'INACTIVE'
+  | 'NOT_STARTED'
+  | 'EXPIRED'
+  | 'SIGN_IN_REQUIRED'
+  | 'USAGE_LIMIT_REACHED'
+  | 'NO_ELIGIBLE_ITEMS'
+  | 'MINIMUM_SPEND_NOT_MET'
+  | 'BUY_QUANTITY_NOT_MET'
+  | 'NOT_COMBINABLE';
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  code?: string;
+  amount: number;
+  /** Human-readable account of what was discounted, e.g. "20% off electronics". */
+  explanation: string;
+}
+
+export interface RejectedPromotion {
+  /** Absent for codes that match no promotion. */
+  promotionId?: string;
+  name?: string;
+  code?: string;
+  reason: PromotionRejectionReason;
+  explanation: string;
+}
+
+export interface PromotionOutcome {
+  applied: AppliedPromotion[];
+  rejected: RejectedPromotion[];
+}
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
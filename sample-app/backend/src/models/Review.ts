@@ -0,0 +1,77 @@
+import type { UserRole } from './User';
+
+/**
+ * `pending` reviews wait in the moderation queue and are hidden from other
+ * shoppers; only `approved` ones are public and count towards ratings.
+ */
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected'];
+
+export type RejectionReason = 'PROFANITY' | 'SPAM' | 'OFF_TOPIC' | 'PERSONAL_INFORMATION' | 'OTHER';
+
+export const REJECTION_REASONS: RejectionReason[] = ['PROFANITY', 'SPAM', 'OFF_TOPIC', 'PERSONAL_INFORMATION', 'OTHER'];
+
+/** Raised by the automatic screening rules; a flagged review is held for a moderator. */
+export interface ReviewFlag {
+  category: 'profanity' | 'spam';
+  /** Which rule fired, e.g. `link` or `repeated-characters`. */
+  rule: string;
+  message: string;
+}
+
+export interface ReviewModerationEntry {
+  status: Exclude<ReviewStatus, 'pending'>;
+  /** Required when rejecting. */
+  reason?: RejectionReason;
+  note?: string;
+  at: string;
+  actor: { id: string; email: string; role: UserRole };
+}
+
+export interface Review {
+  id: string;
+  productId: string;
+  userId: string;
+  /** Shown instead of the author's email, e.g. "Sarah J." */
+  authorName: string;
+  /** 1–5 stars. */
+  rating: number;
+  title?: string;
+  comment: string;
+  status: ReviewStatus;
+  /** What the screening rules found in the current text; empty when clean. */
+  flags: ReviewFlag[];
+  /** Every moderator decision, oldest first. */
+  moderationHistory: ReviewModerationEntry[];
+  /** "Was this helpful?" yes votes; drives the `helpful` sort. */
+  helpfulCount: number;
+  notHelpfulCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A review as returned by the API. */
+export interface ReviewView extends Review {
+  /** The author has a delivered order containing the product; worked out on every read. */
+  verified: boolean;
+  /** The signed-in caller's own vote, when they have cast one. */
+  viewerFoundHelpful?: boolean;
+}
+
+/** One shopper's "was this helpful?" answer; stored under `<reviewId>:<userId>`. */
+export interface ReviewVote {
+  id: string;
+  reviewId: string;
+  userId: string;
+  helpful: boolean;
+  createdAt: string;
+}
+
+export interface RatingSummary {
+  /** Mean star rating of approved reviews to one decimal, 0 when there are none. */
+  rating: number;
+  reviewCount: number;
+  /** Number of approved reviews per star rating, keyed "1" to "5". */
+  distribution: Record<string, number>;
+}
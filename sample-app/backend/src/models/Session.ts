@@ -0,0 +1,27 @@
+export type SessionRevocationReason = 'logout' | 'logout_all' | 'refresh_token_reuse' | 'password_reset';
+
+/**
+ * A signed-in device. Every refresh token issued for it belongs to the same
+ * family, and revoking the session invalidates all of them at once.
+ */
+export interface Session {
+  id: string;
+  userId: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  userAgent?: string;
+  revokedAt?: string;
+  revokedReason?: SessionRevocationReason;
+}
+
+/** A refresh token, stored by the SHA-256 of its value, never the value itself. */
+export interface RefreshTokenRecord {
+  id: string;
+  sessionId: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+  /** Set when the token is exchanged; a second use is treated as theft. */
+  usedAt?: string;
+}
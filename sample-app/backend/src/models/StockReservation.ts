@@ -0,0 +1,18 @@
+export interface ReservedLine {
+  productId: string;
+  quantity: number;
+}
+
+/**
+ * Units held for one cart's checkout. The units are already taken out of
+ * `stockQuantity`; they go back when the reservation is released or lapses,
+ * and stay sold when it is committed by placing the order.
+ */
+export interface StockReservation {
+  /** The cart id; a cart holds at most one reservation. */
+  id: string;
+  userId: string;
+  lines: ReservedLine[];
+  createdAt: string;
+  expiresAt: string;
+}
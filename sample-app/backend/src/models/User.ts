@@ -0,0 +1,29 @@
+import { permissionsFor, type Permission } from '../auth/permissions';
+
+export type UserRole = 'customer' | 'staff' | 'admin';
+
+export interface User {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  phoneNumber?: string;
+  dateOfBirth?: string;
+  subscribeToNewsletter: boolean;
+  /** Set when the subscriber confirms by email; only confirmed addresses get the newsletter. */
+  newsletterConfirmedAt?: string;
+  role: UserRole;
+  passwordHash: string;
+  createdAt: string;
+}
+
+/** The shape returned by the API; never includes the password hash. */
+export type PublicUser = Omit<User, 'passwordHash'> & {
+  /** Derived from `role` so clients can decide what to show without a role table of their own. */
+  permissions: Permission[];
+};
+
+export const toPublicUser = ({ passwordHash: _passwordHash, ...user }: User): PublicUser => ({
+  ...user,
+  permissions: permissionsFor(user.role)
+});
@@ -0,0 +1,50 @@
+import type { DomainEvent, DomainEventType } from '../events/EventBus';
+
+/** An endpoint that receives the events it subscribed to. */
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: DomainEventType[];
+  description?: string;
+  /** Signs every delivery; only shown when the subscription is created. */
+  secret: string;
+  /** Inactive subscriptions get no new deliveries, and their pending retries wait. */
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookSubscriptionView = Omit<WebhookSubscription, 'secret'>;
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'failed'];
+
+/** One HTTP request to the receiver and how it went. */
+export interface WebhookAttempt {
+  at: string;
+  durationMs: number;
+  /** Absent when no response came back, e.g. a timeout or refused connection. */
+  statusCode?: number;
+  error?: string;
+  /** The start of the receiver's answer, for debugging. */
+  responseBody?: string;
+  /** Sent because someone asked for a resend rather than by the retry schedule. */
+  resend?: boolean;
+}
+
+/** One event on its way to one subscription, with every attempt logged. */
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  /** The JSON body sent on every attempt; `event.id` lets receivers drop duplicates. */
+  event: DomainEvent;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  /** Failed attempts since the delivery was queued or last resent; drives the backoff. */
+  failures: number;
+  /** When the next attempt is due, while `pending`. */
+  nextAttemptAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
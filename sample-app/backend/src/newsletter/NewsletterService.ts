@@ -0,0 +1,55 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { AppConfig } from '../config';
+import { ApiError } from '../errors';
+import type { MailService } from '../mail/MailService';
+import type { User } from '../models/User';
+import type { UserRepository } from '../repositories';
+
+const invalidLink = () => new ApiError(400, 'INVALID_CONFIRMATION_TOKEN', 'This confirmation link is invalid.');
+
+/**
+ * Double opt-in for the newsletter. Ticking the box at sign-up mails a
+ * confirmation link; the address only counts as subscribed once the link
+ * is used. Links are `<user id>.<HMAC of the id and email>`, so nothing is
+ * stored and a link stops working if the account's email changes.
+ */
+export class NewsletterService {
+  constructor(
+    private readonly users: UserRepository,
+    private readonly mail: MailService,
+    private readonly mailConfig: AppConfig['mail'],
+    private readonly signingSecret: string
+  ) {}
+
+  async requestConfirmation(user: User): Promise<void> {
+    const token = `${user.id}.${this.sign(user)}`;
+    await this.mail.queue('newsletterConfirmation', user.email, {
+      firstName: user.firstName,
+      confirmUrl: `${this.mailConfig.appUrl}/newsletter/confirm?token=${encodeURIComponent(token)}`
+    });
+  }
+
+  /** Confirms the subscription; using the link again is harmless. */
+  async confirm(token: string): Promise<User> {
+    const separator = token.lastIndexOf('.');
+    const user = separator > 0 ? await this.users.findById(token.slice(0, separator)) : undefined;
+    if (!user) {
+      throw invalidLink();
+    }
+
+    const expected = Buffer.from(this.sign(user));
+    const presented = Buffer.from(token.slice(separator + 1));
+    if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+      throw invalidLink();
+    }
+
+    if (user.subscribeToNewsletter && user.newsletterConfirmedAt) {
+      return user;
+    }
+    return this.users.save({ ...user, subscribeToNewsletter: true, newsletterConfirmedAt: new Date().toISOString() });
+  }
+
+  private sign(user: User): string {
+    return createHmac('sha256', this.signingSecret).update(`newsletter:${user.id}:${user.email}`).digest('base64url');
+  }
+}
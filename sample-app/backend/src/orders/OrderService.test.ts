@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { userCartId } from '../models/Cart';
+import { approvedCard, authUser, createTestServices, product, shippingAddress, user } from '../testing/fixtures';
+
+describe('OrderService.placeOrder', () => {
+  it('places one order when two checkouts of the same cart overlap', async () => {
+    const services = createTestServices({ products: [product({ id: 'book', stockQuantity: 5 })] });
+    const shopper = authUser(user('user-1'));
+    const cartId = userCartId(shopper.id);
+
+    await services.cartService.addItem(cartId, 'book', 2);
+    await services.cartService.reserve(cartId, shopper.id);
+    // Two tabs, each with its own authorisation and Idempotency-Key.
+    const first = await services.paymentService.authorizeCart(shopper, approvedCard);
+    const second = await services.paymentService.authorizeCart(shopper, approvedCard);
+
+    const results = await Promise.allSettled([
+      services.orderService.placeOrder(shopper, shippingAddress, first.id),
+      services.orderService.placeOrder(shopper, shippingAddress, second.id)
+    ]);
+
+    expect(results[0].status).toBe('fulfilled');
+    expect(results[1]).toMatchObject({ status: 'rejected', reason: { status: 409, code: 'CART_EMPTY' } });
+    expect(await services.orders.findAll()).toHaveLength(1);
+    expect((await services.productRepository.findById('book'))?.stockQuantity).toBe(3);
+    expect(await services.reservations.findById(cartId)).toBeUndefined();
+  });
+
+  it('keeps a per-customer promotion to its limit across overlapping checkouts', async () => {
+    const services = createTestServices({
+      products: [product({ id: 'book', price: 100 })],
+      promotions: [{
+        id: 'once',
+        name: 'Once only',
+        code: 'ONCE',
+        benefit: { type: 'fixed-off', amount: 10 },
+        perCustomerLimit: 1,
+        stacking: 'exclusive',
+        active: true
+      }]
+    });
+    const shopper = authUser(user('user-1'));
+    const cartId = userCartId(shopper.id);
+
+    await services.cartService.addItem(cartId, 'book', 1);
+    await services.cartService.applyCoupon(cartId, 'ONCE');
+    const first = await services.paymentService.authorizeCart(shopper, approvedCard);
+    const second = await services.paymentService.authorizeCart(shopper, approvedCard);
+
+    await Promise.allSettled([
+      services.orderService.placeOrder(shopper, shippingAddress, first.id),
+      services.orderService.placeOrder(shopper, shippingAddress, second.id)
+    ]);
+
+    const placed = await services.orders.findAll();
+    expect(placed).toHaveLength(1);
+    expect(placed[0].promotions.map(({ promotionId }) => promotionId)).toEqual(['once']);
+  });
+
+  it('puts the stock back when the payment cannot be used', async () => {
+    const services = createTestServices({ products: [product({ id: 'book', stockQuantity: 5 })] });
+    const shopper = authUser(user('user-1'));
+    const cartId = userCartId(shopper.id);
+
+    await services.cartService.addItem(cartId, 'book', 1);
+    const payment = await services.paymentService.authorizeCart(shopper, approvedCard);
+    // The cart grows after paying, so the authorised amount no longer covers it.
+    await services.cartService.addItem(cartId, 'book', 1);
+    await services.cartService.reserve(cartId, shopper.id);
+
+    await expect(services.orderService.placeOrder(shopper, shippingAddress, payment.id))
+      .rejects.toMatchObject({ code: 'PAYMENT_AMOUNT_MISMATCH' });
+
+    expect((await services.productRepository.findById('book'))?.stockQuantity).toBe(5);
+    expect(await services.reservations.findById(cartId)).toBeUndefined();
+    expect(await services.orders.findAll()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,208 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { hasPermission } from '../auth/permissions';
+import type { AuthUser } from '../auth/tokens';
+import type { CartService } from '../cart/CartService';
+import { KeyedQueue } from '../concurrency/KeyedQueue';
+import { ApiError } from '../errors';
+import type { EventBus } from '../events/EventBus';
+import type { InventoryService } from '../inventory/InventoryService';
+import { userCartId } from '../models/Cart';
+import type { Order, OrderActor, OrderStatus, ShippingAddress } from '../models/Order';
+import type { PaymentService } from '../payments/PaymentService';
+import type { PromotionService } from '../promotions/PromotionService';
+import type { OrderRepository } from '../repositories';
+import { canTransition, CUSTOMER_TRANSITIONS, ORDER_TRANSITIONS } from './transitions';
+
+const ORDER_NUMBER_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+const orderNumber = (placedAt: Date): string => {
+  const date = placedAt.toISOString().slice(0, 10).replace(/-/g, '');
+  const suffix = Array.from(randomBytes(4), (byte) => ORDER_NUMBER_ALPHABET[byte % ORDER_NUMBER_ALPHABET.length]);
+  return `SF-${date}-${suffix.join('')}`;
+};
+
+const actorFor = (user: AuthUser): OrderActor => ({ id: user.id, email: user.email, role: user.role });
+
+const orderNotFound = (id: string) => new ApiError(404, 'ORDER_NOT_FOUND', `Order with id ${id} was not found.`);
+
+const newestFirst = (orders: Order[]) =>
+  [...orders].sort((a, b) => b.createdAt.localeCompare(a.createdAt) || a.id.localeCompare(b.id));
+
+/**
+ * Places orders from the caller's cart and moves them through the status
+ * table in `transitions.ts`, appending to the order's history on every move.
+ * An order is paid by an authorised card payment; shipping captures it and
+ * cancelling voids or refunds it. Customers only ever see their own orders;
+ * `orders:manage` sees them all. Placing an order and every status change
+ * are published as `order.created` and `order.status_changed`.
+ */
+export class OrderService {
+  /**
+   * Status changes and refunds per order, each re-reading the order inside, so
+   * two concurrent cancellations can't both restock it.
+   */
+  private readonly updates = new KeyedQueue();
+  /**
+   * Checkouts per cart, so two overlapping orders from the same cart can't
+   * both take its reservation and promotions; the second finds it emptied.
+   */
+  private readonly checkouts = new KeyedQueue();
+
+  constructor(
+    private readonly orders: OrderRepository,
+    private readonly cartService: CartService,
+    private readonly promotionService: PromotionService,
+    private readonly inventory: InventoryService,
+    private readonly payments: PaymentService,
+    private readonly events: EventBus
+  ) {}
+
+  placeOrder(user: AuthUser, shippingAddress: ShippingAddress, paymentId: string): Promise<Order> {
+    const cartId = userCartId(user.id);
+    return this.checkouts.run(cartId, () => this.place(user, cartId, shippingAddress, paymentId));
+  }
+
+  /** The caller's orders, or everyone's when `all` is set and they hold `orders:manage`. */
+  async list(user: AuthUser, { all = false } = {}): Promise<Order[]> {
+    if (all) {
+      if (!hasPermission(user.role, 'orders:manage')) {
+        throw new ApiError(403, 'FORBIDDEN', 'This action requires the orders:manage permission.');
+      }
+      return newestFirst(await this.orders.findAll());
+    }
+
+    return newestFirst(await this.orders.findByUser(user.id));
+  }
+
+  async get(user: AuthUser, id: string): Promise<Order> {
+    const order = await this.orders.findById(id);
+    // Someone else's order looks exactly like a missing one.
+    if (!order || (order.userId !== user.id && !hasPermission(user.role, 'orders:manage'))) {
+      throw orderNotFound(id);
+    }
+    return order;
+  }
+
+  changeStatus(user: AuthUser, id: string, to: OrderStatus, note?: string): Promise<Order> {
+    return this.updates.run(id, () => this.applyStatus(user, id, to, note));
+  }
+
+  /** Refunds some or all of a shipped order's payment; the status is left alone. */
+  refund(user: AuthUser, id: string, amount?: number): Promise<Order> {
+    return this.updates.run(id, async () => {
+      const order = await this.get(user, id);
+      if (!order.payment) {
+        throw new ApiError(409, 'ORDER_NOT_PAID', `Order ${order.number} has no card payment to refund.`);
+      }
+
+      const payment = await this.payments.refund(order.payment.id, amount);
+      return this.orders.save({
+        ...order,
+        payment: this.payments.toOrderPayment(payment),
+        updatedAt: new Date().toISOString()
+      });
+    });
+  }
+
+  /** Must run inside {@link checkouts} for `cartId`; reads the cart afresh. */
+  private async place(user: AuthUser, cartId: string, shippingAddress: ShippingAddress, paymentId: string): Promise<Order> {
+    const cart = await this.cartService.view(cartId);
+
+    if (cart.items.length === 0) {
+      throw new ApiError(409, 'CART_EMPTY', 'Add something to your cart before placing an order.');
+    }
+
+    // (Re-)reserve exactly what is being bought; this is the oversell check, so
+    // it fails with INSUFFICIENT_STOCK if checkout's reservation has lapsed and
+    // someone else bought the units meanwhile.
+    await this.inventory.reserve(cartId, user.id, cart.items.map(({ productId, quantity }) => ({ productId, quantity })));
+
+    const orderId = randomUUID();
+    // A refused payment ends the checkout, so the units go back on sale rather
+    // than sitting out the TTL; the shopper can reserve again with a new card.
+    const payment = await this.payments.claimForOrder(user, paymentId, cart.totals.total, orderId).catch(async (error) => {
+      await this.inventory.release(cartId);
+      throw error;
+    });
+
+    const placedAt = new Date();
+    const order = await this.orders.save({
+      id: orderId,
+      number: orderNumber(placedAt),
+      userId: user.id,
+      status: 'pending',
+      items: cart.items.map(({ productId, name, image, unitPrice, quantity, lineTotal }) => ({
+        productId,
+        name,
+        image,
+        unitPrice,
+        quantity,
+        lineTotal
+      })),
+      subtotal: cart.totals.subtotal,
+      savings: cart.totals.savings,
+      promotionDiscount: cart.totals.promotionDiscount,
+      promotions: cart.promotions.applied,
+      tax: cart.totals.tax,
+      shipping: cart.totals.shipping,
+      total: cart.totals.total,
+      shippingAddress,
+      payment: this.payments.toOrderPayment(payment),
+      history: [{ from: null, to: 'pending', at: placedAt.toISOString(), actor: actorFor(user) }],
+      createdAt: placedAt.toISOString(),
+      updatedAt: placedAt.toISOString()
+    }).catch(async (error) => {
+      await this.inventory.release(cartId);
+      await this.payments.void(payment.id);
+      throw error;
+    });
+
+    await this.inventory.commit(cartId);
+    await this.promotionService.recordRedemptions(user.id, order.id, order.promotions);
+    await this.cartService.clear(cartId);
+    this.events.publish('order.created', { order });
+    return order;
+  }
+
+  /** Must run inside {@link updates} for order `id`. */
+  private async applyStatus(user: AuthUser, id: string, to: OrderStatus, note?: string): Promise<Order> {
+    const order = await this.get(user, id);
+
+    if (!canTransition(order.status, to)) {
+      const allowed = ORDER_TRANSITIONS[order.status];
+      throw new ApiError(409, 'INVALID_STATUS_TRANSITION',
+        `An order cannot move from ${order.status} to ${to}` +
+        (allowed.length > 0 ? ` (allowed: ${allowed.join(', ')}).` : `; ${order.status} is final.`));
+    }
+
+    const customerMayMove = order.userId === user.id && (CUSTOMER_TRANSITIONS[order.status] ?? []).includes(to);
+    if (!customerMayMove && !hasPermission(user.role, 'orders:manage')) {
+      throw new ApiError(403, 'FORBIDDEN', `Only staff can move an order from ${order.status} to ${to}.`);
+    }
+
+    // Money moves first: a failed capture leaves the order where it was.
+    let { payment } = order;
+    if (payment && to === 'shipped') {
+      payment = this.payments.toOrderPayment(await this.payments.capture(payment.id));
+    }
+    if (payment && to === 'cancelled') {
+      payment = this.payments.toOrderPayment(await this.payments.cancel(payment.id));
+    }
+
+    if (to === 'cancelled') {
+      await this.inventory.restock(order.items);
+      await this.promotionService.releaseRedemptions(order.id);
+    }
+
+    const at = new Date().toISOString();
+    const saved = await this.orders.save({
+      ...order,
+      ...(payment ? { payment } : {}),
+      status: to,
+      history: [...order.history, { from: order.status, to, at, actor: actorFor(user), ...(note ? { note } : {}) }],
+      updatedAt: at
+    });
+    this.events.publish('order.status_changed', { order: saved, from: order.status, to });
+    return saved;
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import type { OrderStatus } from '../models/Order';
+import { canTransition, CUSTOMER_TRANSITIONS, ORDER_STATUSES, ORDER_TRANSITIONS } from './transitions';
+
+describe('order transitions', () => {
+  it('moves forward through fulfilment', () => {
+    expect(canTransition('pending', 'processing')).toBe(true);
+    expect(canTransition('processing', 'shipped')).toBe(true);
+    expect(canTransition('shipped', 'delivered')).toBe(true);
+  });
+
+  it('allows cancelling only before the order ships', () => {
+    expect(canTransition('pending', 'cancelled')).toBe(true);
+    expect(canTransition('processing', 'cancelled')).toBe(true);
+    expect(canTransition('shipped', 'cancelled')).toBe(false);
+    expect(canTransition('delivered', 'cancelled')).toBe(false);
+  });
+
+  it('never goes backwards, skips a step or stays put', () => {
+    expect(canTransition('delivered', 'pending')).toBe(false);
+    expect(canTransition('shipped', 'processing')).toBe(false);
+    expect(canTransition('pending', 'shipped')).toBe(false);
+    ORDER_STATUSES.forEach((status) => expect(canTransition(status, status)).toBe(false));
+  });
+
+  it('treats delivered and cancelled as final', () => {
+    const final = ORDER_STATUSES.filter((status) => ORDER_TRANSITIONS[status].length === 0);
+    expect(final.sort()).toEqual<OrderStatus[]>(['cancelled', 'delivered']);
+  });
+
+  it('gives customers a subset of the staff transitions', () => {
+    Object.entries(CUSTOMER_TRANSITIONS).forEach(([from, targets]) => {
+      targets?.forEach((to) => expect(canTransition(from as OrderStatus, to)).toBe(true));
+    });
+    expect(CUSTOMER_TRANSITIONS).toEqual({ pending: ['cancelled'] });
+  });
+});
@@ -0,0 +1,22 @@
+import type { OrderStatus } from '../models/Order';
+
+/**
+ * Every legal status change. Anything not listed here, such as
+ * `delivered → pending`, is rejected whoever asks for it.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: []
+};
+
+/** The subset of transitions a customer may make on their own order. */
+export const CUSTOMER_TRANSITIONS: Partial<Record<OrderStatus, readonly OrderStatus[]>> = {
+  pending: ['cancelled']
+};
+
+export const ORDER_STATUSES = Object.keys(ORDER_TRANSITIONS) as OrderStatus[];
+
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean => ORDER_TRANSITIONS[from].includes(to);
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { InMemoryDocumentStore } from '../storage/InMemoryDocumentStore';
+import { MOCK_CHALLENGE_CODE, MockPaymentGateway } from './MockPaymentGateway';
+import type { CardDetails } from './PaymentProvider';
+
+const card = (number: string, overrides: Partial<CardDetails> = {}): CardDetails =>
+  ({ number, expMonth: 12, expYear: 2099, cvc: '123', name: 'Sam Shopper', ...overrides });
+
+const authorize = (gateway: MockPaymentGateway, details: CardDetails) =>
+  gateway.authorize({ amountCents: 2599, currency: 'USD', card: details, reference: 'payment-1' });
+
+describe('MockPaymentGateway', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('approves any other card that passes the Luhn check, keeping only brand and last four', async () => {
+    const gateway = new MockPaymentGateway(new InMemoryDocumentStore());
+
+    const payment = await authorize(gateway, card('5555 5555 5555 4444'));
+
+    expect(payment).toMatchObject({
+      status: 'authorized',
+      reference: 'payment-1',
+      amountCents: 2599,
+      card: { brand: 'mastercard', last4: '4444', expMonth: 12, expYear: 2099 }
+    });
+    expect(JSON.stringify(payment)).not.toContain('5555555555554444');
+  });
+
+  it.each([
+    ['4000000000000002', 'CARD_DECLINED'],
+    ['4000000000009995', 'INSUFFICIENT_FUNDS'],
+    ['4000000000000069', 'EXPIRED_CARD'],
+    ['4000000000000127', 'INCORRECT_CVC'],
+    ['4242424242424241', 'INVALID_NUMBER']
+  ])('declines %s with %s', async (number, declineCode) => {
+    const payment = await authorize(new MockPaymentGateway(new InMemoryDocumentStore()), card(number));
+
+    expect(payment).toMatchObject({ status: 'declined', declineCode });
+    expect(payment.declineMessage).toEqual(expect.any(String));
+  });
+
+  it('declines a card whose expiry month has passed', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+    const gateway = new MockPaymentGateway(new InMemoryDocumentStore());
+
+    expect(await authorize(gateway, card('4242424242424242', { expMonth: 9, expYear: 2026 })))
+      .toMatchObject({ status: 'declined', declineCode: 'EXPIRED_CARD' });
+    expect(await authorize(gateway, card('4242424242424242', { expMonth: 10, expYear: 2026 })))
+      .toMatchObject({ status: 'authorized' });
+  });
+
+  describe('3-D Secure', () => {
+    it('authorises once the challenge is answered with the test code', async () => {
+      const gateway = new MockPaymentGateway(new InMemoryDocumentStore());
+      const pending = await authorize(gateway, card('4000000000003220'));
+
+      expect(pending).toMatchObject({ status: 'requires_action', challenge: { message: expect.stringContaining(MOCK_CHALLENGE_CODE) } });
+      expect(await gateway.completeChallenge(pending.id, ` ${MOCK_CHALLENGE_CODE} `)).toMatchObject({ status: 'authorized' });
+    });
+
+    it('declines a wrong answer as an authentication failure', async () => {
+      const gateway = new MockPaymentGateway(new InMemoryDocumentStore());
+      const pending = await authorize(gateway, card('4000000000003220'));
+
+      expect(await gateway.completeChallenge(pending.id, '000000'))
+        .toMatchObject({ status: 'declined', declineCode: 'AUTHENTICATION_FAILED' });
+      await expect(gateway.completeChallenge(pending.id, MOCK_CHALLENGE_CODE)).rejects.toMatchObject({ code: 'INVALID_STATE' });
+    });
+
+    it('can still decline after a passed challenge, without revealing that up front', async () => {
+      const gateway = new MockPaymentGateway(new InMemoryDocumentStore());
+      const pending = await authorize(gateway, card('4000008400001629'));
+
+      expect(pending).not.toHaveProperty('declineAfterChallenge');
+      expect(await gateway.completeChallenge(pending.id, MOCK_CHALLENGE_CODE))
+        .toMatchObject({ status: 'declined', declineCode: 'CARD_DECLINED' });
+    });
+  });
+
+  describe('capture and refund', () => {
+    it('captures up to the authorised amount and refunds up to what was captured', async () => {
+      const gateway = new MockPaymentGateway(new InMemoryDocumentStore());
+      const { id } = await authorize(gateway, card('4242424242424242'));
+
+      await expect(gateway.capture(id, 2600)).rejects.toMatchObject({ code: 'INVALID_AMOUNT' });
+      expect(await gateway.capture(id, 2000)).toMatchObject({ status: 'captured', capturedCents: 2000 });
+      expect(await gateway.refund(id, 500)).toMatchObject({ status: 'partially_refunded', refundedCents: 500 });
+      await expect(gateway.refund(id, 1501)).rejects.toMatchObject({ code: 'INVALID_AMOUNT' });
+      expect(await gateway.refund(id)).toMatchObject({ status: 'refunded', refundedCents: 2000 });
+    });
+
+    it('only voids payments that were not captured', async () => {
+      const gateway = new MockPaymentGateway(new InMemoryDocumentStore());
+      const { id } = await authorize(gateway, card('4242424242424242'));
+      await gateway.capture(id);
+
+      await expect(gateway.void(id)).rejects.toMatchObject({ code: 'INVALID_STATE' });
+      await expect(gateway.void('pay_mock_missing')).rejects.toMatchObject({ code: 'PAYMENT_NOT_FOUND' });
+    });
+  });
+});
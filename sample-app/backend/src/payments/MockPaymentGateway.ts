@@ -0,0 +1,185 @@
+import { randomBytes } from 'crypto';
+import type { DocumentStore } from '../storage';
+import {
+  type AuthorizeRequest,
+  type CardDetails,
+  type DeclineCode,
+  type GatewayPayment,
+  PaymentGatewayError,
+  type PaymentProvider
+} from './PaymentProvider';
+
+const COLLECTION = 'mockGatewayPayments';
+
+/** The answer that passes every simulated 3-D Secure challenge. */
+export const MOCK_CHALLENGE_CODE = '123456';
+
+interface TestCard {
+  /** Declined outright at authorisation. */
+  decline?: DeclineCode;
+  /** Asks for a 3-D Secure challenge before deciding. */
+  challenge?: boolean;
+  /** Declined even after a successful challenge. */
+  declineAfterChallenge?: DeclineCode;
+}
+
+/**
+ * Card numbers with scripted outcomes, after the test cards real processors
+ * publish. Any other number that passes the Luhn check is approved.
+ */
+export const TEST_CARDS: Record<string, TestCard> = {
+  '4000000000000002': { decline: 'CARD_DECLINED' },
+  '4000000000009995': { decline: 'INSUFFICIENT_FUNDS' },
+  '4000000000000069': { decline: 'EXPIRED_CARD' },
+  '4000000000000127': { decline: 'INCORRECT_CVC' },
+  '4000000000003220': { challenge: true },
+  '4000008400001629': { challenge: true, declineAfterChallenge: 'CARD_DECLINED' }
+};
+
+const DECLINE_MESSAGES: Record<DeclineCode, string> = {
+  CARD_DECLINED: 'The card was declined.',
+  INSUFFICIENT_FUNDS: 'The card has insufficient funds.',
+  EXPIRED_CARD: 'The card has expired.',
+  INCORRECT_CVC: "The card's security code is incorrect.",
+  INVALID_NUMBER: 'The card number is invalid.',
+  AUTHENTICATION_FAILED: 'The cardholder could not be authenticated.'
+};
+
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i += 1) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const brandOf = (digits: string): string => {
+  if (/^4/.test(digits)) return 'visa';
+  if (/^(5[1-5]|2[2-7])/.test(digits)) return 'mastercard';
+  if (/^3[47]/.test(digits)) return 'amex';
+  if (/^6(011|5)/.test(digits)) return 'discover';
+  return 'unknown';
+};
+
+const isExpired = ({ expMonth, expYear }: CardDetails, now: Date): boolean =>
+  expYear < now.getUTCFullYear() || (expYear === now.getUTCFullYear() && expMonth < now.getUTCMonth() + 1);
+
+/** What the mock keeps per payment besides the public view: the scripted outcome still to come. */
+interface LedgerEntry extends GatewayPayment {
+  declineAfterChallenge?: DeclineCode;
+}
+
+/**
+ * A deterministic stand-in for a card processor, for development and end-to-end
+ * checkout tests. Outcomes depend only on the card number (see
+ * {@link TEST_CARDS}), its expiry and CVC, and 3-D Secure challenges pass with
+ * {@link MOCK_CHALLENGE_CODE}. Its ledger lives in the document store so
+ * captures and refunds still work after a restart. Only the card brand and last
+ * four digits are ever stored.
+ */
+export class MockPaymentGateway implements PaymentProvider {
+  readonly name = 'mock';
+
+  constructor(private readonly store: DocumentStore) {}
+
+  async authorize({ amountCents, currency, card, reference }: AuthorizeRequest): Promise<GatewayPayment> {
+    const digits = card.number.replace(/\D/g, '');
+    const script = TEST_CARDS[digits] ?? {};
+    const entry: LedgerEntry = {
+      id: `pay_mock_${randomBytes(12).toString('hex')}`,
+      reference,
+      status: 'authorized',
+      amountCents,
+      capturedCents: 0,
+      refundedCents: 0,
+      currency,
+      card: { brand: brandOf(digits), last4: digits.slice(-4), expMonth: card.expMonth, expYear: card.expYear }
+    };
+
+    const decline = !passesLuhn(digits)
+      ? 'INVALID_NUMBER'
+      : isExpired(card, new Date()) ? 'EXPIRED_CARD' : script.decline;
+
+    if (decline) {
+      return this.save({ ...entry, status: 'declined', declineCode: decline, declineMessage: DECLINE_MESSAGES[decline] });
+    }
+
+    if (script.challenge) {
+      return this.save({
+        ...entry,
+        status: 'requires_action',
+        challenge: { message: `Your bank sent a one-time code to confirm this payment (test code: ${MOCK_CHALLENGE_CODE}).` },
+        ...(script.declineAfterChallenge ? { declineAfterChallenge: script.declineAfterChallenge } : {})
+      });
+    }
+
+    return this.save(entry);
+  }
+
+  async completeChallenge(paymentId: string, response: string): Promise<GatewayPayment> {
+    const { challenge: _challenge, declineAfterChallenge, ...entry } = await this.find(paymentId, 'requires_action');
+
+    const decline = response.trim() !== MOCK_CHALLENGE_CODE ? 'AUTHENTICATION_FAILED' : declineAfterChallenge;
+    if (decline) {
+      return this.save({ ...entry, status: 'declined', declineCode: decline, declineMessage: DECLINE_MESSAGES[decline] });
+    }
+    return this.save({ ...entry, status: 'authorized' });
+  }
+
+  async capture(paymentId: string, amountCents?: number): Promise<GatewayPayment> {
+    const entry = await this.find(paymentId, 'authorized');
+    const amount = amountCents ?? entry.amountCents;
+    if (amount <= 0 || amount > entry.amountCents) {
+      throw new PaymentGatewayError('INVALID_AMOUNT', 'The capture amount must be positive and at most the authorised amount.');
+    }
+    return this.save({ ...entry, status: 'captured', capturedCents: amount });
+  }
+
+  async void(paymentId: string): Promise<GatewayPayment> {
+    const entry = await this.find(paymentId, 'authorized', 'requires_action');
+    return this.save({ ...entry, status: 'voided' });
+  }
+
+  async refund(paymentId: string, amountCents?: number): Promise<GatewayPayment> {
+    const entry = await this.find(paymentId, 'captured', 'partially_refunded');
+    const refundable = entry.capturedCents - entry.refundedCents;
+    const amount = amountCents ?? refundable;
+    if (amount <= 0 || amount > refundable) {
+      throw new PaymentGatewayError('INVALID_AMOUNT', 'The refund amount must be positive and at most what is left to refund.');
+    }
+
+    const refundedCents = entry.refundedCents + amount;
+    return this.save({
+      ...entry,
+      status: refundedCents === entry.capturedCents ? 'refunded' : 'partially_refunded',
+      refundedCents
+    });
+  }
+
+  /** The gateway runs in-process, so it can take payments whenever its ledger can be read. */
+  async checkHealth(): Promise<void> {
+    await this.store.get<LedgerEntry>(COLLECTION, 'health-probe');
+  }
+
+  private async find(paymentId: string, ...allowed: GatewayPayment['status'][]): Promise<LedgerEntry> {
+    const entry = await this.store.get<LedgerEntry>(COLLECTION, paymentId);
+    if (!entry) {
+      throw new PaymentGatewayError('PAYMENT_NOT_FOUND', `The gateway has no payment ${paymentId}.`);
+    }
+    if (!allowed.includes(entry.status)) {
+      throw new PaymentGatewayError('INVALID_STATE', `The payment is ${entry.status}; expected ${allowed.join(' or ')}.`);
+    }
+    return entry;
+  }
+
+  private async save(entry: LedgerEntry): Promise<GatewayPayment> {
+    await this.store.put(COLLECTION, entry.id, entry);
+    const { declineAfterChallenge: _hidden, ...payment } = entry;
+    return payment;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * What the shop needs from a card processor. Amounts are integer cents in
+ * `currency`. Declines are results, not errors: `authorize` resolves with
+ * status `declined` and a `declineCode`. A {@link PaymentGatewayError} means
+ * the request itself was impossible, such as capturing a voided payment.
+ */
+export interface PaymentProvider {
+  /** Identifies the processor on stored payments, e.g. `mock`. */
+  readonly name: string;
+  /** Puts a hold on the card; may come back `requires_action` for a 3-D Secure challenge. */
+  authorize(request: AuthorizeRequest): Promise<GatewayPayment>;
+  /** Submits the cardholder's answer to a 3-D Secure challenge. */
+  completeChallenge(paymentId: string, response: string): Promise<GatewayPayment>;
+  /** Takes the held funds; by default all of them. */
+  capture(paymentId: string, amountCents?: number): Promise<GatewayPayment>;
+  /** Releases an authorisation that was never captured. */
+  void(paymentId: string): Promise<GatewayPayment>;
+  /** Returns captured funds; by default everything not yet refunded. */
+  refund(paymentId: string, amountCents?: number): Promise<GatewayPayment>;
+  /** Resolves when the processor can take payments; rejects with why not. Used by readiness checks. */
+  checkHealth(): Promise<void>;
+}
+
+export interface CardDetails {
+  number: string;
+  expMonth: number;
+  expYear: number;
+  cvc: string;
+  name: string;
+}
+
+export interface AuthorizeRequest {
+  amountCents: number;
+  currency: string;
+  card: CardDetails;
+  /** The shop's own payment id, echoed back by the gateway for reconciliation. */
+  reference: string;
+}
+
+export type GatewayPaymentStatus =
+  | 'requires_action'
+  | 'authorized'
+  | 'captured'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'voided'
+  | 'declined';
+
+export type DeclineCode =
+  | 'CARD_DECLINED'
+  | 'INSUFFICIENT_FUNDS'
+  | 'EXPIRED_CARD'
+  | 'INCORRECT_CVC'
+  | 'INVALID_NUMBER'
+  | 'AUTHENTICATION_FAILED';
+
+/** The card as the gateway reports it back; never the full number or the CVC. */
+export interface CardSummary {
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+}
+
+export interface GatewayPayment {
+  id: string;
+  reference: string;
+  status: GatewayPaymentStatus;
+  amountCents: number;
+  capturedCents: number;
+  refundedCents: number;
+  currency: string;
+  card: CardSummary;
+  /** Set while `requires_action`: what to show the cardholder. */
+  challenge?: { message: string };
+  declineCode?: DeclineCode;
+  declineMessage?: string;
+}
+
+export class PaymentGatewayError extends Error {
+  constructor(readonly code: string, message: string) {
+    super(message);
+    this.name = 'PaymentGatewayError';
+  }
+}
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { userCartId } from '../models/Cart';
+import type { Payment } from '../models/Payment';
+import { approvedCard, authUser, createTestServices, product, user } from '../testing/fixtures';
+import { MOCK_CHALLENGE_CODE } from './MockPaymentGateway';
+
+const shopper = authUser(user('user-1'));
+const stranger = authUser(user('user-2'));
+const challengeCard = { ...approvedCard, number: '4000000000003220' };
+
+describe('PaymentService', () => {
+  let services: ReturnType<typeof createTestServices>;
+
+  beforeEach(async () => {
+    services = createTestServices({ products: [product({ id: 'book', price: 25 })] });
+    await services.cartService.addItem(userCartId(shopper.id), 'book', 1);
+  });
+
+  /** The cart's total as checkout would pass it on. */
+  const cartTotal = async () => (await services.cartService.view(userCartId(shopper.id))).totals.total;
+
+  describe('authorizeCart', () => {
+    it('authorises the cart total', async () => {
+      const payment = await services.paymentService.authorizeCart(shopper, approvedCard);
+
+      expect(payment).toMatchObject({ status: 'authorized', userId: shopper.id, amount: await cartTotal() });
+      expect(payment.card).toMatchObject({ brand: 'visa', last4: '4242' });
+    });
+
+    it('refuses an empty cart', async () => {
+      await expect(services.paymentService.authorizeCart(stranger, approvedCard))
+        .rejects.toMatchObject({ status: 409, code: 'CART_EMPTY' });
+    });
+
+    it('saves a decline and reports it against the card field at fault', async () => {
+      await expect(services.paymentService.authorizeCart(shopper, { ...approvedCard, number: '4000000000000127' }))
+        .rejects.toMatchObject({
+          status: 402,
+          code: 'PAYMENT_DECLINED',
+          details: [{ field: 'cvc', message: "The card's security code is incorrect." }]
+        });
+
+      expect(await services.store.list<Payment>('payments')).toMatchObject([{ status: 'declined', declineCode: 'INCORRECT_CVC' }]);
+    });
+  });
+
+  describe('3-D Secure', () => {
+    it('authorises after the challenge is answered', async () => {
+      const pending = await services.paymentService.authorizeCart(shopper, challengeCard);
+      expect(pending.status).toBe('requires_action');
+
+      const payment = await services.paymentService.completeChallenge(shopper, pending.id, MOCK_CHALLENGE_CODE);
+
+      expect(payment.status).toBe('authorized');
+      expect(payment).not.toHaveProperty('challenge');
+      await expect(services.paymentService.completeChallenge(shopper, pending.id, MOCK_CHALLENGE_CODE))
+        .rejects.toMatchObject({ status: 409, code: 'INVALID_PAYMENT_STATE' });
+    });
+
+    it('declines a wrong answer against the response field', async () => {
+      const pending = await services.paymentService.authorizeCart(shopper, challengeCard);
+
+      await expect(services.paymentService.completeChallenge(shopper, pending.id, '000000')).rejects.toMatchObject({
+        status: 402,
+        code: 'PAYMENT_DECLINED',
+        details: [{ field: 'response' }]
+      });
+    });
+
+    it('hides a payment from other customers', async () => {
+      const pending = await services.paymentService.authorizeCart(shopper, challengeCard);
+
+      await expect(services.paymentService.completeChallenge(stranger, pending.id, MOCK_CHALLENGE_CODE))
+        .rejects.toMatchObject({ status: 404, code: 'PAYMENT_NOT_FOUND' });
+    });
+  });
+
+  describe('claimForOrder', () => {
+    it('ties an authorised payment to one order only', async () => {
+      const { id } = await services.paymentService.authorizeCart(shopper, approvedCard);
+      const amount = await cartTotal();
+
+      expect(await services.paymentService.claimForOrder(shopper, id, amount, 'order-1')).toMatchObject({ orderId: 'order-1' });
+      await expect(services.paymentService.claimForOrder(shopper, id, amount, 'order-2')).rejects.toMatchObject({
+        status: 409,
+        code: 'PAYMENT_NOT_USABLE',
+        message: 'This payment has already been used for an order.'
+      });
+    });
+
+    it('lets only one of two overlapping claims have the payment', async () => {
+      const { id } = await services.paymentService.authorizeCart(shopper, approvedCard);
+      const amount = await cartTotal();
+
+      const results = await Promise.allSettled([
+        services.paymentService.claimForOrder(shopper, id, amount, 'order-1'),
+        services.paymentService.claimForOrder(shopper, id, amount, 'order-2')
+      ]);
+
+      expect(results.map(({ status }) => status)).toEqual(['fulfilled', 'rejected']);
+      expect((await services.paymentService.get(shopper, id)).orderId).toBe('order-1');
+    });
+
+    it('refuses a payment still waiting on its challenge', async () => {
+      const { id } = await services.paymentService.authorizeCart(shopper, challengeCard);
+
+      await expect(services.paymentService.claimForOrder(shopper, id, await cartTotal(), 'order-1')).rejects.toMatchObject({
+        code: 'PAYMENT_NOT_USABLE',
+        message: 'The payment is requires_action; authorise the card again.'
+      });
+    });
+
+    it('refuses a payment of another customer as if it did not exist', async () => {
+      const { id } = await services.paymentService.authorizeCart(shopper, approvedCard);
+
+      await expect(services.paymentService.claimForOrder(stranger, id, await cartTotal(), 'order-1'))
+        .rejects.toMatchObject({ status: 404, code: 'PAYMENT_NOT_FOUND' });
+    });
+
+    it('voids an authorisation for a different total', async () => {
+      const { id } = await services.paymentService.authorizeCart(shopper, approvedCard);
+
+      await expect(services.paymentService.claimForOrder(shopper, id, (await cartTotal()) + 1, 'order-1'))
+        .rejects.toMatchObject({ status: 409, code: 'PAYMENT_AMOUNT_MISMATCH' });
+      expect(await services.paymentService.get(shopper, id)).toMatchObject({ status: 'voided' });
+      expect((await services.paymentService.get(shopper, id)).orderId).toBeUndefined();
+    });
+  });
+});
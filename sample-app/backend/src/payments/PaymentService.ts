@@ -0,0 +1,230 @@
+import { randomUUID } from 'crypto';
+import { hasPermission } from '../auth/permissions';
+import type { AuthUser } from '../auth/tokens';
+import type { CartService } from '../cart/CartService';
+import { KeyedQueue } from '../concurrency/KeyedQueue';
+import { ApiError, type ErrorDetail } from '../errors';
+import { userCartId } from '../models/Cart';
+import type { OrderPayment, Payment, PaymentEvent } from '../models/Payment';
+import { fromCents, toCents } from '../pricing/money';
+import type { PaymentRepository } from '../repositories';
+import {
+  type DeclineCode,
+  type GatewayPayment,
+  PaymentGatewayError,
+  type PaymentProvider
+} from './PaymentProvider';
+
+export interface CardInput {
+  number: string;
+  /** `MM/YY` */
+  expiry: string;
+  cvc: string;
+  name: string;
+}
+
+/** The form field each decline points at, so the checkout form can highlight it. */
+const DECLINE_FIELDS: Partial<Record<DeclineCode, string>> = {
+  INVALID_NUMBER: 'number',
+  EXPIRED_CARD: 'expiry',
+  INCORRECT_CVC: 'cvc',
+  AUTHENTICATION_FAILED: 'response'
+};
+
+const paymentNotFound = (id: string) => new ApiError(404, 'PAYMENT_NOT_FOUND', `Payment with id ${id} was not found.`);
+
+const declined = ({ declineCode, declineMessage }: Payment) => {
+  const field = declineCode && DECLINE_FIELDS[declineCode];
+  const details: ErrorDetail[] | undefined = field ? [{ field, message: declineMessage ?? 'was declined' }] : undefined;
+  return new ApiError(402, 'PAYMENT_DECLINED', declineMessage ?? 'The payment was declined.', details);
+};
+
+/**
+ * Card payments for checkout. The caller's cart total is authorised first
+ * (possibly after a 3-D Secure challenge), then claimed by the order it pays
+ * for. Orders capture the funds when they ship, and cancelling voids or
+ * refunds them. Card numbers and CVCs only ever pass through to the
+ * {@link PaymentProvider}.
+ */
+export class PaymentService {
+  /** Claims per payment, so one authorisation can never pay for two orders. */
+  private readonly claims = new KeyedQueue();
+
+  constructor(
+    private readonly payments: PaymentRepository,
+    private readonly provider: PaymentProvider,
+    private readonly cartService: CartService
+  ) {}
+
+  /** Authorises the caller's current cart total; declines are saved and then thrown as `402 PAYMENT_DECLINED`. */
+  async authorizeCart(user: AuthUser, card: CardInput): Promise<Payment> {
+    const cart = await this.cartService.view(userCartId(user.id));
+    if (cart.items.length === 0) {
+      throw new ApiError(409, 'CART_EMPTY', 'Add something to your cart before paying.');
+    }
+
+    const [expMonth, expYear] = card.expiry.split('/').map(Number);
+    const id = randomUUID();
+    const result = await this.gateway(() => this.provider.authorize({
+      amountCents: toCents(cart.totals.total),
+      currency: cart.totals.currency,
+      card: { number: card.number, expMonth, expYear: 2000 + expYear, cvc: card.cvc, name: card.name },
+      reference: id
+    }));
+
+    const now = new Date().toISOString();
+    const payment = await this.payments.save(this.withResult({
+      id,
+      provider: this.provider.name,
+      providerPaymentId: result.id,
+      userId: user.id,
+      amount: fromCents(result.amountCents),
+      currency: result.currency,
+      status: result.status,
+      card: result.card,
+      capturedAmount: 0,
+      refundedAmount: 0,
+      events: [],
+      createdAt: now,
+      updatedAt: now
+    }, result, 'authorization'));
+
+    if (payment.status === 'declined') {
+      throw declined(payment);
+    }
+    return payment;
+  }
+
+  async completeChallenge(user: AuthUser, id: string, response: string): Promise<Payment> {
+    const payment = await this.get(user, id);
+    if (payment.status !== 'requires_action') {
+      throw new ApiError(409, 'INVALID_PAYMENT_STATE', `The payment is ${payment.status}; there is no challenge to answer.`);
+    }
+
+    const result = await this.gateway(() => this.provider.completeChallenge(payment.providerPaymentId, response));
+    const saved = await this.payments.save(this.withResult(payment, result, 'challenge'));
+    if (saved.status === 'declined') {
+      throw declined(saved);
+    }
+    return saved;
+  }
+
+  /** The caller's own payment; `orders:manage` may see anyone's. */
+  async get(user: AuthUser, id: string): Promise<Payment> {
+    const payment = await this.payments.findById(id);
+    if (!payment || (payment.userId !== user.id && !hasPermission(user.role, 'orders:manage'))) {
+      throw paymentNotFound(id);
+    }
+    return payment;
+  }
+
+  /**
+   * Ties an authorised payment to the order it pays for. It must belong to the
+   * caller, be unused, and cover exactly `amount`; a stale authorisation for a
+   * different total is voided so the hold on the card is released.
+   */
+  claimForOrder(user: AuthUser, id: string, amount: number, orderId: string): Promise<Payment> {
+    return this.claims.run(id, () => this.claim(user, id, amount, orderId));
+  }
+
+  async capture(id: string): Promise<Payment> {
+    const payment = await this.require(id);
+    const result = await this.gateway(() => this.provider.capture(payment.providerPaymentId));
+    return this.payments.save(this.withResult(payment, result, 'capture', fromCents(result.capturedCents)));
+  }
+
+  async void(id: string): Promise<Payment> {
+    const payment = await this.require(id);
+    const result = await this.gateway(() => this.provider.void(payment.providerPaymentId));
+    return this.payments.save(this.withResult(payment, result, 'void'));
+  }
+
+  /** Refunds `amount`, or everything captured and not yet refunded. */
+  async refund(id: string, amount?: number): Promise<Payment> {
+    const payment = await this.require(id);
+    const result = await this.gateway(() =>
+      this.provider.refund(payment.providerPaymentId, amount === undefined ? undefined : toCents(amount)));
+    const refunded = fromCents(result.refundedCents - toCents(payment.refundedAmount));
+    return this.payments.save(this.withResult(payment, result, 'refund', refunded));
+  }
+
+  /** Gives the money back however the payment's state allows: void before capture, refund after. */
+  async cancel(id: string): Promise<Payment> {
+    const payment = await this.require(id);
+    switch (payment.status) {
+      case 'authorized':
+      case 'requires_action':
+        return this.void(id);
+      case 'captured':
+      case 'partially_refunded':
+        return this.refund(id);
+      default:
+        return payment;
+    }
+  }
+
+  toOrderPayment({ id, status, amount, capturedAmount, refundedAmount, card }: Payment): OrderPayment {
+    return { id, status, amount, capturedAmount, refundedAmount, brand: card.brand, last4: card.last4 };
+  }
+
+  /** Must run inside {@link claims} for payment `id`. */
+  private async claim(user: AuthUser, id: string, amount: number, orderId: string): Promise<Payment> {
+    const payment = await this.payments.findById(id);
+    if (!payment || payment.userId !== user.id) {
+      throw paymentNotFound(id);
+    }
+    if (payment.status !== 'authorized' || payment.orderId) {
+      throw new ApiError(409, 'PAYMENT_NOT_USABLE', payment.orderId
+        ? 'This payment has already been used for an order.'
+        : `The payment is ${payment.status}; authorise the card again.`);
+    }
+    if (toCents(payment.amount) !== toCents(amount)) {
+      await this.void(payment.id);
+      throw new ApiError(409, 'PAYMENT_AMOUNT_MISMATCH',
+        `The cart total changed to ${amount.toFixed(2)} since the card was authorised for ${payment.amount.toFixed(2)}; ` +
+        'authorise the card again.');
+    }
+
+    return this.payments.save({ ...payment, orderId, updatedAt: new Date().toISOString() });
+  }
+
+  private async require(id: string): Promise<Payment> {
+    const payment = await this.payments.findById(id);
+    if (!payment) {
+      throw paymentNotFound(id);
+    }
+    return payment;
+  }
+
+  private withResult(payment: Payment, result: GatewayPayment, type: PaymentEvent['type'], amount?: number): Payment {
+    const at = new Date().toISOString();
+    const { challenge: _challenge, declineCode: _code, declineMessage: _message, ...rest } = payment;
+    return {
+      ...rest,
+      status: result.status,
+      capturedAmount: fromCents(result.capturedCents),
+      refundedAmount: fromCents(result.refundedCents),
+      ...(result.challenge ? { challenge: result.challenge } : {}),
+      ...(result.declineCode ? { declineCode: result.declineCode, declineMessage: result.declineMessage } : {}),
+      events: [...payment.events, { type, status: result.status, ...(amount !== undefined ? { amount } : {}), at }],
+      updatedAt: at
+    };
+  }
+
+  /** Turns processor refusals into API errors; anything else is a genuine failure. */
+  private async gateway<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      if (!(error instanceof PaymentGatewayError)) {
+        throw error;
+      }
+      if (error.code === 'INVALID_AMOUNT') {
+        throw new ApiError(400, 'VALIDATION_ERROR', 'The request body failed validation.', [
+          { field: 'amount', message: error.message }
+        ]);
+      }
+      throw new ApiError(409, 'INVALID_PAYMENT_STATE', error.message);
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import type { AppConfig } from '../config';
+import type { DocumentStore } from '../storage';
+import { MockPaymentGateway } from './MockPaymentGateway';
+import type { PaymentProvider } from './PaymentProvider';
+
+export type { PaymentProvider } from './PaymentProvider';
+
+/** Picks the card processor named by `PaymentsConfig.provider`; real processors plug in here. */
+export const createPaymentProvider = (paymentsConfig: AppConfig['payments'], store: DocumentStore): PaymentProvider => {
+  switch (paymentsConfig.provider) {
+    case 'mock':
+      return new MockPaymentGateway(store);
+  }
+};
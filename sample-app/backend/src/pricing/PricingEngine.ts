@@ -0,0 +1,122 @@
+import type { AppConfig } from '../config';
+import { effectivePrice, ProductSummary } from '../models/Product';
+import type { PromotionOutcome } from '../models/Promotion';
+import { evaluatePromotions, PromotionContext } from '../promotions/rules';
+import { fromCents, percentOf, toBasisPoints, toCents } from './money';
+
+export interface PricingEntry {
+  product: Pick<ProductSummary, 'id' | 'name' | 'category' | 'price' | 'discount'>;
+  quantity: number;
+}
+
+export interface QuoteLine {
+  productId: string;
+  name: string;
+  quantity: number;
+  listPrice: number;
+  /** The product's `discount` percentage, 0 when it has none. */
+  discountPercent: number;
+  unitPrice: number;
+  lineSavings: number;
+  lineTotal: number;
+}
+
+export interface QuoteTotals {
+  currency: string;
+  itemCount: number;
+  /** Sum of line totals, after product discounts and before tax and shipping. */
+  subtotal: number;
+  /** What product `discount`s took off the list prices. */
+  savings: number;
+  /** What promotions and coupons took off the subtotal. */
+  promotionDiscount: number;
+  taxRatePercent: number;
+  tax: number;
+  shipping: number;
+  freeShippingOver: number;
+  /** How much more to spend for free shipping; 0 once it applies. */
+  amountToFreeShipping: number;
+  total: number;
+}
+
+export interface Quote {
+  lines: QuoteLine[];
+  promotions: PromotionOutcome;
+  totals: QuoteTotals;
+}
+
+/**
+ * The one place prices are computed. Cart, checkout and order creation all go
+ * through {@link PricingEngine.quote}, so every screen shows the same total.
+ *
+ * Order of operations: each unit is discounted by `effectivePrice`, lines
+ * are unit price × quantity, promotions come off the subtotal (see
+ * `promotions/rules.ts`), tax is charged on what is left, and shipping is
+ * free when that amount is strictly over `freeShippingOver`.
+ */
+export class PricingEngine {
+  constructor(private readonly rules: AppConfig['pricing']) {}
+
+  /** Without a promotion context no promotions are considered at all. */
+  quote(entries: PricingEntry[], promotionContext?: PromotionContext): Quote {
+    let subtotalCents = 0;
+    let savingsCents = 0;
+    let itemCount = 0;
+
+    const lines = entries.map(({ product, quantity }): QuoteLine => {
+      const listCents = toCents(product.price);
+      const unitCents = toCents(effectivePrice(product));
+      const lineCents = unitCents * quantity;
+      const lineSavingsCents = (listCents - unitCents) * quantity;
+
+      subtotalCents += lineCents;
+      savingsCents += lineSavingsCents;
+      itemCount += quantity;
+
+      return {
+        productId: product.id,
+        name: product.name,
+        quantity,
+        listPrice: fromCents(listCents),
+        discountPercent: product.discount ?? 0,
+        unitPrice: fromCents(unitCents),
+        lineSavings: fromCents(lineSavingsCents),
+        lineTotal: fromCents(lineCents)
+      };
+    });
+
+    const { outcome, discountCents } = promotionContext
+      ? evaluatePromotions(entries.map(({ product }, index) => ({
+        productId: product.id,
+        category: product.category,
+        unitCents: toCents(lines[index].unitPrice),
+        quantity: lines[index].quantity
+      })), promotionContext)
+      : { outcome: { applied: [], rejected: [] }, discountCents: 0 };
+
+    const discountedCents = subtotalCents - discountCents;
+    const taxCents = percentOf(discountedCents, toBasisPoints(this.rules.taxRatePercent));
+    const thresholdCents = toCents(this.rules.freeShippingOver);
+    const freeShipping = lines.length === 0 || discountedCents > thresholdCents;
+    const shippingCents = freeShipping ? 0 : toCents(this.rules.shippingFlatRate);
+
+    return {
+      lines,
+      promotions: outcome,
+      totals: {
+        currency: this.rules.currency,
+        itemCount,
+        subtotal: fromCents(subtotalCents),
+        savings: fromCents(savingsCents),
+        promotionDiscount: fromCents(discountCents),
+        taxRatePercent: this.rules.taxRatePercent,
+        tax: fromCents(taxCents),
+        shipping: fromCents(shippingCents),
+        freeShippingOver: this.rules.freeShippingOver,
+        // "Over" the threshold means one more cent than it.
+        amountToFreeShipping: freeShipping ? 0 : fromCents(thresholdCents - discountedCents + 1),
+        total: fromCents(discountedCents + taxCents + shippingCents)
+      }
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { fromCents, percentOf, toBasisPoints, toCents } from './money';
+
+describe('toCents', () => {
+  it('reads the shortest decimal form instead of the binary fraction', () => {
+    expect(toCents(0.1)).toBe(10);
+    expect(toCents(19.99)).toBe(1999);
+    expect(toCents(0.1 + 0.2)).toBe(30);
+  });
+
+  it('rounds half-up on the first dropped digit', () => {
+    expect(toCents(1.005)).toBe(101);
+    expect(toCents(1.004)).toBe(100);
+    expect(toCents(-2.345)).toBe(-235);
+  });
+
+  it('treats tiny magnitudes as zero and refuses huge or non-finite ones', () => {
+    expect(toCents(1e-7)).toBe(0);
+    expect(() => toCents(1e21)).toThrow(RangeError);
+    expect(() => toCents(Number.NaN)).toThrow(RangeError);
+    expect(() => toCents(Infinity)).toThrow(RangeError);
+  });
+});
+
+describe('fromCents', () => {
+  it('round-trips through toCents', () => {
+    expect(fromCents(toCents(19.99))).toBe(19.99);
+    expect(fromCents(-250)).toBe(-2.5);
+  });
+});
+
+describe('toBasisPoints', () => {
+  it('keeps two decimals of a percentage', () => {
+    expect(toBasisPoints(8.25)).toBe(825);
+    expect(toBasisPoints(100)).toBe(10_000);
+    expect(toBasisPoints(7.125)).toBe(713);
+  });
+});
+
+describe('percentOf', () => {
+  it('rounds the share half-up to the cent', () => {
+    expect(percentOf(1999, 825)).toBe(165);
+    expect(percentOf(5, 1000)).toBe(1);
+    expect(percentOf(4, 1000)).toBe(0);
+    expect(percentOf(-5, 1000)).toBe(-1);
+  });
+
+  it('stays exact where the product passes the safe integer range', () => {
+    expect(percentOf(Number.MAX_SAFE_INTEGER, 10_000)).toBe(Number.MAX_SAFE_INTEGER);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Exact money arithmetic. Amounts are carried as integer cents and percentages
+ * as integer basis points, so nothing is ever computed on binary fractions;
+ * the only rounding is an explicit half-up step where a division happens.
+ */
+
+/**
+ * Converts a decimal number to an integer count of `10^-scale` units, reading
+ * the number's shortest decimal form ("0.1", not 0.1000000000000000055...) and
+ * rounding half-up on the first dropped digit.
+ */
+const toScaledInteger = (value: number, scale: number): number => {
+  if (!Number.isFinite(value)) {
+    throw new RangeError(`Cannot convert ${value} to a money amount.`);
+  }
+
+  const text = String(Math.abs(value));
+  if (text.includes('e')) {
+    // Only magnitudes far outside any price reach exponent notation.
+    if (Math.abs(value) < 1) {
+      return 0;
+    }
+    throw new RangeError(`${value} is too large for a money amount.`);
+  }
+
+  const [whole, fraction = ''] = text.split('.');
+  const kept = Number(whole + fraction.padEnd(scale, '0').slice(0, scale));
+  const roundUp = Number(fraction.charAt(scale) || '0') >= 5 ? 1 : 0;
+  const magnitude = kept + roundUp;
+
+  return value < 0 ? -magnitude : magnitude;
+};
+
+export const toCents = (amount: number): number => toScaledInteger(amount, 2);
+
+export const fromCents = (cents: number): number => cents / 100;
+
+/** 8.25 (percent) → 825 basis points. */
+export const toBasisPoints = (percent: number): number => toScaledInteger(percent, 2);
+
+/** `numerator / denominator` rounded half-up; BigInts so large products stay exact. */
+const divideHalfUp = (n: bigint, d: bigint): number => {
+  const sign = n < 0n ? -1n : 1n;
+  const magnitude = (sign * n * 2n + d) / (d * 2n);
+  return Number(sign * magnitude);
+};
+
+/** `percent` of `cents`, rounded half-up to the cent. */
+export const percentOf = (cents: number, basisPoints: number): number =>
+  divideHalfUp(BigInt(cents) * BigInt(basisPoints), 10_000n);
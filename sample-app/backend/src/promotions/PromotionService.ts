@@ -0,0 +1,45 @@
+import { randomUUID } from 'crypto';
+import { AppliedPromotion, normalizeCouponCode, Promotion } from '../models/Promotion';
+import type { PromotionRedemptionRepository } from '../repositories';
+import type { PromotionContext } from './rules';
+
+/**
+ * Supplies the pricing engine with the promotions on offer and the caller's
+ * redemption history, and keeps that history up to date as orders are placed
+ * and cancelled. The rules themselves live in `rules.ts`.
+ */
+export class PromotionService {
+  constructor(
+    private readonly promotions: Promotion[],
+    private readonly redemptions: PromotionRedemptionRepository
+  ) {}
+
+  findByCode(code: string): Promotion | undefined {
+    const normalized = normalizeCouponCode(code);
+    return this.promotions.find((promotion) => promotion.code === normalized);
+  }
+
+  async contextFor(customerId: string | undefined, codes: string[] = []): Promise<PromotionContext> {
+    const redemptions: Record<string, number> = {};
+    for (const redemption of customerId ? await this.redemptions.findByUser(customerId) : []) {
+      redemptions[redemption.promotionId] = (redemptions[redemption.promotionId] ?? 0) + 1;
+    }
+
+    return { promotions: this.promotions, codes, customerId, redemptions, now: new Date() };
+  }
+
+  /** Counts each applied promotion against the customer's per-customer limit. */
+  async recordRedemptions(userId: string, orderId: string, applied: AppliedPromotion[]): Promise<void> {
+    const at = new Date().toISOString();
+    for (const { promotionId } of applied) {
+      await this.redemptions.save({ id: randomUUID(), promotionId, userId, orderId, at });
+    }
+  }
+
+  /** A cancelled order gives its promotions back to the customer. */
+  async releaseRedemptions(orderId: string): Promise<void> {
+    for (const redemption of await this.redemptions.findByOrder(orderId)) {
+      await this.redemptions.delete(redemption.id);
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import type { Promotion } from '../models/Promotion';
+import { evaluatePromotions, type PromotionContext, type PromotionLine } from './rules';
+
+const NOW = new Date('2026-06-15T12:00:00Z');
+
+const promotion = (overrides: Partial<Promotion> & Pick<Promotion, 'id' | 'benefit'>): Promotion => ({
+  name: overrides.id,
+  stacking: 'stackable',
+  active: true,
+  ...overrides
+});
+
+const context = (promotions: Promotion[], overrides: Partial<PromotionContext> = {}): PromotionContext => ({
+  promotions,
+  codes: [],
+  customerId: 'user-1',
+  redemptions: {},
+  now: NOW,
+  ...overrides
+});
+
+const book = (unitCents: number, quantity = 1): PromotionLine => ({ productId: `book-${unitCents}`, category: 'books', unitCents, quantity });
+const laptop: PromotionLine = { productId: 'laptop', category: 'electronics', unitCents: 50_000, quantity: 1 };
+
+describe('evaluatePromotions', () => {
+  it('takes a percentage off the eligible lines only', () => {
+    const { outcome, discountCents } = evaluatePromotions(
+      [book(1000, 2), laptop],
+      context([promotion({ id: 'tech', name: 'Tech week', categories: ['electronics'], benefit: { type: 'percent-off', percent: 20 } })])
+    );
+
+    expect(discountCents).toBe(10_000);
+    expect(outcome.applied).toEqual([
+      { promotionId: 'tech', name: 'Tech week', amount: 100, explanation: '20% off electronics: -$100.00' }
+    ]);
+    expect(outcome.rejected).toEqual([]);
+  });
+
+  it('gives the cheapest unit of each group away on buy-x-get-y', () => {
+    const { discountCents, outcome } = evaluatePromotions(
+      [book(1000, 2), book(500), book(300)],
+      context([promotion({ id: 'b2g1', categories: ['books'], benefit: { type: 'buy-x-get-y', buy: 2, get: 1 } })])
+    );
+
+    // Units 1000, 1000, 500 form the only full group; the 300 is left over.
+    expect(discountCents).toBe(500);
+    expect(outcome.applied[0].explanation).toBe('Buy 2, get 1 free on books: -$5.00');
+  });
+
+  it('explains what is missing when a coupon does not apply', () => {
+    const promotions = [
+      promotion({ id: 'few', code: 'THREE', benefit: { type: 'buy-x-get-y', buy: 2, get: 1 } }),
+      promotion({ id: 'min', code: 'BIG', minimumSpend: 50, benefit: { type: 'fixed-off', amount: 10 } }),
+      promotion({ id: 'tech', code: 'TECH', categories: ['electronics'], benefit: { type: 'percent-off', percent: 10 } }),
+      promotion({ id: 'old', code: 'OLD', endsAt: '2026-01-31T23:59:59Z', benefit: { type: 'percent-off', percent: 10 } })
+    ];
+    const { outcome } = evaluatePromotions(
+      [book(1500, 2)],
+      context(promotions, { codes: ['THREE', 'BIG', 'TECH', 'OLD', 'NOPE'] })
+    );
+
+    expect(outcome.applied).toEqual([]);
+    expect(outcome.rejected.map(({ code, reason, explanation }) => ({ code, reason, explanation }))).toEqual([
+      { code: 'NOPE', reason: 'UNKNOWN_CODE', explanation: 'No promotion matches the code NOPE.' },
+      { code: 'THREE', reason: 'BUY_QUANTITY_NOT_MET', explanation: 'Add 1 more qualifying item(s) to get this deal.' },
+      { code: 'BIG', reason: 'MINIMUM_SPEND_NOT_MET', explanation: 'Spend $20.00 more to reach the $50.00 minimum.' },
+      { code: 'TECH', reason: 'NO_ELIGIBLE_ITEMS', explanation: 'Nothing in your cart qualifies (electronics).' },
+      { code: 'OLD', reason: 'EXPIRED', explanation: 'This promotion ended on 2026-01-31.' }
+    ]);
+  });
+
+  it('leaves out automatic promotions that are off, out of season or for other products', () => {
+    const { outcome } = evaluatePromotions([book(1000)], context([
+      promotion({ id: 'off', active: false, benefit: { type: 'percent-off', percent: 10 } }),
+      promotion({ id: 'later', startsAt: '2026-07-01T00:00:00Z', benefit: { type: 'percent-off', percent: 10 } }),
+      promotion({ id: 'tech', categories: ['electronics'], benefit: { type: 'percent-off', percent: 10 } })
+    ]));
+
+    expect(outcome).toEqual({ applied: [], rejected: [] });
+  });
+
+  it('enforces the per-customer limit and asks guests to sign in', () => {
+    const limited = promotion({ id: 'once', code: 'ONCE', perCustomerLimit: 1, benefit: { type: 'fixed-off', amount: 5 } });
+
+    const guest = evaluatePromotions([book(1000)], context([limited], { codes: ['ONCE'], customerId: undefined }));
+    expect(guest.outcome.rejected[0].reason).toBe('SIGN_IN_REQUIRED');
+
+    const repeat = evaluatePromotions([book(1000)], context([limited], { codes: ['ONCE'], redemptions: { once: 1 } }));
+    expect(repeat.outcome.rejected[0].reason).toBe('USAGE_LIMIT_REACHED');
+
+    const first = evaluatePromotions([book(1000)], context([limited], { codes: ['ONCE'] }));
+    expect(first.discountCents).toBe(500);
+  });
+
+  it('keeps the single best exclusive promotion when it beats the stackable ones together', () => {
+    const { outcome, discountCents } = evaluatePromotions([book(10_000)], context([
+      promotion({ id: 'ten', name: 'Ten percent', benefit: { type: 'percent-off', percent: 10 } }),
+      promotion({ id: 'five', name: 'Five off', benefit: { type: 'fixed-off', amount: 5 } }),
+      promotion({ id: 'big', name: 'Big sale', stacking: 'exclusive', benefit: { type: 'percent-off', percent: 30 } })
+    ]));
+
+    expect(discountCents).toBe(3000);
+    expect(outcome.applied.map(({ promotionId }) => promotionId)).toEqual(['big']);
+    expect(outcome.rejected).toEqual([
+      { promotionId: 'ten', name: 'Ten percent', reason: 'NOT_COMBINABLE', explanation: 'Cannot be combined with Big sale; the better deal was kept.' },
+      { promotionId: 'five', name: 'Five off', reason: 'NOT_COMBINABLE', explanation: 'Cannot be combined with Big sale; the better deal was kept.' }
+    ]);
+  });
+
+  it('keeps the stackable promotions when together they save more', () => {
+    const { outcome, discountCents } = evaluatePromotions([book(10_000)], context([
+      promotion({ id: 'ten', name: 'Ten percent', benefit: { type: 'percent-off', percent: 10 } }),
+      promotion({ id: 'twenty', name: 'Twenty off', benefit: { type: 'fixed-off', amount: 20 } }),
+      promotion({ id: 'big', name: 'Big sale', stacking: 'exclusive', benefit: { type: 'percent-off', percent: 25 } })
+    ]));
+
+    expect(discountCents).toBe(3000);
+    expect(outcome.rejected).toEqual([{
+      promotionId: 'big',
+      name: 'Big sale',
+      reason: 'NOT_COMBINABLE',
+      explanation: 'Cannot be combined with Ten percent, Twenty off; the better deal was kept.'
+    }]);
+  });
+
+  it('does not name an empty list when nothing was kept', () => {
+    const { outcome, discountCents } = evaluatePromotions([book(10)], context([
+      promotion({ id: 'tiny', name: 'Tiny', stacking: 'exclusive', benefit: { type: 'percent-off', percent: 1 } })
+    ]));
+
+    expect(discountCents).toBe(0);
+    expect(outcome.applied).toEqual([]);
+    expect(outcome.rejected).toEqual([{
+      promotionId: 'tiny',
+      name: 'Tiny',
+      reason: 'NOT_COMBINABLE',
+      explanation: 'Cannot be combined with other promotions and takes nothing off this cart on its own.'
+    }]);
+  });
+
+  it('caps the combined discount at the subtotal', () => {
+    const { outcome, discountCents } = evaluatePromotions([book(3000)], context([
+      promotion({ id: 'a', benefit: { type: 'fixed-off', amount: 20 } }),
+      promotion({ id: 'b', benefit: { type: 'fixed-off', amount: 20 } })
+    ]));
+
+    expect(discountCents).toBe(3000);
+    expect(outcome.applied.map(({ amount }) => amount)).toEqual([20, 10]);
+  });
+
+  it('does not depend on the order promotions are listed in', () => {
+    const promotions = [
+      promotion({ id: 'min', minimumSpend: 90, benefit: { type: 'percent-off', percent: 10 } }),
+      promotion({ id: 'fixed', benefit: { type: 'fixed-off', amount: 15 } })
+    ];
+    const lines = [book(10_000)];
+
+    expect(evaluatePromotions(lines, context([...promotions].reverse())).discountCents)
+      .toBe(evaluatePromotions(lines, context(promotions)).discountCents);
+  });
+});
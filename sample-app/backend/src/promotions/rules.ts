@@ -0,0 +1,229 @@
+import type {
+  AppliedPromotion,
+  Promotion,
+  PromotionOutcome,
+  PromotionRejectionReason,
+  RejectedPromotion
+} from '../models/Promotion';
+import { fromCents, percentOf, toBasisPoints, toCents } from '../pricing/money';
+
+/** A priced cart line as the rules see it; amounts are integer cents. */
+export interface PromotionLine {
+  productId: string;
+  category: string;
+  unitCents: number;
+  quantity: number;
+}
+
+/** Everything besides the lines that decides which promotions apply. */
+export interface PromotionContext {
+  promotions: Promotion[];
+  /** Coupon codes the customer entered, already normalised. */
+  codes: string[];
+  customerId?: string;
+  /** Times the customer has already used each promotion, by promotion id. */
+  redemptions: Record<string, number>;
+  now: Date;
+}
+
+export interface PromotionEvaluation {
+  outcome: PromotionOutcome;
+  discountCents: number;
+}
+
+type Check = { cents: number } | { reason: PromotionRejectionReason; explanation: string };
+
+const formatCents = (cents: number) => `$${fromCents(cents).toFixed(2)}`;
+
+const scopeOf = (promotion: Promotion): string => {
+  if (promotion.categories?.length) {
+    return promotion.categories.join(', ');
+  }
+  return promotion.productIds?.length ? 'selected products' : 'your order';
+};
+
+/** "20% off electronics", "Buy 2, get 1 free on books", ... */
+export const describeBenefit = (promotion: Promotion): string => {
+  const scope = scopeOf(promotion);
+  const { benefit } = promotion;
+
+  switch (benefit.type) {
+    case 'percent-off':
+      return `${benefit.percent}% off ${scope}`;
+    case 'fixed-off':
+      return `${formatCents(toCents(benefit.amount))} off ${scope}`;
+    case 'buy-x-get-y': {
+      const reward = (benefit.percentOff ?? 100) === 100 ? 'free' : `${benefit.percentOff}% off`;
+      return `Buy ${benefit.buy}, get ${benefit.get} ${reward} on ${scope}`;
+    }
+  }
+};
+
+const appliesTo = (promotion: Promotion, line: PromotionLine) =>
+  (!promotion.categories?.length || promotion.categories.includes(line.category)) &&
+  (!promotion.productIds?.length || promotion.productIds.includes(line.productId));
+
+/** Whether the promotion is switched on and inside its validity window. */
+const availability = (promotion: Promotion, now: Date): Check | undefined => {
+  if (!promotion.active) {
+    return { reason: 'INACTIVE', explanation: 'This promotion is no longer available.' };
+  }
+  if (promotion.startsAt && now < new Date(promotion.startsAt)) {
+    return { reason: 'NOT_STARTED', explanation: `This promotion starts on ${promotion.startsAt.slice(0, 10)}.` };
+  }
+  if (promotion.endsAt && now > new Date(promotion.endsAt)) {
+    return { reason: 'EXPIRED', explanation: `This promotion ended on ${promotion.endsAt.slice(0, 10)}.` };
+  }
+  return undefined;
+};
+
+const evaluateOne = (promotion: Promotion, lines: PromotionLine[], subtotalCents: number, context: PromotionContext): Check => {
+  const unavailable = availability(promotion, context.now);
+  if (unavailable) {
+    return unavailable;
+  }
+
+  if (promotion.perCustomerLimit !== undefined) {
+    if (!context.customerId) {
+      return { reason: 'SIGN_IN_REQUIRED', explanation: 'Sign in to use this promotion.' };
+    }
+    if ((context.redemptions[promotion.id] ?? 0) >= promotion.perCustomerLimit) {
+      return {
+        reason: 'USAGE_LIMIT_REACHED',
+        explanation: `You have already used this promotion the maximum of ${promotion.perCustomerLimit} time(s).`
+      };
+    }
+  }
+
+  const eligible = lines.filter((line) => appliesTo(promotion, line));
+  if (eligible.length === 0) {
+    return { reason: 'NO_ELIGIBLE_ITEMS', explanation: `Nothing in your cart qualifies (${scopeOf(promotion)}).` };
+  }
+
+  if (promotion.minimumSpend !== undefined) {
+    const minimumCents = toCents(promotion.minimumSpend);
+    if (subtotalCents < minimumCents) {
+      return {
+        reason: 'MINIMUM_SPEND_NOT_MET',
+        explanation: `Spend ${formatCents(minimumCents - subtotalCents)} more to reach the ${formatCents(minimumCents)} minimum.`
+      };
+    }
+  }
+
+  const eligibleCents = eligible.reduce((sum, line) => sum + line.unitCents * line.quantity, 0);
+  const { benefit } = promotion;
+
+  switch (benefit.type) {
+    case 'percent-off':
+      return { cents: percentOf(eligibleCents, toBasisPoints(benefit.percent)) };
+    case 'fixed-off':
+      return { cents: Math.min(toCents(benefit.amount), eligibleCents) };
+    case 'buy-x-get-y': {
+      // Most expensive first, so each group's discounted units are its cheapest.
+      const units = eligible
+        .flatMap((line) => Array<number>(line.quantity).fill(line.unitCents))
+        .sort((a, b) => b - a);
+      const groupSize = benefit.buy + benefit.get;
+      const groups = Math.floor(units.length / groupSize);
+
+      if (groups === 0) {
+        return {
+          reason: 'BUY_QUANTITY_NOT_MET',
+          explanation: `Add ${groupSize - units.length} more qualifying item(s) to get this deal.`
+        };
+      }
+
+      const basisPoints = toBasisPoints(benefit.percentOff ?? 100);
+      let cents = 0;
+      for (let group = 0; group < groups; group += 1) {
+        for (let index = group * groupSize + benefit.buy; index < (group + 1) * groupSize; index += 1) {
+          cents += percentOf(units[index], basisPoints);
+        }
+      }
+      return { cents };
+    }
+  }
+};
+
+const rejection = (promotion: Promotion, reason: PromotionRejectionReason, explanation: string): RejectedPromotion => ({
+  promotionId: promotion.id,
+  name: promotion.name,
+  ...(promotion.code ? { code: promotion.code } : {}),
+  reason,
+  explanation
+});
+
+/**
+ * Decides which promotions apply to the priced lines and what each takes off.
+ *
+ * Automatic promotions (no code) are considered whenever they are live;
+ * coupons only when their code was entered. Every candidate is checked
+ * against its window, per-customer limit, eligible lines and minimum spend
+ * on the original prices, so the order promotions are listed in never
+ * changes the result. Then the stacking policy picks either all stackable
+ * promotions or the single best exclusive one, whichever saves more, and the
+ * combined discount is capped at the subtotal.
+ */
+export const evaluatePromotions = (lines: PromotionLine[], context: PromotionContext): PromotionEvaluation => {
+  const subtotalCents = lines.reduce((sum, line) => sum + line.unitCents * line.quantity, 0);
+  const rejected: RejectedPromotion[] = [];
+  const qualifying: { promotion: Promotion; cents: number }[] = [];
+
+  const coded = new Map(context.promotions.filter((p) => p.code).map((p) => [p.code as string, p]));
+  context.codes
+    .filter((code) => !coded.has(code))
+    .forEach((code) => rejected.push({ code, reason: 'UNKNOWN_CODE', explanation: `No promotion matches the code ${code}.` }));
+
+  const candidates = context.promotions.filter((promotion) =>
+    promotion.code
+      ? context.codes.includes(promotion.code)
+      // Automatic promotions that are switched off or out of season are not worth mentioning.
+      : !availability(promotion, context.now));
+
+  for (const promotion of candidates) {
+    const check = evaluateOne(promotion, lines, subtotalCents, context);
+    // An automatic promotion for products the cart doesn't hold is beside the point.
+    if ('reason' in check && !promotion.code && check.reason === 'NO_ELIGIBLE_ITEMS') {
+      continue;
+    }
+    if ('reason' in check) {
+      rejected.push(rejection(promotion, check.reason, check.explanation));
+    } else {
+      qualifying.push({ promotion, cents: check.cents });
+    }
+  }
+
+  const stackable = qualifying.filter(({ promotion }) => promotion.stacking === 'stackable');
+  const stackableCents = stackable.reduce((sum, { cents }) => sum + cents, 0);
+  const bestExclusive = qualifying
+    .filter(({ promotion }) => promotion.stacking === 'exclusive')
+    .reduce<{ promotion: Promotion; cents: number } | undefined>(
+      (best, candidate) => (!best || candidate.cents > best.cents ? candidate : best),
+      undefined
+    );
+
+  const chosen = bestExclusive && bestExclusive.cents > stackableCents ? [bestExclusive] : stackable;
+  const keptNames = chosen.map(({ promotion }) => promotion.name).join(', ');
+  // Nothing is kept only when no promotion is stackable and the best exclusive one saves nothing.
+  const notCombinable = keptNames === ''
+    ? 'Cannot be combined with other promotions and takes nothing off this cart on its own.'
+    : `Cannot be combined with ${keptNames}; the better deal was kept.`;
+  qualifying
+    .filter((entry) => !chosen.includes(entry))
+    .forEach(({ promotion }) => rejected.push(rejection(promotion, 'NOT_COMBINABLE', notCombinable)));
+
+  let remainingCents = subtotalCents;
+  const applied: AppliedPromotion[] = chosen.map(({ promotion, cents }) => {
+    const amountCents = Math.min(cents, remainingCents);
+    remainingCents -= amountCents;
+    return {
+      promotionId: promotion.id,
+      name: promotion.name,
+      ...(promotion.code ? { code: promotion.code } : {}),
+      amount: fromCents(amountCents),
+      explanation: `${describeBenefit(promotion)}: -${formatCents(amountCents)}`
+    };
+  });
+
+  return { outcome: { applied, rejected }, discountCents: subtotalCents - remainingCents };
+};
@@ -0,0 +1,21 @@
+import type { Cart } from '../models/Cart';
+import type { DocumentStore } from '../storage';
+
+const COLLECTION = 'carts';
+
+export class CartRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  async findById(id: string): Promise<Cart | undefined> {
+    return this.store.get<Cart>(COLLECTION, id);
+  }
+
+  async save(cart: Cart): Promise<Cart> {
+    await this.store.put(COLLECTION, cart.id, cart);
+    return cart;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(COLLECTION, id);
+  }
+}
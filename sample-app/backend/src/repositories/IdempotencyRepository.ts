@@ -0,0 +1,25 @@
+import type { IdempotencyRecord } from '../models/IdempotencyRecord';
+import type { DocumentStore } from '../storage';
+
+const COLLECTION = 'idempotencyKeys';
+
+export class IdempotencyRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  async findAll(): Promise<IdempotencyRecord[]> {
+    return this.store.list<IdempotencyRecord>(COLLECTION);
+  }
+
+  async findById(id: string): Promise<IdempotencyRecord | undefined> {
+    return this.store.get<IdempotencyRecord>(COLLECTION, id);
+  }
+
+  async save(record: IdempotencyRecord): Promise<IdempotencyRecord> {
+    await this.store.put(COLLECTION, record.id, record);
+    return record;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(COLLECTION, id);
+  }
+}
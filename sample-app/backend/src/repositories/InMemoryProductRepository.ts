@@ -0,0 +1,48 @@
+import { withDerivedStock } from '../catalog/stock';
+import type { ProductSummary } from '../models/Product';
+import type { ProductRepository } from './ProductRepository';
+
+/**
+ * Keeps the catalog in process memory. Seeded from the fixtures by default so
+ * demos work without any setup; state is lost on restart.
+ */
+export class InMemoryProductRepository implements ProductRepository {
+  private readonly items: Map<string, ProductSummary>;
+
+  constructor(seed: ProductSummary[] = []) {
+    this.items = new Map(seed.map((product) => [product.id, withDerivedStock(product)]));
+  }
+
+  async findAll(): Promise<ProductSummary[]> {
+    return Array.from(this.items.values(), (product) => ({ ...product }));
+  }
+
+  async findById(id: string): Promise<ProductSummary | undefined> {
+    const product = this.items.get(id);
+    return product ? { ...product } : undefined;
+  }
+
+  async create(product: ProductSummary): Promise<ProductSummary> {
+    const stored = withDerivedStock(product);
+    this.items.set(product.id, stored);
+    return { ...stored };
+  }
+
+  async update(product: ProductSummary): Promise<ProductSummary | undefined> {
+    if (!this.items.has(product.id)) {
+      return undefined;
+    }
+
+    const stored = withDerivedStock(product);
+    this.items.set(product.id, stored);
+    return { ...stored };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.items.delete(id);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release.
+  }
+}
@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs';
+import { withDerivedStock } from '../catalog/stock';
+import type { ProductSummary } from '../models/Product';
+import { writeJsonFile } from '../storage/jsonFile';
+import type { ProductRepository } from './ProductRepository';
+
+/**
+ * Persists the catalog as a single JSON array on disk. The file is created from
+ * the seed data the first time it is read, which makes it easy to hand-edit.
+ */
+export class JsonFileProductRepository implements ProductRepository {
+  /** Serialises read-modify-write cycles so concurrent writes don't clobber each other. */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string, private readonly seed: ProductSummary[] = []) {}
+
+  async findAll(): Promise<ProductSummary[]> {
+    return this.read();
+  }
+
+  async findById(id: string): Promise<ProductSummary | undefined> {
+    const items = await this.read();
+    return items.find((product) => product.id === id);
+  }
+
+  async create(product: ProductSummary): Promise<ProductSummary> {
+    return this.mutate((items) => {
+      const stored = withDerivedStock(product);
+      items.push(stored);
+      return stored;
+    });
+  }
+
+  async update(product: ProductSummary): Promise<ProductSummary | undefined> {
+    return this.mutate((items) => {
+      const index = items.findIndex((item) => item.id === product.id);
+      if (index === -1) {
+        return undefined;
+      }
+
+      items[index] = withDerivedStock(product);
+      return items[index];
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.mutate((items) => {
+      const index = items.findIndex((item) => item.id === id);
+      if (index === -1) {
+        return false;
+      }
+
+      items.splice(index, 1);
+      return true;
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.pending;
+  }
+
+  private mutate<T>(change: (items: ProductSummary[]) => T): Promise<T> {
+    const run = this.pending.then(async () => {
+      const items = await this.read();
+      const result = change(items);
+      await this.write(items);
+      return result;
+    });
+
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  private async read(): Promise<ProductSummary[]> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      return (JSON.parse(raw) as ProductSummary[]).map(withDerivedStock);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+
+      const seeded = this.seed.map(withDerivedStock);
+      await this.write(seeded);
+      return seeded;
+    }
+  }
+
+  /** Replaces the file in one step, so reads outside the queue never see it half-written. */
+  private async write(items: ProductSummary[]): Promise<void> {
+    await writeJsonFile(this.filePath, items);
+  }
+}
@@ -0,0 +1,21 @@
+import type { OutboxMessage } from '../models/OutboxMessage';
+import type { DocumentStore } from '../storage';
+
+const COLLECTION = 'mailOutbox';
+
+export class MailOutboxRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  async findAll(): Promise<OutboxMessage[]> {
+    return this.store.list<OutboxMessage>(COLLECTION);
+  }
+
+  async findById(id: string): Promise<OutboxMessage | undefined> {
+    return this.store.get<OutboxMessage>(COLLECTION, id);
+  }
+
+  async save(message: OutboxMessage): Promise<OutboxMessage> {
+    await this.store.put(COLLECTION, message.id, message);
+    return message;
+  }
+}
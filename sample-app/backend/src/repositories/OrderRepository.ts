@@ -0,0 +1,26 @@
+import type { Order } from '../models/Order';
+import type { DocumentStore } from '../storage';
+
+const COLLECTION = 'orders';
+
+export class OrderRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  async findAll(): Promise<Order[]> {
+    return this.store.list<Order>(COLLECTION);
+  }
+
+  async findById(id: string): Promise<Order | undefined> {
+    return this.store.get<Order>(COLLECTION, id);
+  }
+
+  async findByUser(userId: string): Promise<Order[]> {
+    const orders = await this.store.list<Order>(COLLECTION);
+    return orders.filter((order) => order.userId === userId);
+  }
+
+  async save(order: Order): Promise<Order> {
+    await this.store.put(COLLECTION, order.id, order);
+    return order;
+  }
+}
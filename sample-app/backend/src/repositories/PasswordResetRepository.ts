@@ -0,0 +1,22 @@
+import type { PasswordReset } from '../models/PasswordReset';
+import type { DocumentStore } from '../storage';
+
+const COLLECTION = 'passwordResets';
+
+export class PasswordResetRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  async findById(id: string): Promise<PasswordReset | undefined> {
+    return this.store.get<PasswordReset>(COLLECTION, id);
+  }
+
+  async findByUser(userId: string): Promise<PasswordReset[]> {
+    const resets = await this.store.list<PasswordReset>(COLLECTION);
+    return resets.filter((reset) => reset.userId === userId);
+  }
+
+  async save(reset: PasswordReset): Promise<PasswordReset> {
+    await this.store.put(COLLECTION, reset.id, reset);
+    return reset;
+  }
+}
@@ -0,0 +1,17 @@
+import type { Payment } from '../models/Payment';
+import type { DocumentStore } from '../storage';
+
+const COLLECTION = 'payments';
+
+export class PaymentRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  async findById(id: string): Promise<Payment | undefined> {
+    return this.store.get<Payment>(COLLECTION, id);
+  }
+
+  async save(payment: Payment): Promise<Payment> {
+    await this.store.put(COLLECTION, payment.id, payment);
+    return payment;
+  }
+}
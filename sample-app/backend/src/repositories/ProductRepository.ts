@@ -0,0 +1,17 @@
+import type { ProductSummary } from '../models/Product';
+
+/**
+ * Storage boundary for the catalog. Routes talk to this interface only, so the
+ * backing store (fixtures, JSON file, SQLite) can be swapped through config.
+ */
+export interface ProductRepository {
+  findAll(): Promise<ProductSummary[]>;
+  findById(id: string): Promise<ProductSummary | undefined>;
+  create(product: ProductSummary): Promise<ProductSummary>;
+  /** Replaces the stored product; resolves `undefined` when the id is unknown. */
+  update(product: ProductSummary): Promise<ProductSummary | undefined>;
+  /** Resolves `false` when there was nothing to delete. */
+  delete(id: string): Promise<boolean>;
+  /** Finishes pending writes and releases the storage; nothing may be called after it. */
+  close(): Promise<void>;
+}
@@ -0,0 +1,27 @@
+import type { PromotionRedemption } from '../models/Promotion';
+import type { DocumentStore } from '../storage';
+
+const COLLECTION = 'promotionRedemptions';
+
+export class PromotionRedemptionRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  async findByUser(userId: string): Promise<PromotionRedemption[]> {
+    const redemptions = await this.store.list<PromotionRedemption>(COLLECTION);
+    return redemptions.filter((redemption) => redemption.userId === userId);
+  }
+
+  async findByOrder(orderId: string): Promise<PromotionRedemption[]> {
+    const redemptions = await this.store.list<PromotionRedemption>(COLLECTION);
+    return redemptions.filter((redemption) => redemption.orderId === orderId);
+  }
+
+  async save(redemption: PromotionRedemption): Promise<PromotionRedemption> {
+    await this.store.put(COLLECTION, redemption.id, redemption);
+    return redemption;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(COLLECTION, id);
+  }
+}
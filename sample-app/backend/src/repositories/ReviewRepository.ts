@@ -0,0 +1,40 @@
+import type { Review } from '../models/Review';
+import type { DocumentStore } from '../storage';
+
+const COLLECTION = 'reviews';
+
+/** Reviews stored before moderation existed were all public. */
+const withDefaults = (review: Review): Review => ({
+  ...review,
+  status: review.status ?? 'approved',
+  flags: review.flags ?? [],
+  moderationHistory: review.moderationHistory ?? [],
+  notHelpfulCount: review.notHelpfulCount ?? 0
+});
+
+export class ReviewRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  async findAll(): Promise<Review[]> {
+    return (await this.store.list<Review>(COLLECTION)).map(withDefaults);
+  }
+
+  async findById(id: string): Promise<Review | undefined> {
+    const review = await this.store.get<Review>(COLLECTION, id);
+    return review && withDefaults(review);
+  }
+
+  async findByProduct(productId: string): Promise<Review[]> {
+    const reviews = await this.findAll();
+    return reviews.filter((review) => review.productId === productId);
+  }
+
+  async save(review: Review): Promise<Review> {
+    await this.store.put(COLLECTION, review.id, review);
+    return review;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(COLLECTION, id);
+  }
+}
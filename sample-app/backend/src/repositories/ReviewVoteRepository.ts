@@ -0,0 +1,28 @@
+import type { ReviewVote } from '../models/Review';
+import type { DocumentStore } from '../storage';
+
+const COLLECTION = 'reviewVotes';
+
+export const reviewVoteId = (reviewId: string, userId: string) => `${reviewId}:${userId}`;
+
+export class ReviewVoteRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  async find(reviewId: string, userId: string): Promise<ReviewVote | undefined> {
+    return this.store.get<ReviewVote>(COLLECTION, reviewVoteId(reviewId, userId));
+  }
+
+  async findByReview(reviewId: string): Promise<ReviewVote[]> {
+    const votes = await this.store.list<ReviewVote>(COLLECTION);
+    return votes.filter((vote) => vote.reviewId === reviewId);
+  }
+
+  async save(vote: ReviewVote): Promise<ReviewVote> {
+    await this.store.put(COLLECTION, vote.id, vote);
+    return vote;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(COLLECTION, id);
+  }
+}
@@ -0,0 +1,32 @@
+import type { RefreshTokenRecord, Session } from '../models/Session';
+import type { DocumentStore } from '../storage';
+
+const SESSIONS = 'sessions';
+const REFRESH_TOKENS = 'refreshTokens';
+
+export class SessionRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  async findSession(id: string): Promise<Session | undefined> {
+    return this.store.get<Session>(SESSIONS, id);
+  }
+
+  async listSessionsForUser(userId: string): Promise<Session[]> {
+    const sessions = await this.store.list<Session>(SESSIONS);
+    return sessions.filter((session) => session.userId === userId);
+  }
+
+  async saveSession(session: Session): Promise<Session> {
+    await this.store.put(SESSIONS, session.id, session);
+    return session;
+  }
+
+  async findRefreshToken(hash: string): Promise<RefreshTokenRecord | undefined> {
+    return this.store.get<RefreshTokenRecord>(REFRESH_TOKENS, hash);
+  }
+
+  async saveRefreshToken(record: RefreshTokenRecord): Promise<RefreshTokenRecord> {
+    await this.store.put(REFRESH_TOKENS, record.id, record);
+    return record;
+  }
+}
@@ -0,0 +1,155 @@
+import type Database from 'better-sqlite3';
+import { MAX_QUANTITY_PER_LINE, withDerivedStock } from '../catalog/stock';
+import type { ProductSummary } from '../models/Product';
+import { closeSqlite, openSqlite } from '../storage/sqlite';
+import type { ProductRepository } from './ProductRepository';
+
+interface ProductRow {
+  id: string;
+  name: string;
+  price: number;
+  image: string;
+  rating: number;
+  review_count: number;
+  description: string;
+  category: string;
+  in_stock: number;
+  stock_quantity: number;
+  discount: number | null;
+  created_at: string | null;
+}
+
+const INSERT_PRODUCT = `
+  INSERT INTO products (
+    id, name, price, image, rating, review_count, description, category, in_stock, stock_quantity, discount, created_at
+  )
+  VALUES (
+    @id, @name, @price, @image, @rating, @review_count, @description, @category, @in_stock, @stock_quantity, @discount,
+    @created_at
+  )
+`;
+
+const toProduct = (row: ProductRow): ProductSummary => ({
+  id: row.id,
+  name: row.name,
+  price: row.price,
+  image: row.image,
+  rating: row.rating,
+  reviewCount: row.review_count,
+  description: row.description,
+  category: row.category,
+  inStock: row.stock_quantity > 0,
+  stockQuantity: row.stock_quantity,
+  ...(row.discount !== null ? { discount: row.discount } : {}),
+  ...(row.created_at !== null ? { createdAt: row.created_at } : {})
+});
+
+const toRow = (unchecked: ProductSummary): ProductRow => {
+  const product = withDerivedStock(unchecked);
+  return {
+    id: product.id,
+    name: product.name,
+    price: product.price,
+    image: product.image,
+    rating: product.rating,
+    review_count: product.reviewCount,
+    description: product.description,
+    category: product.category,
+    in_stock: product.inStock ? 1 : 0,
+    stock_quantity: product.stockQuantity,
+    discount: product.discount ?? null,
+    created_at: product.createdAt ?? null
+  };
+};
+
+/**
+ * Stores the catalog in a local SQLite database. The schema is created on open
+ * and an empty table is seeded, so a fresh checkout runs against real storage.
+ */
+export class SqliteProductRepository implements ProductRepository {
+  private readonly db: Database.Database;
+
+  constructor(filePath: string, seed: ProductSummary[] = []) {
+    this.db = openSqlite(filePath);
+    this.migrate();
+    this.seedIfEmpty(seed);
+  }
+
+  async findAll(): Promise<ProductSummary[]> {
+    const rows = this.db.prepare('SELECT * FROM products ORDER BY rowid').all() as ProductRow[];
+    return rows.map(toProduct);
+  }
+
+  async findById(id: string): Promise<ProductSummary | undefined> {
+    const row = this.db.prepare('SELECT * FROM products WHERE id = ?').get(id) as ProductRow | undefined;
+    return row ? toProduct(row) : undefined;
+  }
+
+  async create(product: ProductSummary): Promise<ProductSummary> {
+    this.db.prepare(INSERT_PRODUCT).run(toRow(product));
+    return withDerivedStock(product);
+  }
+
+  async update(product: ProductSummary): Promise<ProductSummary | undefined> {
+    const { changes } = this.db.prepare(`
+      UPDATE products
+      SET name = @name, price = @price, image = @image, rating = @rating, review_count = @review_count,
+          description = @description, category = @category, in_stock = @in_stock, stock_quantity = @stock_quantity,
+          discount = @discount, created_at = @created_at
+      WHERE id = @id
+    `).run(toRow(product));
+    return changes > 0 ? withDerivedStock(product) : undefined;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { changes } = this.db.prepare('DELETE FROM products WHERE id = ?').run(id);
+    return changes > 0;
+  }
+
+  async close(): Promise<void> {
+    closeSqlite(this.db);
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS products (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        price REAL NOT NULL,
+        image TEXT NOT NULL,
+        rating REAL NOT NULL,
+        review_count INTEGER NOT NULL,
+        description TEXT NOT NULL,
+        category TEXT NOT NULL,
+        in_stock INTEGER NOT NULL,
+        stock_quantity INTEGER,
+        discount REAL,
+        created_at TEXT
+      )
+    `);
+
+    // Columns added after the first release; older databases gain them in place.
+    const columns = this.db.prepare('PRAGMA table_info(products)').all() as { name: string }[];
+    const addedColumns: [name: string, type: string][] = [['created_at', 'TEXT'], ['stock_quantity', 'INTEGER']];
+    addedColumns
+      .filter(([name]) => !columns.some((column) => column.name === name))
+      .forEach(([name, type]) => this.db.exec(`ALTER TABLE products ADD COLUMN ${name} ${type}`));
+
+    // Rows from before stock was counted: turn the old flag into a count, as `withDerivedStock` does.
+    this.db.prepare('UPDATE products SET stock_quantity = CASE in_stock WHEN 1 THEN ? ELSE 0 END WHERE stock_quantity IS NULL')
+      .run(MAX_QUANTITY_PER_LINE);
+  }
+
+  private seedIfEmpty(seed: ProductSummary[]): void {
+    const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM products').get() as { count: number };
+    if (count > 0 || seed.length === 0) {
+      return;
+    }
+
+    const insert = this.db.prepare(INSERT_PRODUCT);
+    const insertAll = this.db.transaction((items: ProductSummary[]) => {
+      items.forEach((product) => insert.run(toRow(product)));
+    });
+    insertAll(seed);
+  }
+}
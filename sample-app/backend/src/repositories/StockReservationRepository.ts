@@ -0,0 +1,25 @@
+import type { StockReservation } from '../models/StockReservation';
+import type { DocumentStore } from '../storage';
+
+const COLLECTION = 'stockReservations';
+
+export class StockReservationRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  async findAll(): Promise<StockReservation[]> {
+    return this.store.list<StockReservation>(COLLECTION);
+  }
+
+  async findById(id: string): Promise<StockReservation | undefined> {
+    return this.store.get<StockReservation>(COLLECTION, id);
+  }
+
+  async save(reservation: StockReservation): Promise<StockReservation> {
+    await this.store.put(COLLECTION, reservation.id, reservation);
+    return reservation;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(COLLECTION, id);
+  }
+}
@@ -0,0 +1,33 @@
+import type { User } from '../models/User';
+import type { DocumentStore } from '../storage';
+
+const COLLECTION = 'users';
+
+/**
+ * Users live in the shared document store, so the storage choice comes from
+ * the `dataStore` config rather than from per-driver repository classes.
+ */
+export class UserRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  async findById(id: string): Promise<User | undefined> {
+    return this.store.get<User>(COLLECTION, id);
+  }
+
+  async findAll(): Promise<User[]> {
+    return this.store.list<User>(COLLECTION);
+  }
+
+  /** Emails are matched case-insensitively. */
+  async findByEmail(email: string): Promise<User | undefined> {
+    const normalised = email.trim().toLowerCase();
+    const users = await this.store.list<User>(COLLECTION);
+    return users.find((user) => user.email === normalised);
+  }
+
+  async save(user: User): Promise<User> {
+    const stored = { ...user, email: user.email.trim().toLowerCase() };
+    await this.store.put(COLLECTION, stored.id, stored);
+    return stored;
+  }
+}
@@ -0,0 +1,30 @@
+import type { WebhookDelivery } from '../models/Webhook';
+import type { DocumentStore } from '../storage';
+
+const COLLECTION = 'webhookDeliveries';
+
+export class WebhookDeliveryRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  async findAll(): Promise<WebhookDelivery[]> {
+    return this.store.list<WebhookDelivery>(COLLECTION);
+  }
+
+  async findById(id: string): Promise<WebhookDelivery | undefined> {
+    return this.store.get<WebhookDelivery>(COLLECTION, id);
+  }
+
+  async findBySubscription(subscriptionId: string): Promise<WebhookDelivery[]> {
+    const deliveries = await this.findAll();
+    return deliveries.filter((delivery) => delivery.subscriptionId === subscriptionId);
+  }
+
+  async save(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    await this.store.put(COLLECTION, delivery.id, delivery);
+    return delivery;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(COLLECTION, id);
+  }
+}
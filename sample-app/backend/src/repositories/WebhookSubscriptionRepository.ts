@@ -0,0 +1,25 @@
+import type { WebhookSubscription } from '../models/Webhook';
+import type { DocumentStore } from '../storage';
+
+const COLLECTION = 'webhookSubscriptions';
+
+export class WebhookSubscriptionRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  async findAll(): Promise<WebhookSubscription[]> {
+    return this.store.list<WebhookSubscription>(COLLECTION);
+  }
+
+  async findById(id: string): Promise<WebhookSubscription | undefined> {
+    return this.store.get<WebhookSubscription>(COLLECTION, id);
+  }
+
+  async save(subscription: WebhookSubscription): Promise<WebhookSubscription> {
+    await this.store.put(COLLECTION, subscription.id, subscription);
+    return subscription;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(COLLECTION, id);
+  }
+}
@@ -0,0 +1,33 @@
+import type { AppConfig } from '../config';
+import { products } from '../data/products';
+import { InMemoryProductRepository } from './InMemoryProductRepository';
+import { JsonFileProductRepository } from './JsonFileProductRepository';
+import type { ProductRepository } from './ProductRepository';
+import { SqliteProductRepository } from './SqliteProductRepository';
+
+export { CartRepository } from './CartRepository';
+export { IdempotencyRepository } from './IdempotencyRepository';
+export { MailOutboxRepository } from './MailOutboxRepository';
+export { OrderRepository } from './OrderRepository';
+export { PasswordResetRepository } from './PasswordResetRepository';
+export { PaymentRepository } from './PaymentRepository';
+export { PromotionRedemptionRepository } from './PromotionRedemptionRepository';
+export type { ProductRepository } from './ProductRepository';
+export { ReviewRepository } from './ReviewRepository';
+export { ReviewVoteRepository } from './ReviewVoteRepository';
+export { SessionRepository } from './SessionRepository';
+export { StockReservationRepository } from './StockReservationRepository';
+export { UserRepository } from './UserRepository';
+export { WebhookDeliveryRepository } from './WebhookDeliveryRepository';
+export { WebhookSubscriptionRepository } from './WebhookSubscriptionRepository';
+
+export const createProductRepository = (storeConfig: AppConfig['productStore']): ProductRepository => {
+  switch (storeConfig.driver) {
+    case 'json':
+      return new JsonFileProductRepository(storeConfig.jsonPath, products);
+    case 'sqlite':
+      return new SqliteProductRepository(storeConfig.sqlitePath, products);
+    default:
+      return new InMemoryProductRepository(products);
+  }
+};
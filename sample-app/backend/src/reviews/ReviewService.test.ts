@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { AuthUser } from '../auth/tokens';
+import { userCartId } from '../models/Cart';
+import { approvedCard, authUser, createTestServices, product, shippingAddress, user } from '../testing/fixtures';
+
+const author = authUser(user('author'));
+const voter = authUser(user('voter'));
+const moderator = authUser(user('moderator', 'admin'));
+
+describe('ReviewService', () => {
+  let services: ReturnType<typeof createTestServices>;
+
+  beforeEach(async () => {
+    services = createTestServices({ products: [product({ id: 'book' }), product({ id: 'pen' })] });
+    await Promise.all([user('author'), user('voter'), user('moderator', 'admin')].map((entry) => services.users.save(entry)));
+  });
+
+  const postReview = () => services.reviewService.create(author, 'book', { rating: 4, comment: 'Solid read, would recommend.' });
+
+  /** Buys `productId` through checkout and has staff move the order along to `status`. */
+  const buy = async (shopper: AuthUser, productId: string, status: 'shipped' | 'delivered') => {
+    const cartId = userCartId(shopper.id);
+    await services.cartService.addItem(cartId, productId, 1);
+    const payment = await services.paymentService.authorizeCart(shopper, approvedCard);
+    const order = await services.orderService.placeOrder(shopper, shippingAddress, payment.id);
+    const steps = ['processing', 'shipped', 'delivered'] as const;
+    for (const next of steps.slice(0, steps.indexOf(status) + 1)) {
+      await services.orderService.changeStatus(moderator, order.id, next);
+    }
+  };
+
+  const verifiedFlag = async () => {
+    const { items } = await services.reviewService.list('book', { sortBy: 'newest', page: 1, pageSize: 10 });
+    return items[0].verified;
+  };
+
+  describe('one review per author', () => {
+    it('refuses a second review of the same product', async () => {
+      await postReview();
+
+      await expect(postReview()).rejects.toMatchObject({ status: 409, code: 'REVIEW_EXISTS' });
+      await expect(services.reviewService.create(author, 'pen', { rating: 5, comment: 'Writes smoothly every time.' }))
+        .resolves.toMatchObject({ productId: 'pen' });
+      await expect(services.reviewService.create(voter, 'book', { rating: 2, comment: 'Not for me, sadly.' }))
+        .resolves.toMatchObject({ productId: 'book' });
+    });
+
+    it('keeps one review when the same author posts twice at once', async () => {
+      const results = await Promise.allSettled([postReview(), postReview()]);
+
+      expect(results.map(({ status }) => status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(results.find(({ status }) => status === 'rejected')).toMatchObject({ reason: { code: 'REVIEW_EXISTS' } });
+      expect(await services.reviews.findByProduct('book')).toHaveLength(1);
+      expect((await services.productRepository.findById('book'))?.reviewCount).toBe(1);
+    });
+  });
+
+  describe('verified purchases', () => {
+    it('marks the review of a customer whose order with the product was delivered', async () => {
+      await buy(author, 'book', 'delivered');
+
+      expect(await postReview()).toMatchObject({ verified: true });
+      expect(await verifiedFlag()).toBe(true);
+    });
+
+    it('does not mark it while the order is still on its way', async () => {
+      await buy(author, 'book', 'shipped');
+      await postReview();
+
+      expect(await verifiedFlag()).toBe(false);
+    });
+
+    it('does not mark it for a delivered order of another product', async () => {
+      await buy(author, 'pen', 'delivered');
+      await postReview();
+
+      expect(await verifiedFlag()).toBe(false);
+    });
+  });
+
+  describe('concurrent changes', () => {
+    it('keeps a vote that lands while the author edits the review', async () => {
+      const { id } = await postReview();
+
+      await Promise.all([
+        services.reviewService.update(author, 'book', id, { rating: 5 }),
+        services.reviewService.vote(voter, 'book', id, true)
+      ]);
+
+      expect(await services.reviews.findById(id)).toMatchObject({ rating: 5, helpfulCount: 1 });
+    });
+
+    it('keeps a vote that lands while a moderator decides', async () => {
+      const { id } = await postReview();
+
+      await Promise.all([
+        services.reviewService.vote(voter, 'book', id, true),
+        services.reviewService.moderate(moderator, id, { status: 'approved', note: 'Fine' })
+      ]);
+
+      expect(await services.reviews.findById(id)).toMatchObject({ helpfulCount: 1, moderationHistory: [{ status: 'approved' }] });
+    });
+
+    it('does not bring a deleted review back through a vote', async () => {
+      const { id } = await postReview();
+
+      const results = await Promise.allSettled([
+        services.reviewService.delete(author, 'book', id),
+        services.reviewService.vote(voter, 'book', id, true)
+      ]);
+
+      expect(results[0].status).toBe('fulfilled');
+      expect(results[1]).toMatchObject({ status: 'rejected', reason: { code: 'REVIEW_NOT_FOUND' } });
+      expect(await services.reviews.findById(id)).toBeUndefined();
+      expect((await services.productRepository.findById('book'))?.reviewCount).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,410 @@
+import { randomUUID } from 'crypto';
+import { hasPermission } from '../auth/permissions';
+import type { AuthUser } from '../auth/tokens';
+import { KeyedQueue } from '../concurrency/KeyedQueue';
+import { ApiError } from '../errors';
+import type { InventoryService } from '../inventory/InventoryService';
+import type {
+  RatingSummary,
+  RejectionReason,
+  Review,
+  ReviewModerationEntry,
+  ReviewStatus,
+  ReviewView
+} from '../models/Review';
+import type {
+  OrderRepository,
+  ProductRepository,
+  ReviewRepository,
+  ReviewVoteRepository,
+  UserRepository
+} from '../repositories';
+import { reviewVoteId } from '../repositories/ReviewVoteRepository';
+import { screenReview } from './screening';
+
+export const REVIEW_SORTS = ['newest', 'oldest', 'helpful', 'rating-high', 'rating-low'] as const;
+
+export type ReviewSort = (typeof REVIEW_SORTS)[number];
+
+export interface ReviewPageRequest {
+  sortBy: ReviewSort;
+  page: number;
+  pageSize: number;
+}
+
+export interface ReviewPageMeta {
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+  sortBy: ReviewSort;
+}
+
+export interface ReviewInput {
+  rating: number;
+  title?: string | null;
+  comment: string;
+}
+
+export interface ModerationQueueRequest {
+  status: ReviewStatus;
+  page: number;
+  pageSize: number;
+}
+
+export interface ModerationDecision {
+  status: ReviewModerationEntry['status'];
+  reason?: RejectionReason;
+  note?: string;
+}
+
+export interface ModerationQueueMeta {
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+  status: ReviewStatus;
+  /** Reviews in each status, for the queue's tabs. */
+  counts: Record<ReviewStatus, number>;
+}
+
+/** A review in the moderation queue, with the product name for context. */
+export interface QueuedReview extends Review {
+  productName: string;
+}
+
+const newestFirst = (a: Review, b: Review) => b.createdAt.localeCompare(a.createdAt) || a.id.localeCompare(b.id);
+
+const comparators: Record<ReviewSort, (a: Review, b: Review) => number> = {
+  newest: newestFirst,
+  oldest: (a, b) => -newestFirst(a, b),
+  helpful: (a, b) => b.helpfulCount - a.helpfulCount || newestFirst(a, b),
+  'rating-high': (a, b) => b.rating - a.rating || newestFirst(a, b),
+  'rating-low': (a, b) => a.rating - b.rating || newestFirst(a, b)
+};
+
+export const summarize = (reviews: Pick<Review, 'rating'>[]): RatingSummary => {
+  const distribution: Record<string, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  reviews.forEach(({ rating }) => {
+    distribution[rating] += 1;
+  });
+
+  const total = reviews.reduce((sum, { rating }) => sum + rating, 0);
+  return {
+    rating: reviews.length > 0 ? Math.round((total / reviews.length) * 10) / 10 : 0,
+    reviewCount: reviews.length,
+    distribution
+  };
+};
+
+const reviewNotFound = (id: string) => new ApiError(404, 'REVIEW_NOT_FOUND', `Review with id ${id} was not found.`);
+
+const pageOf = <T>(items: T[], page: number, pageSize: number) => {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(page, pageCount);
+  const start = (current - 1) * pageSize;
+  return { slice: items.slice(start, start + pageSize), page: current, pageCount };
+};
+
+/**
+ * A new or edited review is published at once when the screening rules find
+ * nothing. Otherwise it waits as `pending`, and so does an edit to a review a
+ * moderator rejected, since the author may have fixed what was wrong.
+ */
+const statusAfterEdit = (previous: ReviewStatus | undefined, flagged: boolean): ReviewStatus =>
+  flagged || previous === 'rejected' ? 'pending' : 'approved';
+
+/**
+ * Product reviews: one per customer per product, editable by its author and
+ * removable by the author or a moderator. Reviews pass through moderation
+ * (see {@link statusAfterEdit}); only approved ones are shown to other
+ * shoppers. After every change the product's `rating` and `reviewCount` are
+ * recomputed from its approved reviews, so those fields are never edited
+ * directly.
+ */
+export class ReviewService {
+  /**
+   * Serialises every read-modify-save of a stored review (edits, moderation,
+   * deletes and vote tallies), so none of them overwrites another's change.
+   */
+  private pending: Promise<unknown> = Promise.resolve();
+  /** New reviews per product and author, so two concurrent posts can't both pass the one-review check. */
+  private readonly creations = new KeyedQueue();
+
+  constructor(
+    private readonly reviews: ReviewRepository,
+    private readonly votes: ReviewVoteRepository,
+    private readonly users: UserRepository,
+    private readonly orders: OrderRepository,
+    private readonly products: ProductRepository,
+    private readonly inventory: InventoryService
+  ) {}
+
+  /** Approved reviews, plus the caller's own whatever its status so they can see where it stands. */
+  async list(
+    productId: string,
+    { sortBy, page, pageSize }: ReviewPageRequest,
+    viewer?: AuthUser
+  ): Promise<{ items: ReviewView[]; meta: ReviewPageMeta; summary: RatingSummary }> {
+    await this.requireProduct(productId);
+
+    const all = await this.reviews.findByProduct(productId);
+    const visible = all
+      .filter((review) => review.status === 'approved' || review.userId === viewer?.id)
+      .sort(comparators[sortBy]);
+    const { slice, page: current, pageCount } = pageOf(visible, page, pageSize);
+    const verifiedBuyers = await this.verifiedBuyers(productId);
+    const items = await Promise.all(slice.map(async (review) => {
+      const vote = viewer && (await this.votes.find(review.id, viewer.id));
+      return { ...this.toView(review, verifiedBuyers), ...(vote ? { viewerFoundHelpful: vote.helpful } : {}) };
+    }));
+
+    return {
+      items,
+      meta: { total: visible.length, page: current, pageSize, pageCount, sortBy },
+      summary: summarize(all.filter((review) => review.status === 'approved'))
+    };
+  }
+
+  async create(user: AuthUser, productId: string, input: ReviewInput): Promise<ReviewView> {
+    await this.requireProduct(productId);
+
+    const review = await this.creations.run(`${productId}:${user.id}`, async () => {
+      const existing = (await this.reviews.findByProduct(productId)).find((candidate) => candidate.userId === user.id);
+      if (existing) {
+        throw new ApiError(409, 'REVIEW_EXISTS', 'You have already reviewed this product; edit your review instead.');
+      }
+
+      const author = await this.users.findById(user.id);
+      const now = new Date().toISOString();
+      const title = input.title || undefined;
+      const flags = screenReview({ title, comment: input.comment });
+      return this.reviews.save({
+        id: randomUUID(),
+        productId,
+        userId: user.id,
+        authorName: author ? `${author.firstName} ${author.lastName.charAt(0)}.`.trim() : 'Customer',
+        rating: input.rating,
+        ...(title ? { title } : {}),
+        comment: input.comment,
+        status: statusAfterEdit(undefined, flags.length > 0),
+        flags,
+        moderationHistory: [],
+        helpfulCount: 0,
+        notHelpfulCount: 0,
+        createdAt: now,
+        updatedAt: now
+      });
+    });
+
+    await this.recomputeRating(productId);
+    return this.toView(review, await this.verifiedBuyers(productId));
+  }
+
+  /** Only the author may edit; `title: null` removes the title. The new text is screened again. */
+  async update(user: AuthUser, productId: string, id: string, changes: Partial<ReviewInput>): Promise<ReviewView> {
+    const saved = await this.exclusive(async () => {
+      const review = await this.find(productId, id);
+      if (review.userId !== user.id) {
+        throw new ApiError(403, 'FORBIDDEN', 'Only the author can edit a review.');
+      }
+
+      const { title, ...rest } = changes;
+      const { title: _previousTitle, ...withoutTitle } = review;
+      const nextTitle = title === undefined ? review.title : title || undefined;
+      const comment = rest.comment ?? review.comment;
+      const flags = screenReview({ title: nextTitle, comment });
+      return this.reviews.save({
+        ...withoutTitle,
+        ...rest,
+        ...(nextTitle ? { title: nextTitle } : {}),
+        status: statusAfterEdit(review.status, flags.length > 0),
+        flags,
+        updatedAt: new Date().toISOString()
+      });
+    });
+
+    await this.recomputeRating(productId);
+    return this.toView(saved, await this.verifiedBuyers(productId));
+  }
+
+  async delete(user: AuthUser, productId: string, id: string): Promise<void> {
+    // Inside the queue, a vote either lands before the delete or finds the review gone.
+    await this.exclusive(async () => {
+      const review = await this.find(productId, id);
+      if (review.userId !== user.id && !hasPermission(user.role, 'reviews:moderate')) {
+        throw new ApiError(403, 'FORBIDDEN', 'Only the author or a moderator can delete a review.');
+      }
+
+      await this.reviews.delete(id);
+      for (const vote of await this.votes.findByReview(id)) {
+        await this.votes.delete(vote.id);
+      }
+    });
+    await this.recomputeRating(productId);
+  }
+
+  /**
+   * Records the caller's "was this helpful?" answer. Each shopper has one vote
+   * per review; voting again replaces it. Authors can't vote on their own
+   * reviews, and only approved reviews take votes.
+   */
+  async vote(user: AuthUser, productId: string, id: string, helpful: boolean): Promise<ReviewView> {
+    const review = await this.exclusive(async () => {
+      const current = await this.find(productId, id);
+      if (current.status !== 'approved') {
+        throw new ApiError(409, 'REVIEW_NOT_PUBLISHED', 'Only published reviews can be voted on.');
+      }
+      if (current.userId === user.id) {
+        throw new ApiError(403, 'FORBIDDEN', 'You cannot vote on your own review.');
+      }
+
+      const previous = await this.votes.find(id, user.id);
+      await this.votes.save({
+        id: reviewVoteId(id, user.id),
+        reviewId: id,
+        userId: user.id,
+        helpful,
+        createdAt: new Date().toISOString()
+      });
+      return this.reviews.save(this.tally(current, previous?.helpful, helpful));
+    });
+
+    return { ...this.toView(review, await this.verifiedBuyers(productId)), viewerFoundHelpful: helpful };
+  }
+
+  async clearVote(user: AuthUser, productId: string, id: string): Promise<void> {
+    await this.exclusive(async () => {
+      const review = await this.find(productId, id);
+      const previous = await this.votes.find(id, user.id);
+      if (!previous) {
+        throw new ApiError(404, 'VOTE_NOT_FOUND', 'You have not voted on this review.');
+      }
+
+      await this.votes.delete(previous.id);
+      await this.reviews.save(this.tally(review, previous.helpful, undefined));
+    });
+  }
+
+  /** One page of reviews in the given status, oldest first so the queue is worked in order. */
+  async moderationQueue(
+    { status, page, pageSize }: ModerationQueueRequest
+  ): Promise<{ items: QueuedReview[]; meta: ModerationQueueMeta }> {
+    const all = await this.reviews.findAll();
+    const counts: Record<ReviewStatus, number> = { pending: 0, approved: 0, rejected: 0 };
+    all.forEach((review) => {
+      counts[review.status] += 1;
+    });
+
+    const queued = all.filter((review) => review.status === status).sort(comparators.oldest);
+    const { slice, page: current, pageCount } = pageOf(queued, page, pageSize);
+    const names = new Map((await this.products.findAll()).map((product) => [product.id, product.name]));
+
+    return {
+      items: slice.map((review) => ({ ...review, productName: names.get(review.productId) ?? review.productId })),
+      meta: { total: queued.length, page: current, pageSize, pageCount, status, counts }
+    };
+  }
+
+  /** Approves or rejects a review; rejecting needs a reason (and `OTHER` a note). Every decision is kept in its history. */
+  async moderate(user: AuthUser, id: string, { status, reason, note }: ModerationDecision): Promise<Review> {
+    if (status === 'rejected' && !reason) {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'The request body failed validation.', [
+        { field: 'reason', message: 'is required when rejecting a review' }
+      ]);
+    }
+    if (reason === 'OTHER' && !note) {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'The request body failed validation.', [
+        { field: 'note', message: 'is required when the reason is OTHER' }
+      ]);
+    }
+
+    const saved = await this.exclusive(async () => {
+      const review = await this.reviews.findById(id);
+      if (!review) {
+        throw reviewNotFound(id);
+      }
+
+      const entry: ReviewModerationEntry = {
+        status,
+        ...(status === 'rejected' ? { reason } : {}),
+        ...(note ? { note } : {}),
+        at: new Date().toISOString(),
+        actor: { id: user.id, email: user.email, role: user.role }
+      };
+      return this.reviews.save({
+        ...review,
+        status,
+        moderationHistory: [...review.moderationHistory, entry],
+        updatedAt: entry.at
+      });
+    });
+
+    await this.recomputeRating(saved.productId);
+    return saved;
+  }
+
+  /** Stores the given reviews when there are none yet, as the product stores do with their fixtures. */
+  async seedIfEmpty(seed: Review[]): Promise<void> {
+    if ((await this.reviews.findAll()).length > 0) {
+      return;
+    }
+    for (const review of seed) {
+      await this.reviews.save(review);
+    }
+  }
+
+  /** Brings every product's `rating` and `reviewCount` in line with its reviews. */
+  async recomputeAll(): Promise<void> {
+    for (const product of await this.products.findAll()) {
+      await this.recomputeRating(product.id);
+    }
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.pending.then(task);
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Moves the review's counts from the `before` vote to the `after` one; `undefined` means no vote. */
+  private tally(review: Review, before: boolean | undefined, after: boolean | undefined): Review {
+    const delta = (value: boolean) => (after === value ? 1 : 0) - (before === value ? 1 : 0);
+    return {
+      ...review,
+      helpfulCount: review.helpfulCount + delta(true),
+      notHelpfulCount: review.notHelpfulCount + delta(false)
+    };
+  }
+
+  private async recomputeRating(productId: string): Promise<void> {
+    const approved = (await this.reviews.findByProduct(productId)).filter((review) => review.status === 'approved');
+    const { rating, reviewCount } = summarize(approved);
+    await this.inventory.updateProduct(productId, (product) => ({ ...product, rating, reviewCount }));
+  }
+
+  private async requireProduct(productId: string): Promise<void> {
+    if (!(await this.products.findById(productId))) {
+      throw new ApiError(404, 'PRODUCT_NOT_FOUND', `Product with id ${productId} was not found.`);
+    }
+  }
+
+  private async find(productId: string, id: string): Promise<Review> {
+    const review = await this.reviews.findById(id);
+    if (!review || review.productId !== productId) {
+      throw reviewNotFound(id);
+    }
+    return review;
+  }
+
+  /** Ids of users with a delivered order that contains the product. */
+  private async verifiedBuyers(productId: string): Promise<Set<string>> {
+    const delivered = (await this.orders.findAll()).filter((order) =>
+      order.status === 'delivered' && order.items.some((item) => item.productId === productId));
+    return new Set(delivered.map((order) => order.userId));
+  }
+
+  private toView(review: Review, verifiedBuyers: Set<string>): ReviewView {
+    return { ...review, verified: verifiedBuyers.has(review.userId) };
+  }
+}
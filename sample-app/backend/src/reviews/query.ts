@@ -0,0 +1,46 @@
+import type { Request } from 'express';
+import { positiveInteger, single } from '../catalog/query';
+import { ApiError, type ErrorDetail } from '../errors';
+import { REVIEW_STATUSES, type ReviewStatus } from '../models/Review';
+import { REVIEW_SORTS, type ModerationQueueRequest, type ReviewPageRequest, type ReviewSort } from './ReviewService';
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+
+type Query = Request['query'];
+
+/** Reads `page`, `pageSize` and `sortBy` (default `newest`) for a product's reviews. */
+export const parseReviewPageRequest = (query: Query): ReviewPageRequest => {
+  const errors: ErrorDetail[] = [];
+  const page = positiveInteger(query, 'page', 1, errors);
+  const pageSize = positiveInteger(query, 'pageSize', DEFAULT_PAGE_SIZE, errors, MAX_PAGE_SIZE);
+  const sortBy = single(query.sortBy) ?? 'newest';
+
+  if (!REVIEW_SORTS.includes(sortBy as ReviewSort)) {
+    errors.push({ field: 'sortBy', message: `must be one of ${REVIEW_SORTS.join(', ')}` });
+  }
+
+  if (errors.length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'The query string failed validation.', errors);
+  }
+
+  return { page, pageSize, sortBy: sortBy as ReviewSort };
+};
+
+/** Reads `status` (default `pending`), `page` and `pageSize` for the moderation queue. */
+export const parseModerationQueueRequest = (query: Query): ModerationQueueRequest => {
+  const errors: ErrorDetail[] = [];
+  const page = positiveInteger(query, 'page', 1, errors);
+  const pageSize = positiveInteger(query, 'pageSize', DEFAULT_PAGE_SIZE, errors, MAX_PAGE_SIZE);
+  const status = single(query.status) ?? 'pending';
+
+  if (!REVIEW_STATUSES.includes(status as ReviewStatus)) {
+    errors.push({ field: 'status', message: `must be one of ${REVIEW_STATUSES.join(', ')}` });
+  }
+
+  if (errors.length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'The query string failed validation.', errors);
+  }
+
+  return { page, pageSize, status: status as ReviewStatus };
+};
@@ -0,0 +1,98 @@
+import type { ReviewFlag } from '../models/Review';
+
+interface ScreeningRule {
+  category: ReviewFlag['category'];
+  rule: string;
+  message: string;
+  test: (text: string, normalised: string) => boolean;
+}
+
+// Stems match their inflections ("fucking", "shitty"); kept short on purpose,
+// since a false positive only costs a moderator a click.
+const PROFANITY = /\b(fuck\w*|shit\w*|bitch\w*|bastard\w*|asshole\w*|cunt\w*|dickhead\w*|motherfuck\w*|wank\w*|twat\w*|piss(ed)? off)\b/;
+
+const PROMOTIONAL_PHRASES = [
+  'click here',
+  'visit my',
+  'check out my',
+  'dm me',
+  'whatsapp',
+  'telegram',
+  'free money',
+  'work from home',
+  'make money',
+  'casino',
+  'crypto'
+];
+
+/** Undoes the usual digit-for-letter swaps so "sh1t" is caught like "shit". */
+const normalise = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[0@4]/g, (char) => (char === '0' ? 'o' : 'a'))
+    .replace(/[1!|]/g, 'i')
+    .replace(/3/g, 'e')
+    .replace(/[5$]/g, 's')
+    .replace(/7/g, 't');
+
+const SCREENING_RULES: ScreeningRule[] = [
+  {
+    category: 'profanity',
+    rule: 'profanity',
+    message: 'Contains profanity.',
+    test: (_text, normalised) => PROFANITY.test(normalised)
+  },
+  {
+    category: 'spam',
+    rule: 'link',
+    message: 'Contains a link or web address.',
+    test: (text) => /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|net|org|io|biz|info|ru|xyz|shop)\b/i.test(text)
+  },
+  {
+    category: 'spam',
+    rule: 'contact-details',
+    message: 'Contains an email address or phone number.',
+    test: (text) => /\b\S+@\S+\.\S+\b/.test(text) || /\+?\d[\d\s().-]{8,}\d/.test(text)
+  },
+  {
+    category: 'spam',
+    rule: 'promotional',
+    message: 'Reads like an advertisement.',
+    test: (text) => PROMOTIONAL_PHRASES.some((phrase) => text.toLowerCase().includes(phrase))
+  },
+  {
+    category: 'spam',
+    rule: 'repeated-characters',
+    message: 'Repeats the same character many times.',
+    test: (text) => /(\S)\1{5,}/.test(text)
+  },
+  {
+    category: 'spam',
+    rule: 'repeated-words',
+    message: 'Repeats the same word over and over.',
+    test: (text) => /\b(\w+)(\s+\1\b){3,}/i.test(text)
+  },
+  {
+    category: 'spam',
+    rule: 'shouting',
+    message: 'Written mostly in capital letters.',
+    test: (text) => {
+      const letters = text.replace(/[^a-z]/gi, '');
+      return letters.length >= 20 && letters.replace(/[^A-Z]/g, '').length / letters.length > 0.7;
+    }
+  }
+];
+
+/**
+ * Runs a review's title and comment through the profanity and spam rules and
+ * returns one flag per rule that fired. Any flag holds the review for a
+ * moderator instead of publishing it straight away.
+ */
+export const screenReview = ({ title, comment }: { title?: string; comment: string }): ReviewFlag[] => {
+  const text = [title, comment].filter(Boolean).join('\n');
+  const normalised = normalise(text);
+
+  return SCREENING_RULES
+    .filter(({ test }) => test(text, normalised))
+    .map(({ category, rule, message }) => ({ category, rule, message }));
+};
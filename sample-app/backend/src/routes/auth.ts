@@ -0,0 +1,255 @@
+import { randomUUID } from 'crypto';
+import express, { Request, Response } from 'express';
+import type { AuthService, IssuedSession } from '../auth/AuthService';
+import { authenticate, currentUser } from '../auth/middleware';
+import type { PasswordResetService } from '../auth/PasswordResetService';
+import { checkPasswordPolicy, hashPassword, verifyPassword } from '../auth/passwords';
+import type { CartService } from '../cart/CartService';
+import { clearGuestCartCookie, readGuestCartToken } from '../cart/guestCart';
+import { KeyedQueue } from '../concurrency/KeyedQueue';
+import type { AppConfig } from '../config';
+import { ApiError, ErrorDetail } from '../errors';
+import type { MailService } from '../mail/MailService';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { guestCartId, userCartId } from '../models/Cart';
+import { toPublicUser, User } from '../models/User';
+import type { NewsletterService } from '../newsletter/NewsletterService';
+import type { UserRepository } from '../repositories';
+import { loginSchema, passwordResetRequestSchema, passwordResetSchema, registerSchema } from '../validation/authSchema';
+import { parseBody } from '../validation/schema';
+
+const MINIMUM_AGE = 13;
+
+interface RegisterBody {
+  firstName: string;
+  lastName: string;
+  email: string;
+  password: string;
+  phoneNumber?: string;
+  dateOfBirth?: string;
+  subscribeToNewsletter: boolean;
+  agreeToTerms: boolean;
+}
+
+interface AuthRouterDeps {
+  userRepository: UserRepository;
+  auth: AuthService;
+  authConfig: AppConfig['auth'];
+  cartService: CartService;
+  cartConfig: AppConfig['cart'];
+  mail: MailService;
+  passwordResets: PasswordResetService;
+  newsletter: NewsletterService;
+}
+
+const ageOn = (dateOfBirth: string, today: Date): number => {
+  const birth = new Date(`${dateOfBirth}T00:00:00Z`);
+  const age = today.getUTCFullYear() - birth.getUTCFullYear();
+  const beforeBirthday =
+    today.getUTCMonth() < birth.getUTCMonth() ||
+    (today.getUTCMonth() === birth.getUTCMonth() && today.getUTCDate() < birth.getUTCDate());
+  return beforeBirthday ? age - 1 : age;
+};
+
+// Compared against when the email is unknown so both login failures take as long.
+let dummyHash: Promise<string> | undefined;
+
+const createAuthRouter = ({
+  userRepository,
+  auth,
+  authConfig,
+  cartService,
+  cartConfig,
+  mail,
+  passwordResets,
+  newsletter
+}: AuthRouterDeps) => {
+  const router = express.Router();
+  const { refreshCookie } = authConfig;
+  // Sign-ups per email address, so two at once can't both pass the "already registered" check.
+  const registrations = new KeyedQueue();
+
+  const cookieOptions = {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: refreshCookie.secure,
+    path: refreshCookie.path
+  };
+
+  const clearRefreshCookie = (res: Response) => res.clearCookie(refreshCookie.name, cookieOptions);
+
+  const readRefreshCookie = (req: Request): string | undefined => {
+    const value: unknown = req.cookies?.[refreshCookie.name];
+    return typeof value === 'string' && value ? value : undefined;
+  };
+
+  // The refresh token only ever travels in the httpOnly cookie, never in the body.
+  const sendSession = (res: Response, session: IssuedSession, status = 200) => {
+    res.cookie(refreshCookie.name, session.refreshToken, { ...cookieOptions, expires: session.refreshExpiresAt });
+    res.status(status).json({
+      data: {
+        user: toPublicUser(session.user),
+        accessToken: session.accessToken,
+        tokenType: 'Bearer',
+        expiresIn: session.expiresIn
+      }
+    });
+  };
+
+  /** Starts a session and folds any guest cart from this browser into the user's cart. */
+  const signIn = async (req: Request, res: Response, user: User, status = 200) => {
+    const session = await auth.startSession(user, req.get('user-agent'));
+
+    const guestToken = readGuestCartToken(req, cartConfig.guestCookie);
+    if (guestToken) {
+      await cartService.merge(guestCartId(guestToken), userCartId(user.id));
+      clearGuestCartCookie(res, cartConfig.guestCookie);
+    }
+
+    sendSession(res, session, status);
+  };
+
+  // POST /api/auth/register
+  router.post('/register', asyncHandler(async (req: Request, res: Response) => {
+    const body = parseBody<RegisterBody>(req.body, registerSchema) as RegisterBody;
+    const problems: ErrorDetail[] = [];
+
+    const passwordProblem = checkPasswordPolicy(body.password);
+    if (passwordProblem) {
+      problems.push(passwordProblem);
+    }
+    if (!body.agreeToTerms) {
+      problems.push({ field: 'agreeToTerms', message: 'You must agree to the terms and conditions' });
+    }
+    if (body.dateOfBirth) {
+      const age = ageOn(body.dateOfBirth, new Date());
+      if (Number.isNaN(age)) {
+        problems.push({ field: 'dateOfBirth', message: 'must be a valid date' });
+      } else if (age < MINIMUM_AGE) {
+        problems.push({ field: 'dateOfBirth', message: `You must be at least ${MINIMUM_AGE} years old` });
+      }
+    }
+    if (problems.length > 0) {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'The request body failed validation.', problems);
+    }
+
+    // Hashed before the queue, so the slow part doesn't hold up other sign-ups for the address.
+    const passwordHash = await hashPassword(body.password);
+    const user = await registrations.run(body.email.trim().toLowerCase(), async () => {
+      if (await userRepository.findByEmail(body.email)) {
+        throw new ApiError(409, 'EMAIL_TAKEN', 'An account with this email already exists.', [
+          { field: 'email', message: 'An account with this email already exists' }
+        ]);
+      }
+
+      return userRepository.save({
+        id: randomUUID(),
+        email: body.email,
+        firstName: body.firstName,
+        lastName: body.lastName,
+        ...(body.phoneNumber ? { phoneNumber: body.phoneNumber } : {}),
+        ...(body.dateOfBirth ? { dateOfBirth: body.dateOfBirth } : {}),
+        subscribeToNewsletter: body.subscribeToNewsletter,
+        role: 'customer',
+        passwordHash,
+        createdAt: new Date().toISOString()
+      });
+    });
+    req.log.info('User registered', { userId: user.id });
+
+    await mail.queue('welcome', user.email, { firstName: user.firstName });
+    if (user.subscribeToNewsletter) {
+      await newsletter.requestConfirmation(user);
+    }
+
+    await signIn(req, res, user, 201);
+  }));
+
+  // POST /api/auth/login
+  router.post('/login', asyncHandler(async (req: Request, res: Response) => {
+    const { email, password } = parseBody<{ email: string; password: string }>(req.body, loginSchema) as {
+      email: string;
+      password: string;
+    };
+
+    const user = await userRepository.findByEmail(email);
+    dummyHash ??= hashPassword(randomUUID());
+    const valid = await verifyPassword(password, user ? user.passwordHash : await dummyHash);
+
+    if (!user || !valid) {
+      req.log.warn('Sign-in failed', user ? { userId: user.id, reason: 'wrong_password' } : { reason: 'unknown_email' });
+      throw new ApiError(401, 'INVALID_CREDENTIALS', 'Invalid email or password.');
+    }
+
+    await signIn(req, res, user);
+  }));
+
+  // POST /api/auth/password-reset
+  // Answers the same whether or not the email has an account, so it can't be used to find accounts.
+  router.post('/password-reset', asyncHandler(async (req: Request, res: Response) => {
+    const { email } = parseBody<{ email: string }>(req.body, passwordResetRequestSchema) as { email: string };
+    await passwordResets.request(email);
+    res.status(202).json({
+      data: { message: 'If an account exists for that email, a password reset link is on its way.' }
+    });
+  }));
+
+  // POST /api/auth/password-reset/confirm
+  router.post('/password-reset/confirm', asyncHandler(async (req: Request, res: Response) => {
+    const { token, password } = parseBody<{ token: string; password: string }>(req.body, passwordResetSchema) as {
+      token: string;
+      password: string;
+    };
+    await passwordResets.reset(token, password);
+    res.status(204).send();
+  }));
+
+  // POST /api/auth/refresh
+  router.post('/refresh', asyncHandler(async (req: Request, res: Response) => {
+    const refreshToken = readRefreshCookie(req);
+    if (!refreshToken) {
+      throw new ApiError(401, 'UNAUTHENTICATED', 'No refresh token was presented.');
+    }
+
+    try {
+      sendSession(res, await auth.refresh(refreshToken));
+    } catch (error) {
+      clearRefreshCookie(res);
+      throw error;
+    }
+  }));
+
+  // POST /api/auth/logout
+  router.post('/logout', asyncHandler(async (req: Request, res: Response) => {
+    const refreshToken = readRefreshCookie(req);
+    if (refreshToken) {
+      await auth.revokeByRefreshToken(refreshToken, 'logout');
+    }
+
+    clearRefreshCookie(res);
+    res.status(204).send();
+  }));
+
+  // POST /api/auth/logout-all
+  router.post('/logout-all', authenticate(auth), asyncHandler(async (req: Request, res: Response) => {
+    const revoked = await auth.revokeAllSessions(currentUser(req).id, 'logout_all');
+
+    clearRefreshCookie(res);
+    res.json({ data: { revokedSessions: revoked } });
+  }));
+
+  // GET /api/auth/me
+  router.get('/me', authenticate(auth), asyncHandler(async (req: Request, res: Response) => {
+    const user = await userRepository.findById(currentUser(req).id);
+
+    if (!user) {
+      throw new ApiError(401, 'INVALID_TOKEN', 'The account for this token no longer exists.');
+    }
+
+    res.json({ data: toPublicUser(user) });
+  }));
+
+  return router;
+};
+
+export default createAuthRouter;
@@ -0,0 +1,92 @@
+import express, { Request, Response } from 'express';
+import type { AuthService } from '../auth/AuthService';
+import { authenticate, currentUser } from '../auth/middleware';
+import type { CartService } from '../cart/CartService';
+import { issueGuestCartToken, readGuestCartToken } from '../cart/guestCart';
+import type { AppConfig } from '../config';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { guestCartId, userCartId } from '../models/Cart';
+import { addCartItemSchema, applyCouponSchema, updateCartItemSchema } from '../validation/cartSchema';
+import { parseBody } from '../validation/schema';
+
+interface CartRouterDeps {
+  auth: AuthService;
+  cartService: CartService;
+  cartConfig: AppConfig['cart'];
+}
+
+const createCartRouter = ({ auth, cartService, cartConfig }: CartRouterDeps) => {
+  const router = express.Router();
+  const { guestCookie } = cartConfig;
+
+  // Signed-in callers get their own cart; everyone else is a guest.
+  router.use(authenticate(auth, { required: false }));
+
+  /** The caller's cart id, or undefined for a guest who has no cart yet. */
+  const existingCartId = (req: Request): string | undefined => {
+    if (req.user) {
+      return userCartId(req.user.id);
+    }
+    const token = readGuestCartToken(req, guestCookie);
+    return token ? guestCartId(token) : undefined;
+  };
+
+  /** Like {@link existingCartId}, but starts a guest cart when there is none. */
+  const cartIdForAdd = (req: Request, res: Response): string =>
+    existingCartId(req) ?? guestCartId(issueGuestCartToken(res, guestCookie));
+
+  // GET /api/cart
+  router.get('/', asyncHandler(async (req: Request, res: Response) => {
+    res.json({ data: await cartService.view(existingCartId(req)) });
+  }));
+
+  // POST /api/cart/items
+  router.post('/items', asyncHandler(async (req: Request, res: Response) => {
+    const { productId, quantity } = parseBody<{ productId: string; quantity: number }>(
+      req.body,
+      addCartItemSchema
+    ) as { productId: string; quantity: number };
+
+    res.json({ data: await cartService.addItem(cartIdForAdd(req, res), productId, quantity) });
+  }));
+
+  // PATCH /api/cart/items/:productId
+  router.patch('/items/:productId', asyncHandler(async (req: Request, res: Response) => {
+    const { quantity } = parseBody<{ quantity: number }>(req.body, updateCartItemSchema) as { quantity: number };
+
+    res.json({ data: await cartService.setQuantity(existingCartId(req), req.params.productId, quantity) });
+  }));
+
+  // DELETE /api/cart/items/:productId
+  router.delete('/items/:productId', asyncHandler(async (req: Request, res: Response) => {
+    res.json({ data: await cartService.removeItem(existingCartId(req), req.params.productId) });
+  }));
+
+  // POST /api/cart/coupons
+  router.post('/coupons', asyncHandler(async (req: Request, res: Response) => {
+    const { code } = parseBody<{ code: string }>(req.body, applyCouponSchema) as { code: string };
+
+    res.json({ data: await cartService.applyCoupon(cartIdForAdd(req, res), code) });
+  }));
+
+  // DELETE /api/cart/coupons/:code
+  router.delete('/coupons/:code', asyncHandler(async (req: Request, res: Response) => {
+    res.json({ data: await cartService.removeCoupon(existingCartId(req), req.params.code) });
+  }));
+
+  // POST /api/cart/reservation
+  // Checkout starts here: holds the cart's stock for the signed-in user.
+  router.post('/reservation', asyncHandler(async (req: Request, res: Response) => {
+    const user = currentUser(req);
+    res.json({ data: await cartService.reserve(userCartId(user.id), user.id) });
+  }));
+
+  // DELETE /api/cart
+  router.delete('/', asyncHandler(async (req: Request, res: Response) => {
+    res.json({ data: await cartService.clear(existingCartId(req)) });
+  }));
+
+  return router;
+};
+
+export default createCartRouter;
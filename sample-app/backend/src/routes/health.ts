@@ -0,0 +1,40 @@
+import express, { Request, Response } from 'express';
+import type { HealthService } from '../health/HealthService';
+import { asyncHandler } from '../middleware/asyncHandler';
+
+interface HealthRouterDeps {
+  health: HealthService;
+}
+
+/** Probe endpoints; answers are never cached and are not wrapped in `{ data }`, which probes don't expect. */
+const createHealthRouter = ({ health }: HealthRouterDeps) => {
+  const router = express.Router();
+
+  router.use((_req: Request, res: Response, next) => {
+    res.set('Cache-Control', 'no-store');
+    next();
+  });
+
+  // GET /health
+  // Kept for existing monitors: the liveness answer in the original shape.
+  router.get('/', (_req: Request, res: Response) => {
+    res.json({ status: 'ok', service: 'shopflow-backend', timestamp: health.liveness().timestamp });
+  });
+
+  // GET /health/live
+  // Says only that the process can answer; restart the instance if it doesn't.
+  router.get('/live', (_req: Request, res: Response) => {
+    res.json(health.liveness());
+  });
+
+  // GET /health/ready
+  // 200 when up or degraded, 503 when a critical dependency is down or the server is shutting down.
+  router.get('/ready', asyncHandler(async (_req: Request, res: Response) => {
+    const report = await health.readiness();
+    res.status(report.ready ? 200 : 503).json(report);
+  }));
+
+  return router;
+};
+
+export default createHealthRouter;
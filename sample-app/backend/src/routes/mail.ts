@@ -0,0 +1,62 @@
+import express, { Request, Response } from 'express';
+import { single } from '../catalog/query';
+import { ApiError } from '../errors';
+import type { MailService } from '../mail/MailService';
+import { previewData } from '../mail/previews';
+import { isMailTemplate, MAIL_TEMPLATES, MailContext, MailTemplateData, MailTemplateName } from '../mail/templates';
+
+const PREVIEW_FORMATS = ['html', 'text', 'json'];
+
+interface MailRouterDeps {
+  mail: MailService;
+  context: MailContext;
+}
+
+/** Developer tools for email; only mounted when `mail.previewEnabled` is set. */
+const createMailRouter = ({ mail, context }: MailRouterDeps) => {
+  const router = express.Router();
+  const samples = previewData(context);
+
+  const renderSample = <K extends MailTemplateName>(template: K) =>
+    mail.render(template, samples[template] as MailTemplateData[K]);
+
+  // GET /api/mail/preview
+  router.get('/preview', (req: Request, res: Response) => {
+    res.json({
+      data: MAIL_TEMPLATES.map((template) => ({
+        template,
+        subject: renderSample(template).subject,
+        html: `${req.baseUrl}/preview/${template}`,
+        text: `${req.baseUrl}/preview/${template}?format=text`
+      }))
+    });
+  });
+
+  // GET /api/mail/preview/:template?format=html|text|json
+  router.get('/preview/:template', (req: Request, res: Response) => {
+    const { template } = req.params;
+    if (!isMailTemplate(template)) {
+      throw new ApiError(404, 'MAIL_TEMPLATE_NOT_FOUND', `There is no email template called ${template}.`);
+    }
+
+    const format = single(req.query.format) ?? 'html';
+    if (!PREVIEW_FORMATS.includes(format)) {
+      throw new ApiError(400, 'VALIDATION_ERROR', 'The query string failed validation.', [
+        { field: 'format', message: `must be one of ${PREVIEW_FORMATS.join(', ')}` }
+      ]);
+    }
+
+    const rendered = renderSample(template);
+    if (format === 'json') {
+      res.json({ data: rendered });
+    } else if (format === 'text') {
+      res.type('text/plain').send(`Subject: ${rendered.subject}\n\n${rendered.text}`);
+    } else {
+      res.type('html').send(rendered.html);
+    }
+  });
+
+  return router;
+};
+
+export default createMailRouter;
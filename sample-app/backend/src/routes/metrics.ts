@@ -0,0 +1,37 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import express, { NextFunction, Request, Response } from 'express';
+import type { AppConfig } from '../config';
+import { ApiError } from '../errors';
+import type { Metrics } from '../metrics/Metrics';
+import { asyncHandler } from '../middleware/asyncHandler';
+
+interface MetricsRouterDeps {
+  metrics: Metrics;
+  metricsConfig: AppConfig['metrics'];
+}
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/** Serves the Prometheus scrape endpoint; with `METRICS_TOKEN` set, scrapers must send it as a bearer token. */
+const createMetricsRouter = ({ metrics, metricsConfig }: MetricsRouterDeps) => {
+  const router = express.Router();
+
+  if (metricsConfig.token) {
+    const expected = digest(`Bearer ${metricsConfig.token}`);
+    router.use((req: Request, _res: Response, next: NextFunction) => {
+      if (!timingSafeEqual(digest(req.get('authorization') ?? ''), expected)) {
+        return next(new ApiError(401, 'UNAUTHENTICATED', 'A valid metrics token is required.'));
+      }
+      next();
+    });
+  }
+
+  // GET /metrics
+  router.get('/', asyncHandler(async (_req: Request, res: Response) => {
+    res.type(metrics.registry.contentType).send(await metrics.registry.metrics());
+  }));
+
+  return router;
+};
+
+export default createMetricsRouter;
@@ -0,0 +1,25 @@
+import express, { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/asyncHandler';
+import type { NewsletterService } from '../newsletter/NewsletterService';
+import { newsletterConfirmationSchema } from '../validation/newsletterSchema';
+import { parseBody } from '../validation/schema';
+
+interface NewsletterRouterDeps {
+  newsletter: NewsletterService;
+}
+
+const createNewsletterRouter = ({ newsletter }: NewsletterRouterDeps) => {
+  const router = express.Router();
+
+  // POST /api/newsletter/confirm
+  // The link from the confirmation email works without signing in.
+  router.post('/confirm', asyncHandler(async (req: Request, res: Response) => {
+    const { token } = parseBody<{ token: string }>(req.body, newsletterConfirmationSchema) as { token: string };
+    const user = await newsletter.confirm(token);
+    res.json({ data: { email: user.email, confirmedAt: user.newsletterConfirmedAt } });
+  }));
+
+  return router;
+};
+
+export default createNewsletterRouter;
@@ -0,0 +1,72 @@
+import express, { Request, Response } from 'express';
+import type { AuthService } from '../auth/AuthService';
+import { authenticate, currentUser, requirePermission } from '../auth/middleware';
+import type { IdempotencyService } from '../idempotency/IdempotencyService';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { idempotent } from '../middleware/idempotency';
+import type { Order, OrderStatus, ShippingAddress } from '../models/Order';
+import type { OrderService } from '../orders/OrderService';
+import { ORDER_TRANSITIONS } from '../orders/transitions';
+import { placeOrderSchema, statusChangeSchema } from '../validation/orderSchema';
+import { refundSchema } from '../validation/paymentSchema';
+import { parseBody } from '../validation/schema';
+
+interface OrdersRouterDeps {
+  auth: AuthService;
+  orderService: OrderService;
+  idempotency: IdempotencyService;
+}
+
+/** Adds the statuses the order may move to next, so clients don't need their own table. */
+const toOrderResponse = (order: Order) => ({ ...order, allowedTransitions: ORDER_TRANSITIONS[order.status] });
+
+const createOrdersRouter = ({ auth, orderService, idempotency }: OrdersRouterDeps) => {
+  const router = express.Router();
+
+  router.use(authenticate(auth));
+
+  // GET /api/orders?scope=all
+  router.get('/', asyncHandler(async (req: Request, res: Response) => {
+    const orders = await orderService.list(currentUser(req), { all: req.query.scope === 'all' });
+    res.json({ data: orders.map(toOrderResponse) });
+  }));
+
+  // POST /api/orders
+  router.post('/', idempotent(idempotency), asyncHandler(async (req: Request, res: Response) => {
+    const { paymentId, ...shippingAddress } = parseBody<ShippingAddress & { paymentId: string }>(
+      req.body,
+      placeOrderSchema
+    ) as ShippingAddress & { paymentId: string };
+    const order = await orderService.placeOrder(currentUser(req), shippingAddress, paymentId);
+    req.log.info('Order placed', { orderId: order.id, orderNumber: order.number, total: order.total });
+
+    res.status(201).location(`${req.baseUrl}/${order.id}`).json({ data: toOrderResponse(order) });
+  }));
+
+  // GET /api/orders/:id
+  router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+    res.json({ data: toOrderResponse(await orderService.get(currentUser(req), req.params.id)) });
+  }));
+
+  // PATCH /api/orders/:id/status
+  router.patch('/:id/status', asyncHandler(async (req: Request, res: Response) => {
+    const { status, note } = parseBody<{ status: OrderStatus; note?: string }>(req.body, statusChangeSchema) as {
+      status: OrderStatus;
+      note?: string;
+    };
+
+    const order = await orderService.changeStatus(currentUser(req), req.params.id, status, note);
+    req.log.info('Order status changed', { orderId: order.id, status });
+    res.json({ data: toOrderResponse(order) });
+  }));
+
+  // POST /api/orders/:id/refunds
+  router.post('/:id/refunds', requirePermission('orders:manage'), idempotent(idempotency), asyncHandler(async (req: Request, res: Response) => {
+    const { amount } = parseBody<{ amount?: number }>(req.body, refundSchema);
+    res.json({ data: toOrderResponse(await orderService.refund(currentUser(req), req.params.id, amount)) });
+  }));
+
+  return router;
+};
+
+export default createOrdersRouter;
@@ -0,0 +1,45 @@
+import express, { Request, Response } from 'express';
+import type { AuthService } from '../auth/AuthService';
+import { authenticate, currentUser } from '../auth/middleware';
+import type { IdempotencyService } from '../idempotency/IdempotencyService';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { idempotent } from '../middleware/idempotency';
+import type { CardInput, PaymentService } from '../payments/PaymentService';
+import { cardPaymentSchema, challengeResponseSchema } from '../validation/paymentSchema';
+import { parseBody } from '../validation/schema';
+
+interface PaymentsRouterDeps {
+  auth: AuthService;
+  paymentService: PaymentService;
+  idempotency: IdempotencyService;
+}
+
+const createPaymentsRouter = ({ auth, paymentService, idempotency }: PaymentsRouterDeps) => {
+  const router = express.Router();
+
+  router.use(authenticate(auth));
+
+  // POST /api/payments — authorises the caller's cart total
+  router.post('/', idempotent(idempotency), asyncHandler(async (req: Request, res: Response) => {
+    const card = parseBody<CardInput>(req.body, cardPaymentSchema) as CardInput;
+    const payment = await paymentService.authorizeCart(currentUser(req), card);
+    req.log.info('Card payment processed', { paymentId: payment.id, status: payment.status, amount: payment.amount });
+
+    res.status(201).location(`${req.baseUrl}/${payment.id}`).json({ data: payment });
+  }));
+
+  // GET /api/payments/:id
+  router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+    res.json({ data: await paymentService.get(currentUser(req), req.params.id) });
+  }));
+
+  // POST /api/payments/:id/challenge — answers a 3-D Secure challenge
+  router.post('/:id/challenge', idempotent(idempotency), asyncHandler(async (req: Request, res: Response) => {
+    const { response } = parseBody<{ response: string }>(req.body, challengeResponseSchema) as { response: string };
+    res.json({ data: await paymentService.completeChallenge(currentUser(req), req.params.id, response) });
+  }));
+
+  return router;
+};
+
+export default createPaymentsRouter;
@@ -0,0 +1,53 @@
+import express, { Request, Response } from 'express';
+import { ApiError } from '../errors';
+import { asyncHandler } from '../middleware/asyncHandler';
+import type { PricingEngine, PricingEntry } from '../pricing/PricingEngine';
+import type { PromotionService } from '../promotions/PromotionService';
+import type { ProductRepository } from '../repositories';
+import { MAX_QUOTE_ITEMS, quoteItemSchema } from '../validation/pricingSchema';
+import { parseList } from '../validation/schema';
+
+interface PricingRouterDeps {
+  pricing: PricingEngine;
+  productRepository: ProductRepository;
+  promotionService: PromotionService;
+}
+
+const createPricingRouter = ({ pricing, productRepository, promotionService }: PricingRouterDeps) => {
+  const router = express.Router();
+
+  // POST /api/pricing/quote
+  // Prices an arbitrary list of products with the same rules the cart and orders use,
+  // including automatic promotions; coupons need a cart.
+  router.post('/quote', asyncHandler(async (req: Request, res: Response) => {
+    const requested = parseList<{ productId: string; quantity: number }>(
+      req.body,
+      'items',
+      quoteItemSchema,
+      { maxItems: MAX_QUOTE_ITEMS }
+    );
+
+    const entries: PricingEntry[] = [];
+    const missing: string[] = [];
+
+    for (const { productId, quantity } of requested) {
+      const product = await productRepository.findById(productId);
+      if (product) {
+        entries.push({ product, quantity });
+      } else {
+        missing.push(productId);
+      }
+    }
+
+    if (missing.length > 0) {
+      throw new ApiError(404, 'PRODUCT_NOT_FOUND', `Unknown product id(s): ${missing.join(', ')}.`,
+        missing.map((productId) => ({ field: 'items', message: `product ${productId} was not found` })));
+    }
+
+    res.json({ data: pricing.quote(entries, await promotionService.contextFor(undefined)) });
+  }));
+
+  return router;
+};
+
+export default createPricingRouter;
@@ -1,48 +1,159 @@
+import { randomUUID } from 'crypto';
 import express, { Request, Response } from 'express';
-import { products } from '../data/products';
+import type { AuthService } from '../auth/AuthService';
+import { authenticate, requirePermission } from '../auth/middleware';
+import { computeFacets } from '../catalog/facets';
+import { filterProducts } from '../catalog/filters';
+import { paginate } from '../catalog/pagination';
+import { parsePageRequest, parseProductFilters } from '../catalog/query';
+import { sortProducts } from '../catalog/sorting';
+import type { EventBus } from '../events/EventBus';
+import type { InventoryService } from '../inventory/InventoryService';
+import { asyncHandler } from '../middleware/asyncHandler';
+import type { ProductSummary } from '../models/Product';
+import type { ProductRepository } from '../repositories';
+import type { PopularQueries } from '../search/PopularQueries';
+import type { ProductSearchIndex, SearchHit } from '../search/ProductSearchIndex';
+import { productSchema } from '../validation/productSchema';
+import { parseBody } from '../validation/schema';
 
-const router = express.Router();
+const productNotFound = (res: Response, id: string) =>
+  res.status(404).json({
+    error: {
+      code: 'PRODUCT_NOT_FOUND',
+      message: `Product with id ${id} was not found.`
+    }
+  });
 
-// GET /api/products
-router.get('/', (req: Request, res: Response) => {
-  const { category, search } = req.query;
+/** Drops keys a PATCH explicitly cleared with `null`. */
+const withoutNulls = (product: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(product).filter(([, value]) => value !== null)) as unknown as ProductSummary;
 
-  let filtered = [...products];
+interface ProductsRouterDeps {
+  auth: AuthService;
+  productRepository: ProductRepository;
+  inventory: InventoryService;
+  events: EventBus;
+  searchIndex: ProductSearchIndex;
+  popularQueries: PopularQueries;
+}
 
-  if (category && typeof category === 'string') {
-    filtered = filtered.filter((product) => product.category === category);
-  }
+const createProductsRouter = ({
+  auth,
+  productRepository,
+  inventory,
+  events,
+  searchIndex,
+  popularQueries
+}: ProductsRouterDeps) => {
+  const router = express.Router();
+  const canWriteCatalog = [authenticate(auth), requirePermission('catalog:write')];
 
-  if (search && typeof search === 'string') {
-    const term = search.toLowerCase();
-    filtered = filtered.filter((product) =>
-      product.name.toLowerCase().includes(term) ||
-      product.description.toLowerCase().includes(term)
-    );
-  }
+  // GET /api/products
+  router.get('/', asyncHandler(async (req: Request, res: Response) => {
+    const filters = parseProductFilters(req.query);
+    const pageRequest = parsePageRequest(req.query, filters.search ? 'relevance' : 'name');
 
-  res.json({
-    data: filtered,
-    meta: {
-      total: filtered.length
+    let catalog = await productRepository.findAll();
+    const hits = filters.search ? searchIndex.search(filters.search) : [];
+    const hitsById = new Map(hits.map((hit) => [hit.id, hit]));
+
+    if (filters.search) {
+      catalog = catalog.filter((product) => hitsById.has(product.id));
+      // Misspellings still find products, but they shouldn't be suggested to others.
+      const recordable = hits.length > 0 && searchIndex.matchesAsTyped(filters.search);
+      if (recordable && !pageRequest.cursor && pageRequest.page === 1) {
+        popularQueries.record(filters.search);
+      }
     }
-  });
-});
 
-// GET /api/products/:id
-router.get('/:id', (req: Request, res: Response) => {
-  const product = products.find((item) => item.id === req.params.id);
+    const context = { scores: new Map(hits.map((hit) => [hit.id, hit.score])) };
+    const filtered = filterProducts(catalog, filters);
+    const { items, meta } = paginate(sortProducts(filtered, pageRequest.sortBy, context), pageRequest, context);
 
-  if (!product) {
-    return res.status(404).json({
-      error: {
-        code: 'PRODUCT_NOT_FOUND',
-        message: `Product with id ${req.params.id} was not found.`
-      }
+    const data = filters.search
+      ? items.map((product) => {
+        const { score, highlights } = hitsById.get(product.id) as SearchHit;
+        return { ...product, score, highlights };
+      })
+      : items;
+
+    res.json({ data, meta, facets: computeFacets(catalog, filters) });
+  }));
+
+  // GET /api/products/:id
+  router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+    const product = await productRepository.findById(req.params.id);
+
+    if (!product) {
+      return productNotFound(res, req.params.id);
+    }
+
+    res.json({ data: product });
+  }));
+
+  // POST /api/products
+  router.post('/', canWriteCatalog, asyncHandler(async (req: Request, res: Response) => {
+    const fields = parseBody<ProductSummary>(req.body, productSchema);
+    const product = await productRepository.create({
+      id: randomUUID(),
+      ...(fields as Omit<ProductSummary, 'id' | 'rating' | 'reviewCount'>),
+      rating: 0,
+      reviewCount: 0,
+      createdAt: new Date().toISOString()
     });
-  }
+    searchIndex.upsert(product);
+
+    res.status(201).location(`${req.baseUrl}/${product.id}`).json({ data: product });
+  }));
+
+  // PUT /api/products/:id
+  router.put('/:id', canWriteCatalog, asyncHandler(async (req: Request, res: Response) => {
+    const fields = parseBody<ProductSummary>(req.body, productSchema);
+    // Queued with checkout reservations so a stock edit can't race one.
+    const product = await inventory.updateProduct(req.params.id, (existing) => ({
+      ...(fields as ProductSummary),
+      id: existing.id,
+      rating: existing.rating,
+      reviewCount: existing.reviewCount,
+      ...(existing.createdAt ? { createdAt: existing.createdAt } : {})
+    }));
+
+    if (!product) {
+      return productNotFound(res, req.params.id);
+    }
+
+    events.publish('product.updated', { product });
+    res.json({ data: product });
+  }));
+
+  // PATCH /api/products/:id
+  router.patch('/:id', canWriteCatalog, asyncHandler(async (req: Request, res: Response) => {
+    const fields = parseBody<ProductSummary>(req.body, productSchema, { partial: true });
+    const product = await inventory.updateProduct(req.params.id, (existing) =>
+      withoutNulls({ ...existing, ...fields, id: existing.id }));
+
+    if (!product) {
+      return productNotFound(res, req.params.id);
+    }
+
+    events.publish('product.updated', { product });
+    res.json({ data: product });
+  }));
+
+  // DELETE /api/products/:id
+  router.delete('/:id', canWriteCatalog, asyncHandler(async (req: Request, res: Response) => {
+    // Queued with checkout reservations; the search index drops it on `product.deleted`.
+    const deleted = await inventory.deleteProduct(req.params.id);
+
+    if (!deleted) {
+      return productNotFound(res, req.params.id);
+    }
+
+    res.status(204).end();
+  }));
 
-  res.json({ data: product });
-});
+  return router;
+};
 
-export default router;
\ No newline at end of file
+export default createProductsRouter;
@@ -0,0 +1,35 @@
+import express, { Request, Response } from 'express';
+import type { AuthService } from '../auth/AuthService';
+import { authenticate, currentUser, requirePermission } from '../auth/middleware';
+import { asyncHandler } from '../middleware/asyncHandler';
+import type { ModerationDecision, ReviewService } from '../reviews/ReviewService';
+import { parseModerationQueueRequest } from '../reviews/query';
+import { moderationDecisionSchema } from '../validation/reviewSchema';
+import { parseBody } from '../validation/schema';
+
+interface ReviewModerationRouterDeps {
+  auth: AuthService;
+  reviewService: ReviewService;
+}
+
+const createReviewModerationRouter = ({ auth, reviewService }: ReviewModerationRouterDeps) => {
+  const router = express.Router();
+
+  router.use(authenticate(auth), requirePermission('reviews:moderate'));
+
+  // GET /api/moderation/reviews?status=pending&page=1
+  router.get('/', asyncHandler(async (req: Request, res: Response) => {
+    const { items, meta } = await reviewService.moderationQueue(parseModerationQueueRequest(req.query));
+    res.json({ data: items, meta });
+  }));
+
+  // PATCH /api/moderation/reviews/:id/status
+  router.patch('/:id/status', asyncHandler(async (req: Request, res: Response) => {
+    const decision = parseBody<ModerationDecision>(req.body, moderationDecisionSchema) as ModerationDecision;
+    res.json({ data: await reviewService.moderate(currentUser(req), req.params.id, decision) });
+  }));
+
+  return router;
+};
+
+export default createReviewModerationRouter;
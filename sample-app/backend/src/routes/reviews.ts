@@ -0,0 +1,68 @@
+import express, { Request, Response } from 'express';
+import type { AuthService } from '../auth/AuthService';
+import { authenticate, currentUser } from '../auth/middleware';
+import { asyncHandler } from '../middleware/asyncHandler';
+import type { ReviewInput, ReviewService } from '../reviews/ReviewService';
+import { parseReviewPageRequest } from '../reviews/query';
+import { reviewSchema, reviewVoteSchema } from '../validation/reviewSchema';
+import { parseBody } from '../validation/schema';
+
+interface ReviewsRouterDeps {
+  auth: AuthService;
+  reviewService: ReviewService;
+}
+
+/** Mounted under `/api/products/:productId/reviews`. */
+const createReviewsRouter = ({ auth, reviewService }: ReviewsRouterDeps) => {
+  const router = express.Router({ mergeParams: true });
+  const signedIn = authenticate(auth);
+
+  // GET /api/products/:productId/reviews?sortBy=helpful&page=2
+  // Signing in is optional; it adds the caller's own unpublished review and their votes.
+  router.get('/', authenticate(auth, { required: false }), asyncHandler(async (req: Request, res: Response) => {
+    const { items, meta, summary } = await reviewService.list(
+      req.params.productId,
+      parseReviewPageRequest(req.query),
+      req.user
+    );
+    res.json({ data: items, meta, summary });
+  }));
+
+  // POST /api/products/:productId/reviews
+  router.post('/', signedIn, asyncHandler(async (req: Request, res: Response) => {
+    const input = parseBody<ReviewInput>(req.body, reviewSchema) as ReviewInput;
+    const review = await reviewService.create(currentUser(req), req.params.productId, input);
+
+    res.status(201).location(`${req.baseUrl}/${review.id}`).json({ data: review });
+  }));
+
+  // PATCH /api/products/:productId/reviews/:id
+  router.patch('/:id', signedIn, asyncHandler(async (req: Request, res: Response) => {
+    const changes = parseBody<ReviewInput>(req.body, reviewSchema, { partial: true });
+    const review = await reviewService.update(currentUser(req), req.params.productId, req.params.id, changes);
+    res.json({ data: review });
+  }));
+
+  // DELETE /api/products/:productId/reviews/:id
+  router.delete('/:id', signedIn, asyncHandler(async (req: Request, res: Response) => {
+    await reviewService.delete(currentUser(req), req.params.productId, req.params.id);
+    res.status(204).end();
+  }));
+
+  // PUT /api/products/:productId/reviews/:id/vote
+  router.put('/:id/vote', signedIn, asyncHandler(async (req: Request, res: Response) => {
+    const { helpful } = parseBody<{ helpful: boolean }>(req.body, reviewVoteSchema) as { helpful: boolean };
+    const review = await reviewService.vote(currentUser(req), req.params.productId, req.params.id, helpful);
+    res.json({ data: review });
+  }));
+
+  // DELETE /api/products/:productId/reviews/:id/vote
+  router.delete('/:id/vote', signedIn, asyncHandler(async (req: Request, res: Response) => {
+    await reviewService.clearVote(currentUser(req), req.params.productId, req.params.id);
+    res.status(204).end();
+  }));
+
+  return router;
+};
+
+export default createReviewsRouter;
@@ -0,0 +1,35 @@
+import express, { Request, Response } from 'express';
+import type { PopularQueries } from '../search/PopularQueries';
+import type { ProductSearchIndex } from '../search/ProductSearchIndex';
+import { parseSuggestionRequest } from '../search/query';
+
+interface SearchRouterDeps {
+  searchIndex: ProductSearchIndex;
+  popularQueries: PopularQueries;
+}
+
+const createSearchRouter = ({ searchIndex, popularQueries }: SearchRouterDeps) => {
+  const router = express.Router();
+
+  // GET /api/search/suggest?q=
+  router.get('/suggest', (req: Request, res: Response) => {
+    const { q, limit } = parseSuggestionRequest(req.query);
+
+    if (q === '') {
+      return res.json({ data: { products: [], categories: [], queries: [] }, meta: { q } });
+    }
+
+    res.json({
+      data: {
+        products: searchIndex.suggestProducts(q, limit),
+        categories: searchIndex.suggestCategories(q, limit),
+        queries: popularQueries.top(q, limit)
+      },
+      meta: { q }
+    });
+  });
+
+  return router;
+};
+
+export default createSearchRouter;
@@ -0,0 +1,49 @@
+import express, { Request, Response } from 'express';
+import type { AuthService } from '../auth/AuthService';
+import { authenticate, currentUser, requirePermission } from '../auth/middleware';
+import { ApiError } from '../errors';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { toPublicUser, UserRole } from '../models/User';
+import type { UserRepository } from '../repositories';
+import { parseBody } from '../validation/schema';
+import { roleChangeSchema } from '../validation/userSchema';
+
+interface UsersRouterDeps {
+  auth: AuthService;
+  userRepository: UserRepository;
+}
+
+const createUsersRouter = ({ auth, userRepository }: UsersRouterDeps) => {
+  const router = express.Router();
+
+  router.use(authenticate(auth), requirePermission('users:manage'));
+
+  // GET /api/users
+  router.get('/', asyncHandler(async (_req: Request, res: Response) => {
+    const users = await userRepository.findAll();
+    const newestFirst = [...users].sort((a, b) => b.createdAt.localeCompare(a.createdAt) || a.id.localeCompare(b.id));
+
+    res.json({ data: newestFirst.map(toPublicUser) });
+  }));
+
+  // PATCH /api/users/:id/role
+  router.patch('/:id/role', asyncHandler(async (req: Request, res: Response) => {
+    const { role } = parseBody<{ role: UserRole }>(req.body, roleChangeSchema) as { role: UserRole };
+
+    // Keeps the last administrator from locking everyone out by accident.
+    if (req.params.id === currentUser(req).id) {
+      throw new ApiError(409, 'CANNOT_CHANGE_OWN_ROLE', 'You cannot change your own role.');
+    }
+
+    const user = await userRepository.findById(req.params.id);
+    if (!user) {
+      throw new ApiError(404, 'USER_NOT_FOUND', `User with id ${req.params.id} was not found.`);
+    }
+
+    res.json({ data: toPublicUser(await userRepository.save({ ...user, role })) });
+  }));
+
+  return router;
+};
+
+export default createUsersRouter;
@@ -0,0 +1,71 @@
+import express, { Request, Response } from 'express';
+import type { AuthService } from '../auth/AuthService';
+import { authenticate, requirePermission } from '../auth/middleware';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { parseWebhookSubscription } from '../validation/webhookSchema';
+import { parseDeliveryFilters } from '../webhooks/query';
+import type { WebhookService, WebhookSubscriptionInput } from '../webhooks/WebhookService';
+
+interface WebhooksRouterDeps {
+  auth: AuthService;
+  webhooks: WebhookService;
+}
+
+const createWebhooksRouter = ({ auth, webhooks }: WebhooksRouterDeps) => {
+  const router = express.Router();
+
+  router.use(authenticate(auth), requirePermission('webhooks:manage'));
+
+  // GET /api/webhooks
+  router.get('/', asyncHandler(async (_req: Request, res: Response) => {
+    res.json({ data: await webhooks.listSubscriptions() });
+  }));
+
+  // POST /api/webhooks
+  router.post('/', asyncHandler(async (req: Request, res: Response) => {
+    const input = parseWebhookSubscription(req.body) as WebhookSubscriptionInput;
+    const subscription = await webhooks.createSubscription(input);
+    res.status(201).location(`${req.baseUrl}/${subscription.id}`).json({ data: subscription });
+  }));
+
+  // GET /api/webhooks/deliveries?subscriptionId=&status=failed
+  router.get('/deliveries', asyncHandler(async (req: Request, res: Response) => {
+    res.json({ data: await webhooks.listDeliveries(parseDeliveryFilters(req.query)) });
+  }));
+
+  // GET /api/webhooks/deliveries/:id
+  router.get('/deliveries/:id', asyncHandler(async (req: Request, res: Response) => {
+    res.json({ data: await webhooks.getDelivery(req.params.id) });
+  }));
+
+  // POST /api/webhooks/deliveries/:id/resend
+  router.post('/deliveries/:id/resend', asyncHandler(async (req: Request, res: Response) => {
+    res.json({ data: await webhooks.resend(req.params.id) });
+  }));
+
+  // GET /api/webhooks/:id
+  router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+    res.json({ data: await webhooks.getSubscription(req.params.id) });
+  }));
+
+  // PATCH /api/webhooks/:id
+  router.patch('/:id', asyncHandler(async (req: Request, res: Response) => {
+    const changes = parseWebhookSubscription(req.body, { partial: true });
+    res.json({ data: await webhooks.updateSubscription(req.params.id, changes) });
+  }));
+
+  // POST /api/webhooks/:id/secret
+  router.post('/:id/secret', asyncHandler(async (req: Request, res: Response) => {
+    res.json({ data: await webhooks.rotateSecret(req.params.id) });
+  }));
+
+  // DELETE /api/webhooks/:id
+  router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+    await webhooks.deleteSubscription(req.params.id);
+    res.status(204).end();
+  }));
+
+  return router;
+};
+
+export default createWebhooksRouter;
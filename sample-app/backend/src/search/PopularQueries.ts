@@ -0,0 +1,44 @@
+export interface QueryCount {
+  query: string;
+  count: number;
+}
+
+/**
+ * Counts searches that returned results so suggestions can offer what other
+ * shoppers looked for. Kept in memory and bounded; the rarest entry is evicted
+ * when the table is full.
+ */
+export class PopularQueries {
+  private readonly counts = new Map<string, number>();
+
+  constructor(private readonly capacity = 500) {}
+
+  record(query: string): void {
+    const normalised = query.trim().toLowerCase().replace(/\s+/g, ' ');
+    if (normalised.length < 2) {
+      return;
+    }
+
+    if (!this.counts.has(normalised) && this.counts.size >= this.capacity) {
+      let rarest: string | undefined;
+      this.counts.forEach((count, key) => {
+        if (rarest === undefined || count < (this.counts.get(rarest) as number)) {
+          rarest = key;
+        }
+      });
+      this.counts.delete(rarest as string);
+    }
+
+    this.counts.set(normalised, (this.counts.get(normalised) ?? 0) + 1);
+  }
+
+  /** Most frequent recorded queries starting with `prefix`. */
+  top(prefix: string, limit: number): QueryCount[] {
+    const normalised = prefix.trim().toLowerCase();
+
+    return Array.from(this.counts, ([query, count]) => ({ query, count }))
+      .filter(({ query }) => query.startsWith(normalised))
+      .sort((a, b) => b.count - a.count || a.query.localeCompare(b.query))
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { EventBus } from '../events/EventBus';
+import { product, silentLogger } from '../testing/fixtures';
+import { ProductSearchIndex } from './ProductSearchIndex';
+
+const catalog = [
+  product({
+    id: 'headphones',
+    name: 'Wireless Headphones',
+    category: 'electronics',
+    description: 'Noise cancelling over-ear headphones with a 30 hour battery.'
+  }),
+  product({
+    id: 'speaker',
+    name: 'Bluetooth Speaker',
+    category: 'electronics',
+    description: 'A wireless speaker for the garden.'
+  }),
+  product({
+    id: 'watch',
+    name: 'Fitness Watch',
+    category: 'wearables',
+    description: 'Tracks your steps & sleep; pairs with wireless headphones.'
+  }),
+  product({ id: 'cat-bed', name: 'Cat Bed', category: 'pets', description: 'A soft bed for cats.' })
+];
+
+const ids = (index: ProductSearchIndex, query: string) => index.search(query).map(({ id }) => id);
+
+describe('ProductSearchIndex', () => {
+  describe('ranking', () => {
+    it('ranks a name match above a description match', () => {
+      expect(ids(new ProductSearchIndex(catalog), 'wireless')).toEqual(['headphones', 'speaker', 'watch']);
+    });
+
+    it('ranks products matching every query word above partial matches', () => {
+      const hits = new ProductSearchIndex(catalog).search('wireless speaker');
+
+      expect(hits[0].id).toBe('speaker');
+      expect(hits[0].score).toBeGreaterThan(hits[1].score);
+    });
+
+    it('matches other forms of a word through stemming', () => {
+      expect(ids(new ProductSearchIndex(catalog), 'tracking')).toEqual(['watch']);
+      expect(ids(new ProductSearchIndex(catalog), 'cat')).toEqual(['cat-bed']);
+    });
+
+    it('ignores stop words and empty queries', () => {
+      const index = new ProductSearchIndex(catalog);
+
+      expect(index.search('the and of')).toEqual([]);
+      expect(index.search('   ')).toEqual([]);
+    });
+
+    it('marks matched words in HTML-escaped snippets', () => {
+      const [hit] = new ProductSearchIndex(catalog).search('sleep');
+
+      expect(hit.highlights).toEqual({
+        description: 'Tracks your steps &#38; <mark>sleep</mark>; pairs with wireless headphones.'
+      });
+    });
+  });
+
+  describe('fuzzy matching', () => {
+    it('finds words with a typo, scored below an exact match', () => {
+      const index = new ProductSearchIndex(catalog);
+      const exact = index.search('headphones')[0];
+      const typo = index.search('headphnoes')[0];
+
+      expect(typo.id).toBe('headphones');
+      expect(typo.score).toBeLessThan(exact.score);
+      expect(typo.highlights.name).toBe('Wireless <mark>Headphones</mark>');
+    });
+
+    it('allows one edit up to six letters, two beyond, and none for short words', () => {
+      const index = new ProductSearchIndex(catalog);
+
+      expect(index.expand('batery')).toEqual(new Map([['battery', 1]]));
+      expect(index.expand('bettary')).toEqual(new Map([['battery', 2]]));
+      expect(index.expand('spkr')).toEqual(new Map());
+      expect(index.expand('cot')).toEqual(new Map());
+    });
+
+    it('tells typed matches from typo-only ones', () => {
+      const index = new ProductSearchIndex(catalog);
+
+      expect(index.matchesAsTyped('wireless head')).toBe(true);
+      expect(index.matchesAsTyped('headphnoes')).toBe(false);
+      expect(index.matchesAsTyped('the')).toBe(false);
+    });
+  });
+
+  describe('keeping current', () => {
+    it('reindexes updated products and drops deleted ones', () => {
+      const index = new ProductSearchIndex(catalog);
+      const events = new EventBus(silentLogger());
+      index.listen(events);
+
+      index.upsert({ ...catalog[1], name: 'Garden Speaker' });
+      events.publish('product.deleted', { product: catalog[0] });
+
+      expect(ids(index, 'bluetooth')).toEqual([]);
+      expect(ids(index, 'garden')).toEqual(['speaker']);
+      expect(ids(index, 'headphones')).toEqual(['watch']);
+      expect(index.size).toBe(3);
+    });
+  });
+
+  describe('suggestions', () => {
+    it('suggests names as typed, those starting with the prefix first', () => {
+      const index = new ProductSearchIndex(catalog);
+
+      expect(index.suggestProducts('wireless h', 5).map(({ id }) => id)).toEqual(['headphones']);
+      expect(index.suggestProducts('b', 5).map(({ id }) => id)).toEqual(['speaker', 'cat-bed']);
+    });
+
+    it('suggests categories with their product counts', () => {
+      expect(new ProductSearchIndex(catalog).suggestCategories('e', 5)).toEqual([{ value: 'electronics', count: 2 }]);
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import type { EventBus } from '../events/EventBus';
+import type { ProductSummary } from '../models/Product';
+import { editDistance, highlight, tokenize } from './text';
+
+type SearchField = 'name' | 'description';
+
+/** Name matches count for three times as much as description matches. */
+const fieldWeights: Record<SearchField, number> = { name: 3, description: 1 };
+const searchFields = Object.keys(fieldWeights) as SearchField[];
+
+// BM25 tuning constants.
+const K1 = 1.2;
+const B = 0.75;
+
+/** Score multiplier for a query term matched through an edit, by edit count. */
+const fuzzyPenalty = [1, 0.6, 0.35];
+
+interface Posting {
+  frequencies: Record<SearchField, number>;
+}
+
+interface IndexedDocument {
+  product: ProductSummary;
+  lengths: Record<SearchField, number>;
+}
+
+export interface ProductSuggestion {
+  id: string;
+  name: string;
+  category: string;
+}
+
+export interface CategorySuggestion {
+  value: string;
+  count: number;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  /** HTML-escaped snippets with matched words wrapped in `<mark>`. */
+  highlights: Partial<Record<SearchField, string>>;
+}
+
+/** Edits tolerated for a query term of the given length. */
+const allowedEdits = (term: string): number => {
+  if (term.length <= 3) {
+    return 0;
+  }
+  return term.length <= 6 ? 1 : 2;
+};
+
+/**
+ * In-process inverted index over product names and descriptions. Ranking is
+ * BM25 per field, weighted by field, with typo-tolerant term expansion.
+ * Writes keep it current through {@link upsert} and {@link remove}.
+ */
+export class ProductSearchIndex {
+  private readonly postings = new Map<string, Map<string, Posting>>();
+  private readonly documents = new Map<string, IndexedDocument>();
+  private readonly totalLengths: Record<SearchField, number> = { name: 0, description: 0 };
+
+  constructor(products: ProductSummary[] = []) {
+    products.forEach((product) => this.upsert(product));
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /** Drops products on `product.deleted`; saves arrive through InventoryService's change hook. */
+  listen(events: EventBus): () => void {
+    return events.subscribe((event) => {
+      if (event.type === 'product.deleted') {
+        this.remove(event.data.product.id);
+      }
+    });
+  }
+
+  upsert(product: ProductSummary): void {
+    this.remove(product.id);
+
+    const lengths = { name: 0, description: 0 };
+
+    searchFields.forEach((field) => {
+      const tokens = tokenize(product[field]);
+      lengths[field] = tokens.length;
+      this.totalLengths[field] += tokens.length;
+
+      tokens.forEach(({ term }) => {
+        const documents = this.postings.get(term) ?? new Map<string, Posting>();
+        const posting = documents.get(product.id) ?? { frequencies: { name: 0, description: 0 } };
+        posting.frequencies[field] += 1;
+        documents.set(product.id, posting);
+        this.postings.set(term, documents);
+      });
+    });
+
+    this.documents.set(product.id, { product, lengths });
+  }
+
+  remove(id: string): void {
+    const existing = this.documents.get(id);
+    if (!existing) {
+      return;
+    }
+
+    searchFields.forEach((field) => {
+      this.totalLengths[field] -= existing.lengths[field];
+    });
+
+    this.postings.forEach((documents, term) => {
+      if (documents.delete(id) && documents.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+
+    this.documents.delete(id);
+  }
+
+  /** Index terms within the allowed edit distance of `term`, with their distance. */
+  expand(term: string): Map<string, number> {
+    const matches = new Map<string, number>();
+    const maxEdits = allowedEdits(term);
+
+    if (this.postings.has(term)) {
+      matches.set(term, 0);
+    }
+
+    if (maxEdits > 0) {
+      this.postings.forEach((_documents, candidate) => {
+        if (candidate === term) {
+          return;
+        }
+        const distance = editDistance(term, candidate, maxEdits);
+        if (distance <= maxEdits) {
+          matches.set(candidate, distance);
+        }
+      });
+    }
+
+    return matches;
+  }
+
+  /**
+   * Whether every term of `query` is indexed as typed or starts an indexed
+   * term. Queries that only match through typo tolerance are not, so they are
+   * never offered back to shoppers as popular searches.
+   */
+  matchesAsTyped(query: string): boolean {
+    const terms = tokenize(query).map((token) => token.term);
+    const indexed = Array.from(this.postings.keys());
+    return terms.length > 0 && terms.every((term) =>
+      this.postings.has(term) || indexed.some((candidate) => candidate.startsWith(term)));
+  }
+
+  /** Ranked hits for a free-text query, best first; ties fall back to id order. */
+  search(query: string): SearchHit[] {
+    const queryTerms = Array.from(new Set(tokenize(query).map((token) => token.term)));
+    if (queryTerms.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const totals = new Map<string, number>();
+    const matchedTermCounts = new Map<string, number>();
+    const matchedIndexTerms = new Map<string, Set<string>>();
+
+    queryTerms.forEach((queryTerm) => {
+      // Only the best expansion of each query term counts towards a document.
+      const best = new Map<string, number>();
+
+      this.expand(queryTerm).forEach((distance, indexTerm) => {
+        const documents = this.postings.get(indexTerm) as Map<string, Posting>;
+        const idf = Math.log(1 + (this.documents.size - documents.size + 0.5) / (documents.size + 0.5));
+
+        documents.forEach((posting, id) => {
+          const score = this.fieldScore(id, posting) * idf * fuzzyPenalty[distance];
+          best.set(id, Math.max(best.get(id) ?? 0, score));
+
+          const terms = matchedIndexTerms.get(id) ?? new Set<string>();
+          terms.add(indexTerm);
+          matchedIndexTerms.set(id, terms);
+        });
+      });
+
+      best.forEach((score, id) => {
+        totals.set(id, (totals.get(id) ?? 0) + score);
+        matchedTermCounts.set(id, (matchedTermCounts.get(id) ?? 0) + 1);
+      });
+    });
+
+    return Array.from(totals, ([id, total]) => {
+      // Documents matching more of the query terms rank above partial matches.
+      const coverage = (matchedTermCounts.get(id) ?? 0) / queryTerms.length;
+      const { product } = this.documents.get(id) as IndexedDocument;
+      const terms = matchedIndexTerms.get(id) ?? new Set<string>();
+
+      const highlights: SearchHit['highlights'] = {};
+      searchFields.forEach((field) => {
+        const snippet = highlight(product[field], terms);
+        if (snippet) {
+          highlights[field] = snippet;
+        }
+      });
+
+      return { id, score: Math.round(total * coverage * 1000) / 1000, highlights };
+    }).sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Products whose name matches `prefix` as typed so far: every completed word
+   * must appear in the name and the last, partial word must start a name word.
+   * Names that start with the prefix are listed first.
+   */
+  suggestProducts(prefix: string, limit: number): ProductSuggestion[] {
+    const typed = prefix.trim().toLowerCase();
+    const words = typed.split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      return [];
+    }
+
+    const partial = words[words.length - 1];
+    const complete = words.slice(0, -1);
+
+    return Array.from(this.documents.values(), ({ product }) => product)
+      .map((product) => {
+        const name = product.name.toLowerCase();
+        const nameWords = name.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+        const matches =
+          complete.every((word) => nameWords.includes(word)) && nameWords.some((word) => word.startsWith(partial));
+        const rank = name.startsWith(typed) ? 0 : 1;
+        return { product, matches, rank };
+      })
+      .filter(({ matches }) => matches)
+      .sort((a, b) => a.rank - b.rank || a.product.name.localeCompare(b.product.name))
+      .slice(0, limit)
+      .map(({ product }) => ({ id: product.id, name: product.name, category: product.category }));
+  }
+
+  /** Categories starting with `prefix`, with how many indexed products each holds. */
+  suggestCategories(prefix: string, limit: number): CategorySuggestion[] {
+    const typed = prefix.trim().toLowerCase();
+    const counts = new Map<string, number>();
+
+    this.documents.forEach(({ product }) => {
+      if (typed && product.category.toLowerCase().startsWith(typed)) {
+        counts.set(product.category, (counts.get(product.category) ?? 0) + 1);
+      }
+    });
+
+    return Array.from(counts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+      .slice(0, limit);
+  }
+
+  private fieldScore(id: string, posting: Posting): number {
+    const { lengths } = this.documents.get(id) as IndexedDocument;
+
+    return searchFields.reduce((sum, field) => {
+      const frequency = posting.frequencies[field];
+      if (frequency === 0) {
+        return sum;
+      }
+
+      const averageLength = this.totalLengths[field] / this.documents.size || 1;
+      const normalised = (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * lengths[field]) / averageLength));
+      return sum + fieldWeights[field] * normalised;
+    }, 0);
+  }
+}
@@ -0,0 +1,26 @@
+import type { Request } from 'express';
+import { positiveInteger, single } from '../catalog/query';
+import { ApiError, type ErrorDetail } from '../errors';
+
+const DEFAULT_SUGGESTION_LIMIT = 5;
+const MAX_SUGGESTION_LIMIT = 10;
+
+type Query = Request['query'];
+
+export interface SuggestionRequest {
+  /** Trimmed; empty when the parameter is missing or blank. */
+  q: string;
+  limit: number;
+}
+
+/** Reads `q` and `limit` (default 5, at most 10) for search-as-you-type suggestions. */
+export const parseSuggestionRequest = (query: Query): SuggestionRequest => {
+  const errors: ErrorDetail[] = [];
+  const limit = positiveInteger(query, 'limit', DEFAULT_SUGGESTION_LIMIT, errors, MAX_SUGGESTION_LIMIT);
+
+  if (errors.length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'The query string failed validation.', errors);
+  }
+
+  return { q: single(query.q) ?? '', limit };
+};
@@ -0,0 +1,147 @@
+export interface Token {
+  /** Stemmed, lower-cased form used as the index key. */
+  term: string;
+  start: number;
+  end: number;
+}
+
+const stopWords = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into', 'is', 'it',
+  'of', 'on', 'or', 'the', 'this', 'to', 'with', 'your', 'you', 'all'
+]);
+
+// Ordered longest-first; the first suffix that leaves a stem of 3+ characters wins.
+const suffixRules: [suffix: string, replacement: string][] = [
+  ['ational', 'ate'],
+  ['ization', 'ize'],
+  ['fulness', 'ful'],
+  ['ousness', 'ous'],
+  ['iveness', 'ive'],
+  ['ingly', ''],
+  ['ments', 'ment'],
+  ['edly', ''],
+  ['ies', 'y'],
+  ['ing', ''],
+  ['ed', ''],
+  ['ly', '']
+];
+
+/**
+ * A deliberately small suffix-stripping stemmer. It folds the plural and verb
+ * forms a shopper is likely to type ("headphones", "tracking") onto one key;
+ * it is not a full Porter implementation.
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 3) {
+    return word;
+  }
+
+  for (const [suffix, replacement] of suffixRules) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length) + replacement;
+    }
+  }
+
+  if (/(ss|us|is)$/.test(word)) {
+    return word;
+  }
+  if (/(sses|xes|zes|ches|shes)$/.test(word)) {
+    return word.slice(0, -2);
+  }
+  if (word.endsWith('s')) {
+    return word.slice(0, -1);
+  }
+
+  return word;
+};
+
+/** Splits text into stemmed terms, keeping character offsets for highlighting. */
+export const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /[\p{L}\p{N}]+/gu;
+
+  for (const match of text.matchAll(pattern)) {
+    const word = match[0].toLowerCase();
+    if (stopWords.has(word)) {
+      continue;
+    }
+
+    const start = match.index ?? 0;
+    tokens.push({ term: stem(word), start, end: start + match[0].length });
+  }
+
+  return tokens;
+};
+
+/**
+ * Optimal-string-alignment distance (Levenshtein plus adjacent swaps), giving
+ * up once the distance is known to exceed `max`.
+ */
+export const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i += 1) {
+    const nextRow = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(row[j] + 1, nextRow[j - 1] + 1, row[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousRow[j - 2] + 1);
+      }
+
+      nextRow.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+
+    previousRow = row;
+    row = nextRow;
+  }
+
+  return row[b.length];
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Wraps the tokens whose terms are in `matched` with `<mark>`, HTML-escaping
+ * everything else. Long text is cut to a window around the first match.
+ */
+export const highlight = (text: string, matched: Set<string>, maxLength = 160): string | undefined => {
+  const hits = tokenize(text).filter((token) => matched.has(token.term));
+  if (hits.length === 0) {
+    return undefined;
+  }
+
+  let windowStart = 0;
+  let windowEnd = text.length;
+  if (text.length > maxLength) {
+    windowStart = Math.max(0, hits[0].start - Math.floor(maxLength / 4));
+    windowEnd = Math.min(text.length, windowStart + maxLength);
+  }
+
+  let cursor = windowStart;
+  let snippet = windowStart > 0 ? '…' : '';
+
+  hits
+    .filter((hit) => hit.start >= windowStart && hit.end <= windowEnd)
+    .forEach((hit) => {
+      snippet += `${escapeHtml(text.slice(cursor, hit.start))}<mark>${escapeHtml(text.slice(hit.start, hit.end))}</mark>`;
+      cursor = hit.end;
+    });
+
+  snippet += escapeHtml(text.slice(cursor, windowEnd));
+  return windowEnd < text.length ? `${snippet}…` : snippet;
+};
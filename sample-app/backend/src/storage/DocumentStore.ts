@@ -0,0 +1,14 @@
+/**
+ * Minimal keyed document storage shared by the repositories that don't need
+ * their own schema (users, carts, orders, ...). Each collection holds JSON
+ * documents by id; `list` returns them in insertion order.
+ */
+export interface DocumentStore {
+  get<T>(collection: string, id: string): Promise<T | undefined>;
+  list<T>(collection: string): Promise<T[]>;
+  put<T>(collection: string, id: string, document: T): Promise<void>;
+  /** Resolves `false` when there was nothing to delete. */
+  delete(collection: string, id: string): Promise<boolean>;
+  /** Finishes pending writes and releases the store; nothing may be called after it. */
+  close(): Promise<void>;
+}
@@ -0,0 +1,39 @@
+import type { DocumentStore } from './DocumentStore';
+
+/** Keeps documents in process memory; everything is lost on restart. */
+export class InMemoryDocumentStore implements DocumentStore {
+  private readonly collections = new Map<string, Map<string, string>>();
+
+  async get<T>(collection: string, id: string): Promise<T | undefined> {
+    const raw = this.collection(collection).get(id);
+    return raw === undefined ? undefined : (JSON.parse(raw) as T);
+  }
+
+  async list<T>(collection: string): Promise<T[]> {
+    return Array.from(this.collection(collection).values(), (raw) => JSON.parse(raw) as T);
+  }
+
+  async put<T>(collection: string, id: string, document: T): Promise<void> {
+    // Stored serialised so callers can never mutate what is held here.
+    this.collection(collection).set(id, JSON.stringify(document));
+  }
+
+  async delete(collection: string, id: string): Promise<boolean> {
+    return this.collection(collection).delete(id);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release.
+  }
+
+  private collection(name: string): Map<string, string> {
+    const existing = this.collections.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    const created = new Map<string, string>();
+    this.collections.set(name, created);
+    return created;
+  }
+}
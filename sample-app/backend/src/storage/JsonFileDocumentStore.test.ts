@@ -0,0 +1,52 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { JsonFileProductRepository } from '../repositories/JsonFileProductRepository';
+import { product } from '../testing/fixtures';
+import { JsonFileDocumentStore } from './JsonFileDocumentStore';
+
+/** The next file write stores only part of its data and then fails, like a crash or a full disk. */
+const failNextWriteHalfway = () => {
+  const writeFile = fs.writeFile.bind(fs);
+  vi.spyOn(fs, 'writeFile').mockImplementationOnce(async (file, data) => {
+    await writeFile(file, String(data).slice(0, 10), 'utf8');
+    throw new Error('ENOSPC: no space left on device');
+  });
+};
+
+describe('JSON file storage', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'shopflow-json-'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps a collection readable when a write fails partway', async () => {
+    const store = new JsonFileDocumentStore(directory);
+    await store.put('carts', 'cart-1', { lines: [] });
+
+    failNextWriteHalfway();
+    await expect(store.put('carts', 'cart-2', { lines: [] })).rejects.toThrow('ENOSPC');
+
+    expect(await store.list('carts')).toEqual([{ lines: [] }]);
+    expect(await fs.readdir(directory)).toEqual(['carts.json']);
+  });
+
+  it('keeps the catalog readable when a write fails partway', async () => {
+    const filePath = path.join(directory, 'products.json');
+    const repository = new JsonFileProductRepository(filePath, [product({ id: 'seed' })]);
+    await repository.findAll();
+
+    failNextWriteHalfway();
+    await expect(repository.create(product({ id: 'new' }))).rejects.toThrow('ENOSPC');
+
+    expect((await repository.findAll()).map(({ id }) => id)).toEqual(['seed']);
+    expect(await fs.readdir(directory)).toEqual(['products.json']);
+  });
+});
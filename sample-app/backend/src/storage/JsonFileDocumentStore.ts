@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DocumentStore } from './DocumentStore';
+import { writeJsonFile } from './jsonFile';
+
+type CollectionFile = Record<string, unknown>;
+
+/**
+ * Writes each collection to `<directory>/<collection>.json` as an object keyed
+ * by id. Writes to a collection are queued so read-modify-write cycles don't
+ * interleave, and replace the file in one step so reads never see it
+ * half-written.
+ */
+export class JsonFileDocumentStore implements DocumentStore {
+  private readonly pending = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly directory: string) {}
+
+  async get<T>(collection: string, id: string): Promise<T | undefined> {
+    const documents = await this.read(collection);
+    return documents[id] as T | undefined;
+  }
+
+  async list<T>(collection: string): Promise<T[]> {
+    return Object.values(await this.read(collection)) as T[];
+  }
+
+  async put<T>(collection: string, id: string, document: T): Promise<void> {
+    await this.mutate(collection, (documents) => {
+      documents[id] = document;
+    });
+  }
+
+  async delete(collection: string, id: string): Promise<boolean> {
+    return this.mutate(collection, (documents) => {
+      if (!(id in documents)) {
+        return false;
+      }
+
+      delete documents[id];
+      return true;
+    });
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.pending.values());
+  }
+
+  private filePath(collection: string): string {
+    return path.join(this.directory, `${collection}.json`);
+  }
+
+  private async read(collection: string): Promise<CollectionFile> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(collection), 'utf8')) as CollectionFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private mutate<T>(collection: string, change: (documents: CollectionFile) => T): Promise<T> {
+    const previous = this.pending.get(collection) ?? Promise.resolve();
+    const run = previous.then(async () => {
+      const documents = await this.read(collection);
+      const result = change(documents);
+      await writeJsonFile(this.filePath(collection), documents);
+      return result;
+    });
+
+    this.pending.set(collection, run.catch(() => undefined));
+    return run;
+  }
+}
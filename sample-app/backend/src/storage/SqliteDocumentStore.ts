@@ -0,0 +1,52 @@
+import type Database from 'better-sqlite3';
+import type { DocumentStore } from './DocumentStore';
+import { closeSqlite, openSqlite } from './sqlite';
+
+/** Stores every collection in one `documents` table as JSON text. */
+export class SqliteDocumentStore implements DocumentStore {
+  private readonly db: Database.Database;
+
+  constructor(filePath: string) {
+    this.db = openSqlite(filePath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS documents (
+        collection TEXT NOT NULL,
+        id TEXT NOT NULL,
+        body TEXT NOT NULL,
+        PRIMARY KEY (collection, id)
+      )
+    `);
+  }
+
+  async get<T>(collection: string, id: string): Promise<T | undefined> {
+    const row = this.db
+      .prepare('SELECT body FROM documents WHERE collection = ? AND id = ?')
+      .get(collection, id) as { body: string } | undefined;
+    return row ? (JSON.parse(row.body) as T) : undefined;
+  }
+
+  async list<T>(collection: string): Promise<T[]> {
+    const rows = this.db
+      .prepare('SELECT body FROM documents WHERE collection = ? ORDER BY rowid')
+      .all(collection) as { body: string }[];
+    return rows.map((row) => JSON.parse(row.body) as T);
+  }
+
+  async put<T>(collection: string, id: string, document: T): Promise<void> {
+    this.db
+      .prepare(`
+        INSERT INTO documents (collection, id, body) VALUES (?, ?, ?)
+        ON CONFLICT (collection, id) DO UPDATE SET body = excluded.body
+      `)
+      .run(collection, id, JSON.stringify(document));
+  }
+
+  async delete(collection: string, id: string): Promise<boolean> {
+    const { changes } = this.db.prepare('DELETE FROM documents WHERE collection = ? AND id = ?').run(collection, id);
+    return changes > 0;
+  }
+
+  async close(): Promise<void> {
+    closeSqlite(this.db);
+  }
+}
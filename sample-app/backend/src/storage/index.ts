@@ -0,0 +1,18 @@
+import type { AppConfig } from '../config';
+import type { DocumentStore } from './DocumentStore';
+import { InMemoryDocumentStore } from './InMemoryDocumentStore';
+import { JsonFileDocumentStore } from './JsonFileDocumentStore';
+import { SqliteDocumentStore } from './SqliteDocumentStore';
+
+export type { DocumentStore } from './DocumentStore';
+
+export const createDocumentStore = (storeConfig: AppConfig['dataStore']): DocumentStore => {
+  switch (storeConfig.driver) {
+    case 'json':
+      return new JsonFileDocumentStore(storeConfig.jsonDir);
+    case 'sqlite':
+      return new SqliteDocumentStore(storeConfig.sqlitePath);
+    default:
+      return new InMemoryDocumentStore();
+  }
+};
@@ -0,0 +1,22 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Writes `value` as pretty-printed JSON to `filePath` without ever exposing a
+ * half-written file: the JSON goes to a temporary file next to it, which is
+ * then renamed over the original. Readers see the old content or the new,
+ * and a crash mid-write leaves the old file intact.
+ */
+export const writeJsonFile = async (filePath: string, value: unknown): Promise<void> => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  // Unique per write, so two writers never share a temporary file.
+  const temporary = `${filePath}.${randomBytes(6).toString('hex')}.tmp`;
+  try {
+    await fs.writeFile(temporary, `${JSON.stringify(value, null, 2)}\n`, 'utf8');
+    await fs.rename(temporary, filePath);
+  } catch (error) {
+    await fs.rm(temporary, { force: true });
+    throw error;
+  }
+};
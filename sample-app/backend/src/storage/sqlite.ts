@@ -0,0 +1,41 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+const connections = new Map<string, Database.Database>();
+
+/**
+ * Opens (or reuses) the SQLite database at `filePath`. Repositories that point
+ * at the same file share one connection, so their writes never contend.
+ */
+export const openSqlite = (filePath: string): Database.Database => {
+  const existing = connections.get(filePath);
+  if (existing) {
+    return existing;
+  }
+
+  if (filePath !== ':memory:') {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  connections.set(filePath, db);
+  return db;
+};
+
+/**
+ * Closes a connection from {@link openSqlite}. Repositories sharing it may
+ * each call this; only the first call closes it, and a later `openSqlite` for
+ * the same file opens a fresh one.
+ */
+export const closeSqlite = (db: Database.Database): void => {
+  connections.forEach((connection, filePath) => {
+    if (connection === db) {
+      connections.delete(filePath);
+    }
+  });
+  if (db.open) {
+    db.close();
+  }
+};
@@ -0,0 +1,126 @@
+import type { AuthUser } from '../auth/tokens';
+import { CartService } from '../cart/CartService';
+import type { AppConfig } from '../config';
+import { EventBus } from '../events/EventBus';
+import { InventoryService } from '../inventory/InventoryService';
+import { createLogger } from '../logging/logger';
+import type { ShippingAddress } from '../models/Order';
+import type { ProductSummary } from '../models/Product';
+import type { Promotion } from '../models/Promotion';
+import type { User, UserRole } from '../models/User';
+import { OrderService } from '../orders/OrderService';
+import { MockPaymentGateway } from '../payments/MockPaymentGateway';
+import { PaymentService } from '../payments/PaymentService';
+import { PricingEngine } from '../pricing/PricingEngine';
+import { PromotionService } from '../promotions/PromotionService';
+import { InMemoryProductRepository } from '../repositories/InMemoryProductRepository';
+import {
+  CartRepository,
+  OrderRepository,
+  PaymentRepository,
+  PromotionRedemptionRepository,
+  ReviewRepository,
+  ReviewVoteRepository,
+  StockReservationRepository,
+  UserRepository
+} from '../repositories';
+import { ReviewService } from '../reviews/ReviewService';
+import { InMemoryDocumentStore } from '../storage/InMemoryDocumentStore';
+
+/** Shared setup for service tests: everything in memory, configured like development. */
+
+export const inventoryConfig: AppConfig['inventory'] = {
+  reservationTtlMinutes: 15,
+  sweepIntervalSeconds: 30,
+  lowStockThreshold: 5
+};
+
+export const pricingConfig: AppConfig['pricing'] = {
+  currency: 'USD',
+  taxRatePercent: 8,
+  shippingFlatRate: 9.99,
+  freeShippingOver: 50
+};
+
+export const silentLogger = () => createLogger({ level: 'silent', service: 'test' });
+
+export const product = (overrides: Partial<ProductSummary> & Pick<ProductSummary, 'id'>): ProductSummary => ({
+  name: `Product ${overrides.id}`,
+  price: 20,
+  image: '',
+  rating: 0,
+  reviewCount: 0,
+  description: '',
+  category: 'books',
+  inStock: true,
+  stockQuantity: 10,
+  ...overrides
+});
+
+export const user = (id: string, role: UserRole = 'customer'): User => ({
+  id,
+  email: `${id}@example.com`,
+  firstName: 'Test',
+  lastName: id,
+  subscribeToNewsletter: false,
+  role,
+  passwordHash: 'unused',
+  createdAt: '2026-01-01T00:00:00.000Z'
+});
+
+export const authUser = ({ id, email, role }: User): AuthUser => ({ id, email, role, sessionId: `session-${id}` });
+
+export const shippingAddress: ShippingAddress = {
+  email: 'shopper@example.com',
+  firstName: 'Sam',
+  lastName: 'Shopper',
+  address: '1 Main St',
+  city: 'Springfield',
+  state: 'IL',
+  zipCode: '62701',
+  country: 'US'
+};
+
+/** A card the mock gateway approves without a challenge. */
+export const approvedCard = { number: '4242424242424242', expiry: '12/99', cvc: '123', name: 'Sam Shopper' };
+
+/** The services as `index.ts` wires them, on one in-memory store. */
+export const createTestServices = ({ products = [], promotions = [] }: {
+  products?: ProductSummary[];
+  promotions?: Promotion[];
+} = {}) => {
+  const store = new InMemoryDocumentStore();
+  const logger = silentLogger();
+  const productRepository = new InMemoryProductRepository(products);
+  const events = new EventBus(logger);
+  const reservations = new StockReservationRepository(store);
+  const inventory = new InventoryService(productRepository, reservations, inventoryConfig, events, logger);
+  const promotionService = new PromotionService(promotions, new PromotionRedemptionRepository(store));
+  const carts = new CartRepository(store);
+  const cartService = new CartService(carts, productRepository, new PricingEngine(pricingConfig), promotionService, inventory);
+  const gateway = new MockPaymentGateway(store);
+  const paymentService = new PaymentService(new PaymentRepository(store), gateway, cartService);
+  const orders = new OrderRepository(store);
+  const orderService = new OrderService(orders, cartService, promotionService, inventory, paymentService, events);
+  const users = new UserRepository(store);
+  const reviews = new ReviewRepository(store);
+  const reviewService = new ReviewService(reviews, new ReviewVoteRepository(store), users, orders, productRepository, inventory);
+
+  return {
+    store,
+    events,
+    productRepository,
+    reservations,
+    inventory,
+    promotionService,
+    carts,
+    cartService,
+    gateway,
+    paymentService,
+    orders,
+    orderService,
+    users,
+    reviews,
+    reviewService
+  };
+};
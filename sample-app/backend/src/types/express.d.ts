@@ -0,0 +1,16 @@
+import type { AuthUser } from '../auth/tokens';
+import type { Logger } from '../logging/logger';
+
+// What the app's middleware adds to every request.
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** Correlation id: the caller's `X-Request-Id`, or a fresh UUID. Set by the request logger. */
+    id: string;
+    /** Logger bound to {@link id}; use it for anything logged while handling the request. */
+    log: Logger;
+    /** Set by the auth middleware when a valid access token is presented. */
+    user?: AuthUser;
+    /** Path template the request's router is mounted at, e.g. `/api/products/:productId/reviews`. */
+    routeBase?: string;
+  }
+}
@@ -0,0 +1,27 @@
+import type { Schema } from './schema';
+
+// Mirrors the client-side checks in RegisterPage and LoginPage.
+const email = { type: 'string', required: true, max: 254, pattern: /^\S+@\S+\.\S+$/, patternMessage: 'Email is invalid' } as const;
+
+export const registerSchema: Schema = {
+  firstName: { type: 'string', required: true, min: 1, max: 100 },
+  lastName: { type: 'string', required: true, min: 1, max: 100 },
+  email,
+  password: { type: 'string', required: true, max: 200, trim: false },
+  phoneNumber: { type: 'string', max: 30, pattern: /^\+?[\d\s\-()]+$/, patternMessage: 'Invalid phone number format' },
+  dateOfBirth: { type: 'string', pattern: /^\d{4}-\d{2}-\d{2}$/, patternMessage: 'must be a date in YYYY-MM-DD format' },
+  subscribeToNewsletter: { type: 'boolean', default: false },
+  agreeToTerms: { type: 'boolean', required: true }
+};
+
+export const loginSchema: Schema = {
+  email,
+  password: { type: 'string', required: true, min: 1, max: 200, trim: false }
+};
+
+export const passwordResetRequestSchema: Schema = { email };
+
+export const passwordResetSchema: Schema = {
+  token: { type: 'string', required: true, min: 1, max: 200 },
+  password: { type: 'string', required: true, max: 200, trim: false }
+};
@@ -0,0 +1,17 @@
+import { MAX_QUANTITY_PER_LINE } from '../catalog/stock';
+import type { Schema } from './schema';
+
+const quantity = { type: 'integer', min: 1, max: MAX_QUANTITY_PER_LINE } as const;
+
+export const addCartItemSchema: Schema = {
+  productId: { type: 'string', required: true, min: 1, max: 100 },
+  quantity: { ...quantity, default: 1 }
+};
+
+export const updateCartItemSchema: Schema = {
+  quantity: { ...quantity, required: true }
+};
+
+export const applyCouponSchema: Schema = {
+  code: { type: 'string', required: true, min: 1, max: 40 }
+};
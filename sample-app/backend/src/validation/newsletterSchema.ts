@@ -0,0 +1,5 @@
+import type { Schema } from './schema';
+
+export const newsletterConfirmationSchema: Schema = {
+  token: { type: 'string', required: true, min: 1, max: 200 }
+};
@@ -0,0 +1,20 @@
+import { ORDER_STATUSES } from '../orders/transitions';
+import type { Schema } from './schema';
+
+// Mirrors the shipping step of CheckoutPage, plus the payment its payment step authorised.
+export const placeOrderSchema: Schema = {
+  email: { type: 'string', required: true, max: 254, pattern: /^\S+@\S+\.\S+$/, patternMessage: 'Email is invalid' },
+  firstName: { type: 'string', required: true, min: 1, max: 100 },
+  lastName: { type: 'string', required: true, min: 1, max: 100 },
+  address: { type: 'string', required: true, min: 1, max: 200 },
+  city: { type: 'string', required: true, min: 1, max: 100 },
+  state: { type: 'string', required: true, min: 1, max: 100 },
+  zipCode: { type: 'string', required: true, min: 1, max: 20 },
+  country: { type: 'string', required: true, min: 2, max: 2, pattern: /^[A-Z]{2}$/, patternMessage: 'must be a two-letter country code' },
+  paymentId: { type: 'string', required: true, min: 1, max: 100 }
+};
+
+export const statusChangeSchema: Schema = {
+  status: { type: 'string', required: true, oneOf: ORDER_STATUSES },
+  note: { type: 'string', max: 500 }
+};
@@ -0,0 +1,23 @@
+import type { Schema } from './schema';
+
+/** Card details for an authorisation; they go to the processor and are never stored or logged. */
+export const cardPaymentSchema: Schema = {
+  number: { type: 'string', required: true, pattern: /^[\d ]{12,23}$/, patternMessage: 'must be 12 to 19 digits' },
+  expiry: {
+    type: 'string',
+    required: true,
+    pattern: /^(0[1-9]|1[0-2])\/\d{2}$/,
+    patternMessage: 'must be MM/YY'
+  },
+  cvc: { type: 'string', required: true, pattern: /^\d{3,4}$/, patternMessage: 'must be 3 or 4 digits' },
+  name: { type: 'string', required: true, min: 1, max: 100 }
+};
+
+export const challengeResponseSchema: Schema = {
+  response: { type: 'string', required: true, min: 1, max: 20 }
+};
+
+export const refundSchema: Schema = {
+  /** Defaults to everything not yet refunded. */
+  amount: { type: 'number', min: 0.01 }
+};
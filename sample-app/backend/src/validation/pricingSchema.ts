@@ -0,0 +1,10 @@
+import { MAX_QUANTITY_PER_LINE } from '../catalog/stock';
+import type { Schema } from './schema';
+
+/** Longest list a single quote request may price. */
+export const MAX_QUOTE_ITEMS = 100;
+
+export const quoteItemSchema: Schema = {
+  productId: { type: 'string', required: true, min: 1, max: 100 },
+  quantity: { type: 'integer', required: true, min: 1, max: MAX_QUANTITY_PER_LINE }
+};
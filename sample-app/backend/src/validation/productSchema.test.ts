@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { parseBody } from './schema';
+import { productSchema } from './productSchema';
+
+const fields = {
+  name: 'Desk Lamp',
+  price: 39.99,
+  image: 'https://example.com/lamp.jpg',
+  description: 'A lamp for your desk.',
+  category: 'home'
+};
+
+describe('productSchema', () => {
+  it('requires the stock count on a full write instead of zeroing it', () => {
+    expect(() => parseBody(fields, productSchema)).toThrow(expect.objectContaining({
+      status: 400,
+      code: 'VALIDATION_ERROR',
+      details: [{ field: 'stockQuantity', message: 'is required' }]
+    }));
+    expect(parseBody({ ...fields, stockQuantity: 7 }, productSchema)).toMatchObject({ stockQuantity: 7 });
+  });
+
+  it('leaves the stock count alone when a partial write omits it', () => {
+    expect(parseBody({ price: 29.99 }, productSchema, { partial: true })).toEqual({ price: 29.99 });
+  });
+});
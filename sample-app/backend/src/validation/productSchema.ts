@@ -0,0 +1,15 @@
+import type { Schema } from './schema';
+
+/** Writable `ProductSummary` fields; `id` comes from the URL or is generated. */
+export const productSchema: Schema = {
+  name: { type: 'string', required: true, min: 1, max: 200 },
+  price: { type: 'number', required: true, min: 0 },
+  image: { type: 'string', required: true, min: 1, max: 2048 },
+  description: { type: 'string', required: true, min: 1, max: 5000 },
+  category: { type: 'string', required: true, min: 1, max: 100 },
+  // `inStock` is derived from the count, and `rating`/`reviewCount` from the
+  // product's reviews, so none of them can be written. No default: a PUT that
+  // leaves the count out must fail rather than zero the stock.
+  stockQuantity: { type: 'integer', required: true, min: 0 },
+  discount: { type: 'number', min: 0, max: 100 }
+};
@@ -0,0 +1,18 @@
+import { REJECTION_REASONS } from '../models/Review';
+import type { Schema } from './schema';
+
+export const reviewSchema: Schema = {
+  rating: { type: 'integer', required: true, min: 1, max: 5 },
+  title: { type: 'string', max: 120 },
+  comment: { type: 'string', required: true, min: 1, max: 5000 }
+};
+
+export const reviewVoteSchema: Schema = {
+  helpful: { type: 'boolean', required: true }
+};
+
+export const moderationDecisionSchema: Schema = {
+  status: { type: 'string', required: true, oneOf: ['approved', 'rejected'] },
+  reason: { type: 'string', oneOf: REJECTION_REASONS },
+  note: { type: 'string', max: 500 }
+};
@@ -0,0 +1,179 @@
+import { ApiError, ErrorDetail } from '../errors';
+
+export interface FieldRule {
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  required?: boolean;
+  /** Minimum value for numbers, minimum length for strings. */
+  min?: number;
+  /** Maximum value for numbers, maximum length for strings. */
+  max?: number;
+  pattern?: RegExp;
+  patternMessage?: string;
+  oneOf?: readonly string[];
+  /** Strings are trimmed unless this is `false` (passwords, for example). */
+  trim?: boolean;
+  /** Applied when the field is absent and the payload is not partial. */
+  default?: string | number | boolean;
+}
+
+export type Schema = Record<string, FieldRule>;
+
+export interface ValidateOptions {
+  /** PATCH semantics: only present fields are checked and `null` clears optional ones. */
+  partial?: boolean;
+}
+
+const checkField = (field: string, value: unknown, rule: FieldRule): string | undefined => {
+  switch (rule.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : 'must be a boolean';
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return 'must be a number';
+      }
+      if (rule.type === 'integer' && !Number.isInteger(value)) {
+        return 'must be a whole number';
+      }
+      if (rule.min !== undefined && value < rule.min) {
+        return `must be at least ${rule.min}`;
+      }
+      if (rule.max !== undefined && value > rule.max) {
+        return `must be at most ${rule.max}`;
+      }
+      return undefined;
+    }
+    case 'string': {
+      if (typeof value !== 'string') {
+        return 'must be a string';
+      }
+      const trimmed = rule.trim === false ? value : value.trim();
+      if (rule.min !== undefined && trimmed.length < rule.min) {
+        return rule.min === 1 ? 'must not be empty' : `must be at least ${rule.min} characters`;
+      }
+      if (rule.max !== undefined && trimmed.length > rule.max) {
+        return `must be at most ${rule.max} characters`;
+      }
+      if (rule.oneOf && !rule.oneOf.includes(trimmed)) {
+        return `must be one of ${rule.oneOf.join(', ')}`;
+      }
+      if (rule.pattern && !rule.pattern.test(value)) {
+        return rule.patternMessage ?? 'has an invalid format';
+      }
+      return undefined;
+    }
+    default:
+      return `has an unsupported rule for ${field}`;
+  }
+};
+
+/**
+ * Validates a JSON payload against a flat schema and returns the cleaned value
+ * (strings trimmed, defaults applied) plus one detail entry per bad field.
+ */
+export const validate = <T>(
+  payload: unknown,
+  schema: Schema,
+  options: ValidateOptions = {}
+): { value: Partial<T>; errors: ErrorDetail[] } => {
+  const errors: ErrorDetail[] = [];
+  const value: Record<string, unknown> = {};
+
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    return { value: {}, errors: [{ field: '(body)', message: 'must be a JSON object' }] };
+  }
+
+  const input = payload as Record<string, unknown>;
+
+  Object.keys(input)
+    .filter((field) => !(field in schema))
+    .forEach((field) => errors.push({ field, message: 'is not a recognised field' }));
+
+  Object.entries(schema).forEach(([field, rule]) => {
+    const raw = input[field];
+
+    if (raw === undefined || (raw === null && !rule.required)) {
+      if (raw === null && options.partial) {
+        value[field] = null;
+      } else if (!options.partial && rule.default !== undefined) {
+        value[field] = rule.default;
+      } else if (!options.partial && rule.required) {
+        errors.push({ field, message: 'is required' });
+      }
+      return;
+    }
+
+    const problem = checkField(field, raw, rule);
+    if (problem) {
+      errors.push({ field, message: problem });
+      return;
+    }
+
+    value[field] = typeof raw === 'string' && rule.trim !== false ? raw.trim() : raw;
+  });
+
+  return { value: value as Partial<T>, errors };
+};
+
+/**
+ * Same as {@link validate} but throws a 400 `VALIDATION_ERROR` when any field
+ * fails, so handlers can work with the cleaned value directly.
+ */
+export const parseBody = <T>(payload: unknown, schema: Schema, options: ValidateOptions = {}): Partial<T> => {
+  const { value, errors } = validate<T>(payload, schema, options);
+
+  if (errors.length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'The request body failed validation.', errors);
+  }
+
+  return value;
+};
+
+export interface ListOptions {
+  /** Most entries accepted; longer lists fail validation. */
+  maxItems?: number;
+}
+
+/**
+ * Validates a body of the form `{ [field]: [{...}, {...}] }`, checking every
+ * entry against `itemSchema`. Problems are reported as `field[index].name` and
+ * thrown together as a single 400 `VALIDATION_ERROR`.
+ */
+export const parseList = <T>(payload: unknown, field: string, itemSchema: Schema, options: ListOptions = {}): T[] => {
+  const errors: ErrorDetail[] = [];
+  const items: T[] = [];
+
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    errors.push({ field: '(body)', message: 'must be a JSON object' });
+  } else {
+    const input = payload as Record<string, unknown>;
+    const list = input[field];
+
+    Object.keys(input)
+      .filter((key) => key !== field)
+      .forEach((key) => errors.push({ field: key, message: 'is not a recognised field' }));
+
+    if (list === undefined) {
+      errors.push({ field, message: 'is required' });
+    } else if (!Array.isArray(list)) {
+      errors.push({ field, message: 'must be an array' });
+    } else if (options.maxItems !== undefined && list.length > options.maxItems) {
+      errors.push({ field, message: `must have at most ${options.maxItems} entries` });
+    } else {
+      list.forEach((entry, index) => {
+        const result = validate<T>(entry, itemSchema);
+        result.errors.forEach((error) => errors.push({
+          field: error.field === '(body)' ? `${field}[${index}]` : `${field}[${index}].${error.field}`,
+          message: error.message
+        }));
+        items.push(result.value as T);
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'The request body failed validation.', errors);
+  }
+
+  return items;
+};
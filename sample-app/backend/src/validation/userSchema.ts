@@ -0,0 +1,6 @@
+import { ROLES } from '../auth/permissions';
+import type { Schema } from './schema';
+
+export const roleChangeSchema: Schema = {
+  role: { type: 'string', required: true, oneOf: ROLES }
+};
@@ -0,0 +1,48 @@
+import { ApiError } from '../errors';
+import { DOMAIN_EVENT_TYPES, DomainEventType } from '../events/EventBus';
+import type { WebhookSubscriptionInput } from '../webhooks/WebhookService';
+import { Schema, validate, ValidateOptions } from './schema';
+
+export const webhookSubscriptionSchema: Schema = {
+  url: {
+    type: 'string',
+    required: true,
+    max: 2048,
+    pattern: /^https?:\/\/[^\s/?#]+[^\s]*$/i,
+    patternMessage: 'must be an http or https URL'
+  },
+  description: { type: 'string', max: 200 },
+  active: { type: 'boolean', default: true }
+};
+
+const isEventType = (value: unknown): value is DomainEventType =>
+  typeof value === 'string' && (DOMAIN_EVENT_TYPES as readonly string[]).includes(value);
+
+/**
+ * Validates a subscription body. `events` is a list, which the flat schemas
+ * can't describe, so it is checked here and reported with the other fields.
+ */
+export const parseWebhookSubscription = (
+  payload: unknown,
+  options: ValidateOptions = {}
+): Partial<Record<keyof WebhookSubscriptionInput, unknown>> => {
+  const isObject = typeof payload === 'object' && payload !== null && !Array.isArray(payload);
+  const { events, ...fields } = isObject ? (payload as Record<string, unknown>) : { events: undefined };
+  const { value, errors } = validate<WebhookSubscriptionInput>(isObject ? fields : payload, webhookSubscriptionSchema, options);
+
+  if (isObject && events === undefined && !options.partial) {
+    errors.push({ field: 'events', message: 'is required' });
+  } else if (isObject && events !== undefined) {
+    if (Array.isArray(events) && events.length > 0 && events.every(isEventType)) {
+      value.events = [...new Set(events)];
+    } else {
+      errors.push({ field: 'events', message: `must be a non-empty list of ${DOMAIN_EVENT_TYPES.join(', ')}` });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'The request body failed validation.', errors);
+  }
+
+  return value;
+};
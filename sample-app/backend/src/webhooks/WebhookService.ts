@@ -0,0 +1,349 @@
+import { randomUUID } from 'crypto';
+import type { AppConfig } from '../config';
+import { ApiError } from '../errors';
+import type { DomainEvent, DomainEventType, EventBus } from '../events/EventBus';
+import type { Logger } from '../logging/logger';
+import type {
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookSubscription,
+  WebhookSubscriptionView
+} from '../models/Webhook';
+import type { WebhookDeliveryRepository, WebhookSubscriptionRepository } from '../repositories';
+import { generateWebhookSecret, SIGNATURE_HEADER, signWebhook } from './signing';
+
+export interface WebhookSubscriptionInput {
+  url: string;
+  events: DomainEventType[];
+  description?: string;
+  active: boolean;
+}
+
+export interface DeliveryFilters {
+  subscriptionId?: string;
+  status?: WebhookDeliveryStatus;
+}
+
+/** Most deliveries one listing returns, newest first. */
+const DELIVERY_LIST_LIMIT = 100;
+
+/** How much of a receiver's answer is kept in the attempt log. */
+const RESPONSE_EXCERPT_LENGTH = 500;
+
+const toView = ({ secret: _secret, ...subscription }: WebhookSubscription): WebhookSubscriptionView => subscription;
+
+const subscriptionNotFound = (id: string) =>
+  new ApiError(404, 'WEBHOOK_NOT_FOUND', `Webhook subscription with id ${id} was not found.`);
+
+/** Why a request got no HTTP answer; fetch hides the network error in `cause`. */
+const describeFailure = (error: unknown): string => {
+  if (error instanceof Error) {
+    const { cause } = error as Error & { cause?: unknown };
+    return cause instanceof Error ? cause.message : error.message;
+  }
+  return String(error);
+};
+
+/**
+ * Delivers shop events to subscribed endpoints. Each matching subscription
+ * gets its own delivery, sent straight away and signed with the
+ * subscription's secret. A delivery succeeds on any 2xx answer; otherwise it
+ * is retried with exponential backoff (`retryBaseSeconds`, doubling) until
+ * `maxAttempts` failures mark it `failed`. Every attempt is logged on the
+ * delivery, and {@link resend} sends any delivery again on request.
+ */
+export class WebhookService {
+  /** Deliveries being sent right now, so the dispatcher and a resend never overlap. */
+  private readonly inFlight = new Set<string>();
+  /** Background work started by events and the dispatcher, so {@link flush} can wait for it. */
+  private readonly running = new Set<Promise<unknown>>();
+
+  constructor(
+    private readonly subscriptions: WebhookSubscriptionRepository,
+    private readonly deliveries: WebhookDeliveryRepository,
+    private readonly webhookConfig: AppConfig['webhooks'],
+    private readonly logger: Logger
+  ) {}
+
+  /** Queues a delivery for every event `events` publishes; call the returned function to stop. */
+  listen(events: EventBus): () => void {
+    return events.subscribe((event) => {
+      this.track(this.handle(event)).catch((error) => {
+        this.logger.error('Failed to queue webhooks', { eventType: event.type, eventId: event.id, error });
+      });
+    });
+  }
+
+  async listSubscriptions(): Promise<WebhookSubscriptionView[]> {
+    const subscriptions = await this.subscriptions.findAll();
+    return subscriptions
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id))
+      .map(toView);
+  }
+
+  async getSubscription(id: string): Promise<WebhookSubscriptionView> {
+    return toView(await this.findSubscription(id));
+  }
+
+  /** Resolves the new subscription with its secret, the only time the secret is shown. */
+  async createSubscription(input: WebhookSubscriptionInput): Promise<WebhookSubscription> {
+    const now = new Date().toISOString();
+    return this.subscriptions.save({
+      id: randomUUID(),
+      url: input.url,
+      events: input.events,
+      ...(input.description ? { description: input.description } : {}),
+      secret: generateWebhookSecret(),
+      active: input.active,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  /** Applies a partial change; a `null` description clears it. */
+  async updateSubscription(
+    id: string,
+    changes: Partial<Record<keyof WebhookSubscriptionInput, unknown>>
+  ): Promise<WebhookSubscriptionView> {
+    const { description, ...subscription } = await this.findSubscription(id);
+    const kept = changes.description === null || description === undefined ? {} : { description };
+    const patch = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== null));
+
+    const saved = await this.subscriptions.save({
+      ...subscription,
+      ...kept,
+      ...(patch as Partial<WebhookSubscriptionInput>),
+      updatedAt: new Date().toISOString()
+    });
+    return toView(saved);
+  }
+
+  /** Issues a new secret; deliveries from now on are signed with it. */
+  async rotateSecret(id: string): Promise<WebhookSubscription> {
+    const subscription = await this.findSubscription(id);
+    return this.subscriptions.save({
+      ...subscription,
+      secret: generateWebhookSecret(),
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  /** Removes the subscription together with its delivery log. */
+  async deleteSubscription(id: string): Promise<void> {
+    await this.findSubscription(id);
+    for (const delivery of await this.deliveries.findBySubscription(id)) {
+      await this.deliveries.delete(delivery.id);
+    }
+    await this.subscriptions.delete(id);
+  }
+
+  async listDeliveries(filters: DeliveryFilters = {}): Promise<WebhookDelivery[]> {
+    const deliveries = filters.subscriptionId
+      ? await this.deliveries.findBySubscription(filters.subscriptionId)
+      : await this.deliveries.findAll();
+    return deliveries
+      .filter((delivery) => !filters.status || delivery.status === filters.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || a.id.localeCompare(b.id))
+      .slice(0, DELIVERY_LIST_LIMIT);
+  }
+
+  async getDelivery(id: string): Promise<WebhookDelivery> {
+    const delivery = await this.deliveries.findById(id);
+    if (!delivery) {
+      throw new ApiError(404, 'WEBHOOK_DELIVERY_NOT_FOUND', `Webhook delivery with id ${id} was not found.`);
+    }
+    return delivery;
+  }
+
+  /**
+   * Sends a delivery again now, whatever its status, with the same body and
+   * event id. If that attempt fails the delivery gets a fresh round of retries.
+   */
+  async resend(id: string): Promise<WebhookDelivery> {
+    const delivery = await this.getDelivery(id);
+    if (this.inFlight.has(id)) {
+      throw new ApiError(409, 'WEBHOOK_DELIVERY_IN_FLIGHT', 'This delivery is being sent right now; try again shortly.');
+    }
+
+    const queued = await this.deliveries.save({
+      ...delivery,
+      status: 'pending',
+      failures: 0,
+      nextAttemptAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    });
+    return (await this.attempt(queued, true)) ?? queued;
+  }
+
+  /** Sends every pending delivery whose retry is due; resolves how many were attempted. */
+  async dispatchDue(now = new Date()): Promise<number> {
+    const due = (await this.deliveries.findAll()).filter((delivery) =>
+      delivery.status === 'pending' &&
+      !this.inFlight.has(delivery.id) &&
+      delivery.nextAttemptAt !== undefined &&
+      new Date(delivery.nextAttemptAt) <= now);
+
+    let attempted = 0;
+    for (const delivery of due) {
+      if (await this.attempt(delivery)) {
+        attempted += 1;
+      }
+    }
+    return attempted;
+  }
+
+  /** Sends due retries on a timer; call the returned function to stop. */
+  startDispatcher(): () => void {
+    const timer = setInterval(() => {
+      this.track(this.dispatchDue()).catch((error) => {
+        this.logger.error('Failed to dispatch webhook retries', { error });
+      });
+    }, this.webhookConfig.dispatchIntervalSeconds * 1000);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Waits for the deliveries already being sent, then sends every one that is
+   * due; resolves how many were attempted. Used when shutting down, so nothing
+   * queued before the signal waits for the next start.
+   */
+  async flush(): Promise<number> {
+    await Promise.allSettled(this.running);
+    return this.dispatchDue();
+  }
+
+  private track<T>(work: Promise<T>): Promise<T> {
+    this.running.add(work);
+    const done = () => this.running.delete(work);
+    work.then(done, done);
+    return work;
+  }
+
+  private async findSubscription(id: string): Promise<WebhookSubscription> {
+    const subscription = await this.subscriptions.findById(id);
+    if (!subscription) {
+      throw subscriptionNotFound(id);
+    }
+    return subscription;
+  }
+
+  private async handle(event: DomainEvent): Promise<void> {
+    const subscribed = (await this.subscriptions.findAll())
+      .filter((subscription) => subscription.active && subscription.events.includes(event.type));
+
+    const queued: WebhookDelivery[] = [];
+    for (const subscription of subscribed) {
+      const now = new Date().toISOString();
+      queued.push(await this.deliveries.save({
+        id: randomUUID(),
+        subscriptionId: subscription.id,
+        event,
+        status: 'pending',
+        attempts: [],
+        failures: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+        updatedAt: now
+      }));
+    }
+
+    await Promise.all(queued.map((delivery) => this.attempt(delivery)));
+  }
+
+  /**
+   * Makes one attempt and records it. Resolves the updated delivery, or
+   * `undefined` when nothing was sent: it is already in flight, or its
+   * subscription is gone or paused (retries wait for it to be reactivated).
+   */
+  private async attempt(delivery: WebhookDelivery, resend = false): Promise<WebhookDelivery | undefined> {
+    if (this.inFlight.has(delivery.id)) {
+      return undefined;
+    }
+    this.inFlight.add(delivery.id);
+
+    try {
+      const subscription = await this.subscriptions.findById(delivery.subscriptionId);
+      if (!subscription || (!subscription.active && !resend)) {
+        return undefined;
+      }
+
+      const startedAt = new Date();
+      const outcome = await this.send(subscription, delivery);
+      const attempt: WebhookAttempt = {
+        at: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        ...outcome,
+        ...(resend ? { resend } : {})
+      };
+      const succeeded = outcome.statusCode !== undefined && outcome.statusCode >= 200 && outcome.statusCode < 300;
+      const failures = succeeded ? delivery.failures : delivery.failures + 1;
+      const gaveUp = !succeeded && failures >= this.webhookConfig.maxAttempts;
+
+      const { nextAttemptAt: _previous, ...rest } = delivery;
+      const saved = await this.deliveries.save({
+        ...rest,
+        status: succeeded ? 'succeeded' : gaveUp ? 'failed' : 'pending',
+        attempts: [...delivery.attempts, attempt],
+        failures,
+        ...(succeeded || gaveUp ? {} : { nextAttemptAt: this.retryAt(failures).toISOString() }),
+        updatedAt: new Date().toISOString()
+      });
+
+      const fields = {
+        deliveryId: delivery.id,
+        subscriptionId: delivery.subscriptionId,
+        eventType: delivery.event.type,
+        statusCode: outcome.statusCode,
+        durationMs: attempt.durationMs
+      };
+      if (succeeded) {
+        this.logger.debug('Webhook delivered', fields);
+      } else {
+        this.logger.warn(gaveUp ? 'Webhook delivery failed for good' : 'Webhook delivery attempt failed', {
+          ...fields,
+          failures,
+          error: outcome.error
+        });
+      }
+      return saved;
+    } finally {
+      this.inFlight.delete(delivery.id);
+    }
+  }
+
+  /** `retryBaseSeconds` after the first failure, doubling with each one after. */
+  private retryAt(failures: number): Date {
+    const delaySeconds = this.webhookConfig.retryBaseSeconds * 2 ** (failures - 1);
+    return new Date(Date.now() + delaySeconds * 1000);
+  }
+
+  /** POSTs the event; resolves what came back instead of throwing. */
+  private async send(
+    subscription: WebhookSubscription,
+    delivery: WebhookDelivery
+  ): Promise<Pick<WebhookAttempt, 'statusCode' | 'error' | 'responseBody'>> {
+    const body = JSON.stringify(delivery.event);
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'ShopFlow-Webhooks/1.0',
+          'ShopFlow-Event': delivery.event.type,
+          'ShopFlow-Delivery': delivery.id,
+          [SIGNATURE_HEADER]: signWebhook(subscription.secret, body)
+        },
+        body,
+        // A redirect is an answer like any other; following it could send the payload somewhere unintended.
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.webhookConfig.timeoutMs)
+      });
+      const text = (await response.text()).slice(0, RESPONSE_EXCERPT_LENGTH);
+      return { statusCode: response.status, ...(text ? { responseBody: text } : {}) };
+    } catch (error) {
+      return { error: describeFailure(error) };
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import type { Request } from 'express';
+import { single } from '../catalog/query';
+import { ApiError } from '../errors';
+import { WEBHOOK_DELIVERY_STATUSES, type WebhookDeliveryStatus } from '../models/Webhook';
+import type { DeliveryFilters } from './WebhookService';
+
+type Query = Request['query'];
+
+/** Reads the optional `subscriptionId` and `status` filters for the delivery log. */
+export const parseDeliveryFilters = (query: Query): DeliveryFilters => {
+  const subscriptionId = single(query.subscriptionId);
+  const status = single(query.status);
+
+  if (status !== undefined && !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'The query string failed validation.', [
+      { field: 'status', message: `must be one of ${WEBHOOK_DELIVERY_STATUSES.join(', ')}` }
+    ]);
+  }
+
+  return { subscriptionId, status: status as WebhookDeliveryStatus | undefined };
+};
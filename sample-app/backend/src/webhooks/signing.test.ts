@@ -0,0 +1,49 @@
+import { createHmac } from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { generateWebhookSecret, signWebhook } from './signing';
+
+const SECRET = 'whsec_test';
+const BODY = JSON.stringify({ type: 'order.created', data: { id: 'order-1' } });
+
+// What a receiver does with the header and the raw body.
+const verify = (header: string, secret: string, body: string): boolean => {
+  const match = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(header);
+  return !!match && createHmac('sha256', secret).update(`${match[1]}.${body}`).digest('hex') === match[2];
+};
+
+describe('signWebhook', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('signs the timestamp and the raw body with the subscription secret', () => {
+    const header = signWebhook(SECRET, BODY, 1_760_000_000);
+
+    expect(header).toMatch(/^t=1760000000,v1=[0-9a-f]{64}$/);
+    expect(verify(header, SECRET, BODY)).toBe(true);
+  });
+
+  it('fails verification when the body, secret or timestamp differ', () => {
+    const header = signWebhook(SECRET, BODY, 1_760_000_000);
+
+    expect(verify(header, SECRET, `${BODY} `)).toBe(false);
+    expect(verify(header, 'whsec_other', BODY)).toBe(false);
+    expect(verify(header.replace('t=1760000000', 't=1760000001'), SECRET, BODY)).toBe(false);
+  });
+
+  it('uses the current time in seconds by default', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T12:00:00.750Z'));
+
+    expect(signWebhook(SECRET, BODY)).toBe(signWebhook(SECRET, BODY, Date.UTC(2026, 9, 19, 12) / 1000));
+  });
+});
+
+describe('generateWebhookSecret', () => {
+  it('returns a fresh prefixed secret each time', () => {
+    const secret = generateWebhookSecret();
+
+    expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(generateWebhookSecret()).not.toBe(secret);
+  });
+});
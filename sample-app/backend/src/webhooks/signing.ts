@@ -0,0 +1,15 @@
+import { createHmac, randomBytes } from 'crypto';
+
+export const SIGNATURE_HEADER = 'ShopFlow-Signature';
+
+export const generateWebhookSecret = (): string => `whsec_${randomBytes(24).toString('hex')}`;
+
+/**
+ * The `ShopFlow-Signature` value for one attempt: `t=<unix seconds>,v1=<hex>`,
+ * where `v1` is the HMAC-SHA256 of `<t>.<raw body>` under the subscription's
+ * secret. Receivers recompute it and should reject stale timestamps.
+ */
+export const signWebhook = (secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string => {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+};
@@ -1,6 +1,6 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
-import { Header, Footer } from './components';
+import { Header, Footer, RequirePermission } from './components';
 import {
   HomePage,
   ProductsPage,
@@ -9,6 +9,8 @@ import {
   CheckoutPage,
   LoginPage,
   RegisterPage,
+  PasswordResetPage,
+  NewsletterConfirmPage,
   ProfilePage,
   AdminDashboard,
   NotFoundPage
@@ -28,8 +30,18 @@ function App() {
             <Route path="/checkout" element={<CheckoutPage />} />
             <Route path="/login" element={<LoginPage />} />
             <Route path="/register" element={<RegisterPage />} />
+            <Route path="/forgot-password" element={<PasswordResetPage />} />
+            <Route path="/reset-password" element={<PasswordResetPage />} />
+            <Route path="/newsletter/confirm" element={<NewsletterConfirmPage />} />
             <Route path="/profile" element={<ProfilePage />} />
-            <Route path="/admin" element={<AdminDashboard />} />
+            <Route
+              path="/admin"
+              element={
+                <RequirePermission anyOf={['catalog:write', 'orders:manage', 'reviews:moderate', 'users:manage', 'webhooks:manage']}>
+                  <AdminDashboard />
+                </RequirePermission>
+              }
+            />
             <Route path="*" element={<NotFoundPage />} />
           </Routes>
         </main>
@@ -1,6 +1,38 @@
 import React from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { ShoppingCartIcon, UserIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { fetchSuggestions, SearchSuggestions } from '../services';
+
+const SUGGEST_DEBOUNCE_MS = 250;
+
+interface SuggestionOption {
+  key: string;
+  label: string;
+  hint: string;
+  to: string;
+}
+
+// Flattens the grouped API response into one keyboard-navigable list
+const toOptions = (suggestions: SearchSuggestions): SuggestionOption[] => [
+  ...suggestions.queries.map(({ query }) => ({
+    key: `query-${query}`,
+    label: query,
+    hint: 'Popular search',
+    to: `/products?search=${encodeURIComponent(query)}`
+  })),
+  ...suggestions.categories.map(({ value, count }) => ({
+    key: `category-${value}`,
+    label: value,
+    hint: `Category · ${count} ${count === 1 ? 'item' : 'items'}`,
+    to: `/products?category=${encodeURIComponent(value)}`
+  })),
+  ...suggestions.products.map(({ id, name, category }) => ({
+    key: `product-${id}`,
+    label: name,
+    hint: category,
+    to: `/products/${id}`
+  }))
+];
 
 interface HeaderProps {
   cartItemCount?: number;
@@ -15,15 +47,85 @@ const Header: React.FC<HeaderProps> = ({
   userName,
   onSearch
 }) => {
+  const navigate = useNavigate();
   const [searchQuery, setSearchQuery] = React.useState('');
+  const [options, setOptions] = React.useState<SuggestionOption[]>([]);
+  const [activeIndex, setActiveIndex] = React.useState(-1);
+  const [isOpen, setIsOpen] = React.useState(false);
+
+  React.useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setOptions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = window.setTimeout(async () => {
+      try {
+        const suggestions = await fetchSuggestions(query, controller.signal);
+        setOptions(toOptions(suggestions));
+        setActiveIndex(-1);
+      } catch {
+        // Suggestions are best-effort; a failed lookup just hides the dropdown
+        if (!controller.signal.aborted) setOptions([]);
+      }
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchQuery]);
+
+  const closeSuggestions = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const selectOption = (option: SuggestionOption) => {
+    closeSuggestions();
+    setSearchQuery('');
+    navigate(option.to);
+  };
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (onSearch && searchQuery.trim()) {
-      onSearch(searchQuery.trim());
+    const query = searchQuery.trim();
+    if (activeIndex >= 0 && options[activeIndex]) {
+      selectOption(options[activeIndex]);
+      return;
+    }
+    if (!query) return;
+
+    closeSuggestions();
+    if (onSearch) {
+      onSearch(query);
+    } else {
+      navigate(`/products?search=${encodeURIComponent(query)}`);
     }
   };
 
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || options.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex(index => (index + 1) % options.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(index => (index <= 0 ? options.length - 1 : index - 1));
+        break;
+      case 'Escape':
+        closeSuggestions();
+        break;
+    }
+  };
+
+  const showSuggestions = isOpen && options.length > 0;
+
   return (
     <header className="bg-white shadow-sm border-b">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -40,8 +142,19 @@ const Header: React.FC<HeaderProps> = ({
             <form onSubmit={handleSearch} className="relative">
               <input
                 type="text"
+                role="combobox"
+                aria-expanded={showSuggestions}
+                aria-controls="search-suggestions"
+                aria-autocomplete="list"
+                aria-activedescendant={activeIndex >= 0 ? `search-suggestion-${activeIndex}` : undefined}
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  setIsOpen(true);
+                }}
+                onKeyDown={handleKeyDown}
+                onFocus={() => setIsOpen(true)}
+                onBlur={closeSuggestions}
                 placeholder="Search products..."
                 className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
@@ -52,6 +165,35 @@ const Header: React.FC<HeaderProps> = ({
               >
                 Search
               </button>
+
+              {showSuggestions && (
+                <ul
+                  id="search-suggestions"
+                  role="listbox"
+                  className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg py-1"
+                >
+                  {options.map((option, index) => (
+                    <li
+                      key={option.key}
+                      id={`search-suggestion-${index}`}
+                      role="option"
+                      aria-selected={index === activeIndex}
+                      // mousedown fires before the input's blur closes the list
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        selectOption(option);
+                      }}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      className={`flex items-center justify-between px-4 py-2 cursor-pointer ${
+                        index === activeIndex ? 'bg-blue-50 text-blue-700' : 'text-gray-700'
+                      }`}
+                    >
+                      <span className="truncate capitalize">{option.label}</span>
+                      <span className="ml-4 text-xs text-gray-400 flex-shrink-0">{option.hint}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </form>
           </div>
 
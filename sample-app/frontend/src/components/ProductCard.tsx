@@ -1,4 +1,5 @@
 import React from 'react';
+import { discountedPrice } from '../services';
 
 interface Product {
   id: string;
@@ -26,9 +27,7 @@ const ProductCard: React.FC<ProductCardProps> = ({
   onQuickView,
   className = ''
 }) => {
-  const discountedPrice = product.discount 
-    ? product.price * (1 - product.discount / 100) 
-    : product.price;
+  const salePrice = discountedPrice(product.price, product.discount);
 
   const handleAddToCart = () => {
     if (onAddToCart && product.inStock) {
@@ -139,7 +138,7 @@ const ProductCard: React.FC<ProductCardProps> = ({
         <div className="flex items-center justify-between mb-3">
           <div className="flex items-center space-x-2">
             <span className="text-lg font-bold text-gray-900">
-              ${discountedPrice.toFixed(2)}
+              ${salePrice.toFixed(2)}
             </span>
             {product.discount && (
               <span className="text-sm text-gray-500 line-through">
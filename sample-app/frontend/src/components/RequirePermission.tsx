@@ -0,0 +1,70 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import {
+  AuthUser,
+  clearSession,
+  fetchCurrentUser,
+  getSessionUser,
+  hasPermission,
+  Permission,
+  updateSessionUser
+} from '../services';
+
+interface RequirePermissionProps {
+  // The route renders when the user holds at least one of these
+  anyOf: Permission[];
+  children: React.ReactNode;
+}
+
+type GuardState =
+  | { status: 'checking' }
+  | { status: 'signed-out' }
+  | { status: 'ready'; user: AuthUser };
+
+// Route guard: re-checks the user's permissions with the API rather than
+// trusting the cached localStorage copy, which anyone can edit.
+const RequirePermission: React.FC<RequirePermissionProps> = ({ anyOf, children }) => {
+  const location = useLocation();
+  const [state, setState] = React.useState<GuardState>(() =>
+    getSessionUser() ? { status: 'checking' } : { status: 'signed-out' }
+  );
+
+  React.useEffect(() => {
+    if (state.status !== 'checking') return;
+
+    let cancelled = false;
+    fetchCurrentUser()
+      .then((user) => {
+        updateSessionUser(user);
+        if (!cancelled) setState({ status: 'ready', user });
+      })
+      .catch(() => {
+        clearSession();
+        if (!cancelled) setState({ status: 'signed-out' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [state.status]);
+
+  if (state.status === 'checking') {
+    return (
+      <div className="flex justify-center py-24">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (state.status === 'signed-out') {
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+
+  if (!anyOf.some((permission) => hasPermission(state.user, permission))) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RequirePermission;
@@ -2,4 +2,5 @@
 export { default as Header } from './Header';
 export { default as Footer } from './Footer';
 export { default as ProductCard } from './ProductCard';
-export { default as CartItem } from './CartItem';
\ No newline at end of file
+export { default as CartItem } from './CartItem';
+export { default as RequirePermission } from './RequirePermission';
\ No newline at end of file
@@ -1,5 +1,44 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import {
+  AuthUser,
+  clearSession,
+  createWebhook,
+  deleteProduct,
+  deleteWebhook,
+  fetchOrders,
+  fetchProducts,
+  fetchUsers,
+  fetchWebhookDeliveries,
+  fetchWebhooks,
+  getErrorMessage,
+  getSessionUser,
+  hasPermission,
+  fetchModerationQueue,
+  logout,
+  moderateReview,
+  ModerationQueueMeta,
+  Order,
+  OrderStatus,
+  Permission,
+  ProductSummary,
+  QueuedReview,
+  refundOrder,
+  RejectionReason,
+  resendWebhookDelivery,
+  ReviewStatus,
+  rotateWebhookSecret,
+  updateOrderStatus,
+  updateProduct,
+  updateUserRole,
+  updateWebhook,
+  UserRole,
+  WEBHOOK_EVENT_TYPES,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WebhookSubscription
+} from '../services';
 
 interface DashboardStats {
   totalUsers: number;
@@ -8,118 +47,356 @@ interface DashboardStats {
   totalProducts: number;
 }
 
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  role: 'admin' | 'user';
-  status: 'active' | 'inactive';
-  joinDate: string;
-}
+type AdminTab = 'overview' | 'users' | 'products' | 'orders' | 'reviews' | 'webhooks';
+
+// Tabs without a permission are open to anyone the route guard lets in
+const TABS: { id: AdminTab; label: string; permission?: Permission }[] = [
+  { id: 'overview', label: 'Overview' },
+  { id: 'users', label: 'Users', permission: 'users:manage' },
+  { id: 'products', label: 'Products', permission: 'catalog:write' },
+  { id: 'orders', label: 'Orders', permission: 'orders:manage' },
+  { id: 'reviews', label: 'Reviews', permission: 'reviews:moderate' },
+  { id: 'webhooks', label: 'Webhooks', permission: 'webhooks:manage' }
+];
+
+const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected'];
+
+const REJECTION_REASONS: { value: RejectionReason; label: string }[] = [
+  { value: 'SPAM', label: 'Spam or advertising' },
+  { value: 'PROFANITY', label: 'Profanity' },
+  { value: 'OFF_TOPIC', label: 'Not about the product' },
+  { value: 'PERSONAL_INFORMATION', label: 'Personal information' },
+  { value: 'OTHER', label: 'Other (explain in the note)' }
+];
+
+const DELIVERY_BADGES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
 
-interface Product {
-  id: string;
+const emptyWebhookDraft = () => ({ url: '', description: '', events: [...WEBHOOK_EVENT_TYPES] });
+
+const ROLE_OPTIONS: UserRole[] = ['customer', 'staff', 'admin'];
+
+const ROLE_BADGES: Record<UserRole, string> = {
+  admin: 'bg-purple-100 text-purple-800',
+  staff: 'bg-blue-100 text-blue-800',
+  customer: 'bg-gray-100 text-gray-800'
+};
+
+interface ProductDraft {
   name: string;
   category: string;
-  price: number;
-  stock: number;
-  status: 'active' | 'inactive';
+  price: string;
+  discount: string;
+  stockQuantity: string;
 }
 
+const toDraft = (product: ProductSummary): ProductDraft => ({
+  name: product.name,
+  category: product.category,
+  price: String(product.price),
+  discount: product.discount !== undefined ? String(product.discount) : '',
+  stockQuantity: String(product.stockQuantity)
+});
+
 const AdminDashboard: React.FC = () => {
   const navigate = useNavigate();
-  const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'products' | 'orders'>('overview');
+  // RequirePermission has just refreshed this from the API
+  const [sessionUser] = useState(getSessionUser);
+  const [activeTab, setActiveTab] = useState<AdminTab>('overview');
+  const [products, setProducts] = useState<ProductSummary[]>([]);
+  const [productError, setProductError] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ProductDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [users, setUsers] = useState<AuthUser[]>([]);
+  const [userError, setUserError] = useState('');
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [orderError, setOrderError] = useState('');
+  const [reviewStatus, setReviewStatus] = useState<ReviewStatus>('pending');
+  const [reviewQueue, setReviewQueue] = useState<QueuedReview[]>([]);
+  const [reviewMeta, setReviewMeta] = useState<ModerationQueueMeta | null>(null);
+  const [reviewError, setReviewError] = useState('');
+  // The review whose rejection form is open
+  const [rejecting, setRejecting] = useState<{ id: string; reason: RejectionReason; note: string } | null>(null);
+  const [webhooks, setWebhooks] = useState<WebhookSubscription[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [webhookError, setWebhookError] = useState('');
+  const [webhookDraft, setWebhookDraft] = useState(emptyWebhookDraft);
+  // A secret is only ever returned once, straight after creating or rotating it
+  const [revealedSecret, setRevealedSecret] = useState<{ id: string; secret: string } | null>(null);
 
-  // Check admin authentication (simplified)
-  React.useEffect(() => {
-    const user = localStorage.getItem('user');
-    if (!user) {
-      navigate('/login');
-      return;
-    }
-    
-    const userData = JSON.parse(user);
-    // In a real app, check if user has admin role
-    if (userData.email !== 'admin@example.com') {
-      alert('Access denied. Admin privileges required.');
-      navigate('/');
-      return;
-    }
-  }, [navigate]);
+  const canManageUsers = hasPermission(sessionUser, 'users:manage');
+  const canWriteCatalog = hasPermission(sessionUser, 'catalog:write');
+  const canManageOrders = hasPermission(sessionUser, 'orders:manage');
+  const canModerateReviews = hasPermission(sessionUser, 'reviews:moderate');
+  const canManageWebhooks = hasPermission(sessionUser, 'webhooks:manage');
+  const visibleTabs = TABS.filter(tab => !tab.permission || hasPermission(sessionUser, tab.permission));
 
   // Mock data
   const stats: DashboardStats = {
     totalUsers: 1250,
     totalOrders: 3420,
     totalRevenue: 125000,
-    totalProducts: 89
+    totalProducts: products.length
+  };
+
+  const recentUsers = users.slice(0, 3);
+
+  const loadProducts = useCallback(async () => {
+    try {
+      const { data } = await fetchProducts();
+      setProducts(data);
+      setProductError('');
+    } catch (error) {
+      setProductError(getErrorMessage(error, 'Could not load products.'));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProducts();
+  }, [loadProducts]);
+
+  useEffect(() => {
+    if (!canManageUsers) return;
+
+    fetchUsers()
+      .then(setUsers)
+      .catch(error => setUserError(getErrorMessage(error, 'Could not load users.')));
+  }, [canManageUsers]);
+
+  useEffect(() => {
+    if (!canManageOrders) return;
+
+    fetchOrders({ all: true })
+      .then(setOrders)
+      .catch(error => setOrderError(getErrorMessage(error, 'Could not load orders.')));
+  }, [canManageOrders]);
+
+  const loadReviewQueue = useCallback(async () => {
+    try {
+      const { data, meta } = await fetchModerationQueue({ status: reviewStatus, pageSize: 50 });
+      setReviewQueue(data);
+      setReviewMeta(meta);
+      setReviewError('');
+    } catch (error) {
+      setReviewError(getErrorMessage(error, 'Could not load the review queue.'));
+    }
+  }, [reviewStatus]);
+
+  useEffect(() => {
+    if (!canModerateReviews) return;
+    loadReviewQueue();
+  }, [canModerateReviews, loadReviewQueue]);
+
+  const handleApproveReview = async (review: QueuedReview) => {
+    try {
+      await moderateReview(review.id, { status: 'approved' });
+      await loadReviewQueue();
+    } catch (error) {
+      setReviewError(getErrorMessage(error, 'Could not approve the review.'));
+    }
   };
 
-  const recentUsers: User[] = [
-    {
-      id: '1',
-      name: 'John Doe',
-      email: 'john@example.com',
-      role: 'user',
-      status: 'active',
-      joinDate: '2024-01-28'
-    },
-    {
-      id: '2',
-      name: 'Jane Smith',
-      email: 'jane@example.com',
-      role: 'user',
-      status: 'active',
-      joinDate: '2024-01-27'
-    },
-    {
-      id: '3',
-      name: 'Bob Johnson',
-      email: 'bob@example.com',
-      role: 'user',
-      status: 'inactive',
-      joinDate: '2024-01-26'
+  const handleRejectReview = async () => {
+    if (!rejecting) return;
+
+    try {
+      await moderateReview(rejecting.id, {
+        status: 'rejected',
+        reason: rejecting.reason,
+        ...(rejecting.note.trim() ? { note: rejecting.note.trim() } : {})
+      });
+      setRejecting(null);
+      await loadReviewQueue();
+    } catch (error) {
+      setReviewError(getErrorMessage(error, 'Could not reject the review.'));
     }
-  ];
-
-  const products: Product[] = [
-    {
-      id: '1',
-      name: 'Wireless Bluetooth Headphones',
-      category: 'Electronics',
-      price: 79.99,
-      stock: 45,
-      status: 'active'
-    },
-    {
-      id: '2',
-      name: 'Smart Fitness Watch',
-      category: 'Electronics',
-      price: 199.99,
-      stock: 23,
-      status: 'active'
-    },
-    {
-      id: '3',
-      name: 'Wireless Mouse',
-      category: 'Electronics',
-      price: 49.99,
-      stock: 0,
-      status: 'inactive'
-    },
-    {
-      id: '4',
-      name: 'USB-C Hub',
-      category: 'Electronics',
-      price: 99.99,
-      stock: 12,
-      status: 'active'
+  };
+
+  const loadWebhooks = useCallback(async () => {
+    try {
+      const [subscriptions, recent] = await Promise.all([fetchWebhooks(), fetchWebhookDeliveries()]);
+      setWebhooks(subscriptions);
+      setDeliveries(recent);
+      setWebhookError('');
+    } catch (error) {
+      setWebhookError(getErrorMessage(error, 'Could not load webhooks.'));
     }
-  ];
+  }, []);
+
+  useEffect(() => {
+    if (!canManageWebhooks) return;
+    loadWebhooks();
+  }, [canManageWebhooks, loadWebhooks]);
+
+  const toggleDraftEvent = (event: WebhookEventType) => {
+    setWebhookDraft(prev => ({
+      ...prev,
+      events: prev.events.includes(event) ? prev.events.filter(item => item !== event) : [...prev.events, event]
+    }));
+  };
 
-  const handleLogout = () => {
-    localStorage.removeItem('isAuthenticated');
-    localStorage.removeItem('user');
+  const handleCreateWebhook = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const created = await createWebhook({
+        url: webhookDraft.url.trim(),
+        events: webhookDraft.events,
+        ...(webhookDraft.description.trim() ? { description: webhookDraft.description.trim() } : {})
+      });
+      if (created.secret) {
+        setRevealedSecret({ id: created.id, secret: created.secret });
+      }
+      setWebhookDraft(emptyWebhookDraft());
+      await loadWebhooks();
+    } catch (error) {
+      setWebhookError(getErrorMessage(error, 'Could not create the webhook.'));
+    }
+  };
+
+  const handleToggleWebhook = async (webhook: WebhookSubscription) => {
+    try {
+      const updated = await updateWebhook(webhook.id, { active: !webhook.active });
+      setWebhooks(prev => prev.map(item => (item.id === webhook.id ? updated : item)));
+    } catch (error) {
+      setWebhookError(getErrorMessage(error, 'Could not update the webhook.'));
+    }
+  };
+
+  const handleRotateSecret = async (webhook: WebhookSubscription) => {
+    if (!window.confirm(`Issue a new signing secret for ${webhook.url}? The old one stops working immediately.`)) {
+      return;
+    }
+
+    try {
+      const rotated = await rotateWebhookSecret(webhook.id);
+      if (rotated.secret) {
+        setRevealedSecret({ id: rotated.id, secret: rotated.secret });
+      }
+    } catch (error) {
+      setWebhookError(getErrorMessage(error, 'Could not rotate the secret.'));
+    }
+  };
+
+  const handleDeleteWebhook = async (webhook: WebhookSubscription) => {
+    if (!window.confirm(`Delete the webhook for ${webhook.url} and its delivery log?`)) return;
+
+    try {
+      await deleteWebhook(webhook.id);
+      await loadWebhooks();
+    } catch (error) {
+      setWebhookError(getErrorMessage(error, 'Could not delete the webhook.'));
+    }
+  };
+
+  const handleResendDelivery = async (delivery: WebhookDelivery) => {
+    try {
+      const updated = await resendWebhookDelivery(delivery.id);
+      setDeliveries(prev => prev.map(item => (item.id === delivery.id ? updated : item)));
+      setWebhookError('');
+    } catch (error) {
+      setWebhookError(getErrorMessage(error, 'Could not resend the delivery.'));
+    }
+  };
+
+  const handleStatusChange = async (order: Order, status: OrderStatus) => {
+    const note = window.prompt(`Move ${order.number} to ${status}? Add an optional note for the history:`, '');
+    if (note === null) return;
+
+    try {
+      const updated = await updateOrderStatus(order.id, status, note.trim() || undefined);
+      setOrders(prev => prev.map(item => (item.id === order.id ? updated : item)));
+      setOrderError('');
+    } catch (error) {
+      setOrderError(getErrorMessage(error, 'Could not update the order status.'));
+    }
+  };
+
+  const handleRefund = async (order: Order) => {
+    const payment = order.payment;
+    if (!payment) return;
+
+    const refundable = payment.capturedAmount - payment.refundedAmount;
+    const input = window.prompt(
+      `Refund how much of ${order.number}? Up to $${refundable.toFixed(2)}:`,
+      refundable.toFixed(2)
+    );
+    if (input === null) return;
+
+    try {
+      const updated = await refundOrder(order.id, Number(input));
+      setOrders(prev => prev.map(item => (item.id === order.id ? updated : item)));
+      setOrderError('');
+    } catch (error) {
+      setOrderError(getErrorMessage(error, 'Could not refund the order.'));
+    }
+  };
+
+  const handleRoleChange = async (user: AuthUser, role: UserRole) => {
+    if (!window.confirm(`Change ${user.email} from ${user.role} to ${role}?`)) return;
+
+    try {
+      const updated = await updateUserRole(user.id, role);
+      setUsers(prev => prev.map(item => (item.id === user.id ? updated : item)));
+      setUserError('');
+    } catch (error) {
+      setUserError(getErrorMessage(error, 'Could not change the role.'));
+    }
+  };
+
+  const startEditing = (product: ProductSummary) => {
+    setEditingId(product.id);
+    setDraft(toDraft(product));
+    setProductError('');
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const handleSaveProduct = async (id: string) => {
+    if (!draft) return;
+
+    setSaving(true);
+    try {
+      const updated = await updateProduct(id, {
+        name: draft.name,
+        category: draft.category,
+        price: Number(draft.price),
+        discount: draft.discount === '' ? null : Number(draft.discount),
+        stockQuantity: Number(draft.stockQuantity)
+      });
+      setProducts(prev => prev.map(product => (product.id === id ? updated : product)));
+      cancelEditing();
+    } catch (error) {
+      setProductError(getErrorMessage(error, 'Could not save the product.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteProduct = async (product: ProductSummary) => {
+    if (!window.confirm(`Delete "${product.name}"? This cannot be undone.`)) return;
+
+    try {
+      await deleteProduct(product.id);
+      setProducts(prev => prev.filter(item => item.id !== product.id));
+    } catch (error) {
+      setProductError(getErrorMessage(error, 'Could not delete the product.'));
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+    } catch {
+      // The local session is cleared regardless; the refresh token expires on its own
+    }
+    clearSession();
     navigate('/');
   };
 
@@ -186,54 +463,54 @@ const AdminDashboard: React.FC = () => {
 
       {/* Recent Activity */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <div className="bg-white p-6 rounded-lg shadow">
-          <h3 className="text-lg font-medium text-gray-900 mb-4">Recent Users</h3>
-          <div className="space-y-3">
-            {recentUsers.map((user) => (
-              <div key={user.id} className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-gray-900">{user.name}</p>
-                  <p className="text-sm text-gray-500">{user.email}</p>
+        {canManageUsers && (
+          <div className="bg-white p-6 rounded-lg shadow">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Recent Users</h3>
+            <div className="space-y-3">
+              {recentUsers.map((user) => (
+                <div key={user.id} className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{user.firstName} {user.lastName}</p>
+                    <p className="text-sm text-gray-500">{user.email}</p>
+                  </div>
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${ROLE_BADGES[user.role]}`}>
+                    {user.role}
+                  </span>
                 </div>
-                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                  user.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                }`}>
-                  {user.status}
-                </span>
-              </div>
-            ))}
+              ))}
+            </div>
+            <button
+              onClick={() => setActiveTab('users')}
+              className="mt-4 text-sm text-blue-600 hover:text-blue-500"
+            >
+              View all users →
+            </button>
           </div>
-          <button
-            onClick={() => setActiveTab('users')}
-            className="mt-4 text-sm text-blue-600 hover:text-blue-500"
-          >
-            View all users →
-          </button>
-        </div>
+        )}
 
         <div className="bg-white p-6 rounded-lg shadow">
-          <h3 className="text-lg font-medium text-gray-900 mb-4">Low Stock Products</h3>
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Out of Stock Products</h3>
           <div className="space-y-3">
-            {products.filter(p => p.stock < 20).map((product) => (
+            {products.filter(p => !p.inStock).map((product) => (
               <div key={product.id} className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-gray-900">{product.name}</p>
                   <p className="text-sm text-gray-500">{product.category}</p>
                 </div>
-                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                  product.stock === 0 ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
-                }`}>
-                  {product.stock} left
+                <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                  out of stock
                 </span>
               </div>
             ))}
           </div>
-          <button
-            onClick={() => setActiveTab('products')}
-            className="mt-4 text-sm text-blue-600 hover:text-blue-500"
-          >
-            View all products →
-          </button>
+          {canWriteCatalog && (
+            <button
+              onClick={() => setActiveTab('products')}
+              className="mt-4 text-sm text-blue-600 hover:text-blue-500"
+            >
+              View all products →
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -248,30 +525,42 @@ const AdminDashboard: React.FC = () => {
         </button>
       </div>
 
+      {userError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+          {userError}
+        </div>
+      )}
+
       <div className="bg-white shadow overflow-hidden sm:rounded-md">
         <div className="px-4 py-5 sm:p-0">
           <dl className="sm:divide-y sm:divide-gray-200">
-            {recentUsers.map((user) => (
+            {users.map((user) => (
               <div key={user.id} className="py-4 sm:py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
                 <dt className="text-sm font-medium text-gray-500">
                   <div>
-                    <p className="text-gray-900">{user.name}</p>
+                    <p className="text-gray-900">{user.firstName} {user.lastName}</p>
                     <p className="text-gray-500">{user.email}</p>
-                    <p className="text-xs text-gray-400">Joined: {user.joinDate}</p>
+                    <p className="text-xs text-gray-400">Joined: {user.createdAt.slice(0, 10)}</p>
                   </div>
                 </dt>
                 <dd className="mt-1 text-sm text-gray-900 sm:mt-0">
-                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                    user.role === 'admin' ? 'bg-purple-100 text-purple-800' : 'bg-gray-100 text-gray-800'
-                  }`}>
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${ROLE_BADGES[user.role]}`}>
                     {user.role}
                   </span>
                 </dd>
                 <dd className="mt-1 text-sm text-gray-900 sm:mt-0">
-                  <div className="flex space-x-2">
-                    <button className="text-blue-600 hover:text-blue-500">Edit</button>
-                    <button className="text-red-600 hover:text-red-500">Delete</button>
-                  </div>
+                  <select
+                    aria-label={`Role for ${user.email}`}
+                    value={user.role}
+                    // The API refuses changes to your own role
+                    disabled={user.id === sessionUser?.id}
+                    onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                    className="border border-gray-300 rounded-md px-2 py-1 text-sm disabled:opacity-50"
+                  >
+                    {ROLE_OPTIONS.map(role => (
+                      <option key={role} value={role}>{role}</option>
+                    ))}
+                  </select>
                 </dd>
               </div>
             ))}
@@ -290,6 +579,12 @@ const AdminDashboard: React.FC = () => {
         </button>
       </div>
 
+      {productError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+          {productError}
+        </div>
+      )}
+
       <div className="bg-white shadow overflow-x-auto">
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
@@ -304,10 +599,10 @@ const AdminDashboard: React.FC = () => {
                 Price
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Stock
+                Discount
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Status
+                Stock
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Actions
@@ -316,48 +611,453 @@ const AdminDashboard: React.FC = () => {
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
             {products.map((product) => (
-              <tr key={product.id}>
+              editingId === product.id && draft ? (
+                <tr key={product.id} className="bg-blue-50">
+                  <td className="px-6 py-4">
+                    <input
+                      type="text"
+                      aria-label="Product name"
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    />
+                  </td>
+                  <td className="px-6 py-4">
+                    <input
+                      type="text"
+                      aria-label="Category"
+                      value={draft.category}
+                      onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                      className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    />
+                  </td>
+                  <td className="px-6 py-4">
+                    <input
+                      type="number"
+                      aria-label="Price"
+                      min="0"
+                      step="0.01"
+                      value={draft.price}
+                      onChange={(e) => setDraft({ ...draft, price: e.target.value })}
+                      className="w-24 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    />
+                  </td>
+                  <td className="px-6 py-4">
+                    <input
+                      type="number"
+                      aria-label="Discount percentage"
+                      min="0"
+                      max="100"
+                      placeholder="—"
+                      value={draft.discount}
+                      onChange={(e) => setDraft({ ...draft, discount: e.target.value })}
+                      className="w-20 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    />
+                  </td>
+                  <td className="px-6 py-4">
+                    <input
+                      type="number"
+                      aria-label="Units in stock"
+                      min="0"
+                      step="1"
+                      value={draft.stockQuantity}
+                      onChange={(e) => setDraft({ ...draft, stockQuantity: e.target.value })}
+                      className="w-20 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleSaveProduct(product.id)}
+                        disabled={saving}
+                        className="text-green-600 hover:text-green-500 disabled:opacity-50"
+                      >
+                        {saving ? 'Saving...' : 'Save'}
+                      </button>
+                      <button onClick={cancelEditing} className="text-gray-600 hover:text-gray-500">
+                        Cancel
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ) : (
+                <tr key={product.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{product.name}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {product.category}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    ${product.price}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {product.discount ? `${product.discount}%` : '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      product.inStock ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                    }`}>
+                      {product.inStock ? `${product.stockQuantity} in stock` : 'out of stock'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <div className="flex space-x-2">
+                      <button onClick={() => startEditing(product)} className="text-blue-600 hover:text-blue-500">
+                        Edit
+                      </button>
+                      <button onClick={() => handleDeleteProduct(product)} className="text-red-600 hover:text-red-500">
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              )
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+
+  const renderOrders = () => (
+    <div className="space-y-6">
+      <h3 className="text-lg font-medium text-gray-900">Order Management</h3>
+
+      {orderError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+          {orderError}
+        </div>
+      )}
+
+      <div className="bg-white shadow overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Order
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Customer
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Total
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Move To
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {orders.map((order) => (
+              <tr key={order.id}>
                 <td className="px-6 py-4 whitespace-nowrap">
-                  <div className="text-sm font-medium text-gray-900">{product.name}</div>
+                  <div className="text-sm font-medium text-gray-900">{order.number}</div>
+                  <div className="text-xs text-gray-500">{new Date(order.createdAt).toLocaleString()}</div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  {product.category}
+                  {order.shippingAddress.firstName} {order.shippingAddress.lastName}
+                  <div className="text-xs text-gray-400">{order.shippingAddress.email}</div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                  ${product.price}
+                  ${order.total.toFixed(2)}
+                  {order.payment && (
+                    <div className="text-xs text-gray-500">
+                      {order.payment.brand} •••• {order.payment.last4} · {order.payment.status.replace('_', ' ')}
+                    </div>
+                  )}
+                  {order.payment && ['captured', 'partially_refunded'].includes(order.payment.status) && (
+                    <button onClick={() => handleRefund(order)} className="text-xs text-blue-600 hover:text-blue-800">
+                      Refund
+                    </button>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                  {product.stock}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap">
-                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                    product.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                  }`}>
-                    {product.status}
-                  </span>
+                  {order.status}
                 </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                  <div className="flex space-x-2">
-                    <button className="text-blue-600 hover:text-blue-500">Edit</button>
-                    <button className="text-red-600 hover:text-red-500">Delete</button>
-                  </div>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  {order.allowedTransitions.length === 0 ? (
+                    <span className="text-gray-400">Final</span>
+                  ) : (
+                    <select
+                      aria-label={`Next status for ${order.number}`}
+                      value=""
+                      onChange={(e) => handleStatusChange(order, e.target.value as OrderStatus)}
+                      className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    >
+                      <option value="" disabled>Choose…</option>
+                      {order.allowedTransitions.map(status => (
+                        <option key={status} value={status}>{status}</option>
+                      ))}
+                    </select>
+                  )}
                 </td>
               </tr>
             ))}
           </tbody>
         </table>
+        {orders.length === 0 && (
+          <p className="text-center text-gray-500 py-8">No orders yet.</p>
+        )}
       </div>
     </div>
   );
 
-  const renderOrders = () => (
+  const renderReviews = () => (
     <div className="space-y-6">
-      <h3 className="text-lg font-medium text-gray-900">Order Management</h3>
-      <div className="bg-white p-6 rounded-lg shadow text-center">
-        <p className="text-gray-500 mb-4">Order management interface would be implemented here</p>
-        <p className="text-sm text-gray-400">
-          This would include order listing, status updates, and detailed order views.
-        </p>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">Review Moderation</h3>
+        <div className="flex space-x-2">
+          {REVIEW_STATUSES.map(status => (
+            <button
+              key={status}
+              onClick={() => setReviewStatus(status)}
+              className={`px-3 py-1 rounded-md text-sm capitalize ${
+                reviewStatus === status ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700'
+              }`}
+            >
+              {status} ({reviewMeta?.counts[status] ?? 0})
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {reviewError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+          {reviewError}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {reviewQueue.map(review => {
+          const lastDecision = review.moderationHistory[review.moderationHistory.length - 1];
+          return (
+            <div key={review.id} className="bg-white shadow rounded-lg p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="text-sm text-gray-500">
+                  <span className="font-medium text-gray-900">{review.productName}</span>
+                  {' · '}{review.authorName}{' · '}{review.rating}★{' · '}
+                  {new Date(review.updatedAt).toLocaleString()}
+                </div>
+                <div className="flex space-x-2">
+                  {review.status !== 'approved' && (
+                    <button
+                      onClick={() => handleApproveReview(review)}
+                      className="px-3 py-1 bg-green-600 text-white rounded-md text-sm hover:bg-green-700"
+                    >
+                      Approve
+                    </button>
+                  )}
+                  {review.status !== 'rejected' && (
+                    <button
+                      onClick={() => setRejecting({ id: review.id, reason: 'SPAM', note: '' })}
+                      className="px-3 py-1 bg-red-600 text-white rounded-md text-sm hover:bg-red-700"
+                    >
+                      Reject
+                    </button>
+                  )}
+                </div>
+              </div>
+              {review.title && <div className="font-semibold text-gray-900">{review.title}</div>}
+              <p className="text-gray-700 text-sm whitespace-pre-line">{review.comment}</p>
+              {review.flags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {review.flags.map(flag => (
+                    <span
+                      key={flag.rule}
+                      title={flag.message}
+                      className={`text-xs px-2 py-1 rounded ${
+                        flag.category === 'profanity' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                      }`}
+                    >
+                      {flag.category}: {flag.rule}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {lastDecision && (
+                <div className="text-xs text-gray-500">
+                  {lastDecision.status} by {lastDecision.actor.email} on {new Date(lastDecision.at).toLocaleString()}
+                  {lastDecision.reason && ` · ${lastDecision.reason}`}
+                  {lastDecision.note && ` · ${lastDecision.note}`}
+                </div>
+              )}
+              {rejecting?.id === review.id && (
+                <div className="flex flex-wrap items-center gap-2 pt-2 border-t">
+                  <select
+                    aria-label="Rejection reason"
+                    value={rejecting.reason}
+                    onChange={(e) => setRejecting({ ...rejecting, reason: e.target.value as RejectionReason })}
+                    className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                  >
+                    {REJECTION_REASONS.map(reason => (
+                      <option key={reason.value} value={reason.value}>{reason.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    placeholder="Note (optional)"
+                    maxLength={500}
+                    value={rejecting.note}
+                    onChange={(e) => setRejecting({ ...rejecting, note: e.target.value })}
+                    className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                  />
+                  <button
+                    onClick={handleRejectReview}
+                    className="px-3 py-1 bg-red-600 text-white rounded-md text-sm hover:bg-red-700"
+                  >
+                    Confirm Rejection
+                  </button>
+                  <button
+                    onClick={() => setRejecting(null)}
+                    className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {reviewQueue.length === 0 && (
+          <p className="text-center text-gray-500 py-8">No {reviewStatus} reviews.</p>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderWebhooks = () => (
+    <div className="space-y-6">
+      <h3 className="text-lg font-medium text-gray-900">Webhooks</h3>
+
+      {webhookError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+          {webhookError}
+        </div>
+      )}
+
+      <form onSubmit={handleCreateWebhook} className="bg-white shadow rounded-lg p-4 space-y-3">
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="url"
+            required
+            placeholder="https://erp.example.com/hooks/shopflow"
+            value={webhookDraft.url}
+            onChange={(e) => setWebhookDraft({ ...webhookDraft, url: e.target.value })}
+            className="flex-1 min-w-[16rem] border border-gray-300 rounded-md px-2 py-1 text-sm"
+          />
+          <input
+            type="text"
+            placeholder="Description (optional)"
+            maxLength={200}
+            value={webhookDraft.description}
+            onChange={(e) => setWebhookDraft({ ...webhookDraft, description: e.target.value })}
+            className="flex-1 min-w-[12rem] border border-gray-300 rounded-md px-2 py-1 text-sm"
+          />
+          <button
+            type="submit"
+            disabled={webhookDraft.events.length === 0}
+            className="px-3 py-1 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add Webhook
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+          {WEBHOOK_EVENT_TYPES.map(event => (
+            <label key={event} className="flex items-center space-x-1">
+              <input
+                type="checkbox"
+                checked={webhookDraft.events.includes(event)}
+                onChange={() => toggleDraftEvent(event)}
+              />
+              <span>{event}</span>
+            </label>
+          ))}
+        </div>
+      </form>
+
+      {revealedSecret && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm">
+          Signing secret (shown once, copy it now): <code className="font-mono">{revealedSecret.secret}</code>
+          <button onClick={() => setRevealedSecret(null)} className="ml-3 underline">Dismiss</button>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg divide-y">
+        {webhooks.map(webhook => (
+          <div key={webhook.id} className="p-4 flex items-center justify-between">
+            <div className="text-sm">
+              <div className="font-medium text-gray-900">{webhook.url}</div>
+              <div className="text-gray-500">
+                {webhook.description && `${webhook.description} · `}{webhook.events.join(', ')}
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => handleToggleWebhook(webhook)}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+              >
+                {webhook.active ? 'Pause' : 'Resume'}
+              </button>
+              <button
+                onClick={() => handleRotateSecret(webhook)}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+              >
+                New Secret
+              </button>
+              <button
+                onClick={() => handleDeleteWebhook(webhook)}
+                className="px-3 py-1 bg-red-600 text-white rounded-md text-sm hover:bg-red-700"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+        {webhooks.length === 0 && (
+          <p className="text-center text-gray-500 py-8">No webhooks yet.</p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-900">Recent Deliveries</h4>
+        <button onClick={loadWebhooks} className="px-3 py-1 border border-gray-300 rounded-md text-sm">
+          Refresh
+        </button>
+      </div>
+      <div className="bg-white shadow rounded-lg divide-y">
+        {deliveries.map(delivery => {
+          const lastAttempt = delivery.attempts[delivery.attempts.length - 1];
+          const target = webhooks.find(webhook => webhook.id === delivery.subscriptionId);
+          return (
+            <div key={delivery.id} className="p-4 flex items-center justify-between text-sm">
+              <div>
+                <span className={`text-xs px-2 py-1 rounded mr-2 ${DELIVERY_BADGES[delivery.status]}`}>
+                  {delivery.status}
+                </span>
+                <span className="font-medium text-gray-900">{delivery.event.type}</span>
+                <span className="text-gray-500"> → {target?.url ?? delivery.subscriptionId}</span>
+                <div className="text-xs text-gray-500 mt-1">
+                  {new Date(delivery.createdAt).toLocaleString()} · {delivery.attempts.length} attempt(s)
+                  {lastAttempt && ` · last: ${lastAttempt.statusCode ?? lastAttempt.error}`}
+                  {delivery.nextAttemptAt && ` · retry at ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+                </div>
+              </div>
+              <button
+                onClick={() => handleResendDelivery(delivery)}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+              >
+                Resend
+              </button>
+            </div>
+          );
+        })}
+        {deliveries.length === 0 && (
+          <p className="text-center text-gray-500 py-8">No deliveries yet.</p>
+        )}
       </div>
     </div>
   );
@@ -394,15 +1094,10 @@ const AdminDashboard: React.FC = () => {
         {/* Navigation Tabs */}
         <div className="border-b border-gray-200 mb-8">
           <nav className="-mb-px flex space-x-8">
-            {[
-              { id: 'overview', label: 'Overview' },
-              { id: 'users', label: 'Users' },
-              { id: 'products', label: 'Products' },
-              { id: 'orders', label: 'Orders' }
-            ].map((tab) => (
+            {visibleTabs.map((tab) => (
               <button
                 key={tab.id}
-                onClick={() => setActiveTab(tab.id as typeof activeTab)}
+                onClick={() => setActiveTab(tab.id)}
                 className={`py-4 px-1 border-b-2 font-medium text-sm ${
                   activeTab === tab.id
                     ? 'border-blue-500 text-blue-600'
@@ -417,9 +1112,11 @@ const AdminDashboard: React.FC = () => {
 
         {/* Tab Content */}
         {activeTab === 'overview' && renderOverview()}
-        {activeTab === 'users' && renderUsers()}
-        {activeTab === 'products' && renderProducts()}
-        {activeTab === 'orders' && renderOrders()}
+        {activeTab === 'users' && canManageUsers && renderUsers()}
+        {activeTab === 'products' && canWriteCatalog && renderProducts()}
+        {activeTab === 'orders' && canManageOrders && renderOrders()}
+        {activeTab === 'reviews' && canModerateReviews && renderReviews()}
+        {activeTab === 'webhooks' && canManageWebhooks && renderWebhooks()}
       </div>
     </div>
   );
@@ -1,59 +1,103 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import CartItem from '../components/CartItem';
+import {
+  applyCoupon,
+  Cart,
+  fetchCart,
+  getErrorMessage,
+  removeCartItem,
+  removeCoupon,
+  updateCartItem
+} from '../services';
 
 interface CartPageProps {}
 
 const CartPage: React.FC<CartPageProps> = () => {
-  // Mock cart data
-  const [cartItems, setCartItems] = useState([
-    {
-      id: '1',
-      name: 'Wireless Bluetooth Headphones',
-      price: 79.99, // Discounted price
-      quantity: 2,
-      image: 'https://via.placeholder.com/200x200?text=Headphones',
-      maxQuantity: 10
-    },
-    {
-      id: '2',
-      name: 'Smart Fitness Watch',
-      price: 199.99,
-      quantity: 1,
-      image: 'https://via.placeholder.com/200x200?text=Smart+Watch',
-      maxQuantity: 5
-    },
-    {
-      id: '3',
-      name: 'Organic Cotton T-Shirt',
-      price: 25.49, // Discounted price
-      quantity: 3,
-      image: 'https://via.placeholder.com/200x200?text=T-Shirt',
-      maxQuantity: 20
+  const navigate = useNavigate();
+  const [cart, setCart] = useState<Cart | null>(null);
+  const [error, setError] = useState('');
+  const [promoCode, setPromoCode] = useState('');
+  const [promoError, setPromoError] = useState('');
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
+
+  useEffect(() => {
+    fetchCart()
+      .then(setCart)
+      .catch(err => setError(getErrorMessage(err, 'Could not load your cart.')));
+  }, []);
+
+  // CartItem expects the component's own shape; the server decides maxQuantity from stock
+  const cartItems = (cart?.items ?? []).map(item => ({
+    id: item.productId,
+    name: item.name,
+    price: item.unitPrice,
+    quantity: item.quantity,
+    image: item.image,
+    maxQuantity: item.maxQuantity
+  }));
+
+  const handleUpdateQuantity = async (id: string, quantity: number) => {
+    try {
+      setCart(await updateCartItem(id, quantity));
+      setError('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not update the quantity.'));
     }
-  ]);
+  };
 
-  const handleUpdateQuantity = (id: string, quantity: number) => {
-    setCartItems(items =>
-      items.map(item =>
-        item.id === id ? { ...item, quantity } : item
-      )
-    );
+  const handleRemoveItem = async (id: string) => {
+    try {
+      setCart(await removeCartItem(id));
+      setError('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not remove the item.'));
+    }
   };
 
-  const handleRemoveItem = (id: string) => {
-    setCartItems(items => items.filter(item => item.id !== id));
+  const handleApplyPromo = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!promoCode.trim()) return;
+
+    setIsApplyingPromo(true);
+    try {
+      setCart(await applyCoupon(promoCode.trim()));
+      setPromoCode('');
+      setPromoError('');
+    } catch (err) {
+      setPromoError(getErrorMessage(err, 'That code could not be applied.'));
+    } finally {
+      setIsApplyingPromo(false);
+    }
   };
 
-  const subtotal = cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  const tax = subtotal * 0.08; // 8% tax
-  const shipping = subtotal > 50 ? 0 : 9.99; // Free shipping over $50
-  const total = subtotal + tax + shipping;
+  const handleRemovePromo = async (code: string) => {
+    try {
+      setCart(await removeCoupon(code));
+      setPromoError('');
+    } catch (err) {
+      setPromoError(getErrorMessage(err, 'Could not remove the code.'));
+    }
+  };
 
   const handleCheckout = () => {
-    console.log('Proceeding to checkout...');
-    // In a real app, this would navigate to checkout page
+    navigate('/checkout');
   };
 
+  if (!cart) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-12">
+        <div className="flex justify-center py-16">
+          {error ? (
+            <p className="text-red-600">{error}</p>
+          ) : (
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   if (cartItems.length === 0) {
     return (
       <div className="min-h-screen bg-gray-50 py-12">
@@ -64,7 +108,10 @@ const CartPage: React.FC<CartPageProps> = () => {
             </svg>
             <h2 className="mt-6 text-3xl font-bold text-gray-900">Your cart is empty</h2>
             <p className="mt-2 text-gray-500">Start shopping to add items to your cart.</p>
-            <button className="mt-6 bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors">
+            <button
+              onClick={() => navigate('/products')}
+              className="mt-6 bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors"
+            >
               Continue Shopping
             </button>
           </div>
@@ -73,16 +120,25 @@ const CartPage: React.FC<CartPageProps> = () => {
     );
   }
 
+  // Totals come from the server's pricing engine; nothing is recomputed here
+  const { totals } = cart;
+
   return (
     <div className="min-h-screen bg-gray-50 py-12">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between mb-8">
           <h1 className="text-3xl font-bold text-gray-900">Shopping Cart</h1>
           <span className="text-gray-500">
-            {cartItems.length} {cartItems.length === 1 ? 'item' : 'items'}
+            {totals.itemCount} {totals.itemCount === 1 ? 'item' : 'items'}
           </span>
         </div>
 
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
         <div className="lg:grid lg:grid-cols-12 lg:gap-x-12">
           {/* Cart Items */}
           <div className="lg:col-span-8">
@@ -104,7 +160,7 @@ const CartPage: React.FC<CartPageProps> = () => {
 
             {/* Continue Shopping */}
             <div className="mt-6">
-              <button className="text-blue-600 hover:text-blue-500 font-medium">
+              <button onClick={() => navigate('/products')} className="text-blue-600 hover:text-blue-500 font-medium">
                 ← Continue Shopping
               </button>
             </div>
@@ -118,37 +174,75 @@ const CartPage: React.FC<CartPageProps> = () => {
               <div className="space-y-3">
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Subtotal</span>
-                  <span className="text-gray-900">${subtotal.toFixed(2)}</span>
+                  <span className="text-gray-900">${totals.subtotal.toFixed(2)}</span>
                 </div>
+
+                {totals.savings > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">You save</span>
+                    <span className="text-green-600">-${totals.savings.toFixed(2)}</span>
+                  </div>
+                )}
+
+                {cart.promotions.applied.map((promotion) => (
+                  <div key={promotion.promotionId} className="flex justify-between text-sm">
+                    <span className="text-gray-600" title={promotion.explanation}>
+                      {promotion.name}
+                      {promotion.code && (
+                        <button
+                          onClick={() => handleRemovePromo(promotion.code as string)}
+                          className="ml-2 text-xs text-blue-600 hover:text-blue-500"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </span>
+                    <span className="text-green-600">-${promotion.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+
+                {cart.promotions.rejected.map((promotion) => (
+                  <div key={promotion.promotionId ?? promotion.code} className="text-xs text-gray-500">
+                    <span className="font-medium">{promotion.code ?? promotion.name}:</span> {promotion.explanation}
+                    {promotion.code && cart.couponCodes.includes(promotion.code) && (
+                      <button
+                        onClick={() => handleRemovePromo(promotion.code as string)}
+                        className="ml-2 text-blue-600 hover:text-blue-500"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                ))}
                 
                 <div className="flex justify-between text-sm">
-                  <span className="text-gray-600">Tax</span>
-                  <span className="text-gray-900">${tax.toFixed(2)}</span>
+                  <span className="text-gray-600">Tax ({totals.taxRatePercent}%)</span>
+                  <span className="text-gray-900">${totals.tax.toFixed(2)}</span>
                 </div>
                 
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Shipping</span>
                   <span className="text-gray-900">
-                    {shipping === 0 ? 'Free' : `$${shipping.toFixed(2)}`}
+                    {totals.shipping === 0 ? 'Free' : `$${totals.shipping.toFixed(2)}`}
                   </span>
                 </div>
                 
-                {shipping === 0 && (
+                {totals.shipping === 0 && (
                   <div className="text-sm text-green-600">
                     🎉 You qualified for free shipping!
                   </div>
                 )}
                 
-                {shipping > 0 && (
+                {totals.amountToFreeShipping > 0 && (
                   <div className="text-sm text-gray-500">
-                    Add ${(50 - subtotal).toFixed(2)} more for free shipping
+                    Add ${totals.amountToFreeShipping.toFixed(2)} more for free shipping
                   </div>
                 )}
                 
                 <div className="border-t pt-3">
                   <div className="flex justify-between text-lg font-semibold">
                     <span className="text-gray-900">Total</span>
-                    <span className="text-gray-900">${total.toFixed(2)}</span>
+                    <span className="text-gray-900">${totals.total.toFixed(2)}</span>
                   </div>
                 </div>
               </div>
@@ -158,17 +252,26 @@ const CartPage: React.FC<CartPageProps> = () => {
                 <label htmlFor="promo-code" className="block text-sm font-medium text-gray-700 mb-2">
                   Promo Code
                 </label>
-                <div className="flex space-x-2">
+                <form onSubmit={handleApplyPromo} className="flex space-x-2">
                   <input
                     type="text"
                     id="promo-code"
+                    value={promoCode}
+                    onChange={(e) => setPromoCode(e.target.value)}
                     className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     placeholder="Enter code"
                   />
-                  <button className="bg-gray-200 text-gray-700 px-4 py-2 rounded-md text-sm hover:bg-gray-300 transition-colors">
-                    Apply
+                  <button
+                    type="submit"
+                    disabled={isApplyingPromo || !promoCode.trim()}
+                    className="bg-gray-200 text-gray-700 px-4 py-2 rounded-md text-sm hover:bg-gray-300 transition-colors disabled:opacity-50"
+                  >
+                    {isApplyingPromo ? 'Applying...' : 'Apply'}
                   </button>
-                </div>
+                </form>
+                {promoError && (
+                  <p className="mt-2 text-sm text-red-600">{promoError}</p>
+                )}
               </div>
 
               {/* Checkout Button */}
@@ -1,5 +1,17 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import {
+  authorizePayment,
+  Cart,
+  completePaymentChallenge,
+  fetchCart,
+  getApiError,
+  getErrorMessage,
+  Order,
+  placeOrder,
+  reserveCart,
+  StockReservation
+} from '../services';
 
 interface CheckoutForm {
   email: string;
@@ -17,6 +29,9 @@ interface CheckoutForm {
   nameOnCard: string;
 }
 
+// Order errors meaning the authorised payment can't be used for the order
+const UNUSABLE_PAYMENT_CODES = ['PAYMENT_NOT_FOUND', 'PAYMENT_NOT_USABLE', 'PAYMENT_AMOUNT_MISMATCH'];
+
 const CheckoutPage: React.FC = () => {
   const navigate = useNavigate();
   const [currentStep, setCurrentStep] = useState<'shipping' | 'payment' | 'review'>('shipping');
@@ -36,28 +51,42 @@ const CheckoutPage: React.FC = () => {
     nameOnCard: ''
   });
 
-  // Mock cart items
-  const cartItems = [
-    {
-      id: '1',
-      name: 'Wireless Bluetooth Headphones',
-      price: 79.99,
-      quantity: 2,
-      image: 'https://via.placeholder.com/80x80?text=Headphones'
-    },
-    {
-      id: '2',
-      name: 'Smart Fitness Watch',
-      price: 199.99,
-      quantity: 1,
-      image: 'https://via.placeholder.com/80x80?text=Watch'
-    }
-  ];
-
-  const subtotal = cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  const tax = subtotal * 0.08;
-  const shipping = 9.99;
-  const total = subtotal + tax + shipping;
+  const [cart, setCart] = useState<Cart | null>(null);
+  const [isPlacingOrder, setIsPlacingOrder] = useState(false);
+  const [orderError, setOrderError] = useState('');
+  const [reservation, setReservation] = useState<StockReservation | null>(null);
+  const [reservationError, setReservationError] = useState('');
+  // A 3-D Secure challenge the card issuer asked for before authorising
+  const [challenge, setChallenge] = useState<{ paymentId: string; message: string } | null>(null);
+  const [challengeResponse, setChallengeResponse] = useState('');
+  const [placedOrder, setPlacedOrder] = useState<Order | null>(null);
+
+  useEffect(() => {
+    fetchCart()
+      .then(loaded => {
+        // Nothing to check out; send the shopper back to their (empty) cart
+        if (loaded.items.length === 0) {
+          navigate('/cart');
+          return;
+        }
+        setCart(loaded);
+
+        // Hold the stock while the shopper fills in the forms; guests are asked to sign in when ordering
+        reserveCart()
+          .then(setReservation)
+          .catch(err => {
+            if (getApiError(err)?.code !== 'UNAUTHENTICATED') {
+              setReservationError(getErrorMessage(err, 'Could not hold the items in your cart.'));
+            }
+          });
+      })
+      .catch(() => navigate('/cart'));
+  }, [navigate]);
+
+  const cartItems = cart?.items ?? [];
+
+  // Same server-computed totals the cart page shows and the order will store
+  const totals = cart?.totals;
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -80,16 +109,99 @@ const CheckoutPage: React.FC = () => {
     }
   };
 
+  // One key per checkout attempt, so a retry after a dropped connection is replayed by the API
+  // instead of charging the card or placing the order a second time
+  const attemptKey = useRef<string | null>(null);
+  // A payment authorised for an order that hasn't been placed yet; placing the order again uses it
+  // rather than authorising the card a second time and leaving this hold on it unclaimed
+  const authorizedPaymentId = useRef<string | null>(null);
+
+  const idempotencyKey = (step: 'payment' | 'challenge' | 'order') => {
+    attemptKey.current ??= crypto.randomUUID();
+    return `${attemptKey.current}:${step}`;
+  };
+
+  const showCheckoutError = (error: unknown) => {
+    const apiError = getApiError(error);
+    // The API answered, so the next attempt starts afresh; without an answer the same keys are reused.
+    // IDEMPOTENCY_KEY_IN_USE means the first attempt is still running, so its keys stay too.
+    if (apiError && apiError.code !== 'IDEMPOTENCY_KEY_IN_USE') {
+      attemptKey.current = null;
+    }
+    // The order step refused the payment itself (the API voids it when the total changed), so authorise again
+    if (apiError && UNUSABLE_PAYMENT_CODES.includes(apiError.code)) {
+      authorizedPaymentId.current = null;
+    }
+    // Declines that point at a card field send the shopper back to fix it
+    if (apiError?.code === 'PAYMENT_DECLINED' && apiError.details?.some(detail => detail.field !== 'response')) {
+      setCurrentStep('payment');
+    }
+    setOrderError(apiError?.code === 'UNAUTHENTICATED'
+      ? 'Please sign in to place your order.'
+      : getErrorMessage(error, 'Could not place your order. Please try again.'));
+  };
+
+  const submitOrder = async (paymentId: string) => {
+    const { email, firstName, lastName, address, city, state, zipCode, country } = formData;
+    authorizedPaymentId.current = paymentId;
+    const order = await placeOrder(
+      { email, firstName, lastName, address, city, state, zipCode, country },
+      paymentId,
+      idempotencyKey('order')
+    );
+    attemptKey.current = null;
+    authorizedPaymentId.current = null;
+    // Card details are no longer needed once the order is placed
+    setFormData(prev => ({ ...prev, cardNumber: '', expiryDate: '', cvv: '' }));
+    setPlacedOrder(order);
+  };
+
   const handlePlaceOrder = async () => {
-    // Simulate order placement
-    console.log('Placing order...', formData);
-    
-    // In a real app, this would make an API call
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // Navigate to success page or show success message
-    alert('Order placed successfully!');
-    navigate('/');
+    setIsPlacingOrder(true);
+    setOrderError('');
+    try {
+      if (authorizedPaymentId.current) {
+        await submitOrder(authorizedPaymentId.current);
+        return;
+      }
+      const payment = await authorizePayment({
+        number: formData.cardNumber,
+        expiry: formData.expiryDate,
+        cvc: formData.cvv,
+        name: formData.nameOnCard
+      }, idempotencyKey('payment'));
+
+      if (payment.status === 'requires_action') {
+        setChallenge({
+          paymentId: payment.id,
+          message: payment.challenge?.message ?? 'Your bank needs to confirm this payment.'
+        });
+        return;
+      }
+      await submitOrder(payment.id);
+    } catch (error) {
+      showCheckoutError(error);
+    } finally {
+      setIsPlacingOrder(false);
+    }
+  };
+
+  const handleChallengeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+
+    setIsPlacingOrder(true);
+    setOrderError('');
+    try {
+      const payment = await completePaymentChallenge(challenge.paymentId, challengeResponse, idempotencyKey('challenge'));
+      await submitOrder(payment.id);
+    } catch (error) {
+      showCheckoutError(error);
+    } finally {
+      setChallenge(null);
+      setChallengeResponse('');
+      setIsPlacingOrder(false);
+    }
   };
 
   const validateShippingForm = () => {
@@ -97,12 +209,9 @@ const CheckoutPage: React.FC = () => {
            formData.address && formData.city && formData.state && formData.zipCode;
   };
 
-  const validatePaymentForm = () => {
-    if (formData.paymentMethod === 'card') {
-      return formData.cardNumber && formData.expiryDate && formData.cvv && formData.nameOnCard;
-    }
-    return true; // PayPal validation would be handled differently
-  };
+  // Cards are the only method the payment provider supports so far
+  const validatePaymentForm = () =>
+    formData.paymentMethod === 'card' && formData.cardNumber && formData.expiryDate && formData.cvv && formData.nameOnCard;
 
   const renderProgressBar = () => {
     const steps = ['shipping', 'payment', 'review'];
@@ -289,9 +398,10 @@ const CheckoutPage: React.FC = () => {
                 value="paypal"
                 checked={formData.paymentMethod === 'paypal'}
                 onChange={handleInputChange}
+                disabled
                 className="mr-3"
               />
-              <span>PayPal</span>
+              <span className="text-gray-400">PayPal (coming soon)</span>
             </label>
           </div>
         </div>
@@ -406,7 +516,7 @@ const CheckoutPage: React.FC = () => {
         <h3 className="font-semibold text-gray-900 mb-4">Order Items</h3>
         <div className="space-y-3">
           {cartItems.map((item) => (
-            <div key={item.id} className="flex items-center justify-between">
+            <div key={item.productId} className="flex items-center justify-between">
               <div className="flex items-center space-x-3">
                 <img
                   src={item.image}
@@ -419,7 +529,7 @@ const CheckoutPage: React.FC = () => {
                 </div>
               </div>
               <p className="font-medium text-gray-900">
-                ${(item.price * item.quantity).toFixed(2)}
+                ${item.lineTotal.toFixed(2)}
               </p>
             </div>
           ))}
@@ -428,12 +538,47 @@ const CheckoutPage: React.FC = () => {
     </div>
   );
 
+  if (placedOrder) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+        <h1 className="text-3xl font-bold text-gray-900 mb-4">Thank you for your order!</h1>
+        <p className="text-gray-700 mb-2">
+          Order <span className="font-semibold">{placedOrder.number}</span> has been placed.
+        </p>
+        {placedOrder.payment && (
+          <p className="text-gray-600 mb-8">
+            ${placedOrder.payment.amount.toFixed(2)} is authorised on your {placedOrder.payment.brand} card ending
+            in {placedOrder.payment.last4} and will be charged when the order ships.
+          </p>
+        )}
+        <button
+          onClick={() => navigate('/profile')}
+          className="px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          View Your Orders
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <h1 className="text-3xl font-bold text-gray-900 mb-8 text-center">Checkout</h1>
       
       {renderProgressBar()}
 
+      {reservation && (
+        <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-md text-sm text-blue-800">
+          Your items are held until {new Date(reservation.expiresAt).toLocaleTimeString()}.
+        </div>
+      )}
+
+      {reservationError && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+          {reservationError}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Main Content */}
         <div className="lg:col-span-2">
@@ -441,6 +586,41 @@ const CheckoutPage: React.FC = () => {
           {currentStep === 'payment' && renderPaymentForm()}
           {currentStep === 'review' && renderOrderReview()}
 
+          {challenge && (
+            <form
+              onSubmit={handleChallengeSubmit}
+              className="mt-6 p-4 bg-yellow-50 border border-yellow-200 rounded-md space-y-3"
+            >
+              <h3 className="font-semibold text-gray-900">Confirm it's you</h3>
+              <p className="text-sm text-gray-700">{challenge.message}</p>
+              <div className="flex space-x-3">
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  aria-label="Verification code"
+                  value={challengeResponse}
+                  onChange={(e) => setChallengeResponse(e.target.value)}
+                  required
+                  className="border border-gray-300 rounded-md px-3 py-2"
+                />
+                <button
+                  type="submit"
+                  disabled={isPlacingOrder}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Verify
+                </button>
+              </div>
+            </form>
+          )}
+
+          {orderError && (
+            <div className="mt-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+              {orderError}
+            </div>
+          )}
+
           {/* Navigation Buttons */}
           <div className="flex justify-between pt-8">
             <button
@@ -465,9 +645,10 @@ const CheckoutPage: React.FC = () => {
             ) : (
               <button
                 onClick={handlePlaceOrder}
-                className="px-8 py-3 bg-green-600 text-white rounded-md hover:bg-green-700 font-semibold"
+                disabled={isPlacingOrder || challenge !== null}
+                className="px-8 py-3 bg-green-600 text-white rounded-md hover:bg-green-700 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Place Order
+                {isPlacingOrder ? 'Placing Order...' : 'Place Order'}
               </button>
             )}
           </div>
@@ -480,37 +661,47 @@ const CheckoutPage: React.FC = () => {
             
             <div className="space-y-3 mb-4">
               {cartItems.map((item) => (
-                <div key={item.id} className="flex justify-between text-sm">
+                <div key={item.productId} className="flex justify-between text-sm">
                   <span className="text-gray-600">
                     {item.name} × {item.quantity}
                   </span>
                   <span className="text-gray-900">
-                    ${(item.price * item.quantity).toFixed(2)}
+                    ${item.lineTotal.toFixed(2)}
                   </span>
                 </div>
               ))}
             </div>
 
-            <div className="border-t border-gray-200 pt-4 space-y-2">
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Subtotal</span>
-                <span className="text-gray-900">${subtotal.toFixed(2)}</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Tax</span>
-                <span className="text-gray-900">${tax.toFixed(2)}</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Shipping</span>
-                <span className="text-gray-900">${shipping.toFixed(2)}</span>
-              </div>
-              <div className="border-t border-gray-200 pt-2">
-                <div className="flex justify-between font-semibold">
-                  <span className="text-gray-900">Total</span>
-                  <span className="text-gray-900">${total.toFixed(2)}</span>
+            {totals && (
+              <div className="border-t border-gray-200 pt-4 space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Subtotal</span>
+                  <span className="text-gray-900">${totals.subtotal.toFixed(2)}</span>
+                </div>
+                {cart?.promotions.applied.map((promotion) => (
+                  <div key={promotion.promotionId} className="flex justify-between text-sm">
+                    <span className="text-gray-600">{promotion.name}</span>
+                    <span className="text-green-600">-${promotion.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Tax ({totals.taxRatePercent}%)</span>
+                  <span className="text-gray-900">${totals.tax.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Shipping</span>
+                  <span className="text-gray-900">
+                    {totals.shipping === 0 ? 'Free' : `$${totals.shipping.toFixed(2)}`}
+                  </span>
+                </div>
+                <div className="border-t border-gray-200 pt-2">
+                  <div className="flex justify-between font-semibold">
+                    <span className="text-gray-900">Total</span>
+                    <span className="text-gray-900">${totals.total.toFixed(2)}</span>
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
           </div>
         </div>
       </div>
@@ -1,5 +1,6 @@
 import React from 'react';
 import ProductCard from '../components/ProductCard';
+import { addToCart, getErrorMessage } from '../services';
 
 const HomePage: React.FC = () => {
   // Mock data for demonstration
@@ -61,9 +62,12 @@ const HomePage: React.FC = () => {
     { name: 'Health & Beauty', image: 'https://via.placeholder.com/200x200?text=Beauty', count: 578 }
   ];
 
-  const handleAddToCart = (productId: string) => {
-    console.log('Adding product to cart:', productId);
-    // In a real app, this would dispatch an action or call an API
+  const handleAddToCart = async (productId: string) => {
+    try {
+      await addToCart(productId);
+    } catch (error) {
+      window.alert(getErrorMessage(error, 'Could not add the item to your cart.'));
+    }
   };
 
   const handleQuickView = (productId: string) => {
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
+import { getApiError, login, saveSession } from '../services';
 
 interface LoginForm {
   email: string;
@@ -59,24 +60,16 @@ const LoginPage: React.FC = () => {
     setIsLoading(true);
 
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      // Mock authentication - in real app, this would validate against backend
-      if (formData.email === 'demo@example.com' && formData.password === 'password') {
-        localStorage.setItem('isAuthenticated', 'true');
-        localStorage.setItem('user', JSON.stringify({
-          id: '1',
-          email: formData.email,
-          name: 'Demo User'
-        }));
-        
-        navigate('/profile');
-      } else {
-        setErrors({ email: 'Invalid email or password' });
-      }
+      const session = await login(formData.email, formData.password);
+      saveSession(session.user, session.accessToken);
+      navigate('/profile');
     } catch (error) {
-      setErrors({ email: 'Login failed. Please try again.' });
+      const apiError = getApiError(error);
+      setErrors({
+        email: apiError?.code === 'INVALID_CREDENTIALS'
+          ? 'Invalid email or password'
+          : apiError?.message ?? 'Login failed. Please try again.'
+      });
     } finally {
       setIsLoading(false);
     }
@@ -179,9 +172,9 @@ const LoginPage: React.FC = () => {
               </div>
 
               <div className="text-sm">
-                <a href="#" className="font-medium text-blue-600 hover:text-blue-500">
+                <Link to="/forgot-password" className="font-medium text-blue-600 hover:text-blue-500">
                   Forgot your password?
-                </a>
+                </Link>
               </div>
             </div>
 
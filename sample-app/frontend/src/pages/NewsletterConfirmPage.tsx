@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { confirmNewsletter, getErrorMessage, getSessionUser, updateSessionUser } from '../services';
+
+type ConfirmState =
+  | { status: 'confirming' }
+  | { status: 'confirmed'; email: string }
+  | { status: 'failed'; message: string };
+
+// Opened from the link in the newsletter confirmation email
+const NewsletterConfirmPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [state, setState] = useState<ConfirmState>(
+    token ? { status: 'confirming' } : { status: 'failed', message: 'This confirmation link is incomplete.' }
+  );
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+
+    let cancelled = false;
+    confirmNewsletter(token)
+      .then(({ email, confirmedAt }) => {
+        // Keep the cached profile in step if the confirmed account is signed in here
+        const sessionUser = getSessionUser();
+        if (sessionUser?.email === email) {
+          updateSessionUser({ ...sessionUser, subscribeToNewsletter: true, newsletterConfirmedAt: confirmedAt });
+        }
+        if (!cancelled) {
+          setState({ status: 'confirmed', email });
+        }
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setState({ status: 'failed', message: getErrorMessage(error, 'We could not confirm your subscription.') });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full bg-white p-8 rounded-lg shadow-md text-center space-y-4">
+        <h2 className="text-2xl font-extrabold text-gray-900">Newsletter subscription</h2>
+
+        {state.status === 'confirming' && <p className="text-gray-600">Confirming your subscription...</p>}
+
+        {state.status === 'confirmed' && (
+          <p className="text-gray-700">
+            Thanks! <span className="font-medium">{state.email}</span> will now receive the ShopFlow newsletter.
+          </p>
+        )}
+
+        {state.status === 'failed' && <p className="text-red-600">{state.message}</p>}
+
+        <Link to="/products" className="inline-block font-medium text-blue-600 hover:text-blue-500">
+          Continue shopping
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default NewsletterConfirmPage;
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { clearSession, getApiError, getErrorMessage, requestPasswordReset, resetPassword } from '../services';
+
+const inputClass = (hasError: boolean) =>
+  `mt-1 appearance-none relative block w-full px-3 py-2 border ${
+    hasError ? 'border-red-300' : 'border-gray-300'
+  } placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm`;
+
+const buttonClass =
+  'w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed';
+
+// Step one, at /forgot-password: ask for the email to send a link to
+const RequestResetForm: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [sent, setSent] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!/\S+@\S+\.\S+/.test(email)) {
+      setError('Email is invalid');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+    try {
+      await requestPasswordReset(email);
+      setSent(true);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not send the reset email. Please try again.'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <p className="text-sm text-gray-700">
+        If an account exists for <span className="font-medium">{email}</span>, we've emailed it a link to
+        choose a new password. The link expires soon, so use it right away.
+      </p>
+    );
+  }
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmit}>
+      <div>
+        <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+          Email address
+        </label>
+        <input
+          id="email"
+          name="email"
+          type="email"
+          autoComplete="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className={inputClass(Boolean(error))}
+          placeholder="Enter your email"
+        />
+        {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+      </div>
+
+      <button type="submit" disabled={isLoading} className={buttonClass}>
+        {isLoading ? 'Sending...' : 'Email me a reset link'}
+      </button>
+    </form>
+  );
+};
+
+// Step two, at /reset-password?token=: the link from the email
+const ChooseNewPasswordForm: React.FC<{ token: string }> = ({ token }) => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [errors, setErrors] = useState<{ password?: string; confirmPassword?: string; form?: string }>({});
+  const [done, setDone] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors: typeof errors = {};
+    if (password.length < 8) {
+      newErrors.password = 'Password must be at least 8 characters';
+    } else if (!/(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/.test(password)) {
+      newErrors.password = 'Password must contain at least one uppercase letter, one lowercase letter, and one number';
+    }
+    if (password !== confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await resetPassword(token, password);
+      // Every session was revoked, including any on this device
+      clearSession();
+      setDone(true);
+    } catch (err) {
+      const apiError = getApiError(err);
+      setErrors(apiError?.code === 'VALIDATION_ERROR' && apiError.details?.[0]
+        ? { password: apiError.details[0].message }
+        : { form: getErrorMessage(err, 'Could not reset your password. Please try again.') });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (done) {
+    return (
+      <div className="space-y-4 text-sm text-gray-700">
+        <p>Your password has been changed and you've been signed out on every device.</p>
+        <Link to="/login" className="font-medium text-blue-600 hover:text-blue-500">
+          Sign in with your new password
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmit}>
+      {errors.form && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {errors.form}{' '}
+          <Link to="/forgot-password" className="font-medium underline">
+            Request a new link
+          </Link>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+          New password
+        </label>
+        <input
+          id="password"
+          name="password"
+          type="password"
+          autoComplete="new-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={inputClass(Boolean(errors.password))}
+          placeholder="Choose a new password"
+        />
+        {errors.password && <p className="mt-1 text-sm text-red-600">{errors.password}</p>}
+      </div>
+
+      <div>
+        <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+          Confirm new password
+        </label>
+        <input
+          id="confirmPassword"
+          name="confirmPassword"
+          type="password"
+          autoComplete="new-password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          className={inputClass(Boolean(errors.confirmPassword))}
+          placeholder="Type it again"
+        />
+        {errors.confirmPassword && <p className="mt-1 text-sm text-red-600">{errors.confirmPassword}</p>}
+      </div>
+
+      <button type="submit" disabled={isLoading} className={buttonClass}>
+        {isLoading ? 'Saving...' : 'Set new password'}
+      </button>
+    </form>
+  );
+};
+
+const PasswordResetPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
+            {token ? 'Choose a new password' : 'Reset your password'}
+          </h2>
+        </div>
+
+        <div className="bg-white p-8 rounded-lg shadow-md">
+          {token ? <ChooseNewPasswordForm token={token} /> : <RequestResetForm />}
+        </div>
+
+        <div className="text-center">
+          <p className="text-sm text-gray-600">
+            Remembered it?{' '}
+            <Link to="/login" className="font-medium text-blue-600 hover:text-blue-500">
+              Back to sign in
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PasswordResetPage;
@@ -1,5 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
+import {
+  addToCart,
+  clearReviewVote,
+  createReview,
+  deleteReview,
+  discountedPrice,
+  fetchProduct,
+  fetchReviews,
+  getErrorMessage,
+  getSessionUser,
+  hasPermission,
+  updateReview,
+  voteOnReview,
+  type RatingSummary,
+  type Review,
+  type ReviewListMeta,
+  type ReviewSort
+} from '../services';
 
 interface Product {
   id: string;
@@ -20,20 +38,33 @@ interface Product {
   };
 }
 
-interface Review {
-  id: string;
-  userName: string;
-  rating: number;
-  comment: string;
-  date: string;
-  verified: boolean;
-}
+const reviewSortLabels: Record<ReviewSort, string> = {
+  newest: 'Newest',
+  oldest: 'Oldest',
+  helpful: 'Most helpful',
+  'rating-high': 'Highest rating',
+  'rating-low': 'Lowest rating'
+};
+
+const REVIEW_PAGE_SIZE = 5;
+
+const emptyReviewForm = { rating: 5, title: '', comment: '' };
 
 const ProductDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [product, setProduct] = useState<Product | null>(null);
   const [reviews, setReviews] = useState<Review[]>([]);
+  const [reviewMeta, setReviewMeta] = useState<ReviewListMeta | null>(null);
+  const [reviewSummary, setReviewSummary] = useState<RatingSummary | null>(null);
+  const [reviewSort, setReviewSort] = useState<ReviewSort>('newest');
+  const [reviewPage, setReviewPage] = useState(1);
+  const [reviewForm, setReviewForm] = useState(emptyReviewForm);
+  // Set while the signed-in user is editing their own review
+  const [editingReviewId, setEditingReviewId] = useState<string | null>(null);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [reviewNotice, setReviewNotice] = useState<string | null>(null);
+  const sessionUser = getSessionUser();
   const [loading, setLoading] = useState(true);
   const [selectedImage, setSelectedImage] = useState(0);
   const [quantity, setQuantity] = useState(1);
@@ -86,60 +117,137 @@ const ProductDetailPage: React.FC = () => {
     }
   };
 
-  const mockReviews: Review[] = [
-    {
-      id: '1',
-      userName: 'Sarah M.',
-      rating: 5,
-      comment: 'Absolutely fantastic headphones! The noise cancellation is incredible and the sound quality is top-notch. Worth every penny.',
-      date: '2024-12-15',
-      verified: true
-    },
-    {
-      id: '2',
-      userName: 'Mike Chen',
-      rating: 4,
-      comment: 'Great headphones with excellent battery life. The only minor complaint is they can feel a bit heavy during long sessions.',
-      date: '2024-12-10',
-      verified: true
-    },
-    {
-      id: '3',
-      userName: 'Emma Johnson',
-      rating: 5,
-      comment: 'Perfect for my daily commute. The ANC blocks out all the subway noise. Highly recommended!',
-      date: '2024-12-08',
-      verified: false
-    }
-  ];
-
   useEffect(() => {
     loadProduct();
   }, [id]);
 
+  useEffect(() => {
+    loadReviews();
+  }, [id, reviewSort, reviewPage]);
+
   const loadProduct = async () => {
     setLoading(true);
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 500));
-    setProduct(mockProduct);
-    setReviews(mockReviews);
+    // Details are still mocked, but stock and ratings come from the catalog so they are live
+    const live = id ? await fetchProduct(id).catch(() => undefined) : undefined;
+    setProduct(live
+      ? {
+        ...mockProduct,
+        inStock: live.inStock,
+        inventory: live.stockQuantity,
+        rating: live.rating,
+        reviewCount: live.reviewCount
+      }
+      : mockProduct);
     setLoading(false);
   };
 
-  const handleAddToCart = () => {
-    console.log(`Adding ${quantity} of product ${id} to cart`);
-    // In a real app, this would add to cart context
+  const loadReviews = async () => {
+    if (!id) return;
+    try {
+      const { data, meta, summary } = await fetchReviews(id, {
+        sortBy: reviewSort,
+        page: reviewPage,
+        pageSize: REVIEW_PAGE_SIZE
+      });
+      setReviews(data);
+      setReviewMeta(meta);
+      setReviewSummary(summary);
+    } catch (error) {
+      setReviewError(getErrorMessage(error, 'Could not load reviews.'));
+    }
+  };
+
+  // The product's rating is recomputed by the server after every review change
+  const refreshAfterReviewChange = async () => {
+    await loadReviews();
+    const live = id ? await fetchProduct(id).catch(() => undefined) : undefined;
+    if (live) {
+      setProduct((current) => current && { ...current, rating: live.rating, reviewCount: live.reviewCount });
+    }
+  };
+
+  const handleReviewSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!id) return;
+    setReviewError(null);
+    setReviewNotice(null);
+    const input = {
+      rating: reviewForm.rating,
+      comment: reviewForm.comment,
+      ...(reviewForm.title.trim() ? { title: reviewForm.title.trim() } : {})
+    };
+    try {
+      const saved = editingReviewId
+        ? await updateReview(id, editingReviewId, input)
+        : await createReview(id, input);
+      setReviewForm(emptyReviewForm);
+      setEditingReviewId(null);
+      await refreshAfterReviewChange();
+      if (saved.status === 'pending') {
+        setReviewNotice('Thanks! Your review will appear once a moderator has checked it.');
+      }
+    } catch (error) {
+      setReviewError(getErrorMessage(error, 'Could not save your review.'));
+    }
   };
 
-  const handleBuyNow = () => {
-    console.log(`Buy now: ${quantity} of product ${id}`);
-    // In a real app, this would add to cart and navigate to checkout
-    navigate('/checkout');
+  // Clicking the answer already given takes the vote back
+  const handleVote = async (review: Review, helpful: boolean) => {
+    if (!id) return;
+    try {
+      if (review.viewerFoundHelpful === helpful) {
+        await clearReviewVote(id, review.id);
+      } else {
+        await voteOnReview(id, review.id, helpful);
+      }
+      await loadReviews();
+    } catch (error) {
+      setReviewError(getErrorMessage(error, 'Could not record your vote.'));
+    }
   };
 
-  const discountedPrice = product?.discount 
-    ? product.price * (1 - product.discount / 100) 
-    : product?.price || 0;
+  const handleEditReview = (review: Review) => {
+    setEditingReviewId(review.id);
+    setReviewForm({ rating: review.rating, title: review.title ?? '', comment: review.comment });
+  };
+
+  const handleDeleteReview = async (review: Review) => {
+    if (!id || !window.confirm('Delete this review?')) return;
+    try {
+      await deleteReview(id, review.id);
+      if (editingReviewId === review.id) {
+        setEditingReviewId(null);
+        setReviewForm(emptyReviewForm);
+      }
+      await refreshAfterReviewChange();
+    } catch (error) {
+      setReviewError(getErrorMessage(error, 'Could not delete the review.'));
+    }
+  };
+
+  // The server checks the quantity against live stock and rejects what it can't hold
+  const addSelectedQuantity = async (): Promise<boolean> => {
+    if (!id) return false;
+    try {
+      await addToCart(id, quantity);
+      return true;
+    } catch (error) {
+      window.alert(getErrorMessage(error, 'Could not add the item to your cart.'));
+      return false;
+    }
+  };
+
+  const handleAddToCart = async () => {
+    await addSelectedQuantity();
+  };
+
+  const handleBuyNow = async () => {
+    if (await addSelectedQuantity()) {
+      navigate('/checkout');
+    }
+  };
+
+  const salePrice = product ? discountedPrice(product.price, product.discount) : 0;
 
   const renderStars = (rating: number) => {
     return Array.from({ length: 5 }, (_, i) => (
@@ -261,7 +369,7 @@ const ProductDetailPage: React.FC = () => {
           <div className="space-y-2">
             <div className="flex items-center space-x-3">
               <span className="text-3xl font-bold text-gray-900">
-                ${discountedPrice.toFixed(2)}
+                ${salePrice.toFixed(2)}
               </span>
               {product.discount && (
                 <span className="text-xl text-gray-500 line-through">
@@ -276,7 +384,7 @@ const ProductDetailPage: React.FC = () => {
             </div>
             {product.discount && (
               <div className="text-green-600 font-medium">
-                You save ${(product.price - discountedPrice).toFixed(2)}
+                You save ${(product.price - salePrice).toFixed(2)}
               </div>
             )}
           </div>
@@ -388,7 +496,7 @@ const ProductDetailPage: React.FC = () => {
               }`}
             >
               {tab}
-              {tab === 'reviews' && ` (${reviews.length})`}
+              {tab === 'reviews' && ` (${reviewMeta?.total ?? product.reviewCount})`}
             </button>
           ))}
         </div>
@@ -415,25 +523,199 @@ const ProductDetailPage: React.FC = () => {
 
           {activeTab === 'reviews' && (
             <div className="space-y-6">
+              {reviewSummary && reviewSummary.reviewCount > 0 && (
+                <div className="flex items-center space-x-3">
+                  <div className="flex items-center">{renderStars(Math.round(reviewSummary.rating))}</div>
+                  <span className="text-gray-700">
+                    {reviewSummary.rating} out of 5 · {reviewSummary.reviewCount} reviews
+                  </span>
+                </div>
+              )}
+
+              {reviewError && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                  {reviewError}
+                </div>
+              )}
+
+              {reviewNotice && (
+                <div className="bg-blue-50 border border-blue-200 text-blue-700 px-4 py-3 rounded">
+                  {reviewNotice}
+                </div>
+              )}
+
+              {sessionUser ? (
+                <form onSubmit={handleReviewSubmit} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                  <h3 className="font-semibold text-gray-900">
+                    {editingReviewId ? 'Edit your review' : 'Write a review'}
+                  </h3>
+                  <div className="flex items-center space-x-3">
+                    <label htmlFor="review-rating" className="text-sm font-medium text-gray-700">Rating</label>
+                    <select
+                      id="review-rating"
+                      value={reviewForm.rating}
+                      onChange={(e) => setReviewForm({ ...reviewForm, rating: Number(e.target.value) })}
+                      className="px-3 py-1 border border-gray-300 rounded-md"
+                    >
+                      {[5, 4, 3, 2, 1].map((stars) => (
+                        <option key={stars} value={stars}>{stars} star{stars === 1 ? '' : 's'}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <input
+                    type="text"
+                    placeholder="Title (optional)"
+                    maxLength={120}
+                    value={reviewForm.title}
+                    onChange={(e) => setReviewForm({ ...reviewForm, title: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                  <textarea
+                    required
+                    rows={3}
+                    maxLength={5000}
+                    placeholder="What did you think?"
+                    value={reviewForm.comment}
+                    onChange={(e) => setReviewForm({ ...reviewForm, comment: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                  <div className="flex space-x-3">
+                    <button
+                      type="submit"
+                      className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
+                    >
+                      {editingReviewId ? 'Save Review' : 'Submit Review'}
+                    </button>
+                    {editingReviewId && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingReviewId(null);
+                          setReviewForm(emptyReviewForm);
+                        }}
+                        className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                </form>
+              ) : (
+                <p className="text-gray-600">
+                  <button onClick={() => navigate('/login')} className="text-blue-600 hover:text-blue-800">
+                    Sign in
+                  </button>{' '}
+                  to write a review.
+                </p>
+              )}
+
+              <div className="flex items-center justify-end space-x-2">
+                <label htmlFor="review-sort" className="text-sm text-gray-600">Sort by</label>
+                <select
+                  id="review-sort"
+                  value={reviewSort}
+                  onChange={(e) => {
+                    setReviewSort(e.target.value as ReviewSort);
+                    setReviewPage(1);
+                  }}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  {(Object.keys(reviewSortLabels) as ReviewSort[]).map((sort) => (
+                    <option key={sort} value={sort}>{reviewSortLabels[sort]}</option>
+                  ))}
+                </select>
+              </div>
+
+              {reviews.length === 0 && <p className="text-gray-600">No reviews yet.</p>}
+
               {reviews.map((review) => (
                 <div key={review.id} className="border-b border-gray-200 pb-6">
                   <div className="flex items-center justify-between mb-2">
                     <div className="flex items-center space-x-2">
-                      <span className="font-medium">{review.userName}</span>
+                      <span className="font-medium">{review.authorName}</span>
                       {review.verified && (
                         <span className="bg-green-100 text-green-800 text-xs px-2 py-1 rounded">
                           Verified Purchase
                         </span>
                       )}
+                      {review.status === 'pending' && (
+                        <span className="bg-yellow-100 text-yellow-800 text-xs px-2 py-1 rounded">
+                          Awaiting moderation
+                        </span>
+                      )}
+                      {review.status === 'rejected' && (
+                        <span className="bg-red-100 text-red-800 text-xs px-2 py-1 rounded">
+                          Not published
+                        </span>
+                      )}
                     </div>
-                    <span className="text-sm text-gray-500">{review.date}</span>
+                    <span className="text-sm text-gray-500">{new Date(review.createdAt).toLocaleDateString()}</span>
                   </div>
                   <div className="flex items-center mb-2">
                     {renderStars(review.rating)}
+                    {review.title && <span className="ml-2 font-semibold text-gray-900">{review.title}</span>}
                   </div>
                   <p className="text-gray-700">{review.comment}</p>
+                  <div className="mt-2 flex items-center space-x-4 text-sm">
+                    {review.helpfulCount > 0 && (
+                      <span className="text-gray-500">{review.helpfulCount} people found this helpful</span>
+                    )}
+                    {review.status === 'approved' && sessionUser && sessionUser.id !== review.userId && (
+                      <span className="flex items-center space-x-2 text-gray-600">
+                        <span>Was this helpful?</span>
+                        <button
+                          onClick={() => handleVote(review, true)}
+                          className={`px-2 py-0.5 border rounded ${
+                            review.viewerFoundHelpful === true ? 'border-blue-600 text-blue-600' : 'border-gray-300'
+                          }`}
+                        >
+                          Yes
+                        </button>
+                        <button
+                          onClick={() => handleVote(review, false)}
+                          className={`px-2 py-0.5 border rounded ${
+                            review.viewerFoundHelpful === false ? 'border-blue-600 text-blue-600' : 'border-gray-300'
+                          }`}
+                        >
+                          No
+                        </button>
+                      </span>
+                    )}
+                    {sessionUser?.id === review.userId && (
+                      <button onClick={() => handleEditReview(review)} className="text-blue-600 hover:text-blue-800">
+                        Edit
+                      </button>
+                    )}
+                    {(sessionUser?.id === review.userId || hasPermission(sessionUser, 'reviews:moderate')) && (
+                      <button onClick={() => handleDeleteReview(review)} className="text-red-600 hover:text-red-800">
+                        Delete
+                      </button>
+                    )}
+                  </div>
                 </div>
               ))}
+
+              {reviewMeta && reviewMeta.pageCount > 1 && (
+                <div className="flex items-center justify-center space-x-4">
+                  <button
+                    onClick={() => setReviewPage(reviewPage - 1)}
+                    disabled={reviewMeta.page <= 1}
+                    className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+                  >
+                    Previous
+                  </button>
+                  <span className="text-sm text-gray-600">
+                    Page {reviewMeta.page} of {reviewMeta.pageCount}
+                  </span>
+                  <button
+                    onClick={() => setReviewPage(reviewPage + 1)}
+                    disabled={reviewMeta.page >= reviewMeta.pageCount}
+                    className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+                  >
+                    Next
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -1,5 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import {
+  clearSession,
+  fetchCurrentUser,
+  fetchOrders,
+  getErrorMessage,
+  getSessionUser,
+  logout,
+  logoutAll,
+  Order,
+  OrderStatus,
+  updateOrderStatus,
+  updateSessionUser
+} from '../services';
 
 interface User {
   id: string;
@@ -9,116 +22,73 @@ interface User {
   phoneNumber?: string;
   dateOfBirth?: string;
   subscribeToNewsletter: boolean;
-}
-
-interface Order {
-  id: string;
-  date: string;
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
-  total: number;
-  items: Array<{
-    id: string;
-    name: string;
-    quantity: number;
-    price: number;
-    image: string;
-  }>;
+  newsletterConfirmedAt?: string;
 }
 
 const ProfilePage: React.FC = () => {
   const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
   const [orders, setOrders] = useState<Order[]>([]);
+  const [orderError, setOrderError] = useState<string | null>(null);
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'profile' | 'orders' | 'settings'>('profile');
   const [isEditing, setIsEditing] = useState(false);
   const [editForm, setEditForm] = useState<Partial<User>>({});
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [signingOutEverywhere, setSigningOutEverywhere] = useState(false);
 
   useEffect(() => {
     // Check if user is authenticated
-    const isAuthenticated = localStorage.getItem('isAuthenticated');
-    if (!isAuthenticated) {
+    const sessionUser = getSessionUser();
+    if (!sessionUser) {
       navigate('/login');
       return;
     }
 
-    // Load user data
-    const userData = localStorage.getItem('user');
-    if (userData) {
-      const parsedUser = JSON.parse(userData);
-      setUser(parsedUser);
-      setEditForm(parsedUser);
-    }
-
-    // Load mock orders
-    setOrders([
-      {
-        id: 'ORD-001',
-        date: '2024-01-15',
-        status: 'delivered',
-        total: 279.98,
-        items: [
-          {
-            id: '1',
-            name: 'Wireless Bluetooth Headphones',
-            quantity: 2,
-            price: 79.99,
-            image: 'https://via.placeholder.com/60x60?text=Headphones'
-          },
-          {
-            id: '2',
-            name: 'Smart Fitness Watch',
-            quantity: 1,
-            price: 199.99,
-            image: 'https://via.placeholder.com/60x60?text=Watch'
-          }
-        ]
-      },
-      {
-        id: 'ORD-002',
-        date: '2024-01-22',
-        status: 'shipped',
-        total: 149.99,
-        items: [
-          {
-            id: '3',
-            name: 'Wireless Mouse',
-            quantity: 1,
-            price: 49.99,
-            image: 'https://via.placeholder.com/60x60?text=Mouse'
-          },
-          {
-            id: '4',
-            name: 'USB-C Hub',
-            quantity: 1,
-            price: 99.99,
-            image: 'https://via.placeholder.com/60x60?text=Hub'
-          }
-        ]
-      },
-      {
-        id: 'ORD-003',
-        date: '2024-01-28',
-        status: 'processing',
-        total: 299.99,
-        items: [
-          {
-            id: '5',
-            name: 'Mechanical Keyboard',
-            quantity: 1,
-            price: 299.99,
-            image: 'https://via.placeholder.com/60x60?text=Keyboard'
-          }
-        ]
-      }
-    ]);
+    // Show the cached profile straight away, then refresh it from the API
+    setUser(sessionUser);
+    setEditForm(sessionUser);
+    fetchCurrentUser()
+      .then((freshUser) => {
+        updateSessionUser(freshUser);
+        setUser(freshUser);
+        setEditForm(freshUser);
+      })
+      .catch(() => {
+        clearSession();
+        navigate('/login');
+      });
+
+    fetchOrders()
+      .then(setOrders)
+      .catch((error) => setOrderError(getErrorMessage(error, 'Could not load your orders.')));
   }, [navigate]);
 
-  const handleLogout = () => {
-    localStorage.removeItem('isAuthenticated');
-    localStorage.removeItem('user');
+  const handleLogout = async () => {
+    try {
+      await logout();
+    } catch {
+      // The local session is cleared regardless; the refresh token expires on its own
+    }
+    clearSession();
     navigate('/');
   };
 
+  const handleLogoutAll = async () => {
+    if (!window.confirm('Sign out of ShopFlow on every device, including this one?')) return;
+
+    setSigningOutEverywhere(true);
+    setSessionError(null);
+    try {
+      await logoutAll();
+      clearSession();
+      navigate('/login');
+    } catch (error) {
+      setSessionError(getErrorMessage(error, 'Could not sign out of your other devices.'));
+      setSigningOutEverywhere(false);
+    }
+  };
+
   const handleEditProfile = () => {
     setIsEditing(true);
   };
@@ -146,7 +116,19 @@ const ProfilePage: React.FC = () => {
     }));
   };
 
-  const getStatusColor = (status: Order['status']) => {
+  const handleCancelOrder = async (order: Order) => {
+    if (!window.confirm(`Cancel order ${order.number}?`)) return;
+
+    try {
+      const updated = await updateOrderStatus(order.id, 'cancelled');
+      setOrders(prev => prev.map(item => (item.id === order.id ? updated : item)));
+      setOrderError(null);
+    } catch (error) {
+      setOrderError(getErrorMessage(error, 'Could not cancel the order.'));
+    }
+  };
+
+  const getStatusColor = (status: OrderStatus) => {
     switch (status) {
       case 'delivered':
         return 'bg-green-100 text-green-800';
@@ -362,7 +344,11 @@ const ProfilePage: React.FC = () => {
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Newsletter</label>
                     <p className="mt-1 text-sm text-gray-900">
-                      {user.subscribeToNewsletter ? 'Subscribed' : 'Not subscribed'}
+                      {!user.subscribeToNewsletter
+                        ? 'Not subscribed'
+                        : user.newsletterConfirmedAt
+                          ? 'Subscribed'
+                          : 'Awaiting confirmation (check your email)'}
                     </p>
                   </div>
                 </div>
@@ -374,7 +360,11 @@ const ProfilePage: React.FC = () => {
           {activeTab === 'orders' && (
             <div className="space-y-6">
               <h2 className="text-lg font-medium text-gray-900">Order History</h2>
-              
+
+              {orderError && (
+                <p className="text-sm text-red-600">{orderError}</p>
+              )}
+
               {orders.length === 0 ? (
                 <div className="text-center py-12">
                   <p className="text-gray-500">No orders found</p>
@@ -391,9 +381,9 @@ const ProfilePage: React.FC = () => {
                     <div key={order.id} className="border border-gray-200 rounded-lg p-6">
                       <div className="flex items-center justify-between mb-4">
                         <div>
-                          <h3 className="text-lg font-medium text-gray-900">Order {order.id}</h3>
+                          <h3 className="text-lg font-medium text-gray-900">Order {order.number}</h3>
                           <p className="text-sm text-gray-600">
-                            Placed on {new Date(order.date).toLocaleDateString()}
+                            Placed on {new Date(order.createdAt).toLocaleDateString()}
                           </p>
                         </div>
                         <div className="text-right">
@@ -408,7 +398,7 @@ const ProfilePage: React.FC = () => {
 
                       <div className="space-y-3">
                         {order.items.map((item) => (
-                          <div key={item.id} className="flex items-center space-x-4">
+                          <div key={item.productId} className="flex items-center space-x-4">
                             <img
                               src={item.image}
                               alt={item.name}
@@ -419,16 +409,66 @@ const ProfilePage: React.FC = () => {
                               <p className="text-sm text-gray-600">Qty: {item.quantity}</p>
                             </div>
                             <p className="text-sm font-medium text-gray-900">
-                              ${(item.price * item.quantity).toFixed(2)}
+                              ${item.lineTotal.toFixed(2)}
                             </p>
                           </div>
                         ))}
                       </div>
 
+                      {expandedOrderId === order.id && (
+                        <dl className="mt-4 space-y-1 text-sm">
+                          {([
+                            ['Subtotal', order.subtotal],
+                            ...order.promotions.map((promotion): [string, number] => [promotion.name, -promotion.amount]),
+                            ['Tax', order.tax],
+                            ['Shipping', order.shipping],
+                            ['Total', order.total]
+                          ] as [string, number][]).map(([label, amount]) => (
+                            <div key={label} className="flex justify-between">
+                              <dt className="text-gray-600">{label}</dt>
+                              <dd className="text-gray-900">
+                                {amount < 0 ? `-$${(-amount).toFixed(2)}` : `$${amount.toFixed(2)}`}
+                              </dd>
+                            </div>
+                          ))}
+                          {order.payment && (
+                            <div className="flex justify-between">
+                              <dt className="text-gray-600">Payment</dt>
+                              <dd className="text-gray-900 capitalize">
+                                {order.payment.brand} •••• {order.payment.last4} ({order.payment.status.replace('_', ' ')})
+                                {order.payment.refundedAmount > 0 && `, $${order.payment.refundedAmount.toFixed(2)} refunded`}
+                              </dd>
+                            </div>
+                          )}
+                        </dl>
+                      )}
+
+                      {expandedOrderId === order.id && (
+                        <ol className="mt-4 space-y-1 text-sm text-gray-600">
+                          {order.history.map((change) => (
+                            <li key={`${change.at}-${change.to}`}>
+                              {new Date(change.at).toLocaleString()}: {change.from ? `${change.from} → ${change.to}` : 'Order placed'}
+                              {change.note && <span className="text-gray-500"> ({change.note})</span>}
+                            </li>
+                          ))}
+                        </ol>
+                      )}
+
                       <div className="mt-4 pt-4 border-t border-gray-200 flex justify-between">
-                        <button className="text-sm text-blue-600 hover:text-blue-500">
-                          View Details
+                        <button
+                          onClick={() => setExpandedOrderId(expandedOrderId === order.id ? null : order.id)}
+                          className="text-sm text-blue-600 hover:text-blue-500"
+                        >
+                          {expandedOrderId === order.id ? 'Hide Details' : 'View Details'}
                         </button>
+                        {order.status === 'pending' && order.allowedTransitions.includes('cancelled') && (
+                          <button
+                            onClick={() => handleCancelOrder(order)}
+                            className="text-sm text-red-600 hover:text-red-500"
+                          >
+                            Cancel Order
+                          </button>
+                        )}
                         {order.status === 'delivered' && (
                           <button className="text-sm text-blue-600 hover:text-blue-500">
                             Leave Review
@@ -487,6 +527,23 @@ const ProfilePage: React.FC = () => {
                   </div>
                 </div>
 
+                <div className="border border-gray-200 rounded-lg p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Sessions</h3>
+                  <p className="text-sm text-gray-600 mb-4">
+                    Signed in somewhere you no longer use? Log out everywhere to revoke every session, including this one.
+                  </p>
+                  {sessionError && (
+                    <p className="text-sm text-red-600 mb-4">{sessionError}</p>
+                  )}
+                  <button
+                    onClick={handleLogoutAll}
+                    disabled={signingOutEverywhere}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {signingOutEverywhere ? 'Logging out...' : 'Log out of all devices'}
+                  </button>
+                </div>
+
                 <div className="border border-red-200 rounded-lg p-6">
                   <h3 className="text-lg font-medium text-red-900 mb-4">Danger Zone</h3>
                   <p className="text-sm text-red-600 mb-4">
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
+import { getApiError, register, saveSession } from '../services';
 
 interface RegisterForm {
   firstName: string;
@@ -104,27 +105,32 @@ const RegisterPage: React.FC = () => {
     setIsLoading(true);
 
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Mock successful registration
-      const userData = {
-        id: Date.now().toString(),
+      const session = await register({
         firstName: formData.firstName,
         lastName: formData.lastName,
         email: formData.email,
-        phoneNumber: formData.phoneNumber,
-        dateOfBirth: formData.dateOfBirth,
-        subscribeToNewsletter: formData.subscribeToNewsletter
-      };
-
-      localStorage.setItem('isAuthenticated', 'true');
-      localStorage.setItem('user', JSON.stringify(userData));
-      
+        password: formData.password,
+        phoneNumber: formData.phoneNumber || undefined,
+        dateOfBirth: formData.dateOfBirth || undefined,
+        subscribeToNewsletter: formData.subscribeToNewsletter,
+        agreeToTerms: formData.agreeToTerms
+      });
+      saveSession(session.user, session.accessToken);
+
       alert('Registration successful! Welcome to our platform.');
       navigate('/profile');
     } catch (error) {
-      setErrors({ email: 'Registration failed. Please try again.' });
+      const apiError = getApiError(error);
+      // Map the server's per-field details back onto the form
+      const fieldErrors: Partial<Record<keyof RegisterForm, string>> = {};
+      apiError?.details?.forEach(({ field, message }) => {
+        if (field in formData) {
+          fieldErrors[field as keyof RegisterForm] = message;
+        }
+      });
+      setErrors(Object.keys(fieldErrors).length > 0
+        ? fieldErrors
+        : { email: apiError?.message ?? 'Registration failed. Please try again.' });
     } finally {
       setIsLoading(false);
     }
@@ -6,6 +6,8 @@ export { default as CartPage } from './CartPage';
 export { default as CheckoutPage } from './CheckoutPage';
 export { default as LoginPage } from './LoginPage';
 export { default as RegisterPage } from './RegisterPage';
+export { default as PasswordResetPage } from './PasswordResetPage';
+export { default as NewsletterConfirmPage } from './NewsletterConfirmPage';
 export { default as ProfilePage } from './ProfilePage';
 export { default as AdminDashboard } from './AdminDashboard';
 export { default as NotFoundPage } from './NotFoundPage';
\ No newline at end of file
@@ -0,0 +1,86 @@
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import type { AuthSession } from './auth';
+import { clearSession, getAccessToken, saveSession } from './session';
+
+export interface ApiErrorDetail {
+  field: string;
+  message: string;
+}
+
+export interface ApiErrorBody {
+  error: {
+    code: string;
+    message: string;
+    details?: ApiErrorDetail[];
+  };
+}
+
+// Shared HTTP client for the ShopFlow backend
+export const api = axios.create({
+  baseURL: import.meta.env.VITE_API_URL || 'http://localhost:4000/api',
+  withCredentials: true
+});
+
+api.interceptors.request.use((config) => {
+  const token = getAccessToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// Sends an `Idempotency-Key` so a retried POST is replayed by the API instead of repeated
+export const idempotencyHeaders = (key?: string) =>
+  key ? { headers: { 'Idempotency-Key': key } } : undefined;
+
+// Requests that must never trigger a refresh-and-retry themselves
+const NO_REFRESH_URLS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout'];
+
+type RetriableRequest = InternalAxiosRequestConfig & { _retried?: boolean };
+
+let pendingRefresh: Promise<string> | null = null;
+
+// One refresh at a time: concurrent 401s all wait on the same rotation,
+// since presenting the old refresh token twice would revoke the session.
+const refreshAccessToken = () => {
+  pendingRefresh ??= api
+    .post<{ data: AuthSession }>('/auth/refresh')
+    .then(({ data }) => {
+      saveSession(data.data.user, data.data.accessToken);
+      return data.data.accessToken;
+    })
+    .finally(() => {
+      pendingRefresh = null;
+    });
+  return pendingRefresh;
+};
+
+api.interceptors.response.use(undefined, async (error: AxiosError) => {
+  const request = error.config as RetriableRequest | undefined;
+  const canRetry = error.response?.status === 401 &&
+    request && !request._retried && !NO_REFRESH_URLS.includes(request.url ?? '');
+
+  if (!canRetry) {
+    return Promise.reject(error);
+  }
+
+  request._retried = true;
+  try {
+    await refreshAccessToken();
+  } catch {
+    clearSession();
+    return Promise.reject(error);
+  }
+  return api(request);
+});
+
+// Pulls the `{ error }` envelope out of a failed request, if there is one
+export const getApiError = (error: unknown): ApiErrorBody['error'] | undefined => {
+  if (axios.isAxiosError<ApiErrorBody>(error)) {
+    return error.response?.data?.error;
+  }
+  return undefined;
+};
+
+export const getErrorMessage = (error: unknown, fallback = 'Something went wrong. Please try again.') =>
+  getApiError(error)?.message ?? fallback;
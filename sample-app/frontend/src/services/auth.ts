@@ -0,0 +1,89 @@
+import { api } from './api';
+
+export type UserRole = 'customer' | 'staff' | 'admin';
+
+export type Permission =
+  | 'catalog:write'
+  | 'orders:manage'
+  | 'reviews:moderate'
+  | 'users:manage'
+  | 'webhooks:manage';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  phoneNumber?: string;
+  dateOfBirth?: string;
+  subscribeToNewsletter: boolean;
+  // Set once the emailed confirmation link is used
+  newsletterConfirmedAt?: string;
+  role: UserRole;
+  permissions: Permission[];
+  createdAt: string;
+}
+
+// UI hint only; the API enforces the same permissions on every request
+export const hasPermission = (user: AuthUser | null, permission: Permission) =>
+  Boolean(user?.permissions?.includes(permission));
+
+export interface AuthSession {
+  user: AuthUser;
+  accessToken: string;
+  tokenType: 'Bearer';
+  expiresIn: string;
+}
+
+export interface RegisterInput {
+  firstName: string;
+  lastName: string;
+  email: string;
+  password: string;
+  phoneNumber?: string;
+  dateOfBirth?: string;
+  subscribeToNewsletter: boolean;
+  agreeToTerms: boolean;
+}
+
+export const register = async (input: RegisterInput) => {
+  const { data } = await api.post<{ data: AuthSession }>('/auth/register', input);
+  return data.data;
+};
+
+export const login = async (email: string, password: string) => {
+  const { data } = await api.post<{ data: AuthSession }>('/auth/login', { email, password });
+  return data.data;
+};
+
+export const fetchCurrentUser = async () => {
+  const { data } = await api.get<{ data: AuthUser }>('/auth/me');
+  return data.data;
+};
+
+// Revokes this device's session and clears its refresh cookie
+export const logout = async () => {
+  await api.post('/auth/logout');
+};
+
+// Revokes every session for the signed-in user, on all devices
+export const logoutAll = async () => {
+  const { data } = await api.post<{ data: { revokedSessions: number } }>('/auth/logout-all');
+  return data.data;
+};
+
+// Always succeeds, whether or not the email has an account
+export const requestPasswordReset = async (email: string) => {
+  await api.post('/auth/password-reset', { email });
+};
+
+// Sets a new password with the token from the reset email; signs out every device
+export const resetPassword = async (token: string, password: string) => {
+  await api.post('/auth/password-reset/confirm', { token, password });
+};
+
+// Confirms a newsletter subscription with the token from the confirmation email
+export const confirmNewsletter = async (token: string) => {
+  const { data } = await api.post<{ data: { email: string; confirmedAt: string } }>('/newsletter/confirm', { token });
+  return data.data;
+};
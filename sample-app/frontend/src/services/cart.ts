@@ -0,0 +1,75 @@
+import { api } from './api';
+import type { PromotionOutcome, QuoteTotals } from './pricing';
+
+export interface CartItemView {
+  productId: string;
+  name: string;
+  image: string;
+  category: string;
+  unitPrice: number;
+  listPrice: number;
+  quantity: number;
+  maxQuantity: number;
+  lineTotal: number;
+}
+
+export interface Cart {
+  items: CartItemView[];
+  couponCodes: string[];
+  promotions: PromotionOutcome;
+  /** Server-computed subtotal, tax, shipping and total */
+  totals: QuoteTotals;
+  updatedAt: string | null;
+}
+
+export interface StockReservation {
+  id: string;
+  lines: { productId: string; quantity: number }[];
+  createdAt: string;
+  /** The held units go back on sale after this */
+  expiresAt: string;
+}
+
+// Guests are identified by an httpOnly cookie, so these work signed in or out
+export const fetchCart = async () => {
+  const { data } = await api.get<{ data: Cart }>('/cart');
+  return data.data;
+};
+
+export const addToCart = async (productId: string, quantity = 1) => {
+  const { data } = await api.post<{ data: Cart }>('/cart/items', { productId, quantity });
+  return data.data;
+};
+
+export const updateCartItem = async (productId: string, quantity: number) => {
+  const { data } = await api.patch<{ data: Cart }>(`/cart/items/${productId}`, { quantity });
+  return data.data;
+};
+
+export const removeCartItem = async (productId: string) => {
+  const { data } = await api.delete<{ data: Cart }>(`/cart/items/${productId}`);
+  return data.data;
+};
+
+export const clearCart = async () => {
+  const { data } = await api.delete<{ data: Cart }>('/cart');
+  return data.data;
+};
+
+// Refused with COUPON_NOT_APPLICABLE (and the reason) when the code wouldn't apply now
+export const applyCoupon = async (code: string) => {
+  const { data } = await api.post<{ data: Cart }>('/cart/coupons', { code });
+  return data.data;
+};
+
+export const removeCoupon = async (code: string) => {
+  const { data } = await api.delete<{ data: Cart }>(`/cart/coupons/${encodeURIComponent(code)}`);
+  return data.data;
+};
+
+// Starts checkout: holds the signed-in user's cart stock until `expiresAt`.
+// Calling it again re-reserves the current cart and restarts the clock.
+export const reserveCart = async () => {
+  const { data } = await api.post<{ data: StockReservation }>('/cart/reservation');
+  return data.data;
+};
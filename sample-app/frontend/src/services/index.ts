@@ -0,0 +1,13 @@
+// Central exports for API service modules
+export * from './api';
+export * from './products';
+export * from './search';
+export * from './auth';
+export * from './cart';
+export * from './orders';
+export * from './payments';
+export * from './pricing';
+export * from './reviews';
+export * from './session';
+export * from './users';
+export * from './webhooks';
@@ -0,0 +1,88 @@
+import { api, idempotencyHeaders } from './api';
+import type { OrderPayment } from './payments';
+import type { AppliedPromotion } from './pricing';
+
+export type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+
+export interface ShippingAddress {
+  email: string;
+  firstName: string;
+  lastName: string;
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+}
+
+export interface OrderLine {
+  productId: string;
+  name: string;
+  image: string;
+  unitPrice: number;
+  quantity: number;
+  lineTotal: number;
+}
+
+export interface OrderStatusChange {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  at: string;
+  actor: { id: string | null; email?: string; role: string };
+  note?: string;
+}
+
+export interface Order {
+  id: string;
+  number: string;
+  userId: string;
+  status: OrderStatus;
+  items: OrderLine[];
+  subtotal: number;
+  savings: number;
+  promotionDiscount: number;
+  promotions: AppliedPromotion[];
+  tax: number;
+  shipping: number;
+  total: number;
+  shippingAddress: ShippingAddress;
+  /** Captured when the order ships, voided or refunded when it is cancelled */
+  payment?: OrderPayment;
+  history: OrderStatusChange[];
+  /** Statuses the server's transition table allows next */
+  allowedTransitions: OrderStatus[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Places an order from the signed-in user's cart, paid by an authorised payment; the server then empties the cart
+export const placeOrder = async (shippingAddress: ShippingAddress, paymentId: string, idempotencyKey?: string) => {
+  const { data } = await api.post<{ data: Order }>(
+    '/orders',
+    { ...shippingAddress, paymentId },
+    idempotencyHeaders(idempotencyKey)
+  );
+  return data.data;
+};
+
+// `all` lists every customer's orders and needs the orders:manage permission
+export const fetchOrders = async ({ all = false } = {}) => {
+  const { data } = await api.get<{ data: Order[] }>('/orders', { params: all ? { scope: 'all' } : {} });
+  return data.data;
+};
+
+export const fetchOrder = async (id: string) => {
+  const { data } = await api.get<{ data: Order }>(`/orders/${id}`);
+  return data.data;
+};
+
+export const updateOrderStatus = async (id: string, status: OrderStatus, note?: string) => {
+  const { data } = await api.patch<{ data: Order }>(`/orders/${id}/status`, { status, ...(note ? { note } : {}) });
+  return data.data;
+};
+
+// Needs orders:manage; refunds everything not yet refunded when no amount is given
+export const refundOrder = async (id: string, amount?: number) => {
+  const { data } = await api.post<{ data: Order }>(`/orders/${id}/refunds`, amount === undefined ? {} : { amount });
+  return data.data;
+};
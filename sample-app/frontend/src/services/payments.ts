@@ -0,0 +1,74 @@
+import { api, idempotencyHeaders } from './api';
+
+export type PaymentStatus =
+  | 'requires_action'
+  | 'authorized'
+  | 'captured'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'voided'
+  | 'declined';
+
+export interface CardSummary {
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+}
+
+export interface Payment {
+  id: string;
+  provider: string;
+  orderId?: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  card: CardSummary;
+  capturedAmount: number;
+  refundedAmount: number;
+  /** Present while a 3-D Secure challenge is waiting for the cardholder */
+  challenge?: { message: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** What an order keeps of its payment */
+export interface OrderPayment {
+  id: string;
+  status: PaymentStatus;
+  amount: number;
+  capturedAmount: number;
+  refundedAmount: number;
+  brand: string;
+  last4: string;
+}
+
+export interface CardInput {
+  number: string;
+  /** MM/YY */
+  expiry: string;
+  cvc: string;
+  name: string;
+}
+
+// Authorises the signed-in user's cart total. Declines come back as 402 PAYMENT_DECLINED;
+// the card data goes straight to the API and is never kept in the browser.
+// Retrying with the same idempotency key replays the first result instead of charging twice.
+export const authorizePayment = async (card: CardInput, idempotencyKey?: string) => {
+  const { data } = await api.post<{ data: Payment }>('/payments', card, idempotencyHeaders(idempotencyKey));
+  return data.data;
+};
+
+export const completePaymentChallenge = async (id: string, response: string, idempotencyKey?: string) => {
+  const { data } = await api.post<{ data: Payment }>(
+    `/payments/${id}/challenge`,
+    { response },
+    idempotencyHeaders(idempotencyKey)
+  );
+  return data.data;
+};
+
+export const fetchPayment = async (id: string) => {
+  const { data } = await api.get<{ data: Payment }>(`/payments/${id}`);
+  return data.data;
+};
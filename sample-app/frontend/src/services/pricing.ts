@@ -0,0 +1,70 @@
+import { api } from './api';
+
+export interface QuoteLine {
+  productId: string;
+  name: string;
+  quantity: number;
+  listPrice: number;
+  discountPercent: number;
+  unitPrice: number;
+  lineSavings: number;
+  lineTotal: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  code?: string;
+  amount: number;
+  explanation: string;
+}
+
+export interface RejectedPromotion {
+  promotionId?: string;
+  name?: string;
+  code?: string;
+  reason: string;
+  explanation: string;
+}
+
+// Which promotions applied and which were turned down, and why
+export interface PromotionOutcome {
+  applied: AppliedPromotion[];
+  rejected: RejectedPromotion[];
+}
+
+export interface QuoteTotals {
+  currency: string;
+  itemCount: number;
+  subtotal: number;
+  savings: number;
+  promotionDiscount: number;
+  taxRatePercent: number;
+  tax: number;
+  shipping: number;
+  freeShippingOver: number;
+  /** How much more to spend for free shipping; 0 once it applies */
+  amountToFreeShipping: number;
+  total: number;
+}
+
+export interface Quote {
+  lines: QuoteLine[];
+  promotions: PromotionOutcome;
+  totals: QuoteTotals;
+}
+
+// Totals always come from the server so the cart, checkout and orders agree to the cent
+export const fetchQuote = async (items: { productId: string; quantity: number }[]) => {
+  const { data } = await api.post<{ data: Quote }>('/pricing/quote', { items });
+  return data.data;
+};
+
+// Display price after a percentage discount, rounded half-up in whole cents like
+// the server's effectivePrice, so catalog pages show the price the cart will charge
+export const discountedPrice = (price: number, discount?: number) => {
+  if (!discount) return price;
+  const cents = Math.round(price * 100);
+  const keptBasisPoints = 10000 - Math.round(discount * 100);
+  return Math.floor((cents * keptBasisPoints + 5000) / 10000) / 100;
+};
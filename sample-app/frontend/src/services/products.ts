@@ -0,0 +1,91 @@
+import { api } from './api';
+
+export interface ProductSummary {
+  id: string;
+  name: string;
+  price: number;
+  image: string;
+  rating: number;
+  reviewCount: number;
+  description: string;
+  category: string;
+  /** Derived by the server from stockQuantity */
+  inStock: boolean;
+  /** Units available to sell; stock held by checkouts in progress is already taken out */
+  stockQuantity: number;
+  discount?: number;
+  createdAt?: string;
+  /** Present on search results only */
+  score?: number;
+  /** HTML snippets with matched words wrapped in `<mark>`, present on search results only */
+  highlights?: { name?: string; description?: string };
+}
+
+export type ProductSortBy = 'relevance' | 'name' | 'price-low' | 'price-high' | 'rating' | 'newest';
+
+export interface ProductListMeta {
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+  sortBy: ProductSortBy;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+export interface CatalogFacets {
+  categories: { value: string; count: number }[];
+  price: { key: string; min: number; max?: number; count: number }[];
+  rating: { min: number; count: number }[];
+  inStock: { value: boolean; count: number }[];
+}
+
+export interface ProductListParams {
+  /** Comma-separated for multi-select */
+  category?: string;
+  search?: string;
+  minPrice?: string | number;
+  maxPrice?: string | number;
+  minRating?: string | number;
+  inStock?: string | boolean;
+  sortBy?: ProductSortBy;
+  page?: number;
+  pageSize?: number;
+  cursor?: string;
+}
+
+// `inStock`, `rating` and `reviewCount` are derived by the server
+export type ProductInput = Omit<
+  ProductSummary,
+  'id' | 'inStock' | 'rating' | 'reviewCount' | 'createdAt' | 'score' | 'highlights'
+>;
+
+// `null` clears an optional field such as `discount`
+export type ProductPatch = { [K in keyof ProductInput]?: ProductInput[K] | null };
+
+export const fetchProducts = async (params: ProductListParams = {}) => {
+  const { data } = await api.get<{ data: ProductSummary[]; meta: ProductListMeta; facets: CatalogFacets }>(
+    '/products',
+    { params }
+  );
+  return data;
+};
+
+export const fetchProduct = async (id: string) => {
+  const { data } = await api.get<{ data: ProductSummary }>(`/products/${id}`);
+  return data.data;
+};
+
+export const createProduct = async (input: ProductInput) => {
+  const { data } = await api.post<{ data: ProductSummary }>('/products', input);
+  return data.data;
+};
+
+export const updateProduct = async (id: string, patch: ProductPatch) => {
+  const { data } = await api.patch<{ data: ProductSummary }>(`/products/${id}`, patch);
+  return data.data;
+};
+
+export const deleteProduct = async (id: string) => {
+  await api.delete(`/products/${id}`);
+};
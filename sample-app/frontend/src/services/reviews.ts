@@ -0,0 +1,138 @@
+import { api } from './api';
+
+export type ReviewSort = 'newest' | 'oldest' | 'helpful' | 'rating-high' | 'rating-low';
+
+// Only approved reviews are public; authors also see their own pending or rejected one
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export type RejectionReason = 'PROFANITY' | 'SPAM' | 'OFF_TOPIC' | 'PERSONAL_INFORMATION' | 'OTHER';
+
+export interface ReviewFlag {
+  category: 'profanity' | 'spam';
+  rule: string;
+  message: string;
+}
+
+export interface ReviewModerationEntry {
+  status: 'approved' | 'rejected';
+  reason?: RejectionReason;
+  note?: string;
+  at: string;
+  actor: { id: string; email: string; role: string };
+}
+
+export interface Review {
+  id: string;
+  productId: string;
+  userId: string;
+  authorName: string;
+  rating: number;
+  title?: string;
+  comment: string;
+  status: ReviewStatus;
+  /** What the automatic profanity and spam rules found */
+  flags: ReviewFlag[];
+  moderationHistory: ReviewModerationEntry[];
+  helpfulCount: number;
+  notHelpfulCount: number;
+  /** The author has a delivered order containing the product */
+  verified: boolean;
+  /** The signed-in caller's vote, if they have cast one */
+  viewerFoundHelpful?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RatingSummary {
+  rating: number;
+  reviewCount: number;
+  /** Review count per star, keyed "1" to "5" */
+  distribution: Record<string, number>;
+}
+
+export interface ReviewListMeta {
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+  sortBy: ReviewSort;
+}
+
+export interface ReviewListParams {
+  sortBy?: ReviewSort;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface ReviewInput {
+  rating: number;
+  title?: string;
+  comment: string;
+}
+
+export const fetchReviews = async (productId: string, params: ReviewListParams = {}) => {
+  const { data } = await api.get<{ data: Review[]; meta: ReviewListMeta; summary: RatingSummary }>(
+    `/products/${productId}/reviews`,
+    { params }
+  );
+  return data;
+};
+
+export const createReview = async (productId: string, input: ReviewInput) => {
+  const { data } = await api.post<{ data: Review }>(`/products/${productId}/reviews`, input);
+  return data.data;
+};
+
+// Only the author may edit; an empty title removes it
+export const updateReview = async (productId: string, id: string, input: ReviewInput) => {
+  const { data } = await api.patch<{ data: Review }>(`/products/${productId}/reviews/${id}`, {
+    ...input,
+    title: input.title || null
+  });
+  return data.data;
+};
+
+export const deleteReview = async (productId: string, id: string) => {
+  await api.delete(`/products/${productId}/reviews/${id}`);
+};
+
+// One vote per shopper; voting again replaces it
+export const voteOnReview = async (productId: string, id: string, helpful: boolean) => {
+  const { data } = await api.put<{ data: Review }>(`/products/${productId}/reviews/${id}/vote`, { helpful });
+  return data.data;
+};
+
+export const clearReviewVote = async (productId: string, id: string) => {
+  await api.delete(`/products/${productId}/reviews/${id}/vote`);
+};
+
+export interface QueuedReview extends Omit<Review, 'verified' | 'viewerFoundHelpful'> {
+  productName: string;
+}
+
+export interface ModerationQueueMeta {
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+  status: ReviewStatus;
+  counts: Record<ReviewStatus, number>;
+}
+
+// Needs the reviews:moderate permission
+export const fetchModerationQueue = async (params: { status?: ReviewStatus; page?: number; pageSize?: number } = {}) => {
+  const { data } = await api.get<{ data: QueuedReview[]; meta: ModerationQueueMeta }>('/moderation/reviews', { params });
+  return data;
+};
+
+// Rejecting requires a reason
+export const moderateReview = async (
+  id: string,
+  decision: { status: 'approved' | 'rejected'; reason?: RejectionReason; note?: string }
+) => {
+  const { data } = await api.patch<{ data: Omit<QueuedReview, 'productName'> }>(
+    `/moderation/reviews/${id}/status`,
+    decision
+  );
+  return data.data;
+};
@@ -0,0 +1,12 @@
+import { api } from './api';
+
+export interface SearchSuggestions {
+  products: { id: string; name: string; category: string }[];
+  categories: { value: string; count: number }[];
+  queries: { query: string; count: number }[];
+}
+
+export const fetchSuggestions = async (q: string, signal?: AbortSignal) => {
+  const { data } = await api.get<{ data: SearchSuggestions }>('/search/suggest', { params: { q }, signal });
+  return data.data;
+};
@@ -0,0 +1,35 @@
+import type { AuthUser } from './auth';
+
+const USER_KEY = 'user';
+
+// The access token lives in memory only; after a reload it is restored from
+// the httpOnly refresh cookie the first time a request comes back 401.
+let accessToken: string | null = null;
+
+// Browser-side record of the signed-in user and their access token
+export const saveSession = (user: AuthUser, token: string) => {
+  accessToken = token;
+  localStorage.setItem(USER_KEY, JSON.stringify(user));
+};
+
+export const updateSessionUser = (user: AuthUser) => {
+  localStorage.setItem(USER_KEY, JSON.stringify(user));
+};
+
+export const clearSession = () => {
+  accessToken = null;
+  localStorage.removeItem(USER_KEY);
+};
+
+export const getAccessToken = () => accessToken;
+
+export const getSessionUser = (): AuthUser | null => {
+  const raw = localStorage.getItem(USER_KEY);
+  if (!raw) return null;
+
+  try {
+    return JSON.parse(raw) as AuthUser;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,12 @@
+import { api } from './api';
+import type { AuthUser, UserRole } from './auth';
+
+export const fetchUsers = async () => {
+  const { data } = await api.get<{ data: AuthUser[] }>('/users');
+  return data.data;
+};
+
+export const updateUserRole = async (id: string, role: UserRole) => {
+  const { data } = await api.patch<{ data: AuthUser }>(`/users/${id}/role`, { role });
+  return data.data;
+};
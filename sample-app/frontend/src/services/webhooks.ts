@@ -0,0 +1,97 @@
+import { api } from './api';
+
+export type WebhookEventType = 'order.created' | 'order.status_changed' | 'product.updated' | 'product.deleted' | 'inventory.low';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'order.created',
+  'order.status_changed',
+  'product.updated',
+  'product.deleted',
+  'inventory.low'
+];
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  description?: string;
+  active: boolean;
+  /** Only returned when the subscription is created or its secret rotated */
+  secret?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookAttempt {
+  at: string;
+  durationMs: number;
+  statusCode?: number;
+  error?: string;
+  responseBody?: string;
+  resend?: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: { id: string; type: WebhookEventType; occurredAt: string; data: unknown };
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  failures: number;
+  nextAttemptAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookSubscriptionInput {
+  url: string;
+  events: WebhookEventType[];
+  description?: string;
+  active?: boolean;
+}
+
+// Everything here needs the webhooks:manage permission
+export const fetchWebhooks = async () => {
+  const { data } = await api.get<{ data: WebhookSubscription[] }>('/webhooks');
+  return data.data;
+};
+
+// The response carries the signing secret; it is not shown again
+export const createWebhook = async (input: WebhookSubscriptionInput) => {
+  const { data } = await api.post<{ data: WebhookSubscription }>('/webhooks', input);
+  return data.data;
+};
+
+// `description: null` clears the description
+export const updateWebhook = async (
+  id: string,
+  changes: Partial<Omit<WebhookSubscriptionInput, 'description'>> & { description?: string | null }
+) => {
+  const { data } = await api.patch<{ data: WebhookSubscription }>(`/webhooks/${id}`, changes);
+  return data.data;
+};
+
+export const rotateWebhookSecret = async (id: string) => {
+  const { data } = await api.post<{ data: WebhookSubscription }>(`/webhooks/${id}/secret`);
+  return data.data;
+};
+
+export const deleteWebhook = async (id: string) => {
+  await api.delete(`/webhooks/${id}`);
+};
+
+// Newest first, at most 100
+export const fetchWebhookDeliveries = async (
+  params: { subscriptionId?: string; status?: WebhookDeliveryStatus } = {}
+) => {
+  const { data } = await api.get<{ data: WebhookDelivery[] }>('/webhooks/deliveries', { params });
+  return data.data;
+};
+
+// Sends the delivery again right away with the same event id
+export const resendWebhookDelivery = async (id: string) => {
+  const { data } = await api.post<{ data: WebhookDelivery }>(`/webhooks/deliveries/${id}/resend`);
+  return data.data;
+};